@@ -0,0 +1,167 @@
+/**
+ * オフライン地図パック用 Service Worker
+ *
+ * - 地図タイル: 保存済みパックにあればそれを返す（cache first）
+ * - ページ・アセット・画像: ネットワーク優先、オフライン時は保存済みパックから返す
+ *   （パックがある間は、閲覧したアセットと画像も runtime キャッシュに残す。
+ *   ユーザーごとに内容が変わる Supabase の REST 応答は残さない）
+ * - /api/spots: オフライン時は各パックに保存したスポット一覧を bbox で絞って返す
+ *
+ * キャッシュ名・パスは src/lib/offlinePacks.ts の定数と揃えること。
+ */
+
+const PACK_CACHE_PREFIX = "iwate150-pack-";
+const RUNTIME_CACHE = "iwate150-runtime-v2";
+const RUNTIME_CACHE_PREFIX = "iwate150-runtime-";
+const PACK_SPOTS_PATH = "/__offline/packs";
+const TILE_HOST_PATTERN = /^[a-c]\.tile\.openstreetmap\.org$/;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      // 旧版の runtime キャッシュには他のユーザーの REST 応答が残っている可能性があるので消す
+      const keys = await caches.keys();
+      const staleKeys = keys.filter((key) => key.startsWith(RUNTIME_CACHE_PREFIX) && key !== RUNTIME_CACHE);
+      await Promise.all(staleKeys.map((key) => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+/**
+ * 保存済みパックのキャッシュ名を返す。
+ *
+ * @returns キャッシュ名の配列
+ */
+async function listPackCaches() {
+  const keys = await caches.keys();
+  return keys.filter((key) => key.startsWith(PACK_CACHE_PREFIX));
+}
+
+/**
+ * 保存済みパックから一致するレスポンスを探す。
+ *
+ * @param {Request | string} request - 照合するリクエスト
+ * @param {CacheQueryOptions} [options] - 照合オプション
+ * @returns {Promise<Response | undefined>}
+ */
+async function matchPacks(request, options) {
+  for (const name of [...(await listPackCaches()), RUNTIME_CACHE]) {
+    const cache = await caches.open(name);
+    const response = await cache.match(request, options);
+    if (response) return response;
+  }
+  return undefined;
+}
+
+/**
+ * タイル URL のサブドメインを外して保存時の URL に揃える。
+ *
+ * @param {URL} url - タイル URL
+ * @returns {string}
+ */
+function toCanonicalTileUrl(url) {
+  return `${url.protocol}//tile.openstreetmap.org${url.pathname}`;
+}
+
+/**
+ * タイルを保存済みパックから返し、なければネットワークから取得する。
+ *
+ * @param {Request} request - タイルのリクエスト
+ * @param {URL} url - タイル URL
+ * @returns {Promise<Response>}
+ */
+async function handleTile(request, url) {
+  const cached = await matchPacks(toCanonicalTileUrl(url));
+  return cached ?? fetch(request);
+}
+
+/**
+ * パックがある間、オフラインでも再利用したいレスポンスを runtime キャッシュへ残す。
+ *
+ * @param {Request} request - リクエスト
+ * @param {URL} url - リクエスト URL
+ * @param {Response} response - ネットワークからのレスポンス
+ * @returns {Promise<void>}
+ */
+async function rememberResponse(request, url, response) {
+  const reusable =
+    (url.origin === self.location.origin && url.pathname.startsWith("/_next/")) ||
+    url.pathname.startsWith("/storage/v1/object/");
+  if (!reusable || !response.ok || (await listPackCaches()).length === 0) return;
+  const cache = await caches.open(RUNTIME_CACHE);
+  await cache.put(request, response);
+}
+
+/**
+ * ネットワークを優先し、失敗したら保存済みパックから返す。
+ *
+ * @param {FetchEvent} event - fetch イベント
+ * @param {URL} url - リクエスト URL
+ * @returns {Promise<Response>}
+ */
+async function handleNetworkFirst(event, url) {
+  const { request } = event;
+  try {
+    const response = await fetch(request);
+    event.waitUntil(rememberResponse(request, url, response.clone()));
+    return response;
+  } catch (error) {
+    const cached =
+      (await matchPacks(request)) ??
+      (request.mode === "navigate" ? await matchPacks(request, { ignoreSearch: true }) : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * オフライン時に保存済みパックのスポットから /api/spots の応答を作る。
+ *
+ * @param {Request} request - /api/spots のリクエスト
+ * @param {URL} url - リクエスト URL
+ * @returns {Promise<Response>}
+ */
+async function handleSpots(request, url) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const parts = (url.searchParams.get("bbox") ?? "").split(",").map(Number);
+    if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) throw error;
+    const [west, south, east, north] = parts;
+    const items = new Map();
+    for (const name of await listPackCaches()) {
+      const cache = await caches.open(name);
+      const response = await cache.match(`${PACK_SPOTS_PATH}/${name.slice(PACK_CACHE_PREFIX.length)}/spots.json`);
+      if (!response) continue;
+      const spots = await response.json();
+      spots
+        .filter((spot) => spot.lat >= south && spot.lat <= north && spot.lng >= west && spot.lng <= east)
+        .forEach((spot) => items.set(spot.id, spot));
+    }
+    return new Response(JSON.stringify({ items: [...items.values()], truncated: false }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (TILE_HOST_PATTERN.test(url.hostname) || url.hostname === "tile.openstreetmap.org") {
+    event.respondWith(handleTile(request, url));
+    return;
+  }
+  if (url.origin === self.location.origin && url.pathname === "/api/spots") {
+    event.respondWith(handleSpots(request, url));
+    return;
+  }
+  if (url.origin === self.location.origin && url.pathname.startsWith("/api/")) return;
+  event.respondWith(handleNetworkFirst(event, url));
+});
@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/events.ics/route";
+import { mockEvents } from "@/lib/mockData";
+
+/**
+ * イベント購読フィードへのリクエストを作る。
+ *
+ * @param query - クエリ文字列
+ * @returns NextRequest
+ * @example
+ * const request = buildRequest("cityId=1");
+ */
+function buildRequest(query: string) {
+  return new NextRequest(`http://localhost/api/events.ics?${query}`);
+}
+
+/**
+ * フィード本文から UID の一覧を取り出す。
+ *
+ * @param body - iCalendar 本文
+ * @returns UID
+ * @example
+ * const uids = readUids(await response.text());
+ */
+function readUids(body: string): string[] {
+  return body
+    .split("\r\n")
+    .filter((line) => line.startsWith("UID:"))
+    .map((line) => line.slice(4));
+}
+
+describe("/api/events.ics", () => {
+  it("returns every dated event with stable UIDs", async () => {
+    const response = await GET(buildRequest(""));
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/calendar");
+    expect(readUids(body)).toEqual([
+      "event-1@localhost",
+      "event-2@localhost",
+      "event-3@localhost",
+      "event-4@localhost",
+    ]);
+    expect(readUids(await (await GET(buildRequest(""))).text())).toEqual(readUids(body));
+  });
+
+  it("filters by city and by overlapping date range", async () => {
+    const byCity = await (await GET(buildRequest("cityId=1"))).text();
+    const day = mockEvents[1].start_date as string;
+    const byRange = await (await GET(buildRequest(`from=${day}&to=${day}`))).text();
+
+    // 毎週の朝市（event-4）は終わりのない系列なので、どの期間にも含まれる
+    expect(readUids(byCity)).toEqual(["event-1@localhost", "event-4@localhost"]);
+    expect(byCity).toContain("盛岡市");
+    expect(readUids(byRange)).toEqual(["event-2@localhost", "event-4@localhost"]);
+  });
+
+  it("rejects malformed filters and unknown cities", async () => {
+    expect((await GET(buildRequest("from=2026-02-30"))).status).toBe(400);
+    expect((await GET(buildRequest("from=2026-08-02&to=2026-08-01"))).status).toBe(400);
+    expect((await GET(buildRequest("cityId=abc"))).status).toBe(400);
+    expect((await GET(buildRequest("cityId=999"))).status).toBe(404);
+  });
+});
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { APP_NAME } from "@/lib/config";
+import { buildEventCalendar, buildEventCalendarHeaders, filterCalendarEvents } from "@/lib/eventIcs";
+import { parseDateKey, parsePositiveInteger } from "@/lib/searchQuery";
+import { fetchCities, fetchEvents } from "@/lib/supabaseClient";
+
+/** カレンダーアプリに伝える再取得間隔（時間） */
+const FEED_REFRESH_HOURS = 6;
+
+/**
+ * 岩手のイベントの iCalendar 購読フィード (GET)
+ *
+ * Google カレンダーや Apple カレンダーから URL で購読できる。UID はイベント ID から作るため、
+ * 再取得しても重複せず更新として反映される。
+ * `cityId` で開催市区町村を、`from` / `to`（`YYYY-MM-DD`）で開催期間と重なるイベントを絞り込む。
+ *
+ * @param request - Next.js request
+ * @returns text/calendar のフィード
+ * @example
+ * GET /api/events.ics?cityId=1&from=2026-08-01&to=2026-08-31
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const rawCityId = searchParams.get("cityId");
+  const cityId = parsePositiveInteger(rawCityId);
+  const from = parseDateKey(searchParams.get("from"));
+  const to = parseDateKey(searchParams.get("to"));
+
+  if (rawCityId !== null && !cityId) {
+    return NextResponse.json({ error: "cityId must be a positive integer" }, { status: 400 });
+  }
+  if (from === undefined || to === undefined) {
+    return NextResponse.json({ error: "from and to must be dates in YYYY-MM-DD" }, { status: 400 });
+  }
+  if (from && to && from > to) {
+    return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+  }
+
+  try {
+    const [events, cities] = await Promise.all([fetchEvents(), fetchCities()]);
+    const city = cityId ? cities.find((item) => item.id === cityId) : null;
+    if (cityId && !city) {
+      return NextResponse.json({ error: "City not found." }, { status: 404 });
+    }
+
+    const body = buildEventCalendar(filterCalendarEvents(events, { cityId, from, to }, cities), {
+      name: city ? `${APP_NAME} events – ${city.name}` : `${APP_NAME} events`,
+      cities,
+      refreshHours: FEED_REFRESH_HOURS,
+    });
+    return new NextResponse(body, {
+      headers: buildEventCalendarHeaders(city ? `iwate-events-${city.id}` : "iwate-events", "feed"),
+    });
+  } catch (error) {
+    console.error("[api/events.ics] unexpected error", error);
+    return NextResponse.json({ error: "failed to build calendar feed" }, { status: 500 });
+  }
+}
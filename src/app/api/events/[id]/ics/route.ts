@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { buildEventCalendar, buildEventCalendarHeaders } from "@/lib/eventIcs";
+import { buildEventSlug } from "@/lib/eventRoutes";
+import { fetchCities, fetchEvents } from "@/lib/supabaseClient";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+/**
+ * イベント 1 件を「カレンダーに追加」用の .ics として返す。
+ *
+ * @param _request - Next.js request
+ * @param context - route context
+ * @returns text/calendar のファイル
+ * @example
+ * GET /api/events/3/ics
+ */
+export async function GET(_request: Request, context: RouteContext): Promise<NextResponse> {
+  const { id } = await context.params;
+  const eventId = Number(id);
+  if (!Number.isInteger(eventId) || eventId <= 0) {
+    return NextResponse.json({ error: "id must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const [events, cities] = await Promise.all([fetchEvents(), fetchCities()]);
+    const event = events.find((item) => item.id === eventId);
+    if (!event || !event.start_date) {
+      return NextResponse.json({ error: "Event not found." }, { status: 404 });
+    }
+    return new NextResponse(buildEventCalendar([event], { name: event.title, cities }), {
+      headers: buildEventCalendarHeaders(`event-${buildEventSlug(event)}`),
+    });
+  } catch (error) {
+    console.error("[api/events/ics] unexpected error", error);
+    return NextResponse.json({ error: "failed to build calendar" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GEO_EXPORT_FORMATS, parseGeoExportFormat, serializeGeoExport, spotToExportPlace } from "@/lib/geoExport";
+import { buildStudioErrorResponse } from "@/lib/studioApi";
+import { fetchCities, fetchGenres, fetchSpots, fetchUserFavorites } from "@/lib/supabaseClient";
+import { requireUserApiAccess } from "@/lib/userApi";
+
+/**
+ * ログインユーザーのお気に入りスポットを書き出す (GET)
+ *
+ * @param request - `format`（geojson / gpx / kml）クエリを含む request
+ * @returns ダウンロード用のファイル
+ * @example
+ * GET /api/export/favorites?format=kml
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  const format = parseGeoExportFormat(request.nextUrl.searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: `format must be one of ${GEO_EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const [favorites, spots, cities, genres] = await Promise.all([
+      fetchUserFavorites(access.currentUser.id, access.db),
+      fetchSpots(),
+      fetchCities(),
+      fetchGenres(),
+    ]);
+    const spotById = new Map(spots.map((spot) => [spot.id, spot]));
+    const places = favorites.flatMap((favorite) => {
+      const spot = spotById.get(favorite.spot_id);
+      return spot ? [spotToExportPlace(spot, { cities, genres })] : [];
+    });
+    const { body, headers } = serializeGeoExport(format, { title: "Favorites", places }, "favorites");
+    return new NextResponse(body, { headers });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to export favorites.");
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GEO_EXPORT_FORMATS, parseGeoExportFormat, serializeGeoExport, spotToExportPlace } from "@/lib/geoExport";
+import { parseItineraryQuery } from "@/lib/itinerary";
+import { fetchCities, fetchGenres, fetchSpots } from "@/lib/supabaseClient";
+
+/**
+ * 旅程を訪問順の経路付きで書き出す (GET)
+ *
+ * 旅程の共有 URL と同じ `stops` / `name` クエリを受け付けるため、保存前の旅程もそのまま書き出せる。
+ *
+ * @param request - `stops` / `name` / `format` クエリを含む request
+ * @returns ダウンロード用のファイル
+ * @example
+ * GET /api/export/itinerary?stops=1,4&name=盛岡さんぽ&format=gpx
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const format = parseGeoExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: `format must be one of ${GEO_EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+  const query = parseItineraryQuery(searchParams.get("stops"), searchParams.get("name"));
+  if (query.spotIds.length === 0) {
+    return NextResponse.json({ error: "stops must list at least one spot id" }, { status: 400 });
+  }
+
+  try {
+    const [spots, cities, genres] = await Promise.all([fetchSpots(), fetchCities(), fetchGenres()]);
+    const spotById = new Map(spots.map((spot) => [spot.id, spot]));
+    const places = query.spotIds.flatMap((id) => {
+      const spot = spotById.get(id);
+      return spot ? [spotToExportPlace(spot, { cities, genres })] : [];
+    });
+    const title = query.name || "Itinerary";
+    const { body, headers } = serializeGeoExport(format, { title, places, route: places }, title);
+    return new NextResponse(body, { headers });
+  } catch (error) {
+    console.error("[api/export/itinerary] unexpected error", error);
+    return NextResponse.json({ error: "failed to export itinerary" }, { status: 500 });
+  }
+}
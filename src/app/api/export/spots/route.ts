@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseBoundingBox } from "@/lib/geo";
+import { GEO_EXPORT_FORMATS, parseGeoExportFormat, serializeGeoExport, spotToExportPlace } from "@/lib/geoExport";
+import { normalizeKeyword, parsePositiveInteger, parseSearchOrigin, parseSort } from "@/lib/searchQuery";
+import { fetchCities, fetchGenres, fetchSpotsForExport, SPOT_SEARCH_SORTS } from "@/lib/supabaseClient";
+
+/** 1 回に書き出すスポット数の上限 */
+const EXPORT_MAX_SPOTS = 2000;
+
+/**
+ * スポット書き出し API (GET)
+ *
+ * `/api/search?tab=spot` と同じ絞り込み（keyword / cityId / genreId / lat・lng・radius / bbox / sort）を受け付け、
+ * 該当スポットを `format`（geojson / gpx / kml、既定は geojson）のファイルとして返す。
+ * 件数が多い場合は先頭 `EXPORT_MAX_SPOTS` 件で打ち切り、`X-Export-Truncated: 1` を付ける。
+ *
+ * @param request - Next.js request
+ * @returns ダウンロード用のファイル
+ * @example
+ * GET /api/export/spots?format=gpx&cityId=1
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const format = parseGeoExportFormat(searchParams.get("format"));
+  const rawBbox = searchParams.get("bbox");
+  const bbox = parseBoundingBox(rawBbox);
+  const parsedOrigin = parseSearchOrigin(searchParams);
+  const sort = parseSort(searchParams.get("sort"), SPOT_SEARCH_SORTS);
+
+  if (!format) {
+    return NextResponse.json({ error: `format must be one of ${GEO_EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+  if (rawBbox !== null && !bbox) {
+    return NextResponse.json({ error: "bbox must be 'west,south,east,north' in degrees" }, { status: 400 });
+  }
+  if ("error" in parsedOrigin) {
+    return NextResponse.json({ error: parsedOrigin.error }, { status: 400 });
+  }
+  if (sort === undefined) {
+    return NextResponse.json({ error: "sort is not supported for spot" }, { status: 400 });
+  }
+  if (sort === "distance" && !parsedOrigin.origin) {
+    return NextResponse.json({ error: "sort=distance requires lat and lng" }, { status: 400 });
+  }
+
+  try {
+    const [cities, genres, { items, truncated }] = await Promise.all([
+      fetchCities(),
+      fetchGenres(),
+      fetchSpotsForExport(
+        {
+          keyword: normalizeKeyword(searchParams.get("keyword")),
+          cityId: parsePositiveInteger(searchParams.get("cityId")),
+          genreId: parsePositiveInteger(searchParams.get("genreId")),
+          near: parsedOrigin.origin,
+          bbox,
+          sort,
+        },
+        EXPORT_MAX_SPOTS
+      ),
+    ]);
+
+    const { body, headers } = serializeGeoExport(
+      format,
+      { title: "Iwate spots", places: items.map((spot) => spotToExportPlace(spot, { cities, genres })) },
+      "iwate-spots"
+    );
+    return new NextResponse(body, { headers: truncated ? { ...headers, "X-Export-Truncated": "1" } : headers });
+  } catch (error) {
+    console.error("[api/export/spots] unexpected error", error);
+    return NextResponse.json({ error: "failed to export spots" }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, GET, POST } from "@/app/api/favorites/route";
+
+const {
+  mockRequireUserApiAccess,
+  mockFetchUserFavorites,
+  mockAddFavorite,
+  mockRemoveFavorite,
+  mockFetchSpot,
+} = vi.hoisted(() => ({
+  mockRequireUserApiAccess: vi.fn(),
+  mockFetchUserFavorites: vi.fn(),
+  mockAddFavorite: vi.fn(),
+  mockRemoveFavorite: vi.fn(),
+  mockFetchSpot: vi.fn(),
+}));
+
+vi.mock("@/lib/studioApi", () => ({
+  buildStudioErrorResponse: (error: unknown, fallbackMessage: string) =>
+    NextResponse.json(
+      { error: error instanceof Error ? error.message : fallbackMessage },
+      { status: error instanceof Error ? 400 : 500 }
+    ),
+  parseRequiredInteger: (value: unknown, fieldName: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${fieldName} must be a positive integer.`);
+    }
+    return parsed;
+  },
+  readJsonObject: async (request: Request) => (await request.json()) as Record<string, unknown>,
+}));
+
+vi.mock("@/lib/userApi", () => ({
+  requireUserApiAccess: mockRequireUserApiAccess,
+}));
+
+vi.mock("@/lib/supabaseClient", () => ({
+  addFavorite: mockAddFavorite,
+  fetchSpot: mockFetchSpot,
+  fetchUserFavorites: mockFetchUserFavorites,
+  removeFavorite: mockRemoveFavorite,
+}));
+
+const currentUser = {
+  id: 5,
+  auth_id: "user_5",
+  email: "traveler@example.com",
+  role: "user",
+  display_name: "Traveler",
+  created_at: "2026-03-12T00:00:00.000Z",
+};
+
+describe("/api/favorites", () => {
+  beforeEach(() => {
+    mockRequireUserApiAccess.mockReset();
+    mockFetchUserFavorites.mockReset();
+    mockAddFavorite.mockReset();
+    mockRemoveFavorite.mockReset();
+    mockFetchSpot.mockReset();
+  });
+
+  it("returns 401 for guests", async () => {
+    mockRequireUserApiAccess.mockResolvedValue({
+      response: NextResponse.json({ error: "Authentication required." }, { status: 401 }),
+    });
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+    expect(mockFetchUserFavorites).not.toHaveBeenCalled();
+  });
+
+  it("lists favorites of the session user", async () => {
+    mockRequireUserApiAccess.mockResolvedValue({ currentUser, db: null });
+    mockFetchUserFavorites.mockResolvedValue([
+      { id: 1, user_id: 5, spot_id: 3, created_at: "2026-03-12T00:00:00.000Z" },
+    ]);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    expect(mockFetchUserFavorites).toHaveBeenCalledWith(5, null);
+    await expect(response.json()).resolves.toEqual({
+      items: [{ id: 1, user_id: 5, spot_id: 3, created_at: "2026-03-12T00:00:00.000Z" }],
+    });
+  });
+
+  it("returns 404 when saving an unknown spot", async () => {
+    mockRequireUserApiAccess.mockResolvedValue({ currentUser, db: null });
+    mockFetchSpot.mockResolvedValue(null);
+
+    const response = await POST(
+      new Request("http://localhost/api/favorites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ spot_id: 999 }),
+      })
+    );
+
+    expect(response.status).toBe(404);
+    expect(mockAddFavorite).not.toHaveBeenCalled();
+  });
+
+  it("saves and removes a favorite for the session user", async () => {
+    mockRequireUserApiAccess.mockResolvedValue({ currentUser, db: null });
+    mockFetchSpot.mockResolvedValue({ id: 3, name: "龍泉洞" });
+    mockAddFavorite.mockResolvedValue({ id: 2, user_id: 5, spot_id: 3, created_at: "2026-03-12T00:00:00.000Z" });
+
+    const created = await POST(
+      new Request("http://localhost/api/favorites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ spot_id: 3 }),
+      })
+    );
+    const removed = await DELETE(new NextRequest("http://localhost/api/favorites?spotId=3", { method: "DELETE" }));
+
+    expect(created.status).toBe(201);
+    expect(mockAddFavorite).toHaveBeenCalledWith(5, 3, null);
+    expect(removed.status).toBe(204);
+    expect(mockRemoveFavorite).toHaveBeenCalledWith(5, 3, null);
+  });
+});
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildStudioErrorResponse, parseRequiredInteger, readJsonObject } from "@/lib/studioApi";
+import { addFavorite, fetchSpot, fetchUserFavorites, removeFavorite } from "@/lib/supabaseClient";
+import { requireUserApiAccess } from "@/lib/userApi";
+
+/**
+ * ログインユーザーのお気に入り一覧を返す。
+ *
+ * @returns `{ items: Favorite[] }`
+ * @example
+ * GET /api/favorites
+ */
+export async function GET(): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const items = await fetchUserFavorites(access.currentUser.id, access.db);
+    return NextResponse.json({ items });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to load favorites.");
+  }
+}
+
+/**
+ * スポットをお気に入りへ追加する。
+ *
+ * @param request - `{ spot_id: number }` を含む request
+ * @returns 追加済みお気に入り
+ * @example
+ * POST /api/favorites { "spot_id": 1 }
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const spotId = parseRequiredInteger(body.spot_id, "spot_id");
+    const spot = await fetchSpot(spotId);
+    if (!spot) {
+      return NextResponse.json({ error: "Spot not found." }, { status: 404 });
+    }
+    const favorite = await addFavorite(access.currentUser.id, spotId, access.db);
+    return NextResponse.json(favorite, { status: 201 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to save favorite.");
+  }
+}
+
+/**
+ * スポットをお気に入りから外す。
+ *
+ * @param request - `spotId` クエリを含む request
+ * @returns 204 response
+ * @example
+ * DELETE /api/favorites?spotId=1
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const spotId = parseRequiredInteger(request.nextUrl.searchParams.get("spotId"), "spotId");
+    await removeFavorite(access.currentUser.id, spotId, access.db);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to remove favorite.");
+  }
+}
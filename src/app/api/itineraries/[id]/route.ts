@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { buildStudioErrorResponse, parseRequiredInteger, readJsonObject } from "@/lib/studioApi";
+import { parseTripPlanUpdateInput } from "@/lib/tripPlanPayloads";
+import { deleteTripPlan, updateTripPlan } from "@/lib/supabaseClient";
+import { requireUserApiAccess } from "@/lib/userApi";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+/**
+ * 自分の旅程の名前・訪問順を更新する。
+ *
+ * @param request - `{ name?: string, spot_ids?: number[] }` を含む request
+ * @param context - route context
+ * @returns 更新後の旅程
+ * @example
+ * PATCH /api/itineraries/3 { "name": "平泉めぐり" }
+ */
+export async function PATCH(request: Request, context: RouteContext): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const planId = parseRequiredInteger(id, "id");
+    const input = parseTripPlanUpdateInput(await readJsonObject(request));
+    const plan = await updateTripPlan(access.currentUser.id, planId, input, access.db);
+    if (!plan) {
+      return NextResponse.json({ error: "Trip plan not found." }, { status: 404 });
+    }
+    return NextResponse.json(plan);
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to update trip plan.");
+  }
+}
+
+/**
+ * 自分の旅程を削除する。
+ *
+ * @param _request - Next.js request
+ * @param context - route context
+ * @returns 204 response
+ * @example
+ * DELETE /api/itineraries/3
+ */
+export async function DELETE(_request: Request, context: RouteContext): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const planId = parseRequiredInteger(id, "id");
+    const deleted = await deleteTripPlan(access.currentUser.id, planId, access.db);
+    if (!deleted) {
+      return NextResponse.json({ error: "Trip plan not found." }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to delete trip plan.");
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/itineraries/route";
+import { DELETE, PATCH } from "@/app/api/itineraries/[id]/route";
+
+const { mockRequireUserApiAccess } = vi.hoisted(() => ({
+  mockRequireUserApiAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/studioApi", () => ({
+  buildStudioErrorResponse: (error: unknown, fallbackMessage: string) =>
+    NextResponse.json(
+      { error: error instanceof Error ? error.message : fallbackMessage },
+      { status: error instanceof Error ? 400 : 500 }
+    ),
+  parseRequiredInteger: (value: unknown, fieldName: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${fieldName} must be a positive integer.`);
+    }
+    return parsed;
+  },
+  parseRequiredIdList: (value: unknown, fieldName: string) => {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error(`${fieldName} must be a non-empty array.`);
+    }
+    const ids = value.map(Number);
+    if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+      throw new Error(`${fieldName} must be a positive integer.`);
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new Error(`${fieldName} must not contain duplicates.`);
+    }
+    return ids;
+  },
+  parseRequiredString: (value: unknown, fieldName: string) => {
+    if (typeof value !== "string" || !value.trim()) {
+      throw new Error(`${fieldName} is required.`);
+    }
+    return value.trim();
+  },
+  readJsonObject: async (request: Request) => (await request.json()) as Record<string, unknown>,
+}));
+
+vi.mock("@/lib/userApi", () => ({
+  requireUserApiAccess: mockRequireUserApiAccess,
+}));
+
+/**
+ * JSON body 付きのリクエストを作る。
+ *
+ * @param method - HTTP method
+ * @param body - JSON body
+ * @returns Request
+ * @example
+ * const request = buildJsonRequest("POST", { name: "盛岡" });
+ */
+function buildJsonRequest(method: string, body: unknown) {
+  return new Request("http://localhost/api/itineraries", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * 動的ルートの context を作る。
+ *
+ * @param id - 旅程 ID
+ * @returns route context
+ * @example
+ * const context = buildContext(1);
+ */
+function buildContext(id: number) {
+  return { params: Promise.resolve({ id: String(id) }) };
+}
+
+describe("/api/itineraries", () => {
+  beforeEach(() => {
+    mockRequireUserApiAccess.mockReset();
+  });
+
+  it("returns 401 for guests", async () => {
+    mockRequireUserApiAccess.mockResolvedValue({
+      response: NextResponse.json({ error: "Authentication required." }, { status: 401 }),
+    });
+
+    expect((await GET()).status).toBe(401);
+  });
+
+  it("saves, renames and deletes named plans of the session user", async () => {
+    mockRequireUserApiAccess.mockResolvedValue({ currentUser: { id: 71 }, db: null });
+
+    const created = await POST(buildJsonRequest("POST", { name: " 盛岡さんぽ ", spot_ids: [1, 4] }));
+    const plan = await created.json();
+    expect(created.status).toBe(201);
+    expect(plan).toMatchObject({ user_id: 71, name: "盛岡さんぽ", spot_ids: [1, 4] });
+
+    const renamed = await PATCH(buildJsonRequest("PATCH", { name: "盛岡ランチ" }), buildContext(plan.id));
+    expect((await renamed.json()).name).toBe("盛岡ランチ");
+
+    const listed = await (await GET()).json();
+    expect(listed.items.map((item: { name: string }) => item.name)).toEqual(["盛岡ランチ"]);
+
+    expect((await DELETE(new Request("http://localhost"), buildContext(plan.id))).status).toBe(204);
+    expect((await DELETE(new Request("http://localhost"), buildContext(plan.id))).status).toBe(404);
+  });
+
+  it("rejects invalid stop lists and other users' plans", async () => {
+    mockRequireUserApiAccess.mockResolvedValue({ currentUser: { id: 72 }, db: null });
+    const created = await (await POST(buildJsonRequest("POST", { name: "平泉", spot_ids: [2] }))).json();
+
+    expect((await POST(buildJsonRequest("POST", { name: "空", spot_ids: [] }))).status).toBe(400);
+    expect((await POST(buildJsonRequest("POST", { name: "重複", spot_ids: [1, 1] }))).status).toBe(400);
+
+    mockRequireUserApiAccess.mockResolvedValue({ currentUser: { id: 73 }, db: null });
+    expect((await PATCH(buildJsonRequest("PATCH", { name: "乗っ取り" }), buildContext(created.id))).status).toBe(404);
+  });
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { buildStudioErrorResponse, readJsonObject } from "@/lib/studioApi";
+import { parseTripPlanCreateInput } from "@/lib/tripPlanPayloads";
+import { createTripPlan, fetchUserTripPlans } from "@/lib/supabaseClient";
+import { requireUserApiAccess } from "@/lib/userApi";
+
+/**
+ * ログインユーザーの保存済み旅程一覧を返す。
+ *
+ * @returns `{ items: TripPlan[] }`
+ * @example
+ * GET /api/itineraries
+ */
+export async function GET(): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const items = await fetchUserTripPlans(access.currentUser.id, access.db);
+    return NextResponse.json({ items });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to load trip plans.");
+  }
+}
+
+/**
+ * 名前付きの旅程を保存する。
+ *
+ * @param request - `{ name: string, spot_ids: number[] }` を含む request
+ * @returns 保存した旅程
+ * @example
+ * POST /api/itineraries { "name": "盛岡さんぽ", "spot_ids": [1, 4] }
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const input = parseTripPlanCreateInput(await readJsonObject(request));
+    const plan = await createTripPlan(access.currentUser.id, input, access.db);
+    return NextResponse.json(plan, { status: 201 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to save trip plan.");
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/search/route";
+import { mockEvents } from "@/lib/mockData";
+
+/**
+ * `YYYY-MM-DD` の日付を日数だけずらす。
+ *
+ * @param key - 日付
+ * @param days - ずらす日数
+ * @returns ずらした日付
+ * @example
+ * shiftDateKey("2026-08-01", 7); // => "2026-08-08"
+ */
+function shiftDateKey(key: string, days: number) {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 検索 API へのリクエストを作る。
+ *
+ * @param query - クエリ文字列
+ * @returns NextRequest
+ * @example
+ * const request = buildRequest("tab=spot");
+ */
+function buildRequest(query: string) {
+  return new NextRequest(`http://localhost/api/search?${query}`);
+}
+
+describe("/api/search", () => {
+  it("sorts spots by distance and attaches the distance when a location is given", async () => {
+    const response = await GET(buildRequest("tab=spot&lat=39.7037&lng=141.1527"));
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.items.map((spot: { name: string }) => spot.name)).toEqual([
+      "わんこそば体験",
+      "盛岡城跡公園",
+      "龍泉洞",
+      "中尊寺 金色堂",
+    ]);
+    expect(payload.items[0].distance).toBeLessThan(50);
+  });
+
+  it("limits results to the radius and keeps keyword filters", async () => {
+    const response = await GET(buildRequest("tab=spot&lat=39.7040&lng=141.1530&radius=1000&keyword=そば"));
+    const payload = await response.json();
+
+    expect(payload.total).toBe(1);
+    expect(payload.items[0].name).toBe("わんこそば体験");
+  });
+
+  it("filters spots inside a bounding box", async () => {
+    const response = await GET(buildRequest("tab=spot&bbox=141.0,38.9,141.2,39.0"));
+    const payload = await response.json();
+
+    expect(payload.items.map((spot: { name: string }) => spot.name)).toEqual(["中尊寺 金色堂"]);
+    expect(payload.items[0].distance).toBeUndefined();
+  });
+
+  it("sorts by name or newest and reports facets that ignore their own filter", async () => {
+    const byNewest = await (await GET(buildRequest("tab=spot&sort=newest&cityId=1"))).json();
+
+    expect(byNewest.sort).toBe("newest");
+    expect(byNewest.items.map((spot: { id: number }) => spot.id)).toEqual([4, 1]);
+    expect(byNewest.facets.cities).toEqual([
+      { id: 1, count: 2 },
+      { id: 2, count: 1 },
+      { id: 3, count: 1 },
+    ]);
+    expect(byNewest.facets.genres).toEqual([
+      { id: 1, count: 1 },
+      { id: 3, count: 1 },
+    ]);
+
+    const byName = await (await GET(buildRequest("tab=event&sort=name"))).json();
+    expect(byName.items.map((event: { title: string }) => event.title)).toEqual(
+      [...byName.items.map((event: { title: string }) => event.title)].sort((left, right) => left.localeCompare(right, "ja"))
+    );
+    expect(byName.facets.genres).toEqual([]);
+  });
+
+  it("expands recurring events within the requested date range", async () => {
+    const market = mockEvents[3];
+    const first = market.start_date as string;
+    const response = await GET(buildRequest(`tab=event&from=${first}&to=${shiftDateKey(first, 35)}&pageSize=100`));
+    const payload = await response.json();
+    const occurrences = payload.items.filter((event: { id: number }) => event.id === market.id);
+
+    expect(response.status).toBe(200);
+    // 4 週目（例外日）を除いた毎週の回が並ぶ
+    expect(occurrences.map((event: { start_date: string }) => event.start_date)).toEqual(
+      [0, 7, 14, 21, 35].map((days) => shiftDateKey(first, days))
+    );
+    expect(payload.items.map((event: { start_date: string }) => event.start_date)).toEqual(
+      [...payload.items.map((event: { start_date: string }) => event.start_date)].sort()
+    );
+
+    const upcoming = await (await GET(buildRequest("tab=event&keyword=よ市"))).json();
+    expect(upcoming.items[0].start_date >= shiftDateKey(first, 21)).toBe(true);
+  });
+
+  it("pages through results with an opaque cursor", async () => {
+    const first = await (await GET(buildRequest("tab=spot&sort=name&pageSize=3"))).json();
+    expect(first.items).toHaveLength(3);
+    expect(first.hasNext).toBe(true);
+    expect(typeof first.nextCursor).toBe("string");
+
+    const second = await (
+      await GET(buildRequest(`tab=spot&sort=name&pageSize=3&cursor=${first.nextCursor}`))
+    ).json();
+    expect(second.items).toHaveLength(1);
+    expect(second.hasNext).toBe(false);
+    expect(second.nextCursor).toBeNull();
+    expect([...first.items, ...second.items].map((spot: { id: number }) => spot.id).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it("rejects cursors issued for a different query", async () => {
+    const first = await (await GET(buildRequest("tab=spot&sort=name&pageSize=1"))).json();
+
+    const changed = await GET(buildRequest(`tab=spot&sort=newest&pageSize=1&cursor=${first.nextCursor}`));
+    const garbage = await GET(buildRequest("tab=spot&cursor=not-a-cursor"));
+
+    expect(changed.status).toBe(400);
+    expect(garbage.status).toBe(400);
+  });
+
+  it("rejects malformed location, sort and date range parameters", async () => {
+    const cases = [
+      "tab=spot&lat=39.7",
+      "tab=spot&radius=500",
+      "tab=spot&lat=39.7&lng=141.1&radius=-1",
+      "tab=spot&bbox=141.2,38.9,141.0,39.0",
+      "tab=event&lat=39.7&lng=141.1",
+      "tab=spot&sort=distance",
+      "tab=spot&sort=date",
+      "tab=event&sort=distance",
+      "tab=event&from=2026-08-01",
+      "tab=event&from=2026-02-30&to=2026-03-01",
+      "tab=event&from=2026-08-02&to=2026-08-01",
+      "tab=spot&from=2026-08-01&to=2026-08-31",
+    ];
+
+    for (const query of cases) {
+      const response = await GET(buildRequest(query));
+      expect(response.status, query).toBe(400);
+    }
+  });
+});
@@ -1,49 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
-import { searchEvents, searchSpots } from "@/lib/supabaseClient";
+import { parseBoundingBox } from "@/lib/geo";
+import { SearchCursorError } from "@/lib/searchCursor";
+import {
+  normalizeKeyword,
+  parseDateKey,
+  parsePositiveInteger,
+  parseSearchOrigin,
+  parseSort,
+} from "@/lib/searchQuery";
+import {
+  EVENT_SEARCH_SORTS,
+  searchEvents,
+  searchSpots,
+  SPOT_SEARCH_SORTS,
+} from "@/lib/supabaseClient";
 
 const DEFAULT_PAGE_SIZE = 50;
 const MAX_PAGE_SIZE = 100;
-const MAX_KEYWORD_LENGTH = 100;
-
-/**
- * 文字列を正の整数として安全に解析する。
- *
- * @param value - 入力文字列
- * @returns 正の整数。無効値は null
- * @example
- * const page = parsePositiveInteger("2");
- */
-function parsePositiveInteger(value: string | null): number | null {
-  if (!value) return null;
-  const num = Number(value);
-  if (!Number.isFinite(num)) return null;
-  const safe = Math.floor(num);
-  return safe > 0 ? safe : null;
-}
-
-/**
- * キーワードを正規化する。
- *
- * @param raw - 生キーワード
- * @returns 正規化済みキーワード
- * @example
- * const keyword = normalizeKeyword("  盛岡  ");
- */
-function normalizeKeyword(raw: string | null): string {
-  if (!raw) return "";
-  return raw.trim().slice(0, MAX_KEYWORD_LENGTH);
-}
 
 /**
  * 検索 API (GET)
  *
- * - tab=spot: 市区町村+ジャンル+キーワード
- * - tab=event: 市区町村+キーワード
+ * - tab=spot: 市区町村+ジャンル+キーワード+位置（lat/lng/radius, bbox=west,south,east,north）
+ * - tab=event: 市区町村+キーワード+表示範囲（from/to、繰り返しイベントは範囲内の回に展開）
+ *
+ * 位置指定時のスポットは距離順になり、各項目に `distance`（m）が付く。
+ * `sort`（spot: relevance/distance/name/newest, event: relevance/date/name/newest）で並び順を変えられ、
+ * 結果には市区町村・ジャンル別件数（`facets`）が付く。
+ * `page` の代わりに前回の `nextCursor` を `cursor` に渡すと続きを取得できる。
  *
  * @param request - Next.js request
  * @returns ページング結果 JSON
  * @example
- * GET /api/search?tab=spot&page=1&pageSize=50
+ * GET /api/search?tab=spot&lat=39.70&lng=141.15&radius=3000
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   const searchParams = request.nextUrl.searchParams;
@@ -54,6 +43,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   const cityId = parsePositiveInteger(searchParams.get("cityId"));
   const genreId = parsePositiveInteger(searchParams.get("genreId"));
   const keyword = normalizeKeyword(searchParams.get("keyword"));
+  const cursor = searchParams.get("cursor") || null;
+  const rawBbox = searchParams.get("bbox");
+  const bbox = parseBoundingBox(rawBbox);
+  const parsedOrigin = parseSearchOrigin(searchParams);
+  const sort = parseSort(searchParams.get("sort"), tab === "event" ? EVENT_SEARCH_SORTS : SPOT_SEARCH_SORTS);
+  const from = parseDateKey(searchParams.get("from"));
+  const to = parseDateKey(searchParams.get("to"));
 
   if (tab !== "spot" && tab !== "event") {
     return NextResponse.json(
@@ -69,14 +65,62 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     );
   }
 
+  if (tab === "spot" && (from || to)) {
+    return NextResponse.json(
+      { error: "date range filters are not supported for spots" },
+      { status: 400 }
+    );
+  }
+
+  if (from === undefined || to === undefined) {
+    return NextResponse.json({ error: "from and to must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  if (Boolean(from) !== Boolean(to) || (from && to && from > to)) {
+    return NextResponse.json(
+      { error: "from and to must be specified together, with from on or before to" },
+      { status: 400 }
+    );
+  }
+
+  if (rawBbox !== null && !bbox) {
+    return NextResponse.json(
+      { error: "bbox must be 'west,south,east,north' in degrees" },
+      { status: 400 }
+    );
+  }
+
+  if ("error" in parsedOrigin) {
+    return NextResponse.json({ error: parsedOrigin.error }, { status: 400 });
+  }
+
+  if (tab === "event" && (bbox || parsedOrigin.origin)) {
+    return NextResponse.json(
+      { error: "location filters are not supported for events" },
+      { status: 400 }
+    );
+  }
+
+  if (sort === undefined) {
+    return NextResponse.json({ error: `sort is not supported for ${tab}` }, { status: 400 });
+  }
+
+  if (sort === "distance" && !parsedOrigin.origin) {
+    return NextResponse.json({ error: "sort=distance requires lat and lng" }, { status: 400 });
+  }
+
   try {
     if (tab === "spot") {
       const result = await searchSpots({
         keyword,
         cityId,
         genreId,
+        near: parsedOrigin.origin,
+        bbox,
+        sort,
         page,
         pageSize,
+        cursor,
       });
       return NextResponse.json(result);
     }
@@ -84,11 +128,18 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const result = await searchEvents({
       keyword,
       cityId,
+      from,
+      to,
+      sort,
       page,
       pageSize,
+      cursor,
     });
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof SearchCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("[api/search] unexpected error", error);
     return NextResponse.json(
       { error: "failed to execute search" },
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildSearchSuggestions, SEARCH_SUGGEST_DEFAULT_LIMIT } from "@/lib/searchSuggest";
+import { fetchCities, fetchEvents, fetchGenres, fetchSpots } from "@/lib/supabaseClient";
+
+const MAX_LIMIT = 20;
+const MAX_KEYWORD_LENGTH = 100;
+
+/**
+ * 件数指定を安全な範囲へ丸める。
+ *
+ * @param value - 入力文字列
+ * @returns 1〜MAX_LIMIT の件数
+ * @example
+ * const limit = parseLimit("5");
+ */
+function parseLimit(value: string | null): number {
+  const num = Number(value);
+  if (!value || !Number.isFinite(num)) return SEARCH_SUGGEST_DEFAULT_LIMIT;
+  return Math.min(MAX_LIMIT, Math.max(1, Math.floor(num)));
+}
+
+/**
+ * 検索サジェスト API (GET)
+ *
+ * 入力途中のキーワードに一致するスポット・イベント・市区町村・ジャンルを、種別タグと一致範囲付きで返す。
+ *
+ * @param request - Next.js request
+ * @returns `{ items: SearchSuggestion[] }`
+ * @example
+ * GET /api/search/suggest?keyword=もり&limit=8
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const keyword = (searchParams.get("keyword") ?? "").trim().slice(0, MAX_KEYWORD_LENGTH);
+  const limit = parseLimit(searchParams.get("limit"));
+
+  if (!keyword) {
+    return NextResponse.json({ items: [] });
+  }
+
+  try {
+    const [spots, events, cities, genres] = await Promise.all([
+      fetchSpots(),
+      fetchEvents(),
+      fetchCities(),
+      fetchGenres(),
+    ]);
+    const items = buildSearchSuggestions(keyword, { spots, events, cities, genres }, limit);
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("[api/search/suggest] unexpected error", error);
+    return NextResponse.json(
+      { error: "failed to build suggestions" },
+      { status: 500 }
+    );
+  }
+}
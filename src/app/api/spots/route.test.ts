@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/spots/route";
+
+/**
+ * 範囲内スポット API へのリクエストを作る。
+ *
+ * @param query - クエリ文字列
+ * @returns NextRequest
+ * @example
+ * const request = buildRequest("bbox=141.0,39.6,141.3,39.8");
+ */
+function buildRequest(query: string) {
+  return new NextRequest(`http://localhost/api/spots?${query}`);
+}
+
+describe("/api/spots", () => {
+  it("returns only spots inside the bounding box", async () => {
+    const response = await GET(buildRequest("bbox=141.0,39.6,141.3,39.8"));
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.items.map((spot: { id: number }) => spot.id)).toEqual([1, 4]);
+    expect(payload.truncated).toBe(false);
+  });
+
+  it("reports truncation when the limit is reached", async () => {
+    const payload = await (await GET(buildRequest("bbox=140.5,38.5,142.5,40.5&limit=2"))).json();
+
+    expect(payload.items).toHaveLength(2);
+    expect(payload.truncated).toBe(true);
+  });
+
+  it("rejects a missing or malformed bbox", async () => {
+    expect((await GET(buildRequest(""))).status).toBe(400);
+    expect((await GET(buildRequest("bbox=141,39,abc,40"))).status).toBe(400);
+  });
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseBoundingBox } from "@/lib/geo";
+import { fetchSpotsInBounds, SPOTS_IN_BOUNDS_LIMIT } from "@/lib/supabaseClient";
+
+const MAX_LIMIT = 2000;
+
+/**
+ * 件数指定を安全な範囲へ丸める。
+ *
+ * @param value - 入力文字列
+ * @returns 1〜MAX_LIMIT の件数
+ * @example
+ * const limit = parseLimit("200");
+ */
+function parseLimit(value: string | null): number {
+  const num = Number(value);
+  if (!value || !Number.isFinite(num)) return SPOTS_IN_BOUNDS_LIMIT;
+  return Math.min(MAX_LIMIT, Math.max(1, Math.floor(num)));
+}
+
+/**
+ * 範囲内スポット API (GET)
+ *
+ * 地図の表示範囲（`bbox=west,south,east,north`）に含まれるスポットを返す。
+ * 上限で打ち切った場合は `truncated: true` を返すので、クライアントはズームを促す。
+ *
+ * @param request - Next.js request
+ * @returns `{ items: Spot[], truncated: boolean }`
+ * @example
+ * GET /api/spots?bbox=141.0,39.6,141.3,39.8&limit=500
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const bounds = parseBoundingBox(searchParams.get("bbox"));
+  if (!bounds) {
+    return NextResponse.json(
+      { error: "bbox must be west,south,east,north" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await fetchSpotsInBounds(bounds, parseLimit(searchParams.get("limit")));
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[api/spots] unexpected error", error);
+    return NextResponse.json(
+      { error: "failed to load spots" },
+      { status: 500 }
+    );
+  }
+}
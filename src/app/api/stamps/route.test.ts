@@ -0,0 +1,161 @@
+import { NextResponse } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/stamps/route";
+
+const { mockRequireUserApiAccess, mockFetchSpot, mockHasStamp, mockCreateStamp } = vi.hoisted(() => ({
+  mockRequireUserApiAccess: vi.fn(),
+  mockFetchSpot: vi.fn(),
+  mockHasStamp: vi.fn(),
+  mockCreateStamp: vi.fn(),
+}));
+
+vi.mock("@/lib/studioApi", () => ({
+  buildStudioErrorResponse: (error: unknown, fallbackMessage: string) =>
+    NextResponse.json(
+      { error: error instanceof Error ? error.message : fallbackMessage },
+      { status: error instanceof Error ? 400 : 500 }
+    ),
+  parseRequiredInteger: (value: unknown, fieldName: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${fieldName} must be a positive integer.`);
+    }
+    return parsed;
+  },
+  parseOptionalString: (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null),
+  parseRequiredNumber: (value: unknown, fieldName: string) => {
+    const parsed = typeof value === "number" ? value : Number.NaN;
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`${fieldName} must be a valid number.`);
+    }
+    return parsed;
+  },
+  readJsonObject: async (request: Request) => (await request.json()) as Record<string, unknown>,
+}));
+
+vi.mock("@/lib/userApi", () => ({
+  requireUserApiAccess: mockRequireUserApiAccess,
+}));
+
+vi.mock("@/lib/supabaseClient", () => ({
+  createStamp: mockCreateStamp,
+  fetchSpot: mockFetchSpot,
+  hasStamp: mockHasStamp,
+}));
+
+const db = { from: vi.fn() };
+const currentUser = {
+  id: 8,
+  auth_id: "user_8",
+  email: "traveler@example.com",
+  role: "user",
+  display_name: "Traveler",
+  created_at: "2026-03-12T00:00:00.000Z",
+};
+const moriokaCastle = {
+  id: 1,
+  name: "盛岡城跡公園",
+  description: "説明",
+  city_id: 1,
+  genre_id: 1,
+  lat: 39.7021,
+  lng: 141.1527,
+};
+
+/**
+ * スタンプ申請 request を生成する。
+ *
+ * @param body - JSON body
+ * @returns Request
+ * @example
+ * buildRequest({ spot_id: 1 });
+ */
+function buildRequest(body: Record<string, unknown>): Request {
+  return new Request("http://localhost/api/stamps", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/stamps", () => {
+  beforeEach(() => {
+    mockRequireUserApiAccess.mockReset();
+    mockFetchSpot.mockReset();
+    mockHasStamp.mockReset();
+    mockCreateStamp.mockReset();
+    mockRequireUserApiAccess.mockResolvedValue({ currentUser, db });
+    mockFetchSpot.mockResolvedValue(moriokaCastle);
+    mockHasStamp.mockResolvedValue(false);
+  });
+
+  it("rejects a position outside the stamp radius", async () => {
+    const response = await POST(buildRequest({ spot_id: 1, lat: 39.7171, lng: 141.1527, accuracy: 10 }));
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toEqual(expect.objectContaining({ reason: "too_far" }));
+    expect(mockCreateStamp).not.toHaveBeenCalled();
+  });
+
+  it("rejects implausible GPS accuracy", async () => {
+    const coarse = await POST(buildRequest({ spot_id: 1, lat: 39.7021, lng: 141.1527, accuracy: 2500 }));
+    const zero = await POST(buildRequest({ spot_id: 1, lat: 39.7021, lng: 141.1527, accuracy: 0 }));
+
+    expect(coarse.status).toBe(422);
+    expect(zero.status).toBe(422);
+    expect(mockCreateStamp).not.toHaveBeenCalled();
+  });
+
+  it("ignores a client supplied user id and stamps for the session user", async () => {
+    mockCreateStamp.mockResolvedValue({ id: 30, user_id: 8, spot_id: 1, created_at: "2026-03-12T00:00:00.000Z" });
+
+    const response = await POST(
+      buildRequest({ spot_id: 1, user_id: 999, lat: 39.7025, lng: 141.1529, accuracy: 15 })
+    );
+
+    expect(response.status).toBe(201);
+    expect(mockCreateStamp).toHaveBeenCalledWith(8, 1, db, undefined);
+  });
+
+  it("keeps the capture time of a stamp replayed from the offline queue", async () => {
+    const capturedAt = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    mockCreateStamp.mockResolvedValue({
+      id: 31,
+      user_id: 8,
+      spot_id: 1,
+      created_at: new Date().toISOString(),
+      captured_at: capturedAt,
+    });
+
+    const response = await POST(
+      buildRequest({ spot_id: 1, lat: 39.7021, lng: 141.1527, accuracy: 20, captured_at: capturedAt })
+    );
+
+    expect(response.status).toBe(201);
+    // created_at はサーバー時刻のまま、測位日時は captured_at として別に保存する
+    expect(mockCreateStamp).toHaveBeenCalledWith(8, 1, db, capturedAt);
+    await expect(response.json()).resolves.toEqual(
+      expect.objectContaining({ stamp: expect.objectContaining({ captured_at: capturedAt }) })
+    );
+  });
+
+  it("rejects offline captures older than the replay window", async () => {
+    const capturedAt = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+
+    const response = await POST(
+      buildRequest({ spot_id: 1, lat: 39.7021, lng: 141.1527, accuracy: 20, captured_at: capturedAt })
+    );
+
+    expect(response.status).toBe(422);
+    await expect(response.json()).resolves.toEqual(expect.objectContaining({ reason: "expired" }));
+    expect(mockCreateStamp).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when the spot is already stamped", async () => {
+    mockHasStamp.mockResolvedValue(true);
+
+    const response = await POST(buildRequest({ spot_id: 1, lat: 39.7021, lng: 141.1527, accuracy: 15 }));
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import {
+  buildStudioErrorResponse,
+  parseRequiredInteger,
+  parseOptionalString,
+  parseRequiredNumber,
+  readJsonObject,
+} from "@/lib/studioApi";
+import {
+  describeStampRejection,
+  isAcceptableCaptureTime,
+  verifyStampProximity,
+  type StampRejectReason,
+} from "@/lib/stamps";
+import { createStamp, fetchSpot, hasStamp } from "@/lib/supabaseClient";
+import { requireUserApiAccess } from "@/lib/userApi";
+
+/**
+ * スタンプ拒否レスポンスを生成する。
+ *
+ * @param reason - 拒否理由
+ * @param status - HTTP status
+ * @returns JSON error response
+ * @example
+ * return buildRejection("too_far", 403);
+ */
+function buildRejection(
+  reason: StampRejectReason,
+  status: number
+): NextResponse<{ error: string; reason: StampRejectReason }> {
+  return NextResponse.json({ error: describeStampRejection(reason), reason }, { status });
+}
+
+/**
+ * 現在地を検証したうえでスタンプを発行する。
+ *
+ * ユーザーは NextAuth session から導出し、クライアント送信の userId は受け付けない。
+ * 距離はサーバー側で `haversineDistance` により再計算する。
+ * オフラインで記録した申請は `captured_at`（測位日時）を付けて送られ、期限内であれば
+ * その日時を `captured_at` に保存する。`created_at` は常にサーバー時刻とする。
+ * ラリーの順序・期間判定は `captured_at` を優先するため、さかのぼれる幅は受付期限までに限る。
+ *
+ * @param request - `{ spot_id, lat, lng, accuracy, captured_at? }` を含む request
+ * @returns 発行済みスタンプと距離
+ * @example
+ * POST /api/stamps { "spot_id": 1, "lat": 39.7021, "lng": 141.1527, "accuracy": 12 }
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const access = await requireUserApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const spotId = parseRequiredInteger(body.spot_id, "spot_id");
+    const fix = {
+      lat: parseRequiredNumber(body.lat, "lat"),
+      lng: parseRequiredNumber(body.lng, "lng"),
+      accuracy: parseRequiredNumber(body.accuracy, "accuracy"),
+    };
+    const capturedAt = parseOptionalString(body.captured_at);
+    if (capturedAt && Number.isNaN(new Date(capturedAt).getTime())) {
+      throw new Error("captured_at must be a valid ISO date-time.");
+    }
+
+    if (!access.db) {
+      return buildRejection("not_configured", 503);
+    }
+
+    if (capturedAt && !isAcceptableCaptureTime(capturedAt)) {
+      return buildRejection("expired", 422);
+    }
+
+    const spot = await fetchSpot(spotId);
+    if (!spot) {
+      return buildRejection("spot_not_found", 404);
+    }
+
+    const proximity = verifyStampProximity(spot, fix);
+    if (!proximity.ok) {
+      return buildRejection(proximity.reason, proximity.reason === "too_far" ? 403 : 422);
+    }
+
+    if (await hasStamp(access.currentUser.id, spotId, access.db)) {
+      return buildRejection("already_stamped", 409);
+    }
+
+    const stamp = await createStamp(
+      access.currentUser.id,
+      spotId,
+      access.db,
+      capturedAt ? new Date(capturedAt).toISOString() : undefined
+    );
+    if (!stamp) {
+      return NextResponse.json({ error: "Failed to create stamp." }, { status: 500 });
+    }
+    return NextResponse.json({ stamp, distance: proximity.distance }, { status: 201 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to create stamp.");
+  }
+}
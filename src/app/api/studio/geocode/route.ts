@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { geocodeLocation, GeocodingError, resolveGeocoder } from "@/lib/geocoding";
+import { buildStudioErrorResponse, requireStudioApiAccess } from "@/lib/studioApi";
+import { fetchSpots } from "@/lib/supabaseClient";
+
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Studio から会場名・住所を座標の候補へ変換する (GET)
+ *
+ * 設定されたジオコーダ（既定は岩手県の市町村一覧）を使い、登録済みスポット名とも照合する。
+ *
+ * @param request - Next.js request
+ * @returns `{ results: GeocodeResult[] }`
+ * @example
+ * GET /api/studio/geocode?q=平泉町
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const access = await requireStudioApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  const query = (request.nextUrl.searchParams.get("q") ?? "").trim().slice(0, MAX_QUERY_LENGTH);
+  if (!query) {
+    return NextResponse.json({ results: [] });
+  }
+
+  try {
+    const spots = await fetchSpots();
+    const results = await geocodeLocation(resolveGeocoder({ places: spots }), query);
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (error instanceof GeocodingError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    return buildStudioErrorResponse(error, "Failed to geocode location.");
+  }
+}
@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, PATCH } from "@/app/api/studio/rallies/[id]/route";
+
+const {
+  mockRequireStudioApiAccess,
+  mockFetchAdminRallyById,
+  mockUpdateRally,
+  mockDeleteRally,
+} = vi.hoisted(() => ({
+  mockRequireStudioApiAccess: vi.fn(),
+  mockFetchAdminRallyById: vi.fn(),
+  mockUpdateRally: vi.fn(),
+  mockDeleteRally: vi.fn(),
+}));
+
+// 入力検証は本物の studioApi / studioPayloads を通すので、NextAuth の初期化だけ差し替える
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/authServer", () => ({ fetchAppUserByIdentity: vi.fn() }));
+
+vi.mock("@/lib/studioApi", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/studioApi")>()),
+  requireStudioApiAccess: mockRequireStudioApiAccess,
+}));
+
+vi.mock("@/lib/adminServer", () => ({
+  AdminServerConfigError: class AdminServerConfigError extends Error {},
+  AdminServerNotFoundError: class AdminServerNotFoundError extends Error {},
+  fetchAdminRallyById: mockFetchAdminRallyById,
+  updateRally: mockUpdateRally,
+  deleteRally: mockDeleteRally,
+}));
+
+const adminAccess = {
+  currentUser: {
+    id: 1,
+    auth_id: "admin-user",
+    email: "admin@example.com",
+    role: "admin",
+    display_name: "Admin",
+    created_at: "2026-03-12T00:00:00.000Z",
+  },
+};
+
+const currentRally = {
+  id: 5,
+  title: "歴史めぐり",
+  spot_ids: [2, 1],
+  is_ordered: true,
+  start_date: "2026-04-01",
+  end_date: "2026-04-30",
+};
+
+/**
+ * ラリー更新リクエストを生成する。
+ *
+ * @param id - ラリー ID
+ * @param body - JSON body
+ * @returns Request
+ * @example
+ * buildPatchRequest("5", { title: "更新" });
+ */
+function buildPatchRequest(id: string, body: Record<string, unknown>): Request {
+  return new Request(`http://localhost/api/studio/rallies/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("PATCH /api/studio/rallies/[id]", () => {
+  beforeEach(() => {
+    mockRequireStudioApiAccess.mockReset();
+    mockFetchAdminRallyById.mockReset();
+    mockUpdateRally.mockReset();
+    mockDeleteRally.mockReset();
+  });
+
+  it("returns the access response when the user is not allowed", async () => {
+    mockRequireStudioApiAccess.mockResolvedValue({
+      response: NextResponse.json({ error: "Forbidden." }, { status: 403 }),
+    });
+
+    const patched = await PATCH(buildPatchRequest("5", { title: "更新" }), { params: Promise.resolve({ id: "5" }) });
+    const deleted = await DELETE(new Request("http://localhost/api/studio/rallies/5", { method: "DELETE" }), {
+      params: Promise.resolve({ id: "5" }),
+    });
+
+    expect(patched.status).toBe(403);
+    expect(deleted.status).toBe(403);
+    expect(mockUpdateRally).not.toHaveBeenCalled();
+    expect(mockDeleteRally).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an invalid id or payload and 404 for a missing rally", async () => {
+    mockRequireStudioApiAccess.mockResolvedValue(adminAccess);
+    mockFetchAdminRallyById.mockImplementation(async (id: number) => (id === 5 ? currentRally : null));
+
+    const invalidId = await PATCH(buildPatchRequest("abc", { title: "更新" }), {
+      params: Promise.resolve({ id: "abc" }),
+    });
+    const invalidFlag = await PATCH(buildPatchRequest("5", { is_ordered: "yes" }), {
+      params: Promise.resolve({ id: "5" }),
+    });
+    const invalidPeriod = await PATCH(buildPatchRequest("5", { start_date: "2026-05-01" }), {
+      params: Promise.resolve({ id: "5" }),
+    });
+    const missing = await PATCH(buildPatchRequest("999", { title: "更新" }), {
+      params: Promise.resolve({ id: "999" }),
+    });
+
+    expect(invalidId.status).toBe(400);
+    await expect(invalidId.json()).resolves.toEqual({ error: "id must be a positive integer." });
+    expect(invalidFlag.status).toBe(400);
+    await expect(invalidFlag.json()).resolves.toEqual({ error: "is_ordered must be a boolean." });
+    expect(invalidPeriod.status).toBe(400);
+    await expect(invalidPeriod.json()).resolves.toEqual({ error: "end_date must be on or after start_date." });
+    expect(missing.status).toBe(404);
+    await expect(missing.json()).resolves.toEqual({ error: "Rally not found." });
+    expect(mockUpdateRally).not.toHaveBeenCalled();
+  });
+
+  it("returns 200 when the rally is updated", async () => {
+    mockRequireStudioApiAccess.mockResolvedValue(adminAccess);
+    mockFetchAdminRallyById.mockResolvedValue(currentRally);
+    mockUpdateRally.mockResolvedValue({ ...currentRally, is_ordered: false });
+
+    const response = await PATCH(buildPatchRequest("5", { is_ordered: false }), {
+      params: Promise.resolve({ id: "5" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockUpdateRally).toHaveBeenCalledWith(5, { is_ordered: false });
+  });
+
+  it("returns 204 when the rally is deleted", async () => {
+    mockRequireStudioApiAccess.mockResolvedValue(adminAccess);
+    mockDeleteRally.mockResolvedValue(undefined);
+
+    const response = await DELETE(new Request("http://localhost/api/studio/rallies/5", { method: "DELETE" }), {
+      params: Promise.resolve({ id: "5" }),
+    });
+
+    expect(response.status).toBe(204);
+    expect(mockDeleteRally).toHaveBeenCalledWith(5);
+  });
+});
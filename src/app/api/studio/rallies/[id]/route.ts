@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { deleteRally, fetchAdminRallyById, updateRally } from "@/lib/adminServer";
+import { buildStudioErrorResponse, parseRequiredInteger, readJsonObject, requireStudioApiAccess } from "@/lib/studioApi";
+import { parseRallyUpdateInput } from "@/lib/studioPayloads";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+/**
+ * Studio からラリーを更新する。
+ *
+ * @param request - Next.js request
+ * @param context - route context
+ * @returns 更新結果
+ * @example
+ * await PATCH(request, context);
+ */
+export async function PATCH(request: Request, context: RouteContext): Promise<NextResponse> {
+  const access = await requireStudioApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const rallyId = parseRequiredInteger(id, "id");
+    const current = await fetchAdminRallyById(rallyId);
+    if (!current) {
+      return NextResponse.json({ error: "Rally not found." }, { status: 404 });
+    }
+
+    const body = await readJsonObject(request);
+    const input = parseRallyUpdateInput(body, current);
+    const rally = await updateRally(rallyId, input);
+    return NextResponse.json(rally);
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to update rally.");
+  }
+}
+
+/**
+ * Studio からラリーを削除する。
+ *
+ * @param _request - Next.js request
+ * @param context - route context
+ * @returns 204 response
+ * @example
+ * await DELETE(request, context);
+ */
+export async function DELETE(_request: Request, context: RouteContext): Promise<NextResponse> {
+  const access = await requireStudioApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const { id } = await context.params;
+    const rallyId = parseRequiredInteger(id, "id");
+    await deleteRally(rallyId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to delete rally.");
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/studio/rallies/route";
+
+const { mockRequireStudioApiAccess, mockCreateRally } = vi.hoisted(() => ({
+  mockRequireStudioApiAccess: vi.fn(),
+  mockCreateRally: vi.fn(),
+}));
+
+vi.mock("@/lib/studioApi", async () => {
+  return {
+    buildStudioErrorResponse: (error: unknown, fallbackMessage: string) =>
+      NextResponse.json(
+        { error: error instanceof Error ? error.message : fallbackMessage },
+        { status: error instanceof Error ? 400 : 500 }
+      ),
+    readJsonObject: async (request: Request) => (await request.json()) as Record<string, unknown>,
+    requireStudioApiAccess: mockRequireStudioApiAccess,
+  };
+});
+
+vi.mock("@/lib/studioPayloads", () => ({
+  parseRallyCreateInput: (input: Record<string, unknown>) => {
+    if (typeof input.title !== "string" || !input.title.trim()) {
+      throw new Error("title is required.");
+    }
+    if (!Array.isArray(input.spot_ids) || input.spot_ids.length === 0) {
+      throw new Error("spot_ids must be a non-empty array.");
+    }
+    return {
+      title: input.title.trim(),
+      description: null,
+      spot_ids: input.spot_ids.map(Number),
+      is_ordered: input.is_ordered === true,
+      start_date: null,
+      end_date: null,
+      badge_label: null,
+    };
+  },
+}));
+
+vi.mock("@/lib/adminServer", () => ({
+  AdminServerConfigError: class AdminServerConfigError extends Error {},
+  AdminServerNotFoundError: class AdminServerNotFoundError extends Error {},
+  createRally: mockCreateRally,
+}));
+
+const adminAccess = {
+  currentUser: {
+    id: 1,
+    auth_id: "admin-user",
+    email: "admin@example.com",
+    role: "admin",
+    display_name: "Admin",
+    created_at: "2026-03-12T00:00:00.000Z",
+  },
+};
+
+/**
+ * ラリー作成リクエストを生成する。
+ *
+ * @param body - JSON body
+ * @returns Request
+ * @example
+ * buildRequest({ title: "歴史めぐり", spot_ids: [2, 1] });
+ */
+function buildRequest(body: Record<string, unknown>): Request {
+  return new Request("http://localhost/api/studio/rallies", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/studio/rallies", () => {
+  beforeEach(() => {
+    mockRequireStudioApiAccess.mockReset();
+    mockCreateRally.mockReset();
+  });
+
+  it("returns the access response when the user is not allowed", async () => {
+    mockRequireStudioApiAccess.mockResolvedValue({
+      response: NextResponse.json({ error: "Authentication required." }, { status: 401 }),
+    });
+
+    const response = await POST(buildRequest({ title: "歴史めぐり", spot_ids: [2, 1] }));
+
+    expect(response.status).toBe(401);
+    expect(mockCreateRally).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when the payload is invalid", async () => {
+    mockRequireStudioApiAccess.mockResolvedValue(adminAccess);
+
+    const missingTitle = await POST(buildRequest({ title: " ", spot_ids: [2, 1] }));
+    const emptySpots = await POST(buildRequest({ title: "歴史めぐり", spot_ids: [] }));
+
+    expect(missingTitle.status).toBe(400);
+    await expect(missingTitle.json()).resolves.toEqual({ error: "title is required." });
+    expect(emptySpots.status).toBe(400);
+    expect(mockCreateRally).not.toHaveBeenCalled();
+  });
+
+  it("returns 201 when a rally is created", async () => {
+    mockRequireStudioApiAccess.mockResolvedValue(adminAccess);
+    mockCreateRally.mockResolvedValue({ id: 3, title: "歴史めぐり", spot_ids: [2, 1], is_ordered: true });
+
+    const response = await POST(buildRequest({ title: "歴史めぐり", spot_ids: [2, 1], is_ordered: true }));
+
+    expect(response.status).toBe(201);
+    expect(mockCreateRally).toHaveBeenCalledWith(expect.objectContaining({ spot_ids: [2, 1], is_ordered: true }));
+  });
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createRally } from "@/lib/adminServer";
+import { buildStudioErrorResponse, readJsonObject, requireStudioApiAccess } from "@/lib/studioApi";
+import { parseRallyCreateInput } from "@/lib/studioPayloads";
+
+/**
+ * Studio からラリーを作成する。
+ *
+ * @param request - Next.js request
+ * @returns 作成結果
+ * @example
+ * await POST(request);
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const access = await requireStudioApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const input = parseRallyCreateInput(body);
+    const rally = await createRally(input);
+    return NextResponse.json(rally, { status: 201 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to create rally.");
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { AdminServerConfigError, createSpot } from "@/lib/adminServer";
+import { isSpotImportFormat, parseSpotImportSource, planSpotImport, SPOT_IMPORT_FORMATS } from "@/lib/spotImport";
+import { buildStudioErrorResponse, readJsonObject, requireStudioApiAccess } from "@/lib/studioApi";
+import { fetchCities, fetchGenres, fetchSpots } from "@/lib/supabaseClient";
+import type { Spot } from "@/lib/types";
+
+/** 取り込みファイルの上限（文字数） */
+const MAX_CONTENT_LENGTH = 2_000_000;
+
+/**
+ * Studio から GeoJSON / CSV のスポットを一括作成する (POST)
+ *
+ * 各行はスポット作成と同じ検証を通し、既存スポットとの差分（作成・重複・不正）を返す。
+ * `dry_run` が false の時だけ「作成」の行を登録し、重複・不正の行は登録しない。
+ *
+ * @param request - `{ format: "geojson" | "csv", content: string, dry_run?: boolean }` を含む request
+ * @returns `{ plan, created, failed }`
+ * @example
+ * POST /api/studio/spots/import { "format": "csv", "content": "name,description,...", "dry_run": true }
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const access = await requireStudioApiAccess();
+  if (access.response) {
+    return access.response;
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    if (!isSpotImportFormat(body.format)) {
+      throw new Error(`format must be one of ${SPOT_IMPORT_FORMATS.join(", ")}.`);
+    }
+    if (typeof body.content !== "string" || !body.content.trim()) {
+      throw new Error("content is required.");
+    }
+    if (body.content.length > MAX_CONTENT_LENGTH) {
+      throw new Error("content is too large.");
+    }
+    const dryRun = body.dry_run !== false;
+
+    const rows = parseSpotImportSource(body.format, body.content);
+    const [existing, cities, genres] = await Promise.all([fetchSpots(), fetchCities(), fetchGenres()]);
+    const plan = planSpotImport(rows, { existing, cities, genres });
+    if (dryRun) {
+      return NextResponse.json({ plan, created: [], failed: [] });
+    }
+
+    const created: Spot[] = [];
+    const failed: { row: number; error: string }[] = [];
+    for (const row of plan.rows) {
+      if (row.status !== "create") continue;
+      try {
+        created.push(await createSpot(row.input));
+      } catch (error) {
+        if (error instanceof AdminServerConfigError) throw error;
+        failed.push({ row: row.row, error: error instanceof Error ? error.message : "Failed to create spot." });
+      }
+    }
+    return NextResponse.json({ plan, created, failed }, { status: created.length > 0 ? 201 : 200 });
+  } catch (error) {
+    return buildStudioErrorResponse(error, "Failed to import spots.");
+  }
+}
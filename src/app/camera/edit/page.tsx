@@ -7,6 +7,7 @@ import {
   Download, Share2, Image as ImageIcon
 } from "lucide-react";
 import { Button } from "@/components/ui/Button";
+import { canvasToPngBlob, saveBlobAsFile } from "@/lib/canvasExport";
 
 type StickerItem = { id: string; char: string; x: number; y: number; size: number };
 type TextItem = { 
@@ -270,22 +271,9 @@ export default function CameraEditPage() {
       ctx.fillText(t.text, t.x * canvas.width, t.y * canvas.height);
     });
 
-    return new Promise((resolve) => {
-      canvas.toBlob((blob) => resolve(blob), "image/png");
-    });
+    return canvasToPngBlob(canvas);
   };
 
-  const saveBlobAsFile = useCallback((blob: Blob, fileName = "iwate-memory.png") => {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
-  }, []);
-
   const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function";
   const canShareFiles = canShare && typeof navigator.canShare === "function";
 
@@ -311,7 +299,7 @@ export default function CameraEditPage() {
           text: "岩手旅行の写真",
         });
       } else {
-        saveBlobAsFile(blob);
+        saveBlobAsFile(blob, "iwate-memory.png");
         setShareMessage("共有API非対応のため、画像を保存しました。");
       }
     } catch (err) {
@@ -333,7 +321,7 @@ export default function CameraEditPage() {
     try {
       const blob = await generateImage();
       if (!blob) return;
-      saveBlobAsFile(blob);
+      saveBlobAsFile(blob, "iwate-memory.png");
       setShareMessage("画像をファイルとして保存しました。");
     } finally {
       setIsSaving(false);
@@ -353,7 +341,7 @@ export default function CameraEditPage() {
       if (canShareFiles && navigator.canShare?.({ files: [file] })) {
         await navigator.share({ files: [file], title: "岩手の思い出" });
       } else {
-        saveBlobAsFile(blob);
+        saveBlobAsFile(blob, "iwate-memory.png");
         setShareMessage("写真共有に非対応のため、画像を保存しました。");
       }
     } catch (err) {
@@ -393,7 +381,7 @@ export default function CameraEditPage() {
       }
 
       // ファイル共有非対応時は保存＋Web Intent
-      saveBlobAsFile(blob);
+      saveBlobAsFile(blob, "iwate-memory.png");
 
       if (platform === "instagram") {
         setShareMessage("画像を保存しました。Instagramアプリで画像を選択して投稿してください。");
@@ -0,0 +1,241 @@
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { CalendarPlus, MapPin, Rss, Sparkles } from "lucide-react";
+import { fetchCities, fetchEvents, fetchSpots } from "@/lib/supabaseClient";
+import { buildEventJsonLd, buildEventMetadata, formatEventPeriod } from "@/lib/seo";
+import { extractEventIdFromSlug, getEventFeedHref, getEventIcsHref } from "@/lib/eventRoutes";
+import {
+  describeRecurrenceRule,
+  getOccurrenceKey,
+  listUpcomingOccurrences,
+  readEventRecurrence,
+  resolveNextOccurrence,
+} from "@/lib/eventRecurrence";
+import { toTokyoDateKey } from "@/lib/calendarView";
+import { resolveEventSpots } from "@/lib/eventSpots";
+import { resolveEventCity } from "@/lib/geocoding";
+import { buildEventMapHref, placeUpcomingEvents } from "@/lib/mapLayers";
+import { getSpotHref } from "@/lib/spotRoutes";
+import { getImageUrl } from "@/lib/storage";
+import { Button } from "@/components/ui/Button";
+
+type PageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+const PLACEHOLDER_EVENT = { id: 0, title: "Event", location: "岩手" };
+
+/** 繰り返しイベントで一覧に出す今後の回の数 */
+const UPCOMING_OCCURRENCE_LIMIT = 4;
+
+/**
+ * Event 詳細 metadata を生成する。
+ *
+ * @param props - route params
+ * @returns metadata
+ * @example
+ * await generateMetadata({ params: Promise.resolve({ slug: "1-night-market" }) });
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const eventId = extractEventIdFromSlug(slug);
+  if (!eventId) {
+    return buildEventMetadata(PLACEHOLDER_EVENT);
+  }
+
+  const [events, cities] = await Promise.all([fetchEvents(), fetchCities()]);
+  const event = events.find((item) => item.id === eventId);
+  if (!event) {
+    return buildEventMetadata(PLACEHOLDER_EVENT);
+  }
+
+  const city = resolveEventCity(event, cities);
+  const occurrence = resolveNextOccurrence(event, toTokyoDateKey());
+  return buildEventMetadata(occurrence, city, getImageUrl(city?.image_thumb_path ?? city?.image_path ?? null));
+}
+
+/**
+ * Event 詳細ページ。
+ *
+ * @param props - route params
+ * @returns EventDetailPage
+ * @example
+ * <EventDetailPage params={Promise.resolve({ slug: "1-night-market" })} />
+ */
+export default async function EventDetailPage({ params }: PageProps) {
+  const { slug } = await params;
+  const eventId = extractEventIdFromSlug(slug);
+  if (!eventId) {
+    notFound();
+  }
+
+  const [events, spots, cities] = await Promise.all([fetchEvents(), fetchSpots(), fetchCities()]);
+  const event = events.find((item) => item.id === eventId);
+  if (!event) {
+    notFound();
+  }
+
+  const city = resolveEventCity(event, cities);
+  const rule = readEventRecurrence(event);
+  // 繰り返しイベントは直近の回を日程・構造化データに使う
+  const upcoming = listUpcomingOccurrences(event, toTokyoDateKey(), UPCOMING_OCCURRENCE_LIMIT);
+  const occurrence = upcoming[0] ?? event;
+  const period = formatEventPeriod(occurrence);
+  // 地図のイベントレイヤーは終了前で位置を決められるイベントだけを置く
+  const isOnMap = placeUpcomingEvents([event], spots).length > 0;
+  const venueSpots = resolveEventSpots(event, spots);
+  // 紐づけた会場スポットを先に出し、残りを同じ市区町村のスポットで埋める
+  const nearbySpots = [
+    ...venueSpots,
+    ...(city ? spots.filter((item) => item.city_id === city.id && !venueSpots.includes(item)) : []),
+  ].slice(0, 3);
+  const imageUrl = getImageUrl(city?.image_path ?? city?.image_thumb_path ?? null);
+  const jsonLd = buildEventJsonLd(occurrence, city);
+
+  return (
+    <div className="space-y-8">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+      />
+
+      <section className="overflow-hidden rounded-[32px] border border-emerald-900/10 bg-white shadow-sm">
+        <div className="relative h-64 bg-emerald-100 sm:h-80">
+          {imageUrl ? (
+            <Image src={imageUrl} alt={city?.name ?? event.title} fill priority sizes="100vw" className="object-cover" />
+          ) : (
+            <div className="grid h-full place-items-center text-emerald-900/60">Image coming soon</div>
+          )}
+          <div className="absolute inset-0 bg-gradient-to-t from-black/55 via-black/15 to-transparent" />
+          <div className="absolute inset-x-0 bottom-0 p-6 text-white sm:p-8">
+            <p className="text-xs font-semibold uppercase tracking-[0.28em] text-emerald-100/90">
+              {period ?? "Coming soon"}
+            </p>
+            <h1 className="mt-2 font-display text-4xl leading-tight sm:text-5xl">{event.title}</h1>
+            <p className="mt-3 flex items-center gap-1.5 text-sm text-white/90 sm:text-base">
+              <MapPin className="h-4 w-4" />
+              {event.location ?? city?.name ?? "会場未定"}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid gap-5 p-6 sm:grid-cols-[1.2fr_0.8fr] sm:p-8">
+          <div className="space-y-5">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <span className="rounded-full bg-emerald-50 px-3 py-1.5 text-emerald-900">{city?.name ?? "Iwate"}</span>
+              <span className="rounded-full bg-amber-50 px-3 py-1.5 text-amber-900">Event</span>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {event.start_date && (
+                <a href={getEventIcsHref(event)} download>
+                  <Button className="w-full justify-between">
+                    <span className="inline-flex items-center gap-2">
+                      <CalendarPlus className="h-4 w-4" />
+                      カレンダーに追加
+                    </span>
+                    <span className="text-xs opacity-80">.ics</span>
+                  </Button>
+                </a>
+              )}
+              {isOnMap && (
+                <Link href={buildEventMapHref(event.id)}>
+                  <Button variant="outline" className="w-full justify-between">
+                    <span className="inline-flex items-center gap-2">
+                      <MapPin className="h-4 w-4" />
+                      地図で会場を見る
+                    </span>
+                    <Sparkles className="h-4 w-4" />
+                  </Button>
+                </Link>
+              )}
+            </div>
+            <a
+              href={getEventFeedHref(city?.id)}
+              className="inline-flex items-center gap-1.5 text-xs text-emerald-800 underline underline-offset-4 hover:text-emerald-950"
+            >
+              <Rss className="h-3.5 w-3.5" />
+              {city ? `${city.name}のイベントをカレンダーで購読` : "岩手のイベントをカレンダーで購読"}
+            </a>
+          </div>
+
+          <div className="rounded-[24px] border border-emerald-900/10 bg-emerald-50/70 p-5">
+            <h2 className="text-lg font-semibold text-[#0f1c1a]">Event note</h2>
+            <dl className="mt-4 space-y-3 text-sm text-emerald-900/75">
+              <div>
+                <dt className="font-medium text-[#0f1c1a]">Dates</dt>
+                <dd>{period ?? "未定"}</dd>
+              </div>
+              {rule && (
+                <div>
+                  <dt className="font-medium text-[#0f1c1a]">Repeats</dt>
+                  <dd>{describeRecurrenceRule(rule, event.start_date)}</dd>
+                </div>
+              )}
+              {upcoming.length > 1 && (
+                <div>
+                  <dt className="font-medium text-[#0f1c1a]">Upcoming dates</dt>
+                  <dd>
+                    <ul className="mt-1 space-y-0.5">
+                      {upcoming.map((item) => (
+                        <li key={getOccurrenceKey(item)}>{formatEventPeriod(item)}</li>
+                      ))}
+                    </ul>
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="font-medium text-[#0f1c1a]">Venue</dt>
+                <dd>{event.location ?? "未設定"}</dd>
+                {venueSpots.length > 0 && (
+                  <dd className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+                    {venueSpots.map((item) => (
+                      <Link
+                        key={item.id}
+                        href={getSpotHref(item)}
+                        className="underline underline-offset-4 hover:text-emerald-950"
+                      >
+                        {item.name}
+                      </Link>
+                    ))}
+                  </dd>
+                )}
+              </div>
+              <div>
+                <dt className="font-medium text-[#0f1c1a]">Area</dt>
+                <dd>{city?.name ?? "Iwate"}</dd>
+              </div>
+              {typeof event.lat === "number" && typeof event.lng === "number" && (
+                <div>
+                  <dt className="font-medium text-[#0f1c1a]">Coordinates</dt>
+                  <dd>
+                    {event.lat.toFixed(4)}, {event.lng.toFixed(4)}
+                  </dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        </div>
+      </section>
+
+      {nearbySpots.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-2xl font-semibold text-[#0f1c1a]">Around the venue</h2>
+          <div className="grid gap-4 sm:grid-cols-3">
+            {nearbySpots.map((item) => (
+              <Link
+                key={item.id}
+                href={getSpotHref(item)}
+                className="rounded-[24px] border border-emerald-900/10 bg-white p-5 shadow-sm transition hover:-translate-y-0.5 hover:border-emerald-300"
+              >
+                <p className="text-sm font-semibold text-[#0f1c1a]">{item.name}</p>
+                <p className="mt-2 line-clamp-3 text-sm leading-6 text-emerald-900/70">{item.description}</p>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
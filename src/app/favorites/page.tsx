@@ -1,7 +1,9 @@
-import { Heart, Sparkles } from "lucide-react";
+import { Sparkles } from "lucide-react";
 import { AuthGate } from "@/components/auth/AuthGate";
+import { FavoritesList } from "@/components/favorites/FavoritesList";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { buildPageMetadata } from "@/lib/seo";
+import { fetchCities, fetchGenres, fetchSpots } from "@/lib/supabaseClient";
 
 export const metadata = buildPageMetadata({
   title: "Favorites",
@@ -17,7 +19,9 @@ export const metadata = buildPageMetadata({
  * @example
  * <FavoritesPage />
  */
-export default function FavoritesPage() {
+export default async function FavoritesPage() {
+  const [spots, cities, genres] = await Promise.all([fetchSpots(), fetchCities(), fetchGenres()]);
+
   return (
     <AuthGate
       title="Favorites are ready when you are"
@@ -25,14 +29,10 @@ export default function FavoritesPage() {
       loginLabel="Login to save favorites"
     >
       <div className="space-y-6">
-        <GlassCard title="Favorites" icon={Heart} badge="Coming soon">
-          <p className="text-sm leading-6 text-emerald-900/75">
-            このエリアでは、地図や検索で見つけたスポットを自分だけの旅メモとして保存できる予定です。
-          </p>
-        </GlassCard>
+        <FavoritesList spots={spots} cities={cities} genres={genres} />
         <GlassCard title="Why sign in?" icon={Sparkles}>
           <p className="text-sm leading-6 text-emerald-900/75">
-            サインインすると、今後追加する Stamps や進捗保存も同じアカウントでまとめて使えるようになります。
+            サインインすると、お気に入りや Stamps の進捗を同じアカウントでまとめて使えます。
           </p>
         </GlassCard>
       </div>
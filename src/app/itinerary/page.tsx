@@ -0,0 +1,57 @@
+import { Route } from "lucide-react";
+import { ItineraryPlanner } from "@/components/itinerary/ItineraryPlanner";
+import { SectionTitle } from "@/components/ui/SectionTitle";
+import { ITINERARY_PATH } from "@/lib/config";
+import { parseItineraryQuery } from "@/lib/itinerary";
+import { buildPageMetadata } from "@/lib/seo";
+import { fetchCities, fetchGenres, fetchSpots } from "@/lib/supabaseClient";
+
+export const revalidate = 60;
+export const metadata = buildPageMetadata({
+  title: "Itinerary",
+  description: "行きたいスポットを並べて、1 日の巡り方と移動の目安を組み立てられます。",
+  path: ITINERARY_PATH,
+});
+
+/**
+ * URL クエリの値を 1 つ取り出す。
+ *
+ * @param value - クエリ値
+ * @returns 先頭の値
+ * @example
+ * readFirst(["1,2"]);
+ */
+function readFirst(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * 旅程プランナーページ。
+ *
+ * 共有 URL（`stops` / `name` クエリ）があれば、その旅程を初期表示する。
+ *
+ * @param props.searchParams - URL クエリ
+ * @returns ItineraryPage
+ * @example
+ * <ItineraryPage searchParams={Promise.resolve({ stops: "1,4" })} />
+ */
+export default async function ItineraryPage({
+  searchParams,
+}: {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const [spots, cities, genres] = await Promise.all([fetchSpots(), fetchCities(), fetchGenres()]);
+  const resolved = await searchParams;
+  const initialQuery = parseItineraryQuery(readFirst(resolved?.stops), readFirst(resolved?.name));
+
+  return (
+    <div className="space-y-8">
+      <SectionTitle
+        label="Itinerary"
+        description="行きたいスポットを選んで、巡る順番と移動の目安を確認しましょう。"
+        icon={Route}
+      />
+      <ItineraryPlanner spots={spots} cities={cities} genres={genres} initialQuery={initialQuery} />
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import { fetchSpots } from "@/lib/supabaseClient";
+import { fetchCities, fetchEvents, fetchGenres, fetchSpots, fetchSpotStampCounts } from "@/lib/supabaseClient";
+import { parseSimulatedLocation } from "@/lib/exploreMode";
+import { parseMapLayerQuery } from "@/lib/mapLayers";
 import { SpotSurface } from "@/components/spot/SpotSurface";
 import { buildPageMetadata } from "@/lib/seo";
 
@@ -13,6 +15,9 @@ export const metadata = buildPageMetadata({
  * 地図ページ。
  *
  * `focus` クエリがある場合は初期フォーカス対象として渡す。
+ * `event` クエリがある場合はそのイベントの会場を中心に表示する。
+ * `genres` / `events` / `heat` クエリは地図レイヤーの初期選択として復元する。
+ * `simulate=緯度,経度` クエリがある場合は探索モードをその位置のシミュレーションで始められる。
  *
  * @param props.searchParams - URL クエリ
  * @returns MapPage
@@ -24,11 +29,38 @@ export default async function MapPage({
 }: {
   searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }) {
-  const spots = await fetchSpots();
+  const [spots, cities, genres, events, stampCounts] = await Promise.all([
+    fetchSpots(),
+    fetchCities(),
+    fetchGenres(),
+    fetchEvents(),
+    fetchSpotStampCounts(),
+  ]);
   const resolved = await searchParams;
-  const focusParam = resolved?.focus;
-  const focusValue = Array.isArray(focusParam) ? focusParam[0] : focusParam;
-  const focusSpotId = Number(focusValue);
+  const readParam = (key: string) => {
+    const value = resolved?.[key];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const focusSpotId = Number(readParam("focus"));
   const safeFocusId = Number.isFinite(focusSpotId) && focusSpotId > 0 ? focusSpotId : null;
-  return <SpotSurface spots={spots} focusSpotId={safeFocusId} />;
+  const focusEventId = Number(readParam("event"));
+  const safeFocusEventId = Number.isInteger(focusEventId) && focusEventId > 0 ? focusEventId : null;
+  const initialLayers = parseMapLayerQuery({
+    genres: readParam("genres"),
+    events: readParam("events"),
+    heat: readParam("heat"),
+  });
+  return (
+    <SpotSurface
+      spots={spots}
+      cities={cities}
+      genres={genres}
+      events={events}
+      stampCounts={stampCounts}
+      initialLayers={initialLayers}
+      focusSpotId={safeFocusId}
+      focusEventId={safeFocusEventId}
+      simulatedLocation={parseSimulatedLocation(readParam("simulate"))}
+    />
+  );
 }
@@ -5,7 +5,10 @@ import { GlassCard } from "@/components/ui/GlassCard";
 import { HomeCalendarSwitcher } from "@/components/home/HomeCalendarSwitcher";
 import { getImageUrl, resolveServerStorageUrls } from "@/lib/storage";
 import { buildPageMetadata, buildHomeJsonLd } from "@/lib/seo";
+import { getEventHref } from "@/lib/eventRoutes";
 import { getSpotHref } from "@/lib/spotRoutes";
+import { resolveEventCity } from "@/lib/geocoding";
+import { parseCalendarViewQuery, toTokyoDateKey } from "@/lib/calendarView";
 
 export const revalidate = 60;
 export const metadata = buildPageMetadata({
@@ -14,19 +17,39 @@ export const metadata = buildPageMetadata({
   path: "/",
 });
 
-export default async function Home() {
+/**
+ * ホームページ。
+ *
+ * `view` / `from` / `to` / `city` クエリはイベントカレンダーの表示・期間・市町村の初期状態として復元する。
+ *
+ * @param props.searchParams - URL クエリ
+ * @returns Home
+ * @example
+ * <Home searchParams={Promise.resolve({ view: "agenda", from: "2026-10-24", to: "2026-10-25" })} />
+ */
+export default async function Home({
+  searchParams,
+}: {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}) {
   const [events, spots, cities] = await Promise.all([fetchEvents(), fetchSpots(), fetchCities()]);
+  const resolved = await searchParams;
+  const readParam = (key: string) => {
+    const value = resolved?.[key];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const calendarState = parseCalendarViewQuery({
+    view: readParam("view"),
+    from: readParam("from"),
+    to: readParam("to"),
+    city: readParam("city"),
+  });
   const cityById = new Map(cities.map((city) => [city.id, city]));
   const featured = spots.slice(0, 3);
   const nextEvents = events.slice(0, 4);
+  const eventCities = new Map(nextEvents.map((event) => [event.id, resolveEventCity(event, cities)]));
   const eventImagePaths = nextEvents.map((event) => {
-    const city =
-      (event.city_id ? cityById.get(event.city_id) : undefined) ??
-      (event.location
-        ? cities.find((cityItem) =>
-            event.location?.includes(cityItem.name) || cityItem.name.includes(event.location ?? "")
-          )
-        : undefined);
+    const city = eventCities.get(event.id);
     return city?.image_thumb_path ?? city?.image_path ?? null;
   });
   const featuredImagePaths = featured.map((spot) => {
@@ -38,6 +61,9 @@ export default async function Home() {
     "image"
   );
   const homeJsonLd = buildHomeJsonLd(events);
+  // カレンダーへは会場として紐づいたスポットだけを渡す
+  const venueIds = new Set(events.flatMap((event) => event.spot_ids ?? []));
+  const venues = spots.filter((spot) => venueIds.has(spot.id)).map(({ id, name }) => ({ id, name }));
 
   return (
     <div className="space-y-8">
@@ -70,19 +96,19 @@ export default async function Home() {
         </div>
       </section>
 
-      <HomeCalendarSwitcher events={events} />
+      <HomeCalendarSwitcher
+        events={events}
+        venues={venues}
+        cities={cities.map(({ id, name }) => ({ id, name }))}
+        initialState={calendarState}
+        today={toTokyoDateKey()}
+      />
 
       <div className="grid gap-3 sm:grid-cols-2">
         <GlassCard title="Today's picks" icon={Sparkles} badge="Picks">
           <div className="space-y-2 text-sm text-[#0f1c1a]">
             {nextEvents.slice(0, 3).map((ev) => {
-              const city =
-                (ev.city_id ? cityById.get(ev.city_id) : undefined) ??
-                (ev.location
-                  ? cities.find(
-                      (c) => ev.location?.includes(c.name) || c.name.includes(ev.location ?? "")
-                    )
-                  : undefined);
+              const city = eventCities.get(ev.id);
               const imagePath = city?.image_thumb_path ?? city?.image_path ?? null;
               const imageUrl = imagePath
                 ? (resolvedImageMap.get(imagePath) ?? getImageUrl(imagePath))
@@ -102,7 +128,9 @@ export default async function Home() {
                     </>
                   )}
                   <div className="relative">
-                    <p className="font-semibold text-[#0f1c1a]">{ev.title}</p>
+                    <Link href={getEventHref(ev)} className="block font-semibold text-[#0f1c1a] hover:underline">
+                      {ev.title}
+                    </Link>
                     <p className="text-xs text-emerald-900/70">
                       {ev.location ?? "未設定"} / {ev.start_date}
                       {ev.end_date && ev.end_date !== ev.start_date ? ` – ${ev.end_date}` : ""}
@@ -1,5 +1,5 @@
-import { fetchCities, fetchGenres } from "@/lib/supabaseClient";
-import { SearchSurface } from "@/components/search/SearchSurface";
+import { EVENT_SEARCH_SORTS, fetchCities, fetchGenres, SPOT_SEARCH_SORTS } from "@/lib/supabaseClient";
+import { SearchSurface, type SearchInitialQuery } from "@/components/search/SearchSurface";
 import { buildPageMetadata } from "@/lib/seo";
 
 export const revalidate = 60;
@@ -9,14 +9,67 @@ export const metadata = buildPageMetadata({
   path: "/search",
 });
 
-export default async function SearchPage() {
-  const [cities, genres] = await Promise.all([fetchCities(), fetchGenres()]);
+type SearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * URL クエリの値を 1 つ取り出す。
+ *
+ * @param params - URL クエリ
+ * @param key - キー
+ * @returns 値（未指定は空文字）
+ * @example
+ * readQueryValue({ keyword: "温泉" }, "keyword");
+ */
+function readQueryValue(params: SearchParams | undefined, key: string): string {
+  const value = params?.[key];
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+/**
+ * URL クエリから検索画面の初期条件を作る。不正な値は既定値に戻す。
+ *
+ * @param params - URL クエリ
+ * @returns 初期条件
+ * @example
+ * parseSearchInitialQuery({ tab: "event", keyword: "祭" });
+ */
+function parseSearchInitialQuery(params: SearchParams | undefined): SearchInitialQuery {
+  const tab = readQueryValue(params, "tab") === "event" ? "event" : "spot";
+  const readId = (key: string) => {
+    const value = Number(readQueryValue(params, key));
+    return Number.isInteger(value) && value > 0 ? String(value) : "all";
+  };
+  const rawSort = readQueryValue(params, "sort");
+  const sorts: readonly string[] = tab === "event" ? EVENT_SEARCH_SORTS : SPOT_SEARCH_SORTS;
+  // 距離順は現在地が URL に残らないため復元しない
+  const sort = sorts.includes(rawSort) && rawSort !== "distance" ? (rawSort as SearchInitialQuery["sort"]) : "auto";
+  return {
+    tab,
+    keyword: readQueryValue(params, "keyword").slice(0, 100),
+    cityId: readId("cityId"),
+    genreId: tab === "spot" ? readId("genreId") : "all",
+    sort,
+  };
+}
+
+/**
+ * 検索ページ。
+ *
+ * URL クエリ（tab / keyword / cityId / genreId / sort）を初期条件として渡す。
+ *
+ * @param props.searchParams - URL クエリ
+ * @returns SearchPage
+ * @example
+ * <SearchPage searchParams={Promise.resolve({ keyword: "温泉" })} />
+ */
+export default async function SearchPage({ searchParams }: { searchParams?: Promise<SearchParams> }) {
+  const [cities, genres, resolved] = await Promise.all([fetchCities(), fetchGenres(), searchParams]);
   return (
     <div className="space-y-8">
       <div className="rounded-2xl border border-emerald-900/10 bg-white p-4 text-sm text-emerald-900/80 ring-1 ring-emerald-900/10 shadow-sm">
         気になるキーワード、エリア、ジャンルから、行きたい場所やイベントを見つけられます。
       </div>
-      <SearchSurface cities={cities} genres={genres} />
+      <SearchSurface cities={cities} genres={genres} initialQuery={parseSearchInitialQuery(resolved)} />
     </div>
   );
 }
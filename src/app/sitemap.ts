@@ -1,6 +1,7 @@
 import type { MetadataRoute } from "next";
-import { fetchSpots } from "@/lib/supabaseClient";
-import { CHARACTER_PATH, MAP_PATH, SITE_URL, SPOTS_INDEX_PATH, STAMPS_PATH } from "@/lib/config";
+import { fetchEvents, fetchSpots } from "@/lib/supabaseClient";
+import { CHARACTER_PATH, ITINERARY_PATH, MAP_PATH, SITE_URL, SPOTS_INDEX_PATH, STAMPS_PATH } from "@/lib/config";
+import { getEventHref } from "@/lib/eventRoutes";
 import { buildSpotSlug } from "@/lib/spotRoutes";
 
 /**
@@ -11,11 +12,12 @@ import { buildSpotSlug } from "@/lib/spotRoutes";
  * await sitemap();
  */
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const spots = await fetchSpots();
+  const [spots, events] = await Promise.all([fetchSpots(), fetchEvents()]);
   const staticEntries: MetadataRoute.Sitemap = [
     "",
     MAP_PATH,
     "/search",
+    ITINERARY_PATH,
     CHARACTER_PATH,
     "/camera",
     STAMPS_PATH,
@@ -33,5 +35,12 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     lastModified: new Date(),
   }));
 
-  return [...staticEntries, ...spotEntries];
+  const eventEntries: MetadataRoute.Sitemap = events.map((event) => ({
+    url: `${SITE_URL}${getEventHref(event)}`,
+    changeFrequency: "weekly",
+    priority: 0.6,
+    lastModified: new Date(),
+  }));
+
+  return [...staticEntries, ...spotEntries, ...eventEntries];
 }
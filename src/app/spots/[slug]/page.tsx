@@ -2,17 +2,25 @@ import Image from "next/image";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
-import { MapPin, Camera, Heart, Sparkles } from "lucide-react";
-import { fetchCities, fetchGenres, fetchSpots } from "@/lib/supabaseClient";
-import { buildSpotMetadata, buildSpotJsonLd } from "@/lib/seo";
+import { MapPin, Camera, CalendarDays, Sparkles } from "lucide-react";
+import { fetchCities, fetchEvents, fetchGenres, fetchSpots } from "@/lib/supabaseClient";
+import { buildSpotMetadata, buildSpotJsonLd, formatEventPeriod } from "@/lib/seo";
+import { toTokyoDateKey } from "@/lib/calendarView";
+import { getEventHref } from "@/lib/eventRoutes";
+import { listSpotUpcomingEvents } from "@/lib/eventSpots";
+import { buildSpotMapHref } from "@/lib/mapLayers";
 import { extractSpotIdFromSlug, getSpotHref } from "@/lib/spotRoutes";
 import { getImageUrl } from "@/lib/storage";
 import { Button } from "@/components/ui/Button";
+import { FavoriteButton } from "@/components/favorites/FavoriteButton";
 
 type PageProps = {
   params: Promise<{ slug: string }>;
 };
 
+/** スポットで開催予定のイベントとして出す件数 */
+const UPCOMING_EVENT_LIMIT = 4;
+
 /**
  * Spot 詳細 metadata を生成する。
  *
@@ -74,7 +82,12 @@ export default async function SpotDetailPage({ params }: PageProps) {
     notFound();
   }
 
-  const [spots, cities, genres] = await Promise.all([fetchSpots(), fetchCities(), fetchGenres()]);
+  const [spots, cities, genres, events] = await Promise.all([
+    fetchSpots(),
+    fetchCities(),
+    fetchGenres(),
+    fetchEvents(),
+  ]);
   const spot = spots.find((item) => item.id === spotId);
   if (!spot) {
     notFound();
@@ -82,6 +95,7 @@ export default async function SpotDetailPage({ params }: PageProps) {
 
   const city = cities.find((item) => item.id === spot.city_id) ?? null;
   const genre = genres.find((item) => item.id === spot.genre_id) ?? null;
+  const upcomingEvents = listSpotUpcomingEvents(spot.id, events, toTokyoDateKey(), UPCOMING_EVENT_LIMIT);
   const relatedSpots = spots.filter((item) => item.city_id === spot.city_id && item.id !== spot.id).slice(0, 3);
   const imageUrl = getImageUrl(spot.image_thumb_path ?? spot.image_path ?? city?.image_path ?? null);
   const jsonLd = buildSpotJsonLd(spot);
@@ -117,7 +131,7 @@ export default async function SpotDetailPage({ params }: PageProps) {
               <span className="rounded-full bg-sky-50 px-3 py-1.5 text-sky-900">{genre?.name ?? "Spot"}</span>
             </div>
             <div className="grid gap-3 sm:grid-cols-2">
-              <Link href={`/map?focus=${spot.id}`}>
+              <Link href={buildSpotMapHref(spot.id)}>
                 <Button className="w-full justify-between">
                   <span className="inline-flex items-center gap-2">
                     <MapPin className="h-4 w-4" />
@@ -156,14 +170,35 @@ export default async function SpotDetailPage({ params }: PageProps) {
                 </dd>
               </div>
             </dl>
-            <Link href="/favorites" className="mt-5 inline-flex items-center gap-2 text-sm font-medium text-emerald-900 underline underline-offset-4">
-              <Heart className="h-4 w-4" />
-              お気に入りに残す
-            </Link>
+            <FavoriteButton spotId={spot.id} className="mt-5" />
           </div>
         </div>
       </section>
 
+      {upcomingEvents.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="flex items-center gap-2 text-2xl font-semibold text-[#0f1c1a]">
+            <CalendarDays className="h-5 w-5 text-emerald-700" />
+            Upcoming events here
+          </h2>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {upcomingEvents.map((item) => (
+              <Link
+                key={item.id}
+                href={getEventHref(item)}
+                className="rounded-[24px] border border-emerald-900/10 bg-white p-5 shadow-sm transition hover:-translate-y-0.5 hover:border-emerald-300"
+              >
+                <p className="text-xs font-semibold uppercase tracking-[0.2em] text-emerald-700">
+                  {formatEventPeriod(item) ?? "日程未定"}
+                </p>
+                <p className="mt-2 text-sm font-semibold text-[#0f1c1a]">{item.title}</p>
+                <p className="mt-1 text-sm text-emerald-900/70">{item.location ?? spot.name}</p>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
       {relatedSpots.length > 0 && (
         <section className="space-y-4">
           <h2 className="text-2xl font-semibold text-[#0f1c1a]">Nearby inspiration</h2>
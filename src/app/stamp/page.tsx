@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useMemo, useState, useCallback } from "react";
 import Link from "next/link";
 import {
   MapPin,
@@ -10,50 +10,63 @@ import {
   AlertCircle,
   CheckCircle2,
   Loader2,
+  BookOpen,
+  CloudOff,
 } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { GlassCard } from "@/components/ui/GlassCard";
+import { GeoExportLinks } from "@/components/export/GeoExportLinks";
+import { RallyProgressList } from "@/components/stamp/RallyProgressList";
+import { StampQueuePanel } from "@/components/stamp/StampQueuePanel";
 import {
-  fetchSpots,
+  fetchRallies,
   fetchUserStamps,
-  createStamp,
   ensurePublicUser,
 } from "@/lib/supabaseClient";
+import { fetchSpotsWithOfflinePacks } from "@/lib/offlinePacksClient";
+import { STAMP_BOOK_PATH } from "@/lib/config";
 import { filterNearby, formatDistance } from "@/lib/geo";
-import type { Spot, Stamp } from "@/lib/types";
+import { computeRallyProgress } from "@/lib/rallies";
+import { useStampQueue } from "@/lib/stampQueueClient";
+import { describeStampRejection, isStampRejectReason, STAMP_RADIUS } from "@/lib/stamps";
+import type { Rally, Spot, Stamp } from "@/lib/types";
 import { useAuthSession } from "@/components/auth/SessionProvider";
 
-const STAMP_RADIUS = 200; // meters
-
 type NearbySpot = Spot & { distance: number };
 
 export default function StampPage() {
   const { user, status } = useAuthSession();
 
   // State
-  const [publicUserId, setPublicUserId] = useState<number | null>(null);
   const [spots, setSpots] = useState<Spot[]>([]);
+  const [rallies, setRallies] = useState<Rally[]>([]);
   const [userStamps, setUserStamps] = useState<Stamp[]>([]);
   const [nearbySpots, setNearbySpots] = useState<NearbySpot[]>([]);
-  const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [userLocation, setUserLocation] = useState<{
+    lat: number;
+    lng: number;
+    accuracy: number;
+    timestamp: number;
+  } | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [stampingSpotId, setStampingSpotId] = useState<number | null>(null);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const stampQueue = useStampQueue();
 
   // Initialize user and fetch data
   useEffect(() => {
     async function init() {
       setLoading(true);
-      // Fetch spots
-      const allSpots = await fetchSpots();
+      // Fetch spots and rallies (offline: spots saved in offline packs)
+      const [allSpots, allRallies] = await Promise.all([fetchSpotsWithOfflinePacks(), fetchRallies()]);
       setSpots(allSpots);
+      setRallies(allRallies);
 
       // If logged in, ensure public user and fetch stamps
       if (user?.id) {
         const ensured = await ensurePublicUser(user.id, user.email ?? "");
         if (ensured) {
-          setPublicUserId(ensured.id);
           const stamps = await fetchUserStamps(ensured.id);
           setUserStamps(stamps);
         }
@@ -65,6 +78,16 @@ export default function StampPage() {
     }
   }, [status, user]);
 
+  // Merge stamps that were synced from the offline queue
+  useEffect(() => {
+    const synced = stampQueue.entries.flatMap((entry) => (entry.stamp ? [entry.stamp] : []));
+    if (synced.length === 0) return;
+    setUserStamps((prev) => {
+      const missing = synced.filter((stamp) => !prev.some((s) => s.id === stamp.id));
+      return missing.length > 0 ? [...missing, ...prev] : prev;
+    });
+  }, [stampQueue.entries]);
+
   // Get user location
   const requestLocation = useCallback(() => {
     if (!navigator.geolocation) {
@@ -75,7 +98,12 @@ export default function StampPage() {
     setLocationError(null);
     navigator.geolocation.getCurrentPosition(
       (pos) => {
-        const loc = { lat: pos.coords.latitude, lng: pos.coords.longitude };
+        const loc = {
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          timestamp: pos.timestamp,
+        };
         setUserLocation(loc);
         // Filter nearby spots
         const nearby = filterNearby(spots, loc.lat, loc.lng, STAMP_RADIUS);
@@ -97,28 +125,98 @@ export default function StampPage() {
 
   // Handle stamp press
   const handleStamp = async (spotId: number) => {
-    if (!publicUserId) {
+    if (!user) {
       setMessage({ type: "error", text: "ログインが必要です。" });
       return;
     }
+    if (!userLocation) {
+      setMessage({ type: "error", text: "先に位置情報を取得してください。" });
+      return;
+    }
 
     // Check if already stamped
     if (userStamps.some((s) => s.spot_id === spotId)) {
       setMessage({ type: "error", text: "このスポットは既にスタンプ済みです。" });
       return;
     }
+    if (isQueued(spotId)) {
+      setMessage({ type: "error", text: "このスポットは送信待ちです。電波が戻ると自動で登録されます。" });
+      return;
+    }
 
     setStampingSpotId(spotId);
     setMessage(null);
 
-    const stamp = await createStamp(publicUserId, spotId);
-    setStampingSpotId(null);
+    // 圏外では測位値と時刻を端末に保存し、オンライン復帰後に再送する
+    const queueOffline = async () => {
+      try {
+        await stampQueue.enqueue(spotId, userLocation, new Date(userLocation.timestamp));
+        setMessage({
+          type: "success",
+          text: "オフラインのためスタンプを端末に保存しました。電波が戻ると自動で送信します。",
+        });
+      } catch (error) {
+        console.error("[stamp] enqueue failed", error);
+        setMessage({ type: "error", text: "スタンプの登録に失敗しました。" });
+      }
+    };
+
+    if (!navigator.onLine && stampQueue.isSupported) {
+      await queueOffline();
+      setStampingSpotId(null);
+      return;
+    }
+
+    try {
+      // 距離判定とユーザー特定はサーバー側で再検証する
+      const response = await fetch("/api/stamps", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          spot_id: spotId,
+          lat: userLocation.lat,
+          lng: userLocation.lng,
+          accuracy: userLocation.accuracy,
+        }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as {
+        stamp?: Stamp;
+        reason?: unknown;
+      };
 
-    if (stamp) {
-      setUserStamps((prev) => [stamp, ...prev]);
-      setMessage({ type: "success", text: "スタンプを獲得しました！" });
-    } else {
-      setMessage({ type: "error", text: "スタンプの登録に失敗しました。" });
+      if (response.ok && payload.stamp) {
+        const stamp = payload.stamp;
+        const nextStamps = [stamp, ...userStamps];
+        setUserStamps(nextStamps);
+        // 今回のスタンプで達成したラリーがあればバッジ獲得を知らせる
+        const completed = rallies.find(
+          (rally) =>
+            !rallyProgressById.get(rally.id)?.isComplete &&
+            computeRallyProgress(rally, nextStamps).isComplete
+        );
+        setMessage({
+          type: "success",
+          text: completed
+            ? `「${completed.title}」を達成！バッジ「${completed.badge_label ?? "達成"}」を獲得しました。`
+            : "スタンプを獲得しました！",
+        });
+      } else {
+        setMessage({
+          type: "error",
+          text: isStampRejectReason(payload.reason)
+            ? describeStampRejection(payload.reason)
+            : "スタンプの登録に失敗しました。",
+        });
+      }
+    } catch (error) {
+      console.error("[stamp] request failed", error);
+      if (stampQueue.isSupported) {
+        await queueOffline();
+      } else {
+        setMessage({ type: "error", text: "スタンプの登録に失敗しました。" });
+      }
+    } finally {
+      setStampingSpotId(null);
     }
   };
 
@@ -127,8 +225,16 @@ export default function StampPage() {
   const earnedCount = userStamps.length;
   const achievementRate = totalSpots > 0 ? Math.round((earnedCount / totalSpots) * 100) : 0;
 
+  // Per-rally progress
+  const rallyProgressById = useMemo(
+    () => new Map(rallies.map((rally) => [rally.id, computeRallyProgress(rally, userStamps)])),
+    [rallies, userStamps]
+  );
+
   // Check if spot is already stamped
   const isStamped = (spotId: number) => userStamps.some((s) => s.spot_id === spotId);
+  const isQueued = (spotId: number) =>
+    stampQueue.entries.some((entry) => entry.spotId === spotId && entry.status === "pending");
 
   // Loading state
   if (status === "loading" || loading) {
@@ -169,9 +275,13 @@ export default function StampPage() {
           <p className="text-sm text-emerald-50/80">
             {achievementRate}% 達成（{earnedCount}件 / {totalSpots}件）
           </p>
+          <GeoExportLinks endpoint="/api/export/stamps" disabled={earnedCount === 0} />
         </div>
       </GlassCard>
 
+      {/* Rally Progress */}
+      <RallyProgressList rallies={rallies} progressById={rallyProgressById} spots={spots} />
+
       {/* Location Request */}
       <GlassCard title="現在地からスタンプ" icon={Navigation} badge="GPS">
         <div className="space-y-3">
@@ -190,7 +300,8 @@ export default function StampPage() {
           )}
           {userLocation && (
             <p className="text-xs text-emerald-900/70">
-              取得座標: {userLocation.lat.toFixed(5)}, {userLocation.lng.toFixed(5)}
+              取得座標: {userLocation.lat.toFixed(5)}, {userLocation.lng.toFixed(5)}（精度 ±
+              {Math.round(userLocation.accuracy)}m）
             </p>
           )}
         </div>
@@ -214,6 +325,16 @@ export default function StampPage() {
         </div>
       )}
 
+      {/* Offline Queue */}
+      <StampQueuePanel
+        entries={stampQueue.entries}
+        spots={spots}
+        isOnline={stampQueue.isOnline}
+        isReplaying={stampQueue.isReplaying}
+        onReplay={() => void stampQueue.replay()}
+        onClearSettled={() => void stampQueue.clearSettled()}
+      />
+
       {/* Nearby Spots */}
       {userLocation && nearbySpots.length > 0 && (
         <GlassCard
@@ -244,6 +365,11 @@ export default function StampPage() {
                       <CheckCircle2 className="h-4 w-4" />
                       取得済み
                     </span>
+                  ) : isQueued(spot.id) ? (
+                    <span className="flex items-center gap-1 rounded-full bg-amber-100 px-3 py-1 text-xs text-amber-900">
+                      <CloudOff className="h-4 w-4" />
+                      送信待ち
+                    </span>
                   ) : (
                     <Button
                       onClick={() => handleStamp(spot.id)}
@@ -274,7 +400,21 @@ export default function StampPage() {
       )}
 
       {/* Earned Stamps List */}
-      <GlassCard title="獲得済みスタンプ" icon={StampIcon} badge={`${earnedCount}件`}>
+      <GlassCard
+        title="獲得済みスタンプ"
+        icon={StampIcon}
+        badge={`${earnedCount}件`}
+        actions={
+          earnedCount > 0 ? (
+            <Link href={STAMP_BOOK_PATH}>
+              <Button variant="outline">
+                <BookOpen className="h-4 w-4" />
+                スタンプ帳
+              </Button>
+            </Link>
+          ) : null
+        }
+      >
         {userStamps.length === 0 ? (
           <p className="text-sm text-emerald-900/75">
             まだスタンプを獲得していません。スポットの近くで「スタンプ」ボタンを押してください。
@@ -0,0 +1,32 @@
+import { AuthGate } from "@/components/auth/AuthGate";
+import { StampBook } from "@/components/stamp/StampBook";
+import { buildPageMetadata } from "@/lib/seo";
+import { fetchCities, fetchSpots } from "@/lib/supabaseClient";
+
+export const metadata = buildPageMetadata({
+  title: "Stamp Book",
+  description: "集めたスタンプを押印風に並べたスタンプ帳です。画像保存や印刷もできます。",
+  path: "/stamps/book",
+  noIndex: true,
+});
+
+/**
+ * スタンプ帳ページ。
+ *
+ * @returns StampBookPage
+ * @example
+ * <StampBookPage />
+ */
+export default async function StampBookPage() {
+  const [spots, cities] = await Promise.all([fetchSpots(), fetchCities()]);
+
+  return (
+    <AuthGate
+      title="Your stamp book lives here"
+      description="ログインすると、集めたスタンプを日付入りの押印として見返せます。"
+      loginLabel="Login to open stamp book"
+    >
+      <StampBook spots={spots} cities={cities} />
+    </AuthGate>
+  );
+}
@@ -3,7 +3,7 @@ import { StudioEventsManager } from "@/components/studio/StudioEventsManager";
 import { fetchAdminEventById, fetchAdminEventsPage } from "@/lib/adminServer";
 import { buildPageMetadata } from "@/lib/seo";
 import { parseStudioEditParam, parseStudioPageParam, readSearchParamValue } from "@/lib/studioPageSearch";
-import { fetchCities } from "@/lib/supabaseClient";
+import { fetchCities, fetchSpots } from "@/lib/supabaseClient";
 
 type PageProps = {
   searchParams?: Promise<Record<string, string | string[] | undefined>>;
@@ -29,9 +29,10 @@ export default async function StudioEventsPage({ searchParams }: PageProps) {
   const page = parseStudioPageParam(readSearchParamValue(resolved.page));
   const editId = parseStudioEditParam(readSearchParamValue(resolved.edit));
 
-  const [eventsPage, cities, editingEvent] = await Promise.all([
+  const [eventsPage, cities, spots, editingEvent] = await Promise.all([
     fetchAdminEventsPage(page, 20),
     fetchCities(),
+    fetchSpots(),
     typeof editId === "number" ? fetchAdminEventById(editId) : Promise.resolve(null),
   ]);
 
@@ -55,6 +56,7 @@ export default async function StudioEventsPage({ searchParams }: PageProps) {
         pageSize={eventsPage.pageSize}
         hasNext={eventsPage.hasNext}
         cities={cities}
+        spots={spots}
         editingEvent={editingEvent}
       />
     </div>
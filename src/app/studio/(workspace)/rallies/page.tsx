@@ -0,0 +1,62 @@
+import { Award } from "lucide-react";
+import { StudioRalliesManager } from "@/components/studio/StudioRalliesManager";
+import { fetchAdminRalliesPage, fetchAdminRallyById } from "@/lib/adminServer";
+import { buildPageMetadata } from "@/lib/seo";
+import { parseStudioEditParam, parseStudioPageParam, readSearchParamValue } from "@/lib/studioPageSearch";
+import { fetchSpots } from "@/lib/supabaseClient";
+
+type PageProps = {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export const metadata = buildPageMetadata({
+  title: "Studio Rallies",
+  description: "Studio からスタンプラリーを管理します。",
+  path: "/studio/rallies",
+  noIndex: true,
+});
+
+/**
+ * Studio のスタンプラリー管理ページ。
+ *
+ * @param props - ページ props
+ * @returns ラリー管理画面
+ * @example
+ * <StudioRalliesPage searchParams={Promise.resolve({ page: "1" })} />
+ */
+export default async function StudioRalliesPage({ searchParams }: PageProps) {
+  const resolved = (await searchParams) ?? {};
+  const page = parseStudioPageParam(readSearchParamValue(resolved.page));
+  const editId = parseStudioEditParam(readSearchParamValue(resolved.edit));
+
+  const [ralliesPage, spots, editingRally] = await Promise.all([
+    fetchAdminRalliesPage(page, 20),
+    fetchSpots(),
+    typeof editId === "number" ? fetchAdminRallyById(editId) : Promise.resolve(null),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-[28px] border border-zinc-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-emerald-700">Rallies management</p>
+        <h2 className="mt-2 flex items-center gap-2 text-3xl font-semibold text-zinc-950">
+          <Award className="h-6 w-6 text-emerald-700" />
+          スタンプラリー CRUD
+        </h2>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-zinc-600">
+          テーマごとに対象スポットと開催期間をまとめます。順番ありのラリーは並び順どおりに押したスタンプだけが進捗に数えられます。
+        </p>
+      </section>
+
+      <StudioRalliesManager
+        items={ralliesPage.items}
+        total={ralliesPage.total}
+        page={ralliesPage.page}
+        pageSize={ralliesPage.pageSize}
+        hasNext={ralliesPage.hasNext}
+        spots={spots}
+        editingRally={editingRally}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { MapPinned } from "lucide-react";
+import { StudioSpotImport } from "@/components/studio/StudioSpotImport";
 import { StudioSpotsManager } from "@/components/studio/StudioSpotsManager";
 import { fetchAdminSpotById, fetchAdminSpotsPage } from "@/lib/adminServer";
 import { buildPageMetadata } from "@/lib/seo";
@@ -59,6 +60,8 @@ export default async function StudioSpotsPage({ searchParams }: PageProps) {
         genres={genres}
         editingSpot={editingSpot}
       />
+
+      <StudioSpotImport />
     </div>
   );
 }
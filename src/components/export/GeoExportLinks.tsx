@@ -0,0 +1,46 @@
+import { Download } from "lucide-react";
+import { GEO_EXPORT_FORMAT_LABELS, GEO_EXPORT_FORMATS } from "@/lib/geoExport";
+
+type Props = {
+  /** 書き出し API のパス（例: `/api/export/favorites`） */
+  endpoint: string;
+  /** 書き出し API に渡す絞り込みクエリ */
+  query?: string;
+  /** 無効時はリンクを出さない */
+  disabled?: boolean;
+};
+
+/**
+ * GeoJSON / GPX / KML のダウンロードリンクを並べる。
+ *
+ * @param props - 書き出し API とクエリ
+ * @returns GeoExportLinks
+ * @example
+ * <GeoExportLinks endpoint="/api/export/stamps" />
+ */
+export function GeoExportLinks({ endpoint, query = "", disabled = false }: Props) {
+  if (disabled) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-emerald-900/75">
+      <span className="inline-flex items-center gap-1">
+        <Download className="h-3.5 w-3.5" />
+        書き出し
+      </span>
+      {GEO_EXPORT_FORMATS.map((format) => {
+        const params = new URLSearchParams(query);
+        params.set("format", format);
+        return (
+          <a
+            key={format}
+            href={`${endpoint}?${params.toString()}`}
+            download
+            className="rounded-full px-2.5 py-0.5 text-emerald-900 ring-1 ring-emerald-900/15 transition hover:bg-emerald-50"
+          >
+            {GEO_EXPORT_FORMAT_LABELS[format]}
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Heart, Loader2 } from "lucide-react";
+import { PUBLIC_LOGIN_PATH } from "@/lib/config";
+import { useFavorites } from "@/lib/favoritesClient";
+
+type Props = {
+  spotId: number;
+  /** `full` はラベル付き、`icon` はハートのみ（地図ポップアップ向け） */
+  variant?: "full" | "icon";
+  className?: string;
+};
+
+/**
+ * スポットのお気に入りをトグルするハートボタン。
+ *
+ * 未ログイン時はログインページへ誘導し、ログイン後に元のページへ戻す。
+ *
+ * @param props - ボタン設定
+ * @returns FavoriteButton
+ * @example
+ * <FavoriteButton spotId={spot.id} />
+ */
+export function FavoriteButton({ spotId, variant = "full", className = "" }: Props) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { isAuthenticated, isFavorite, toggleFavorite, status } = useFavorites();
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const active = isFavorite(spotId);
+  const label = active ? "お気に入り済み" : "お気に入りに残す";
+
+  /**
+   * お気に入り状態を切り替える。
+   *
+   * @returns void
+   * @example
+   * handleClick();
+   */
+  function handleClick(): void {
+    if (!isAuthenticated) {
+      const params = new URLSearchParams({ next: pathname || "/" });
+      router.push(`${PUBLIC_LOGIN_PATH}?${params.toString()}`);
+      return;
+    }
+
+    setErrorMessage(null);
+    void (async () => {
+      setIsSaving(true);
+      try {
+        await toggleFavorite(spotId);
+      } catch (error) {
+        console.error("[favorites] toggle failed", error);
+        setErrorMessage("お気に入りを更新できませんでした。");
+      } finally {
+        setIsSaving(false);
+      }
+    })();
+  }
+
+  const icon = isSaving ? (
+    <Loader2 className="h-4 w-4 animate-spin" />
+  ) : (
+    <Heart className={`h-4 w-4 ${active ? "fill-rose-500 text-rose-500" : ""}`} />
+  );
+
+  if (variant === "icon") {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isSaving || status === "loading"}
+        aria-pressed={active}
+        aria-label={label}
+        title={errorMessage ?? label}
+        className={`inline-grid h-8 w-8 place-items-center rounded-full text-emerald-900 ring-1 ring-emerald-900/10 transition hover:bg-rose-50 disabled:opacity-50 ${className}`}
+      >
+        {icon}
+      </button>
+    );
+  }
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isSaving || status === "loading"}
+        aria-pressed={active}
+        className="inline-flex items-center gap-2 text-sm font-medium text-emerald-900 underline underline-offset-4 disabled:opacity-50"
+      >
+        {icon}
+        {label}
+      </button>
+      {errorMessage && <p className="text-xs text-rose-700">{errorMessage}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { Heart, Loader2, MapPin } from "lucide-react";
+import { GeoExportLinks } from "@/components/export/GeoExportLinks";
+import { FavoriteButton } from "@/components/favorites/FavoriteButton";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { MORIOKA_STATION } from "@/lib/config";
+import { useFavorites } from "@/lib/favoritesClient";
+import { formatDistance, haversineDistance } from "@/lib/geo";
+import { getSpotHref } from "@/lib/spotRoutes";
+import type { City, Genre, Spot } from "@/lib/types";
+
+type Props = {
+  spots: Spot[];
+  cities: City[];
+  genres: Genre[];
+};
+
+/**
+ * 保存済みお気に入りスポットを一覧表示する。
+ *
+ * 距離は現在地（取得できない場合は盛岡駅）から算出する。
+ *
+ * @param props - スポット・市区町村・ジャンルのマスタ
+ * @returns FavoritesList
+ * @example
+ * <FavoritesList spots={spots} cities={cities} genres={genres} />
+ */
+export function FavoritesList({ spots, cities, genres }: Props) {
+  const { spotIds, status } = useFavorites();
+  const [userPos, setUserPos] = useState<{ lat: number; lng: number } | null>(null);
+
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition(
+      (position) => setUserPos({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      () => {
+        // 取得できない場合は盛岡駅基準で表示する
+      },
+      { enableHighAccuracy: false, timeout: 8000, maximumAge: 60000 }
+    );
+  }, []);
+
+  const basePoint = userPos ?? MORIOKA_STATION;
+  const cityById = useMemo(() => new Map(cities.map((city) => [city.id, city])), [cities]);
+  const genreById = useMemo(() => new Map(genres.map((genre) => [genre.id, genre])), [genres]);
+  const spotById = useMemo(() => new Map(spots.map((spot) => [spot.id, spot])), [spots]);
+
+  const favoriteSpots = useMemo(() => {
+    return spotIds
+      .map((spotId) => spotById.get(spotId))
+      .filter((spot): spot is Spot => Boolean(spot))
+      .map((spot) => ({
+        ...spot,
+        distance: haversineDistance(basePoint.lat, basePoint.lng, spot.lat, spot.lng),
+      }));
+  }, [basePoint.lat, basePoint.lng, spotById, spotIds]);
+
+  if (status === "loading" || status === "idle") {
+    return (
+      <div className="flex min-h-[20vh] items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <GlassCard title="Favorites" icon={Heart}>
+        <p className="text-sm leading-6 text-rose-700">
+          お気に入りを読み込めませんでした。時間をおいて再読み込みしてください。
+        </p>
+      </GlassCard>
+    );
+  }
+
+  if (favoriteSpots.length === 0) {
+    return (
+      <GlassCard title="Favorites" icon={Heart} badge="0 spots">
+        <p className="text-sm leading-6 text-emerald-900/75">
+          まだお気に入りがありません。スポット詳細や地図のポップアップでハートを押すと、ここに保存されます。
+        </p>
+        <Link href="/search" className="mt-3 inline-flex text-sm font-medium text-emerald-800 underline underline-offset-4">
+          スポットを探す
+        </Link>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <GlassCard title="Favorites" icon={Heart} badge={`${favoriteSpots.length} spots`}>
+      <p className="text-xs text-emerald-900/65">
+        距離は{userPos ? "現在地" : "盛岡駅"}からの直線距離です。
+      </p>
+      <div className="mt-2">
+        <GeoExportLinks endpoint="/api/export/favorites" />
+      </div>
+      <ul className="mt-3 space-y-3">
+        {favoriteSpots.map((spot) => (
+          <li
+            key={spot.id}
+            className="flex items-center justify-between gap-3 rounded-xl border border-emerald-900/10 bg-white px-4 py-3"
+          >
+            <div className="min-w-0 space-y-1">
+              <Link href={getSpotHref(spot)} className="font-medium text-emerald-950 underline-offset-4 hover:underline">
+                {spot.name}
+              </Link>
+              <p className="flex flex-wrap items-center gap-2 text-xs text-emerald-900/70">
+                <span className="rounded-full bg-emerald-50 px-2 py-0.5">
+                  {cityById.get(spot.city_id)?.name ?? "Iwate"}
+                </span>
+                <span className="rounded-full bg-sky-50 px-2 py-0.5 text-sky-900">
+                  {genreById.get(spot.genre_id)?.name ?? "Spot"}
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <MapPin className="h-3.5 w-3.5" />
+                  {formatDistance(spot.distance)}
+                </span>
+              </p>
+            </div>
+            <FavoriteButton spotId={spot.id} variant="icon" />
+          </li>
+        ))}
+      </ul>
+    </GlassCard>
+  );
+}
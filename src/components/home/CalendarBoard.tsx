@@ -1,55 +1,143 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
-import { Event } from "@/lib/types";
-import { CalendarDays, ChevronLeft, ChevronRight, MapPin, Sparkles, X } from "lucide-react";
+import { Event, Spot } from "@/lib/types";
+import { CalendarDays, ChevronLeft, ChevronRight, Landmark, Map as MapIcon, MapPin, Sparkles, X } from "lucide-react";
 import { Button } from "@/components/ui/Button";
+import { buildEventMapHref, buildSpotMapHref } from "@/lib/mapLayers";
+import { getEventHref } from "@/lib/eventRoutes";
+import { expandEventOccurrences, getOccurrenceKey } from "@/lib/eventRecurrence";
+import { resolveEventSpots } from "@/lib/eventSpots";
+import { getSpotHref } from "@/lib/spotRoutes";
+import { diffDateKeys, layoutWeekBars, shiftDateKey, startOfWeekKey, type CalendarRange } from "@/lib/calendarView";
+
+type Venue = Pick<Spot, "id" | "name">;
 
 type Props = {
   events: Event[];
+  /** イベントの会場スポット（ポップアップから会場へ案内する） */
+  venues?: Venue[];
+  /** 月グリッドか、期間を日ごとに並べるアジェンダか */
+  view: "month" | "agenda";
+  /** 表示期間（月表示では月初〜月末） */
+  range: CalendarRange;
+  /** 今日（`YYYY-MM-DD`） */
+  today: string;
+  onNavigate: (direction: -1 | 1) => void;
 };
 
-function toDate(value?: string | null) {
-  if (!value) return null;
-  const [y, m, d] = value.split("-").map(Number);
-  if (!y || !m || !d) return null;
-  return new Date(y, m - 1, d);
+/** 月グリッドの 1 マスに表示するバーの段数（超えた分は「+N 件」にまとめる） */
+const MAX_BAR_LANES = 2;
+
+const weekJa = ["日", "月", "火", "水", "木", "金", "土"];
+
+function getEndKey(ev: Event) {
+  const start = ev.start_date?.slice(0, 10) ?? "";
+  const end = ev.end_date?.slice(0, 10);
+  return end && end > start ? end : start;
 }
 
-export function CalendarBoard({ events }: Props) {
-  const today = useMemo(() => new Date(), []);
-  const [currentMonth, setCurrentMonth] = useState(() => new Date(today.getFullYear(), today.getMonth(), 1));
-  const [popupDate, setPopupDate] = useState<Date | null>(null);
+function coversDay(ev: Event, key: string) {
+  return !!ev.start_date && ev.start_date.slice(0, 10) <= key && key <= getEndKey(ev);
+}
 
-  const monthEvents = useMemo(() => {
-    return events.map((ev) => {
-      const start = toDate(ev.start_date);
-      const end = toDate(ev.end_date) ?? start;
-      return { ...ev, start, end };
-    });
-  }, [events]);
-
-  const days = useMemo(() => {
-    const start = new Date(currentMonth);
-    const startWeek = start.getDay();
-    const end = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
-    const total = end.getDate();
-    const cells: Array<{ date: Date | null }> = [];
-    for (let i = 0; i < startWeek; i++) cells.push({ date: null });
-    for (let day = 1; day <= total; day++) {
-      cells.push({ date: new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day) });
+function formatDayLabel(key: string) {
+  const weekday = new Date(`${key}T00:00:00Z`).getUTCDay();
+  return `${Number(key.slice(5, 7))}/${Number(key.slice(8, 10))}（${weekJa[weekday]}）`;
+}
+
+function CalendarEventItem({ ev, venues, today, day }: { ev: Event; venues: Venue[]; today: string; day?: string }) {
+  const [venue] = resolveEventSpots(ev, venues);
+  const start = ev.start_date?.slice(0, 10) ?? "";
+  const totalDays = diffDateKeys(start, getEndKey(ev)) + 1;
+  return (
+    <li className="flex items-center justify-between rounded-xl border border-white/10 bg-gradient-to-r from-white/10 to-white/5 px-3 py-2 shadow-inner">
+      <div className="space-y-0.5">
+        <Link href={getEventHref(ev)} className="block text-white underline-offset-2 hover:underline">
+          {ev.title}
+        </Link>
+        <p className="flex items-center gap-1 text-xs text-emerald-100/80">
+          <MapPin className="h-3.5 w-3.5" />
+          {ev.location ?? "未設定"}
+        </p>
+        {venue && (
+          <p className="flex items-center gap-2 text-xs text-emerald-100/80">
+            <Landmark className="h-3.5 w-3.5" />
+            <Link href={getSpotHref(venue)} className="text-emerald-200 underline underline-offset-2">
+              {venue.name}
+            </Link>
+            <Link
+              href={buildSpotMapHref(venue.id)}
+              className="text-emerald-100/70 underline underline-offset-2 hover:text-emerald-100"
+            >
+              会場の地図
+            </Link>
+          </p>
+        )}
+      </div>
+      <div className="flex flex-col items-end gap-1">
+        <span className="text-[11px] text-emerald-100/70">
+          {ev.start_date}
+          {ev.end_date && ev.end_date !== ev.start_date ? ` – ${ev.end_date}` : ""}
+        </span>
+        {day && totalDays > 1 && (
+          <span className="rounded-full bg-emerald-300/15 px-2 py-[1px] text-[10px] text-emerald-100">
+            {diffDateKeys(start, day) + 1}日目 / 全{totalDays}日
+          </span>
+        )}
+        {/* 地図のイベントレイヤーは終了前のイベントだけを置く */}
+        {start &&
+          getEndKey(ev) >= today &&
+          (typeof ev.lat === "number" || ev.spot_ids?.length || ev.location || ev.city_id) && (
+          <Link
+            href={buildEventMapHref(ev.id)}
+            className="flex items-center gap-1 text-[11px] text-emerald-200 underline underline-offset-2"
+          >
+            <MapIcon className="h-3.5 w-3.5" />
+            地図で見る
+          </Link>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function CalendarBoard({ events, venues = [], view, range, today, onNavigate }: Props) {
+  const [popupDate, setPopupDate] = useState<string | null>(null);
+
+  // 繰り返しイベントは表示期間に重なる回へ展開する
+  const rangeEvents = useMemo(() => expandEventOccurrences(events, range), [events, range]);
+
+  const weeks = useMemo(() => {
+    const rows: string[] = [];
+    for (let weekStart = startOfWeekKey(range.from); weekStart <= range.to; weekStart = shiftDateKey(weekStart, 7)) {
+      rows.push(weekStart);
     }
-    return cells;
-  }, [currentMonth]);
+    return rows.map((weekStart) => {
+      const bars = layoutWeekBars(rangeEvents, weekStart, range);
+      const hidden = Array.from(
+        { length: 7 },
+        (_, column) =>
+          bars.filter((bar) => bar.lane >= MAX_BAR_LANES && bar.column <= column && column < bar.column + bar.span)
+            .length
+      );
+      return { weekStart, bars: bars.filter((bar) => bar.lane < MAX_BAR_LANES), hidden };
+    });
+  }, [rangeEvents, range]);
+
+  const agendaDays = useMemo(() => {
+    if (view !== "agenda") return [];
+    return Array.from({ length: diffDateKeys(range.from, range.to) + 1 }, (_, idx) => {
+      const key = shiftDateKey(range.from, idx);
+      return { key, list: rangeEvents.filter((ev) => coversDay(ev, key)) };
+    });
+  }, [view, range, rangeEvents]);
 
   const selectedEvents = useMemo(() => {
     if (!popupDate) return [];
-    return monthEvents.filter((ev) => {
-      if (!ev.start) return false;
-      const end = ev.end ?? ev.start;
-      return ev.start <= popupDate && popupDate <= end;
-    });
-  }, [monthEvents, popupDate]);
+    return rangeEvents.filter((ev) => coversDay(ev, popupDate));
+  }, [rangeEvents, popupDate]);
 
   useEffect(() => {
     if (!popupDate) return;
@@ -60,7 +148,17 @@ export function CalendarBoard({ events }: Props) {
     return () => window.removeEventListener("keydown", onEsc);
   }, [popupDate]);
 
-  const monthLabel = `${currentMonth.getFullYear()}年 ${String(currentMonth.getMonth() + 1).padStart(2, "0")}月`;
+  const navigate = (direction: -1 | 1) => {
+    setPopupDate(null);
+    onNavigate(direction);
+  };
+
+  const rangeLabel =
+    view === "month"
+      ? `${range.from.slice(0, 4)}年 ${range.from.slice(5, 7)}月`
+      : range.from === range.to
+        ? formatDayLabel(range.from)
+        : `${formatDayLabel(range.from)} – ${formatDayLabel(range.to)}`;
 
   return (
     <div className="glass relative rounded-3xl border border-white/10 bg-gradient-to-br from-[#0e1c21] via-[#0a1519] to-[#10262b] p-4 ring-1 ring-emerald-200/10 sm:p-6">
@@ -71,27 +169,25 @@ export function CalendarBoard({ events }: Props) {
           </span>
           <div>
             <p className="font-display text-xl text-white">イベントカレンダー</p>
-            <p className="text-xs text-emerald-50/70">タップで予定をピックアップ</p>
+            <p className="text-xs text-emerald-50/70">
+              {view === "month" ? "タップで予定をピックアップ" : "期間内の予定を日ごとに表示"}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-2 py-1 text-sm text-emerald-50/80 shadow-inner">
           <Button
             variant="glass"
-            onClick={() =>
-              setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1))
-            }
-            aria-label="previous month"
+            onClick={() => navigate(-1)}
+            aria-label={view === "month" ? "previous month" : "previous range"}
             className="h-11 w-11 rounded-full p-0"
           >
             <ChevronLeft className="h-5 w-5" />
           </Button>
-          <span className="px-2 font-semibold text-emerald-100">{monthLabel}</span>
+          <span className="px-2 font-semibold text-emerald-100">{rangeLabel}</span>
           <Button
             variant="glass"
-            onClick={() =>
-              setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1))
-            }
-            aria-label="next month"
+            onClick={() => navigate(1)}
+            aria-label={view === "month" ? "next month" : "next range"}
             className="h-11 w-11 rounded-full p-0"
           >
             <ChevronRight className="h-5 w-5" />
@@ -99,60 +195,109 @@ export function CalendarBoard({ events }: Props) {
         </div>
       </div>
 
-      <div className="mt-4 grid grid-cols-7 gap-2 text-center text-[11px] uppercase tracking-wide text-emerald-100/70">
-        {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((d) => (
-          <span key={d} className="rounded-lg bg-white/5 py-1 ring-1 ring-white/5">
-            {d}
-          </span>
-        ))}
-      </div>
-      <div className="mt-2 grid grid-cols-7 gap-2 text-sm">
-        {days.map((cell, idx) => {
-          const day = cell.date?.getDate();
-          const isToday =
-            cell.date &&
-            cell.date.getFullYear() === today.getFullYear() &&
-            cell.date.getMonth() === today.getMonth() &&
-            day === today.getDate();
-          const isSelected =
-            popupDate &&
-            cell.date &&
-            popupDate.toDateString() === cell.date.toDateString();
-          const evCount = (() => {
-            if (!cell.date) return 0;
-            const currentDate = cell.date;
-            return monthEvents.filter(
-              (ev) =>
-                ev.start &&
-                ev.start <= currentDate &&
-                currentDate <= (ev.end ?? ev.start)
-            ).length;
-          })();
-          return (
-            <button
-              key={idx}
-              disabled={!cell.date}
-              onClick={() => cell.date && setPopupDate(cell.date)}
-              className={`flex h-14 flex-col items-center justify-center rounded-2xl border transition ${
-                !cell.date
-                  ? "border-transparent"
-                  : isSelected
-                    ? "border-emerald-300/70 bg-gradient-to-br from-emerald-400/30 to-cyan-400/20 text-white shadow-lg shadow-emerald-900/30"
-                    : isToday
-                      ? "border-emerald-200/60 bg-white/10 text-emerald-100 ring-1 ring-emerald-200/30"
-                      : "border-white/10 bg-white/5 text-emerald-50/85 hover:border-emerald-200/40 hover:bg-white/10"
+      {view === "agenda" ? (
+        <div className="mt-4 max-h-[70vh] space-y-2 overflow-y-auto pr-1">
+          {agendaDays.map(({ key, list }) => (
+            <article
+              key={key}
+              className={`rounded-2xl border p-3 ${
+                key === today
+                  ? "border-emerald-200/60 bg-white/10 ring-1 ring-emerald-200/30"
+                  : "border-white/10 bg-white/5"
               }`}
             >
-              <span className={`${isToday ? "font-semibold text-emerald-100" : ""}`}>{day ?? ""}</span>
-              {evCount > 0 && (
-                <span className="mt-1 rounded-full bg-emerald-300/90 px-2 py-[2px] text-[10px] text-[#0a1619]">
-                  {evCount} 件
-                </span>
+              <p className="flex items-center gap-2 text-sm font-semibold text-emerald-100">
+                {formatDayLabel(key)}
+                {key === today && (
+                  <span className="rounded-full bg-emerald-300/90 px-2 py-[2px] text-[10px] text-[#0a1619]">TODAY</span>
+                )}
+              </p>
+              {list.length === 0 ? (
+                <p className="mt-1 text-xs text-emerald-50/50">イベントなし</p>
+              ) : (
+                <ul className="mt-2 space-y-2">
+                  {list.map((ev) => (
+                    <CalendarEventItem key={getOccurrenceKey(ev)} ev={ev} venues={venues} today={today} day={key} />
+                  ))}
+                </ul>
               )}
-            </button>
-          );
-        })}
-      </div>
+            </article>
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="mt-4 grid grid-cols-7 gap-2 text-center text-[11px] uppercase tracking-wide text-emerald-100/70">
+            {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((d) => (
+              <span key={d} className="rounded-lg bg-white/5 py-1 ring-1 ring-white/5">
+                {d}
+              </span>
+            ))}
+          </div>
+          <div className="mt-2 space-y-2 text-sm">
+            {weeks.map(({ weekStart, bars, hidden }) => (
+              <div
+                key={weekStart}
+                className="grid grid-cols-7 gap-x-2 gap-y-0.5"
+                style={{ gridTemplateRows: `1.5rem repeat(${MAX_BAR_LANES}, 1.125rem) 1rem` }}
+              >
+                {Array.from({ length: 7 }, (_, column) => {
+                  const key = shiftDateKey(weekStart, column);
+                  if (key < range.from || key > range.to) {
+                    return <span key={key} style={{ gridColumn: column + 1, gridRow: "1 / -1" }} />;
+                  }
+                  const count = rangeEvents.filter((ev) => coversDay(ev, key)).length;
+                  const isToday = key === today;
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => setPopupDate(key)}
+                      aria-label={`${key} ${count} 件`}
+                      style={{ gridColumn: column + 1, gridRow: "1 / -1" }}
+                      className={`flex flex-col items-center justify-start rounded-2xl border pt-0.5 transition ${
+                        popupDate === key
+                          ? "border-emerald-300/70 bg-gradient-to-br from-emerald-400/30 to-cyan-400/20 text-white shadow-lg shadow-emerald-900/30"
+                          : isToday
+                            ? "border-emerald-200/60 bg-white/10 text-emerald-100 ring-1 ring-emerald-200/30"
+                            : "border-white/10 bg-white/5 text-emerald-50/85 hover:border-emerald-200/40 hover:bg-white/10"
+                      }`}
+                    >
+                      <span className={`${isToday ? "font-semibold text-emerald-100" : ""}`}>
+                        {Number(key.slice(8, 10))}
+                      </span>
+                    </button>
+                  );
+                })}
+                {/* 複数日のイベントはマスをまたぐバーにする */}
+                {bars.map((bar) => (
+                  <button
+                    key={`${weekStart}-${getOccurrenceKey(bar.event)}`}
+                    onClick={() => setPopupDate(shiftDateKey(weekStart, bar.column))}
+                    title={bar.event.title}
+                    style={{ gridColumn: `${bar.column + 1} / span ${bar.span}`, gridRow: bar.lane + 2 }}
+                    className={`z-10 truncate bg-emerald-300/90 px-1.5 text-left text-[10px] leading-[1.125rem] text-[#0a1619] hover:bg-emerald-200 ${
+                      bar.continuesBefore ? "rounded-l-none" : "ml-1 rounded-l-full"
+                    } ${bar.continuesAfter ? "rounded-r-none" : "mr-1 rounded-r-full"}`}
+                  >
+                    {bar.event.title}
+                  </button>
+                ))}
+                {hidden.map((count, column) =>
+                  count > 0 ? (
+                    <button
+                      key={`${weekStart}-more-${column}`}
+                      onClick={() => setPopupDate(shiftDateKey(weekStart, column))}
+                      style={{ gridColumn: column + 1, gridRow: MAX_BAR_LANES + 2 }}
+                      className="z-10 text-[10px] text-emerald-100/80 hover:text-white"
+                    >
+                      +{count} 件
+                    </button>
+                  ) : null
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
 
       {popupDate && (
         <div
@@ -167,7 +312,7 @@ export function CalendarBoard({ events }: Props) {
               <div>
                 <p className="flex items-center gap-2 text-xs uppercase tracking-[0.2em] text-emerald-100/70">
                   <Sparkles className="h-4 w-4" />
-                  {`${popupDate.getFullYear()}-${String(popupDate.getMonth() + 1).padStart(2, "0")}-${String(popupDate.getDate()).padStart(2, "0")}`}
+                  {popupDate}
                 </p>
                 <p className="mt-1 text-sm text-emerald-50/80">この日のイベント</p>
               </div>
@@ -189,22 +334,7 @@ export function CalendarBoard({ events }: Props) {
             ) : (
               <ul className="mt-4 space-y-2">
                 {selectedEvents.map((ev) => (
-                  <li
-                    key={ev.id}
-                    className="flex items-center justify-between rounded-xl border border-white/10 bg-gradient-to-r from-white/10 to-white/5 px-3 py-2 shadow-inner"
-                  >
-                    <div className="space-y-0.5">
-                      <p className="text-white">{ev.title}</p>
-                      <p className="flex items-center gap-1 text-xs text-emerald-100/80">
-                        <MapPin className="h-3.5 w-3.5" />
-                        {ev.location ?? "未設定"}
-                      </p>
-                    </div>
-                    <span className="text-[11px] text-emerald-100/70">
-                      {ev.start_date}
-                      {ev.end_date && ev.end_date !== ev.start_date ? ` – ${ev.end_date}` : ""}
-                    </span>
-                  </li>
+                  <CalendarEventItem key={getOccurrenceKey(ev)} ev={ev} venues={venues} today={today} day={popupDate} />
                 ))}
               </ul>
             )}
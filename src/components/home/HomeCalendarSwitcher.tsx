@@ -1,38 +1,128 @@
 "use client";
 
-import { useState } from "react";
-import { Event } from "@/lib/types";
+import { useEffect, useMemo, useState } from "react";
+import { City, Event, Spot } from "@/lib/types";
 import { CalendarBoard } from "@/components/home/CalendarBoard";
 import { LegacyCalendarBoard } from "@/components/home/LegacyCalendarBoard";
 import { Button } from "@/components/ui/Button";
+import { resolveEventCity } from "@/lib/geocoding";
+import {
+  buildCalendarViewQuery,
+  buildWeekendRange,
+  DEFAULT_CALENDAR_VIEW,
+  getMonthRange,
+  resolveCalendarRange,
+  shiftCalendarView,
+  type CalendarView,
+  type CalendarViewState,
+} from "@/lib/calendarView";
 
 type Props = {
   events: Event[];
+  venues?: Array<Pick<Spot, "id" | "name">>;
+  /** 市区町村での絞り込みの選択肢 */
+  cities?: Array<Pick<City, "id" | "name">>;
+  /** URL クエリから復元した表示状態 */
+  initialState?: CalendarViewState;
+  /** 今日（`YYYY-MM-DD`、日本時間）。サーバーとクライアントで表示がずれないようページから渡す */
+  today: string;
 };
 
-export function HomeCalendarSwitcher({ events }: Props) {
-  const [view, setView] = useState<"modern" | "legacy">("modern");
+const VIEW_OPTIONS: Array<{ view: CalendarView; label: string }> = [
+  { view: "month", label: "カレンダー表示" },
+  { view: "agenda", label: "週・アジェンダ" },
+  { view: "list", label: "縦スクロール表示" },
+];
+
+export function HomeCalendarSwitcher({
+  events,
+  venues = [],
+  cities = [],
+  initialState = DEFAULT_CALENDAR_VIEW,
+  today,
+}: Props) {
+  const [state, setState] = useState<CalendarViewState>(initialState);
+  const range = useMemo(() => resolveCalendarRange(state, today), [state, today]);
+  const weekend = useMemo(() => buildWeekendRange(today), [today]);
+  const isWeekend = state.view === "agenda" && range.from === weekend.from && range.to === weekend.to;
+
+  const cityEvents = useMemo(() => {
+    if (!state.cityId) return events;
+    return events.filter((event) => resolveEventCity(event, cities)?.id === state.cityId);
+  }, [events, cities, state.cityId]);
+
+  // 表示と期間を共有できるよう URL クエリへ反映する（他のクエリとアンカーは残す）
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    ["view", "from", "to", "city"].forEach((key) => params.delete(key));
+    new URLSearchParams(buildCalendarViewQuery(state)).forEach((value, key) => params.set(key, value));
+    const query = params.toString();
+    const { pathname, hash } = window.location;
+    window.history.replaceState(window.history.state, "", `${query ? `${pathname}?${query}` : pathname}${hash}`);
+  }, [state]);
+
+  const changeView = (view: CalendarView) => {
+    if (view === state.view) return;
+    // 月表示と縦スクロール表示は同じ月を引き継ぎ、アジェンダへは今週から入る
+    const from = view === "agenda" ? null : state.view === "agenda" ? getMonthRange(range.from).from : state.from;
+    setState({ ...state, view, from, to: null });
+  };
+
+  const navigate = (direction: -1 | 1) => setState(shiftCalendarView(state, today, direction));
 
   return (
     <section id="home-calendar" className="scroll-mt-28 space-y-3">
-      <div className="inline-flex gap-1 rounded-full border border-emerald-900/10 bg-white p-1 shadow-sm">
-        <Button
-          variant={view === "modern" ? "primary" : "ghost"}
-          size="sm"
-          onClick={() => setView("modern")}
-        >
-          カレンダー表示
-        </Button>
-        <Button
-          variant={view === "legacy" ? "primary" : "ghost"}
-          size="sm"
-          onClick={() => setView("legacy")}
-        >
-          縦スクロール表示
-        </Button>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="inline-flex gap-1 rounded-full border border-emerald-900/10 bg-white p-1 shadow-sm">
+          {VIEW_OPTIONS.map((option) => (
+            <Button
+              key={option.view}
+              variant={state.view === option.view && !(option.view === "agenda" && isWeekend) ? "primary" : "ghost"}
+              size="sm"
+              onClick={() => changeView(option.view)}
+            >
+              {option.label}
+            </Button>
+          ))}
+          <Button
+            variant={isWeekend ? "primary" : "ghost"}
+            size="sm"
+            onClick={() => setState({ ...state, view: "agenda", ...weekend })}
+          >
+            今週末
+          </Button>
+        </div>
+        {cities.length > 0 && (
+          <label className="flex items-center gap-2 rounded-full border border-emerald-900/10 bg-white px-3 py-1.5 text-sm text-emerald-900/90 shadow-sm">
+            <span>市町村</span>
+            <select
+              value={state.cityId ?? ""}
+              onChange={(event) => setState({ ...state, cityId: Number(event.target.value) || null })}
+              className="rounded-md border border-emerald-900/15 bg-white px-2 py-1 text-emerald-900"
+            >
+              <option value="">すべて</option>
+              {cities.map((city) => (
+                <option key={city.id} value={city.id}>
+                  {city.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
 
-      {view === "modern" ? <CalendarBoard events={events} /> : <LegacyCalendarBoard events={events} />}
+      {state.view === "list" ? (
+        <LegacyCalendarBoard events={cityEvents} range={range} today={today} onNavigate={navigate} />
+      ) : (
+        <CalendarBoard
+          events={cityEvents}
+          venues={venues}
+          view={state.view}
+          range={range}
+          today={today}
+          onNavigate={navigate}
+        />
+      )}
     </section>
   );
 }
@@ -1,51 +1,43 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useMemo } from "react";
 import { Event } from "@/lib/types";
 import { CalendarDays, ChevronLeft, ChevronRight, MapPin } from "lucide-react";
 import { Button } from "@/components/ui/Button";
+import { getEventHref } from "@/lib/eventRoutes";
+import { expandEventOccurrences, getOccurrenceKey } from "@/lib/eventRecurrence";
+import { diffDateKeys, shiftDateKey, type CalendarRange } from "@/lib/calendarView";
 
 type Props = {
   events: Event[];
+  /** 表示する月（月初〜月末） */
+  range: CalendarRange;
+  /** 今日（`YYYY-MM-DD`） */
+  today: string;
+  onNavigate: (direction: -1 | 1) => void;
 };
 
-function toDate(value?: string | null) {
-  if (!value) return null;
-  const [y, m, d] = value.split("-").map(Number);
-  if (!y || !m || !d) return null;
-  return new Date(y, m - 1, d);
-}
-
 const weekJa = ["日", "月", "火", "水", "木", "金", "土"];
 
-export function LegacyCalendarBoard({ events }: Props) {
-  const today = useMemo(() => new Date(), []);
-  const [currentMonth, setCurrentMonth] = useState(
-    () => new Date(today.getFullYear(), today.getMonth(), 1)
-  );
-
-  const monthEvents = useMemo(() => {
-    return events.map((ev) => {
-      const start = toDate(ev.start_date);
-      const end = toDate(ev.end_date) ?? start;
-      return { ...ev, start, end };
-    });
-  }, [events]);
+export function LegacyCalendarBoard({ events, range, today, onNavigate }: Props) {
+  // 繰り返しイベントは表示中の月に重なる回へ展開する
+  const monthEvents = useMemo(() => expandEventOccurrences(events, range), [events, range]);
 
-  const monthLabel = `${currentMonth.getFullYear()}年 ${String(currentMonth.getMonth() + 1).padStart(2, "0")}月`;
-  const maxDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0).getDate();
+  const monthLabel = `${range.from.slice(0, 4)}年 ${range.from.slice(5, 7)}月`;
 
   const dayRows = useMemo(() => {
-    return Array.from({ length: maxDay }, (_, idx) => {
-      const day = idx + 1;
-      const date = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day);
+    return Array.from({ length: diffDateKeys(range.from, range.to) + 1 }, (_, idx) => {
+      const key = shiftDateKey(range.from, idx);
       const list = monthEvents.filter((ev) => {
-        if (!ev.start) return false;
-        return ev.start <= date && date <= (ev.end ?? ev.start);
+        if (!ev.start_date) return false;
+        const start = ev.start_date.slice(0, 10);
+        const end = ev.end_date && ev.end_date.slice(0, 10) > start ? ev.end_date.slice(0, 10) : start;
+        return start <= key && key <= end;
       });
-      return { date, day, list };
+      return { key, day: idx + 1, weekday: new Date(`${key}T00:00:00Z`).getUTCDay(), list };
     });
-  }, [maxDay, currentMonth, monthEvents]);
+  }, [range, monthEvents]);
 
   return (
     <div className="glass rounded-3xl border border-emerald-900/10 bg-white p-4 ring-1 ring-emerald-900/10 shadow-sm sm:p-5">
@@ -62,9 +54,7 @@ export function LegacyCalendarBoard({ events }: Props) {
         <div className="flex items-center gap-2 rounded-full border border-emerald-900/10 bg-emerald-50 px-2 py-1 text-sm text-emerald-900/80">
           <Button
             variant="ghost"
-            onClick={() =>
-              setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1))
-            }
+            onClick={() => onNavigate(-1)}
             aria-label="previous month"
             className="h-11 w-11 rounded-full p-0 hover:bg-emerald-100"
           >
@@ -73,9 +63,7 @@ export function LegacyCalendarBoard({ events }: Props) {
           <span className="px-2 font-semibold text-emerald-900">{monthLabel}</span>
           <Button
             variant="ghost"
-            onClick={() =>
-              setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1))
-            }
+            onClick={() => onNavigate(1)}
             aria-label="next month"
             className="h-11 w-11 rounded-full p-0 hover:bg-emerald-100"
           >
@@ -85,15 +73,11 @@ export function LegacyCalendarBoard({ events }: Props) {
       </div>
 
       <div className="mt-4 max-h-[70vh] space-y-2 overflow-y-auto pr-1">
-        {dayRows.map(({ date, day, list }) => {
-          const weekday = date.getDay();
-          const isToday =
-            date.getFullYear() === today.getFullYear() &&
-            date.getMonth() === today.getMonth() &&
-            date.getDate() === today.getDate();
+        {dayRows.map(({ key, day, weekday, list }) => {
+          const isToday = key === today;
           return (
             <article
-              key={date.toISOString()}
+              key={key}
               className={`rounded-2xl border p-3 ${
                 isToday
                   ? "border-emerald-400/60 bg-emerald-50 ring-1 ring-emerald-300/40"
@@ -126,10 +110,15 @@ export function LegacyCalendarBoard({ events }: Props) {
                   ) : (
                     list.map((ev) => (
                       <div
-                        key={`${date.toISOString()}-${ev.id}`}
+                        key={`${key}-${getOccurrenceKey(ev)}`}
                         className="rounded-xl border border-emerald-900/10 bg-emerald-50/60 px-3 py-2"
                       >
-                        <p className="text-sm font-semibold text-emerald-950">{ev.title}</p>
+                        <Link
+                          href={getEventHref(ev)}
+                          className="block text-sm font-semibold text-emerald-950 underline-offset-2 hover:underline"
+                        >
+                          {ev.title}
+                        </Link>
                         <p className="mt-0.5 flex items-center gap-1 text-xs text-emerald-900/70">
                           <MapPin className="h-3.5 w-3.5" />
                           {ev.location ?? "未設定"}
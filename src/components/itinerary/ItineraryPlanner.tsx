@@ -0,0 +1,505 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Copy,
+  GripVertical,
+  Heart,
+  ListOrdered,
+  Loader2,
+  Plus,
+  Save,
+  Search,
+  Sparkles,
+  Trash2,
+  X,
+} from "lucide-react";
+import { GeoExportLinks } from "@/components/export/GeoExportLinks";
+import { LeafletMap } from "@/components/map/LeafletMap";
+import { TravelModeSelector } from "@/components/map/TravelModeSelector";
+import { Button } from "@/components/ui/Button";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { ITINERARY_PATH, MORIOKA_STATION } from "@/lib/config";
+import { useFavorites } from "@/lib/favoritesClient";
+import { formatDistance } from "@/lib/geo";
+import {
+  buildItineraryLegs,
+  buildItineraryQuery,
+  ITINERARY_MAX_STOPS,
+  moveItem,
+  normalizeItineraryName,
+  optimizeStopOrder,
+  summarizeItinerary,
+  TRAVEL_MODE_SPEEDS_KMH,
+  type ItineraryQuery,
+} from "@/lib/itinerary";
+import { TRAVEL_MODE_LABELS, type LatLng } from "@/lib/routeProviders";
+import { formatDuration } from "@/lib/routing";
+import { getSpotHref } from "@/lib/spotRoutes";
+import { rankSpotsBySearch } from "@/lib/textSearch";
+import { useTravelMode } from "@/lib/travelModeClient";
+import { useTripPlans } from "@/lib/tripPlansClient";
+import type { City, Genre, Spot } from "@/lib/types";
+
+type Props = {
+  spots: Spot[];
+  cities: City[];
+  genres: Genre[];
+  /** 共有 URL から読み取った旅程 */
+  initialQuery: ItineraryQuery;
+};
+
+type PickerSource = "search" | "favorites";
+
+const DRAFT_STORAGE_KEY = "iwate150_itinerary_draft_v1";
+const PICKER_RESULT_LIMIT = 8;
+
+/**
+ * 作成途中の旅程を localStorage から読み込む。
+ *
+ * @returns 旅程（保存がなければ null）
+ * @example
+ * const draft = readDraft();
+ */
+function readDraft(): ItineraryQuery | null {
+  try {
+    const raw = window.localStorage.getItem(DRAFT_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<ItineraryQuery>;
+    if (!Array.isArray(parsed.spotIds)) return null;
+    return {
+      spotIds: parsed.spotIds.filter((id): id is number => Number.isInteger(id) && id > 0),
+      name: typeof parsed.name === "string" ? parsed.name : "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 作成途中の旅程を localStorage へ保存する。
+ *
+ * @param draft - 旅程
+ * @returns void
+ * @example
+ * writeDraft({ spotIds: [1, 4], name: "" });
+ */
+function writeDraft(draft: ItineraryQuery): void {
+  try {
+    window.localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+  } catch {
+    // ignore quota / private mode errors
+  }
+}
+
+/**
+ * 複数スポットを巡る旅程を組み立てる画面。
+ *
+ * 検索・お気に入り・地図からスポットを追加し、ドラッグ＆ドロップか自動最適化で順番を決める。
+ * 区間ごとの目安距離・時間を表示し、URL で共有できる。ログイン中は名前を付けて複数保存できる。
+ *
+ * @param props - スポット・市区町村・ジャンル・初期旅程
+ * @returns ItineraryPlanner
+ * @example
+ * <ItineraryPlanner spots={spots} cities={cities} genres={genres} initialQuery={{ spotIds: [], name: "" }} />
+ */
+export function ItineraryPlanner({ spots, cities, genres, initialQuery }: Props) {
+  const { spotIds: favoriteIds, isAuthenticated: isFavoritesReady } = useFavorites();
+  const { plans, status: plansStatus, isAuthenticated, savePlan, updatePlan, deletePlan } = useTripPlans();
+  const { travelMode, setTravelMode } = useTravelMode();
+  const [stopIds, setStopIds] = useState<number[]>(initialQuery.spotIds);
+  const [planName, setPlanName] = useState(initialQuery.name);
+  const [activePlanId, setActivePlanId] = useState<number | null>(null);
+  const [keyword, setKeyword] = useState("");
+  const [pickerSource, setPickerSource] = useState<PickerSource>("search");
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [startFromHere, setStartFromHere] = useState(false);
+  const [userPos, setUserPos] = useState<LatLng | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [draftLoaded, setDraftLoaded] = useState(initialQuery.spotIds.length > 0);
+
+  const spotById = useMemo(() => new Map(spots.map((spot) => [spot.id, spot])), [spots]);
+  const stops = useMemo(
+    () => stopIds.map((id) => spotById.get(id)).filter((spot): spot is Spot => Boolean(spot)),
+    [spotById, stopIds]
+  );
+  const origin = startFromHere ? (userPos ?? MORIOKA_STATION) : null;
+  const speedKmh = TRAVEL_MODE_SPEEDS_KMH[travelMode];
+  const legs = useMemo(() => {
+    const points: Array<LatLng & { name: string }> = stops.map((spot) => ({ ...spot }));
+    return buildItineraryLegs(origin ? [{ ...origin, name: "現在地" }, ...points] : points, speedKmh);
+  }, [origin, speedKmh, stops]);
+  const summary = useMemo(() => summarizeItinerary(legs), [legs]);
+  const routePath = useMemo(
+    () => (origin ? [origin, ...stops] : stops).map((point) => ({ lat: point.lat, lng: point.lng })),
+    [origin, stops]
+  );
+
+  // URL に旅程がなければ作成途中の下書きを復元する
+  useEffect(() => {
+    if (draftLoaded) return;
+    const draft = readDraft();
+    const frameId = window.requestAnimationFrame(() => {
+      if (draft) {
+        setStopIds(draft.spotIds.slice(0, ITINERARY_MAX_STOPS));
+        setPlanName(draft.name);
+      }
+      setDraftLoaded(true);
+    });
+    return () => window.cancelAnimationFrame(frameId);
+  }, [draftLoaded]);
+
+  // 旅程を URL と下書きへ反映する
+  useEffect(() => {
+    if (!draftLoaded) return;
+    const query = buildItineraryQuery({ spotIds: stopIds, name: planName });
+    window.history.replaceState(window.history.state, "", query ? `${ITINERARY_PATH}?${query}` : ITINERARY_PATH);
+    writeDraft({ spotIds: stopIds, name: planName });
+  }, [draftLoaded, planName, stopIds]);
+
+  useEffect(() => {
+    if (!startFromHere || typeof navigator === "undefined" || !navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition(
+      (position) => setUserPos({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      () => setMessage("現在地を取得できないため、盛岡駅から出発する想定で計算します。"),
+      { enableHighAccuracy: false, timeout: 8000, maximumAge: 60000 }
+    );
+  }, [startFromHere]);
+
+  const pickerSpots = useMemo(() => {
+    const candidates =
+      pickerSource === "favorites"
+        ? favoriteIds.map((id) => spotById.get(id)).filter((spot): spot is Spot => Boolean(spot))
+        : keyword.trim()
+          ? rankSpotsBySearch(spots, keyword, { cities, genres })
+          : [];
+    return candidates.slice(0, PICKER_RESULT_LIMIT);
+  }, [cities, favoriteIds, genres, keyword, pickerSource, spotById, spots]);
+
+  const addStop = useCallback(
+    (spot: Spot) => {
+      if (stopIds.includes(spot.id)) {
+        setMessage(`${spot.name} はすでに旅程に入っています。`);
+        return;
+      }
+      if (stopIds.length >= ITINERARY_MAX_STOPS) {
+        setMessage(`旅程に入れられるのは ${ITINERARY_MAX_STOPS} 件までです。`);
+        return;
+      }
+      setMessage(null);
+      setStopIds([...stopIds, spot.id]);
+    },
+    [stopIds]
+  );
+
+  const removeStop = (spotId: number) => {
+    setStopIds((current) => current.filter((id) => id !== spotId));
+  };
+
+  const optimize = () => {
+    const ordered = optimizeStopOrder(stops, origin);
+    setStopIds(ordered.map((spot) => spot.id));
+    setMessage("移動距離が短くなる順番に並べ替えました。");
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null) return;
+    setStopIds((current) => moveItem(current, dragIndex, targetIndex));
+    setDragIndex(null);
+  };
+
+  const copyShareUrl = async () => {
+    const query = buildItineraryQuery({ spotIds: stopIds, name: planName });
+    const url = `${window.location.origin}${ITINERARY_PATH}${query ? `?${query}` : ""}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("共有用 URL をコピーしました。");
+    } catch {
+      setMessage(url);
+    }
+  };
+
+  const handleSave = async () => {
+    const name = normalizeItineraryName(planName);
+    if (!name) {
+      setMessage("旅程名を入力してください。");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      if (activePlanId !== null) {
+        await updatePlan(activePlanId, { name, spot_ids: stopIds });
+        setMessage(`「${name}」を上書き保存しました。`);
+      } else {
+        const plan = await savePlan({ name, spot_ids: stopIds });
+        setActivePlanId(plan.id);
+        setMessage(`「${name}」を保存しました。`);
+      }
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "旅程を保存できませんでした。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePlan = async (planId: number) => {
+    try {
+      await deletePlan(planId);
+      if (activePlanId === planId) setActivePlanId(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "旅程を削除できませんでした。");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <GlassCard
+        title="旅程"
+        icon={ListOrdered}
+        badge={
+          stops.length > 1 || origin
+            ? `${stops.length}件 · ${formatDistance(summary.distance)} · ${formatDuration(summary.duration)}`
+            : `${stops.length}件`
+        }
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={optimize} disabled={stops.length < 2} className="gap-1">
+              <Sparkles className="h-4 w-4" />
+              順番を最適化
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => void copyShareUrl()}
+              disabled={stops.length === 0}
+              className="gap-1"
+            >
+              <Copy className="h-4 w-4" />
+              URL を共有
+            </Button>
+          </div>
+        }
+      >
+        <div className="mb-3 flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            value={planName}
+            onChange={(event) => setPlanName(event.target.value)}
+            placeholder="旅程名（例: 盛岡と平泉 日帰り）"
+            className="flex-1 rounded-lg border border-emerald-900/15 bg-white px-3 py-2 text-emerald-950"
+          />
+          {isAuthenticated && (
+            <Button onClick={() => void handleSave()} disabled={isSaving || stops.length === 0} className="gap-1">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              {activePlanId !== null ? "上書き保存" : "保存"}
+            </Button>
+          )}
+          {activePlanId !== null && (
+            <Button variant="ghost" size="sm" onClick={() => setActivePlanId(null)}>
+              別の旅程として保存
+            </Button>
+          )}
+        </div>
+        <div className="mb-3 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <label className="flex items-center gap-2 text-sm text-emerald-900/85">
+            <input
+              type="checkbox"
+              checked={startFromHere}
+              onChange={(event) => setStartFromHere(event.target.checked)}
+              className="accent-emerald-500"
+            />
+            現在地から出発する
+          </label>
+          <TravelModeSelector value={travelMode} onChange={setTravelMode} />
+        </div>
+        <div className="mb-3">
+          <GeoExportLinks
+            endpoint="/api/export/itinerary"
+            query={buildItineraryQuery({ spotIds: stopIds, name: planName })}
+            disabled={stops.length === 0}
+          />
+        </div>
+        {message && <p className="mb-3 text-xs text-emerald-900/75">{message}</p>}
+
+        {stops.length === 0 ? (
+          <p className="text-sm text-emerald-900/75">
+            検索・お気に入り・地図からスポットを追加すると、ここに訪問順が並びます。
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {stops.map((spot, index) => {
+              const leg = legs[origin ? index : index - 1];
+              return (
+                <li key={spot.id} className="space-y-1">
+                  {leg && (
+                    <p className="pl-9 text-xs text-emerald-900/65">
+                      ↓ {formatDistance(leg.distance)} · {formatDuration(leg.duration)}
+                    </p>
+                  )}
+                  <div
+                    draggable
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(event) => event.preventDefault()}
+                    onDrop={() => handleDrop(index)}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`flex items-center justify-between gap-3 rounded-xl border bg-white px-3 py-2 ${
+                      dragIndex === index ? "border-emerald-500" : "border-emerald-900/10"
+                    }`}
+                  >
+                    <span className="flex min-w-0 items-center gap-2">
+                      <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-emerald-900/40" />
+                      <span className="grid h-6 w-6 shrink-0 place-items-center rounded-full bg-emerald-100 text-xs font-semibold text-emerald-900">
+                        {index + 1}
+                      </span>
+                      <a href={getSpotHref(spot)} className="truncate font-medium text-emerald-950 hover:underline">
+                        {spot.name}
+                      </a>
+                    </span>
+                    <span className="flex shrink-0 items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="move up"
+                        onClick={() => setStopIds((current) => moveItem(current, index, index - 1))}
+                        disabled={index === 0}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="move down"
+                        onClick={() => setStopIds((current) => moveItem(current, index, index + 1))}
+                        disabled={index === stops.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" aria-label="remove" onClick={() => removeStop(spot.id)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+        <p className="mt-3 text-[11px] text-emerald-900/60">
+          距離と時間は直線距離からの目安です（{TRAVEL_MODE_LABELS[travelMode]}: 平均時速 {speedKmh}km で計算）。
+        </p>
+      </GlassCard>
+
+      <GlassCard
+        title="スポットを追加"
+        icon={Plus}
+        actions={
+          <div className="flex gap-2">
+            <Button
+              variant={pickerSource === "search" ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setPickerSource("search")}
+              className="gap-1"
+            >
+              <Search className="h-4 w-4" />
+              検索
+            </Button>
+            <Button
+              variant={pickerSource === "favorites" ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setPickerSource("favorites")}
+              className="gap-1"
+            >
+              <Heart className="h-4 w-4" />
+              お気に入り
+            </Button>
+          </div>
+        }
+      >
+        {pickerSource === "search" ? (
+          <input
+            value={keyword}
+            onChange={(event) => setKeyword(event.target.value)}
+            placeholder="スポット名・市町村・ジャンルで検索"
+            className="mb-3 w-full rounded-lg border border-emerald-900/15 bg-white px-3 py-2 text-emerald-950"
+          />
+        ) : (
+          !isFavoritesReady && (
+            <p className="mb-3 text-xs text-emerald-900/70">ログインするとお気に入りから追加できます。</p>
+          )
+        )}
+        <ul className="space-y-2">
+          {pickerSpots.map((spot) => (
+            <li
+              key={spot.id}
+              className="flex items-center justify-between gap-3 rounded-xl border border-emerald-900/10 bg-white px-3 py-2"
+            >
+              <span className="truncate text-emerald-950">{spot.name}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addStop(spot)}
+                disabled={stopIds.includes(spot.id)}
+              >
+                {stopIds.includes(spot.id) ? "追加済み" : "追加"}
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-4 overflow-hidden rounded-2xl border border-emerald-900/10">
+          <LeafletMap
+            center={MORIOKA_STATION}
+            spots={spots}
+            showUser={startFromHere}
+            userPosition={userPos}
+            autoFit={routePath.length < 2}
+            routePath={routePath}
+            popupAction={{ label: "旅程に追加", onSelect: addStop }}
+          />
+        </div>
+      </GlassCard>
+
+      {isAuthenticated && (
+        <GlassCard title="保存した旅程" icon={Save} badge={`${plans.length}件`}>
+          {plansStatus === "loading" ? (
+            <Loader2 className="h-5 w-5 animate-spin text-emerald-700" />
+          ) : plans.length === 0 ? (
+            <p className="text-sm text-emerald-900/75">まだ保存した旅程はありません。</p>
+          ) : (
+            <ul className="space-y-2">
+              {plans.map((plan) => (
+                <li
+                  key={plan.id}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-emerald-900/10 bg-white px-3 py-2"
+                >
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setStopIds(plan.spot_ids);
+                      setPlanName(plan.name);
+                      setActivePlanId(plan.id);
+                      setMessage(`「${plan.name}」を開きました。`);
+                    }}
+                    className="min-w-0 text-left"
+                  >
+                    <p className="truncate font-medium text-emerald-950">{plan.name}</p>
+                    <p className="text-xs text-emerald-900/70">{plan.spot_ids.length} スポット</p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="delete plan"
+                    onClick={() => void handleDeletePlan(plan.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </GlassCard>
+      )}
+    </div>
+  );
+}
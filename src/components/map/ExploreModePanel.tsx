@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { BatteryMedium, BellRing, Compass, Loader2, Stamp as StampIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { parseSimulatedLocation, type ExplorePowerProfile } from "@/lib/exploreMode";
+import type { ExploreModeController } from "@/lib/exploreModeClient";
+import { formatDistance } from "@/lib/geo";
+import type { Spot } from "@/lib/types";
+
+type Props = {
+  explore: ExploreModeController;
+  /** シミュレーション位置の移動先に選べるスポット */
+  spots: Spot[];
+};
+
+const profileLabels: Record<ExplorePowerProfile, string> = {
+  high: "高精度",
+  balanced: "標準",
+  saver: "省電力",
+};
+
+/**
+ * 探索モードの切り替え・状態表示・圏内通知をまとめたパネル。
+ *
+ * 圏内通知はワンタップでスタンプを押せるトーストとして画面下に出す。
+ * シミュレーションが使える場合は、スポットの選択か `緯度,経度` の入力で位置を動かせる。
+ *
+ * @param props - 探索モードの controller と移動先のスポット
+ * @returns ExploreModePanel
+ * @example
+ * <ExploreModePanel explore={explore} spots={spots} />
+ */
+export function ExploreModePanel({ explore, spots }: Props) {
+  const [simulatedInput, setSimulatedInput] = useState("");
+  const alert = explore.alerts[0] ?? null;
+
+  return (
+    <div className="rounded-lg border border-emerald-900/10 bg-white/75 px-3 py-2 text-sm text-emerald-900/90">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={explore.enabled}
+            onChange={(event) => explore.setEnabled(event.target.checked)}
+            className="accent-emerald-500"
+          />
+          <Compass className="h-4 w-4 text-emerald-700" />
+          探索モード（スタンプ圏内に入ったらお知らせ）
+        </label>
+        {explore.enabled && (
+          <span className="flex items-center gap-1 text-xs text-emerald-900/70">
+            <BatteryMedium className="h-3.5 w-3.5" />
+            測位: {profileLabels[explore.profile]}
+            {explore.battery && `（電池 ${Math.round(explore.battery.level * 100)}%${explore.battery.charging ? "・充電中" : ""}）`}
+            {!explore.isTracking && " / 画面が非表示のため一時停止中"}
+          </span>
+        )}
+      </div>
+      {explore.enabled && !explore.isSignedIn && (
+        <p className="mt-1 text-xs text-emerald-900/70">ログインするとスタンプ済みのスポットを通知から除き、その場でスタンプを押せます。</p>
+      )}
+      {explore.trackingError && <p className="mt-1 text-xs text-amber-800">{explore.trackingError}</p>}
+
+      {explore.enabled && explore.canSimulate && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 rounded-md border border-dashed border-violet-300 bg-violet-50 px-2 py-2 text-xs text-violet-900">
+          <span className="font-semibold">位置のシミュレーション</span>
+          <select
+            aria-label="シミュレーション位置のスポット"
+            value=""
+            onChange={(event) => {
+              const spot = spots.find((item) => item.id === Number(event.target.value));
+              if (spot) explore.setSimulatedPosition({ lat: spot.lat, lng: spot.lng });
+            }}
+            className="rounded-md border border-violet-200 bg-white px-2 py-1"
+          >
+            <option value="">スポットへ移動…</option>
+            {spots.map((spot) => (
+              <option key={spot.id} value={spot.id}>
+                {spot.name}
+              </option>
+            ))}
+          </select>
+          <input
+            value={simulatedInput}
+            onChange={(event) => setSimulatedInput(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key !== "Enter") return;
+              const point = parseSimulatedLocation(simulatedInput);
+              if (point) explore.setSimulatedPosition(point);
+            }}
+            aria-label="シミュレーション位置（緯度,経度）"
+            placeholder="39.7021,141.1527"
+            className="w-40 rounded-md border border-violet-200 bg-white px-2 py-1"
+          />
+          {explore.simulatedPosition ? (
+            <>
+              <span>
+                現在: {explore.simulatedPosition.lat.toFixed(5)}, {explore.simulatedPosition.lng.toFixed(5)}
+              </span>
+              <button
+                type="button"
+                onClick={() => explore.setSimulatedPosition(null)}
+                className="underline underline-offset-2"
+              >
+                実際の位置に戻す
+              </button>
+            </>
+          ) : (
+            <span>実際の位置を使用中</span>
+          )}
+        </div>
+      )}
+
+      {explore.message && (
+        <div
+          className={`mt-2 flex items-start justify-between gap-2 rounded-md px-2 py-1 text-xs ${
+            explore.message.type === "success" ? "bg-emerald-50 text-emerald-900" : "bg-rose-50 text-rose-800"
+          }`}
+        >
+          <span>{explore.message.text}</span>
+          <button type="button" onClick={explore.clearMessage} aria-label="メッセージを閉じる">
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+
+      {alert && (
+        <div
+          role="status"
+          aria-live="polite"
+          className="fixed inset-x-4 bottom-4 z-[1000] mx-auto max-w-md rounded-2xl border border-emerald-300 bg-white p-4 shadow-lg sm:inset-x-auto sm:right-6"
+        >
+          <div className="flex items-start gap-3">
+            <BellRing className="mt-0.5 h-5 w-5 shrink-0 text-emerald-600" />
+            <div className="min-w-0 flex-1">
+              <p className="font-semibold text-emerald-950">{alert.spot.name}のスタンプ圏内です</p>
+              <p className="text-xs text-emerald-900/70">
+                約 {formatDistance(alert.distance)}
+                {explore.isSimulating && "（シミュレーション）"}
+                {explore.alerts.length > 1 && ` / ほかに ${explore.alerts.length - 1} 件`}
+              </p>
+              <div className="mt-3 flex gap-2">
+                <Button
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => void explore.stamp(alert.spot)}
+                  disabled={explore.stampingSpotId !== null}
+                >
+                  {explore.stampingSpotId === alert.spot.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <StampIcon className="h-4 w-4" />
+                  )}
+                  スタンプを押す
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => explore.dismiss(alert.spot.id)}>
+                  あとで
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,24 @@
 
 import "leaflet/dist/leaflet.css";
 import dynamic from "next/dynamic";
-import { useEffect, useMemo, useRef, useState } from "react";
-import type { DivIcon, Icon } from "leaflet";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { DivIcon, Icon, LatLngBounds, Map as LeafletMapInstance } from "leaflet";
 import { MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/config";
 import { Button } from "@/components/ui/Button";
+import { FavoriteButton } from "@/components/favorites/FavoriteButton";
 import { Spot } from "@/lib/types";
+import type { BoundingBox } from "@/lib/geo";
+import { recordViewedTile } from "@/lib/offlinePacksClient";
 import { getImageUrl } from "@/lib/storage";
 import { useResolvedStorageUrls } from "@/lib/storageSignedClient";
 import { getSpotHref } from "@/lib/spotRoutes";
+import { clusterMarkers, type MarkerCluster } from "@/lib/markerCluster";
+import {
+  buildHeatmapCells,
+  getGenreColor,
+  type EventMarker,
+  type HeatmapPoint,
+} from "@/lib/mapLayers";
 
 const MapContainer = dynamic(
   async () => (await import("react-leaflet")).MapContainer,
@@ -24,6 +34,12 @@ const Marker = dynamic(async () => (await import("react-leaflet")).Marker, {
 const Popup = dynamic(async () => (await import("react-leaflet")).Popup, {
   ssr: false,
 });
+const Polyline = dynamic(async () => (await import("react-leaflet")).Polyline, {
+  ssr: false,
+});
+const CircleMarker = dynamic(async () => (await import("react-leaflet")).CircleMarker, {
+  ssr: false,
+});
 
 type AutoFitMapViewProps = {
   points: Array<{ lat: number; lng: number }>;
@@ -76,6 +92,61 @@ const AutoFitMapView = dynamic<AutoFitMapViewProps>(
   { ssr: false }
 );
 
+/**
+ * Leaflet の LatLngBounds を BoundingBox へ変換する。
+ *
+ * @param bounds - Leaflet の表示範囲
+ * @returns 表示範囲
+ * @example
+ * const bbox = toBoundingBox(map.getBounds());
+ */
+function toBoundingBox(bounds: LatLngBounds): BoundingBox {
+  return {
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast(),
+  };
+}
+
+type ViewportWatcherProps = {
+  onViewportChange: (bounds: BoundingBox, zoom: number) => void;
+  onMapReady?: (map: LeafletMapInstance) => void;
+};
+
+const ViewportWatcher = dynamic<ViewportWatcherProps>(
+  async () => {
+    const { useMapEvents } = await import("react-leaflet");
+
+    /**
+     * 地図の表示範囲とズームを移動・ズームのたびに通知する（初回表示時も通知）。
+     *
+     * @param props - 通知先
+     * @returns 描画要素なし
+     */
+    function ViewportWatcherInner({ onViewportChange, onMapReady }: ViewportWatcherProps) {
+      const callbackRef = useRef(onViewportChange);
+      const map = useMapEvents({
+        moveend: (event) => callbackRef.current(toBoundingBox(event.target.getBounds()), event.target.getZoom()),
+      });
+
+      useEffect(() => {
+        callbackRef.current = onViewportChange;
+      }, [onViewportChange]);
+
+      useEffect(() => {
+        onMapReady?.(map);
+        map.whenReady(() => callbackRef.current(toBoundingBox(map.getBounds()), map.getZoom()));
+      }, [map, onMapReady]);
+
+      return null;
+    }
+
+    return ViewportWatcherInner;
+  },
+  { ssr: false }
+);
+
 type Props = {
   center: { lat: number; lng: number };
   zoom?: number;
@@ -83,13 +154,100 @@ type Props = {
   showUser?: boolean;
   userPosition?: { lat: number; lng: number } | null;
   /** スポットへのルート検索リクエスト時に呼ばれるコールバック */
-  onRouteRequest?: (destination: { lat: number; lng: number }) => void;
+  onRouteRequest?: (destination: { lat: number; lng: number }, spot: Spot) => void;
+  /** マーカー変更時に表示範囲を自動調整するか（既定: true） */
+  autoFit?: boolean;
+  /** 表示範囲が変わった時に呼ばれるコールバック */
+  onViewportChange?: (bounds: BoundingBox, zoom: number) => void;
+  /** 近接マーカーを件数バブルにまとめるか（既定: true） */
+  cluster?: boolean;
+  /** 描画する経路の線形（指定時は経路全体に合わせて表示範囲を調整） */
+  routePath?: Array<{ lat: number; lng: number }> | null;
+  /** ポップアップに追加する操作ボタン（旅程への追加など） */
+  popupAction?: { label: string; onSelect: (spot: Spot) => void };
+  /** スポットマーカーをジャンルごとの色で表示するか */
+  colorByGenre?: boolean;
+  /** イベントレイヤーに表示するイベント */
+  eventMarkers?: EventMarker[];
+  /** ヒートマップの重み付き地点（空なら表示しない） */
+  heatmapPoints?: HeatmapPoint[];
 };
 
+/**
+ * クラスタ用の件数バブルを作る。件数に応じて大きさを変える。
+ *
+ * @param createDivIcon - Leaflet の divIcon
+ * @param count - まとめたスポット数
+ * @returns DivIcon
+ * @example
+ * const icon = buildClusterIcon(divIcon, 12);
+ */
+function buildClusterIcon(createDivIcon: (typeof import("leaflet"))["divIcon"], count: number): DivIcon {
+  const size = count < 10 ? 34 : count < 100 ? 40 : 48;
+  return createDivIcon({
+    className: "cluster-marker",
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:rgba(5,150,105,0.9);box-shadow:0 0 0 6px rgba(5,150,105,0.25);border:2px solid white;color:white;font-weight:700;font-size:13px;display:flex;align-items:center;justify-content:center;">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+/**
+ * ジャンル色のピンを作る。
+ *
+ * @param createDivIcon - Leaflet の divIcon
+ * @param color - ピンの色
+ * @returns DivIcon
+ * @example
+ * const icon = buildPinIcon(divIcon, "#b45309");
+ */
+function buildPinIcon(createDivIcon: (typeof import("leaflet"))["divIcon"], color: string): DivIcon {
+  return createDivIcon({
+    className: "genre-marker",
+    html: `<div style="width:22px;height:22px;border-radius:50% 50% 50% 0;transform:rotate(-45deg);background:${color};border:2px solid white;box-shadow:0 1px 4px rgba(0,0,0,0.35);"></div>`,
+    iconSize: [22, 22],
+    iconAnchor: [11, 26],
+    popupAnchor: [0, -24],
+  });
+}
+
+/**
+ * イベントレイヤー用のマーカーを作る。
+ *
+ * @param createDivIcon - Leaflet の divIcon
+ * @returns DivIcon
+ * @example
+ * const icon = buildEventIcon(divIcon);
+ */
+function buildEventIcon(createDivIcon: (typeof import("leaflet"))["divIcon"]): DivIcon {
+  return createDivIcon({
+    className: "event-marker",
+    html: `<div style="width:26px;height:26px;border-radius:8px;background:#f97316;border:2px solid white;box-shadow:0 1px 4px rgba(0,0,0,0.35);color:white;font-size:14px;font-weight:700;display:flex;align-items:center;justify-content:center;">★</div>`,
+    iconSize: [26, 26],
+    iconAnchor: [13, 13],
+  });
+}
+
+/**
+ * イベントの開催期間を表示用に整える。
+ *
+ * @param marker - イベント
+ * @returns 例: "2026-03-14 〜 2026-03-15"
+ * @example
+ * formatEventPeriod(marker);
+ */
+function formatEventPeriod(marker: EventMarker): string {
+  const start = marker.start_date?.slice(0, 10) ?? "";
+  const end = marker.end_date?.slice(0, 10) ?? "";
+  return end && end !== start ? `${start} 〜 ${end}` : start;
+}
+
 /**
  * Leaflet 地図コンポーネント
  *
- * スポットマーカーの表示、ユーザー現在地表示、ルート検索導線を提供する。
+ * スポットマーカーの表示、ユーザー現在地表示、ルート検索導線、お気に入り登録を提供する。
+ * 近接するマーカーは件数バブルにまとめ、クリックでその範囲へズームする。
+ * ジャンル別の色分け・イベントレイヤー・ヒートマップを重ねて表示できる。
  *
  * @param props.center - 地図中心座標
  * @param props.zoom - ズームレベル
@@ -97,6 +255,14 @@ type Props = {
  * @param props.showUser - ユーザー現在地マーカーの表示有無
  * @param props.userPosition - ユーザー現在地座標
  * @param props.onRouteRequest - ルート検索リクエスト時のコールバック
+ * @param props.autoFit - マーカーに合わせた自動フィットの有無
+ * @param props.onViewportChange - 表示範囲変更時のコールバック
+ * @param props.cluster - 近接マーカーをまとめるか
+ * @param props.routePath - 描画する経路の線形
+ * @param props.popupAction - ポップアップに追加する操作ボタン
+ * @param props.colorByGenre - ジャンル色のマーカーで表示するか
+ * @param props.eventMarkers - イベントレイヤーのイベント
+ * @param props.heatmapPoints - ヒートマップの地点
  * @returns LeafletMap コンポーネント
  */
 export function LeafletMap({
@@ -106,11 +272,24 @@ export function LeafletMap({
   showUser = true,
   userPosition,
   onRouteRequest,
+  autoFit = true,
+  onViewportChange,
+  cluster = true,
+  routePath = null,
+  popupAction,
+  colorByGenre = false,
+  eventMarkers = [],
+  heatmapPoints = [],
 }: Props) {
   const markers = useMemo(() => spots ?? [], [spots]);
   const [userPos, setUserPos] = useState<{ lat: number; lng: number } | null>(null);
   const [defaultIcon, setDefaultIcon] = useState<Icon | null>(null);
   const [userIcon, setUserIcon] = useState<DivIcon | null>(null);
+  const [clusterIconFactory, setClusterIconFactory] = useState<((count: number) => DivIcon) | null>(null);
+  const [pinIconFactory, setPinIconFactory] = useState<((color: string) => DivIcon) | null>(null);
+  const [eventIcon, setEventIcon] = useState<DivIcon | null>(null);
+  const [currentZoom, setCurrentZoom] = useState(zoom);
+  const mapRef = useRef<LeafletMapInstance | null>(null);
   const centerKey = `${center.lat.toFixed(6)}:${center.lng.toFixed(6)}`;
   const markerImagePaths = useMemo(
     () => markers.map((spot) => spot.image_thumb_path ?? spot.image_path ?? null),
@@ -138,6 +317,9 @@ export function LeafletMap({
           iconAnchor: [9, 9],
         })
       );
+      setClusterIconFactory(() => (count: number) => buildClusterIcon(divIcon, count));
+      setPinIconFactory(() => (color: string) => buildPinIcon(divIcon, color));
+      setEventIcon(buildEventIcon(divIcon));
     });
     return () => {
       cancelled = true;
@@ -170,17 +352,149 @@ export function LeafletMap({
     () => (userPos ? { lat: userPos.lat, lng: userPos.lng } : null),
     [userPos]
   );
+  const hasRoute = Boolean(routePath && routePath.length > 1);
+  const routeKey = useMemo(() => {
+    if (!routePath || routePath.length < 2) return "";
+    const first = routePath[0];
+    const last = routePath[routePath.length - 1];
+    return `${routePath.length}:${first.lat},${first.lng}:${last.lat},${last.lng}`;
+  }, [routePath]);
   const fitKey = useMemo(
-    () => `${markerPointsKey}|user:${showUser && fitUserPos ? "1" : "0"}`,
-    [fitUserPos, markerPointsKey, showUser]
+    () => (routeKey ? `route:${routeKey}` : `${markerPointsKey}|user:${showUser && fitUserPos ? "1" : "0"}`),
+    [fitUserPos, markerPointsKey, routeKey, showUser]
   );
   const fitPoints = useMemo(() => {
+    if (routePath && routePath.length > 1) return routePath;
     const points = markers.map((spot) => ({ lat: spot.lat, lng: spot.lng }));
     if (showUser && fitUserPos) {
       points.push(fitUserPos);
     }
     return points;
-  }, [fitUserPos, markers, showUser]);
+  }, [fitUserPos, markers, routePath, showUser]);
+
+  const clusters = useMemo(
+    () => clusterMarkers(markers, currentZoom, cluster ? {} : { maxClusterZoom: -1 }),
+    [cluster, currentZoom, markers]
+  );
+
+  const genreIcons = useMemo(() => {
+    const icons = new Map<number, DivIcon>();
+    if (!colorByGenre || !pinIconFactory) return icons;
+    markers.forEach((spot) => {
+      if (!icons.has(spot.genre_id)) icons.set(spot.genre_id, pinIconFactory(getGenreColor(spot.genre_id)));
+    });
+    return icons;
+  }, [colorByGenre, markers, pinIconFactory]);
+
+  const heatmapCells = useMemo(() => buildHeatmapCells(heatmapPoints, currentZoom), [currentZoom, heatmapPoints]);
+
+  const handleViewportChange = useCallback(
+    (bounds: BoundingBox, nextZoom: number) => {
+      setCurrentZoom(nextZoom);
+      onViewportChange?.(bounds, nextZoom);
+    },
+    [onViewportChange]
+  );
+
+  const handleMapReady = useCallback((map: LeafletMapInstance) => {
+    mapRef.current = map;
+  }, []);
+
+  /**
+   * クラスタの範囲へズームする（同一地点に重なる場合は 2 段階ズームイン）。
+   *
+   * @param target - クリックされたクラスタ
+   * @returns なし
+   * @example
+   * expandCluster(cluster);
+   */
+  const expandCluster = useCallback((target: MarkerCluster<Spot>) => {
+    const map = mapRef.current;
+    if (!map) return;
+    const { south, west, north, east } = target.bounds;
+    if (south === north && west === east) {
+      map.setView([target.lat, target.lng], Math.min(map.getZoom() + 2, map.getMaxZoom() ?? 18));
+      return;
+    }
+    map.fitBounds(
+      [
+        [south, west],
+        [north, east],
+      ],
+      { padding: [32, 32] }
+    );
+  }, []);
+
+  /**
+   * 1 件分のスポットマーカー（ポップアップ付き）を描画する。
+   *
+   * @param spot - スポット
+   * @returns Marker 要素
+   * @example
+   * renderSpotMarker(spot);
+   */
+  const renderSpotMarker = (spot: Spot) => {
+    const imagePath = spot.image_thumb_path ?? spot.image_path ?? null;
+    const imageUrl = imagePath
+      ? (resolvedImageMap.get(imagePath) ?? getImageUrl(imagePath))
+      : null;
+    const icon = genreIcons.get(spot.genre_id) ?? defaultIcon;
+    return (
+      <Marker
+        key={spot.id}
+        position={[spot.lat, spot.lng]}
+        {...(icon ? { icon } : {})}
+      >
+        <Popup>
+          <div className="space-y-1 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-semibold">{spot.name}</p>
+              <FavoriteButton spotId={spot.id} variant="icon" />
+            </div>
+            {imageUrl && (
+              <img
+                src={imageUrl}
+                alt={spot.name}
+                className="h-20 w-full rounded-lg object-cover"
+              />
+            )}
+            {spot.reference_url && (
+              <a
+                className="text-emerald-600 underline underline-offset-2"
+                href={spot.reference_url}
+                target="_blank"
+                rel="noreferrer"
+              >
+                関連リンク
+              </a>
+            )}
+            <div className="flex items-center gap-2">
+              <a
+                className="text-emerald-700 underline text-sm"
+                href={getSpotHref(spot)}
+              >
+                詳細を見る
+              </a>
+              {onRouteRequest && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => onRouteRequest({ lat: spot.lat, lng: spot.lng }, spot)}
+                >
+                  ルート検索
+                </Button>
+              )}
+              {popupAction && (
+                <Button variant="outline" size="sm" onClick={() => popupAction.onSelect(spot)}>
+                  {popupAction.label}
+                </Button>
+              )}
+            </div>
+          </div>
+        </Popup>
+      </Marker>
+    );
+  };
 
   return (
     <div className="h-[60vh] w-full overflow-hidden rounded-2xl border border-white/10 shadow-xl ring-1 ring-white/10">
@@ -191,61 +505,56 @@ export function LeafletMap({
         style={{ height: "100%", width: "100%" }}
         scrollWheelZoom
       >
-        <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
-        <AutoFitMapView points={fitPoints} fitKey={fitKey} />
-        {markers.map((spot) => {
-          const imagePath = spot.image_thumb_path ?? spot.image_path ?? null;
-          const imageUrl = imagePath
-            ? (resolvedImageMap.get(imagePath) ?? getImageUrl(imagePath))
-            : null;
-          return (
+        <TileLayer
+          url={MAP_TILE_URL}
+          attribution={MAP_TILE_ATTRIBUTION}
+          eventHandlers={{ tileload: (event) => recordViewedTile(event.coords) }}
+        />
+        {(autoFit || hasRoute) && <AutoFitMapView points={fitPoints} fitKey={fitKey} />}
+        {routePath && hasRoute && (
+          <Polyline
+            positions={routePath.map((point) => [point.lat, point.lng] as [number, number])}
+            pathOptions={{ color: "#2563eb", weight: 5, opacity: 0.8 }}
+          />
+        )}
+        <ViewportWatcher onViewportChange={handleViewportChange} onMapReady={handleMapReady} />
+        {heatmapCells.map((cell) => (
+          <CircleMarker
+            key={`heat-${cell.key}`}
+            center={[cell.lat, cell.lng]}
+            radius={14 + 16 * cell.intensity}
+            interactive={false}
+            pathOptions={{
+              stroke: false,
+              fillColor: cell.intensity > 0.66 ? "#dc2626" : cell.intensity > 0.33 ? "#f97316" : "#facc15",
+              fillOpacity: 0.25 + 0.4 * cell.intensity,
+            }}
+          />
+        ))}
+        {clusters.map((group) =>
+          group.items.length === 1 || !clusterIconFactory ? (
+            group.items.map(renderSpotMarker)
+          ) : (
             <Marker
-              key={spot.id}
-              position={[spot.lat, spot.lng]}
-              {...(defaultIcon ? { icon: defaultIcon } : {})}
-            >
+              key={group.key}
+              position={[group.lat, group.lng]}
+              icon={clusterIconFactory(group.items.length)}
+              eventHandlers={{ click: () => expandCluster(group) }}
+            />
+          )
+        )}
+        {eventIcon &&
+          eventMarkers.map((marker) => (
+            <Marker key={`event-${marker.id}`} position={[marker.lat, marker.lng]} icon={eventIcon}>
               <Popup>
                 <div className="space-y-1 text-sm">
-                  <p className="font-semibold">{spot.name}</p>
-                  {imageUrl && (
-                    <img
-                      src={imageUrl}
-                      alt={spot.name}
-                      className="h-20 w-full rounded-lg object-cover"
-                    />
-                  )}
-                  {spot.reference_url && (
-                    <a
-                      className="text-emerald-600 underline underline-offset-2"
-                      href={spot.reference_url}
-                      target="_blank"
-                      rel="noreferrer"
-                    >
-                      関連リンク
-                    </a>
-                  )}
-                  <div className="flex items-center gap-2">
-                    <a
-                      className="text-emerald-700 underline text-sm"
-                      href={getSpotHref(spot)}
-                    >
-                      詳細を見る
-                    </a>
-                    {onRouteRequest && (
-                      <Button
-                        variant="primary"
-                        size="sm"
-                        onClick={() => onRouteRequest({ lat: spot.lat, lng: spot.lng })}
-                      >
-                        ルート検索
-                      </Button>
-                    )}
-                  </div>
+                  <p className="font-semibold">{marker.title}</p>
+                  <p className="text-emerald-900/80">{formatEventPeriod(marker)}</p>
+                  {marker.location && <p className="text-emerald-900/70">{marker.location}</p>}
                 </div>
               </Popup>
             </Marker>
-          );
-        })}
+          ))}
         {userPos && userIcon && (
           <Marker position={[userPos.lat, userPos.lng]} icon={userIcon}>
             <Popup>
@@ -0,0 +1,137 @@
+"use client";
+
+import "leaflet/dist/leaflet.css";
+import dynamic from "next/dynamic";
+import { useEffect, useRef, useState } from "react";
+import type { Icon } from "leaflet";
+import { IWATE_CENTER, MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/config";
+
+const MapContainer = dynamic(async () => (await import("react-leaflet")).MapContainer, {
+  ssr: false,
+});
+const TileLayer = dynamic(async () => (await import("react-leaflet")).TileLayer, {
+  ssr: false,
+});
+const Marker = dynamic(async () => (await import("react-leaflet")).Marker, {
+  ssr: false,
+});
+
+type LatLng = { lat: number; lng: number };
+
+type PickerEventsProps = {
+  value: LatLng | null;
+  onPick: (point: LatLng) => void;
+};
+
+const PickerEvents = dynamic<PickerEventsProps>(
+  async () => {
+    const { useMapEvents } = await import("react-leaflet");
+
+    /**
+     * 地図のクリックで地点を選び、外から地点が変わったら表示範囲に入るよう移動する。
+     *
+     * @param props - 選択中の地点・選択時の通知先
+     * @returns 描画要素なし
+     */
+    function PickerEventsInner({ value, onPick }: PickerEventsProps) {
+      const onPickRef = useRef(onPick);
+      const map = useMapEvents({
+        click: (event) => onPickRef.current({ lat: event.latlng.lat, lng: event.latlng.lng }),
+      });
+
+      useEffect(() => {
+        onPickRef.current = onPick;
+      }, [onPick]);
+
+      useEffect(() => {
+        if (!value || map.getBounds().contains([value.lat, value.lng])) return;
+        map.setView([value.lat, value.lng], Math.max(map.getZoom(), 13), { animate: false });
+      }, [map, value]);
+
+      return null;
+    }
+
+    return PickerEventsInner;
+  },
+  { ssr: false }
+);
+
+type Props = {
+  /** 選択中の地点（未選択なら null） */
+  value: LatLng | null;
+  onChange: (point: LatLng) => void;
+  /** 未選択時の地図中心 */
+  fallbackCenter?: LatLng;
+  /** 地図の高さ（CSS） */
+  height?: string;
+};
+
+/**
+ * 座標を小数 6 桁（約 10cm）に丸める。
+ *
+ * @param point - 地点
+ * @returns 丸めた地点
+ * @example
+ * roundPoint({ lat: 39.70212345, lng: 141.15271234 }); // => { lat: 39.702123, lng: 141.152712 }
+ */
+function roundPoint(point: LatLng): LatLng {
+  return { lat: Number(point.lat.toFixed(6)), lng: Number(point.lng.toFixed(6)) };
+}
+
+/**
+ * 地図のクリックとマーカーのドラッグで地点を選ぶピッカー。
+ *
+ * @param props - 選択中の地点・変更時のコールバック・未選択時の中心
+ * @returns LocationPicker
+ * @example
+ * <LocationPicker value={point} onChange={setPoint} />
+ */
+export function LocationPicker({ value, onChange, fallbackCenter = IWATE_CENTER, height = "16rem" }: Props) {
+  const [markerIcon, setMarkerIcon] = useState<Icon | null>(null);
+  const [initialCenter] = useState(() => value ?? fallbackCenter);
+
+  useEffect(() => {
+    let cancelled = false;
+    import("leaflet").then(({ Icon: LeafletIcon }) => {
+      if (cancelled) return;
+      setMarkerIcon(
+        new LeafletIcon({
+          iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
+          shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+          iconSize: [25, 41],
+          iconAnchor: [12, 41],
+        })
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-emerald-900/10" style={{ height }}>
+      <MapContainer
+        center={[initialCenter.lat, initialCenter.lng]}
+        zoom={value ? 14 : 9}
+        style={{ height: "100%", width: "100%" }}
+        scrollWheelZoom
+      >
+        <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+        <PickerEvents value={value} onPick={(point) => onChange(roundPoint(point))} />
+        {value && markerIcon && (
+          <Marker
+            position={[value.lat, value.lng]}
+            icon={markerIcon}
+            draggable
+            eventHandlers={{
+              dragend: (event) => {
+                const { lat, lng } = event.target.getLatLng();
+                onChange(roundPoint({ lat, lng }));
+              },
+            }}
+          />
+        )}
+      </MapContainer>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { CalendarDays, Flame, Layers } from "lucide-react";
+import {
+  getGenreColor,
+  HEATMAP_MODE_LABELS,
+  type HeatmapMode,
+  type MapLayerState,
+} from "@/lib/mapLayers";
+import type { Genre } from "@/lib/types";
+
+type Props = {
+  genres: Genre[];
+  value: MapLayerState;
+  onChange: (next: MapLayerState) => void;
+  /** 地図に置けるイベント数（0 件ならその旨を表示） */
+  eventCount: number;
+};
+
+const HEATMAP_MODES: HeatmapMode[] = ["off", "spots", "stamps"];
+
+/**
+ * 地図のレイヤー（ジャンル・イベント・ヒートマップ）を切り替える。
+ *
+ * @param props - ジャンル一覧・選択状態・変更時のコールバック・イベント数
+ * @returns MapLayerControl
+ * @example
+ * <MapLayerControl genres={genres} value={layers} onChange={setLayers} eventCount={eventMarkers.length} />
+ */
+export function MapLayerControl({ genres, value, onChange, eventCount }: Props) {
+  const selectedGenreIds = value.genreIds ?? genres.map((genre) => genre.id);
+
+  /**
+   * ジャンルの表示を切り替える（すべて選ばれたら絞り込みなしに戻す）。
+   *
+   * @param genreId - ジャンル ID
+   * @returns なし
+   * @example
+   * toggleGenre(1);
+   */
+  const toggleGenre = (genreId: number) => {
+    const next = selectedGenreIds.includes(genreId)
+      ? selectedGenreIds.filter((id) => id !== genreId)
+      : [...selectedGenreIds, genreId].sort((a, b) => a - b);
+    onChange({ ...value, genreIds: next.length === genres.length ? null : next });
+  };
+
+  return (
+    <div className="space-y-2 text-sm text-emerald-900/85">
+      <div className="flex flex-wrap items-center gap-2">
+        <Layers className="h-4 w-4 text-emerald-700" />
+        {genres.map((genre) => {
+          const checked = selectedGenreIds.includes(genre.id);
+          return (
+            <label
+              key={genre.id}
+              className={`flex cursor-pointer items-center gap-1.5 rounded-full border px-3 py-1 text-xs ${
+                checked ? "border-emerald-900/20 bg-white" : "border-emerald-900/10 bg-white/50 text-emerald-900/50"
+              }`}
+            >
+              <input type="checkbox" checked={checked} onChange={() => toggleGenre(genre.id)} className="sr-only" />
+              <span className="h-2.5 w-2.5 rounded-full" style={{ background: getGenreColor(genre.id) }} />
+              {genre.name}
+            </label>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value.events}
+            onChange={(event) => onChange({ ...value, events: event.target.checked })}
+            className="accent-emerald-500"
+          />
+          <CalendarDays className="h-4 w-4 text-orange-500" />
+          開催予定のイベント
+          {value.events && eventCount === 0 && <span className="text-xs text-emerald-900/60">（該当なし）</span>}
+        </label>
+        <label className="flex items-center gap-2">
+          <Flame className="h-4 w-4 text-red-500" />
+          ヒートマップ
+          <select
+            value={value.heatmap}
+            onChange={(event) => onChange({ ...value, heatmap: event.target.value as HeatmapMode })}
+            className="rounded-md border border-emerald-900/15 bg-white px-2 py-1 text-emerald-900"
+          >
+            {HEATMAP_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {HEATMAP_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
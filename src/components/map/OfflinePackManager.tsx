@@ -0,0 +1,252 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { CloudDownload, Loader2, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { GlassCard } from "@/components/ui/GlassCard";
+import type { BoundingBox } from "@/lib/geo";
+import {
+  buildCityRegion,
+  estimateOfflinePack,
+  formatBytes,
+  OFFLINE_PACK_MAX_TILES,
+  OFFLINE_PACK_MAX_ZOOM,
+  OFFLINE_PACK_MIN_ZOOM,
+  type OfflinePackRegion,
+} from "@/lib/offlinePacks";
+import { useOfflinePacks, type OfflinePackProgress } from "@/lib/offlinePacksClient";
+import type { City, Spot } from "@/lib/types";
+
+type Props = {
+  spots: Spot[];
+  cities: City[];
+  /** 地図の現在の表示範囲（未確定なら null） */
+  viewportBounds: BoundingBox | null;
+};
+
+const VIEWPORT_REGION_KEY = "viewport";
+const ZOOM_OPTIONS = Array.from(
+  { length: OFFLINE_PACK_MAX_ZOOM - OFFLINE_PACK_MIN_ZOOM + 1 },
+  (_, index) => OFFLINE_PACK_MIN_ZOOM + index
+);
+
+/**
+ * 地域を選んで地図タイル・スポット・画像をオフライン用に保存し、保存済みパックを管理する。
+ *
+ * @param props - 全スポット・市町村・地図の表示範囲
+ * @returns OfflinePackManager
+ * @example
+ * <OfflinePackManager spots={spots} cities={cities} viewportBounds={viewportBounds} />
+ */
+export function OfflinePackManager({ spots, cities, viewportBounds }: Props) {
+  const { packs, viewedTileKeys, isSupported, downloadPack, deletePack } = useOfflinePacks();
+  const [regionKey, setRegionKey] = useState(VIEWPORT_REGION_KEY);
+  const [minZoom, setMinZoom] = useState(10);
+  const [maxZoom, setMaxZoom] = useState(14);
+  const [progress, setProgress] = useState<OfflinePackProgress | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cityRegions = useMemo(
+    () =>
+      cities
+        .map((city) => buildCityRegion(city, spots))
+        .filter((region): region is OfflinePackRegion => Boolean(region)),
+    [cities, spots]
+  );
+  const region = useMemo<OfflinePackRegion | null>(
+    () =>
+      regionKey === VIEWPORT_REGION_KEY
+        ? viewportBounds && { label: "表示中の範囲", bounds: viewportBounds, cityId: null }
+        : (cityRegions.find((item) => `city:${item.cityId}` === regionKey) ?? null),
+    [cityRegions, regionKey, viewportBounds]
+  );
+  const estimate = useMemo(
+    () => (region ? estimateOfflinePack(region, minZoom, maxZoom, spots, viewedTileKeys) : null),
+    [maxZoom, minZoom, region, spots, viewedTileKeys]
+  );
+  const isDownloading = progress !== null;
+
+  /**
+   * 選択中の地域をダウンロードする。
+   *
+   * @returns なし
+   * @example
+   * await handleDownload();
+   */
+  const handleDownload = async () => {
+    if (!region || !estimate || estimate.exceedsLimit || estimate.tileCount === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setMessage(null);
+    try {
+      const pack = await downloadPack(
+        { region, minZoom, maxZoom, spots },
+        { signal: controller.signal, onProgress: setProgress }
+      );
+      setMessage(`「${pack.name}」を保存しました（${formatBytes(pack.bytes)}）。`);
+    } catch (error) {
+      console.error("[offline-packs] download failed", error);
+      setMessage(
+        controller.signal.aborted
+          ? "ダウンロードを中止しました。"
+          : error instanceof Error
+            ? error.message
+            : "ダウンロードに失敗しました。"
+      );
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  /**
+   * 保存済みパックを削除する。
+   *
+   * @param packId - パック ID
+   * @param name - パック名
+   * @returns なし
+   * @example
+   * await handleDelete("pack_1", "盛岡市");
+   */
+  const handleDelete = async (packId: string, name: string) => {
+    if (!window.confirm(`「${name}」のオフラインデータを削除しますか？`)) return;
+    await deletePack(packId);
+    setMessage(`「${name}」を削除しました。`);
+  };
+
+  return (
+    <GlassCard title="オフライン地図" icon={CloudDownload} badge={`${packs.length} packs`}>
+      {!isSupported ? (
+        <p>このブラウザはオフライン保存に対応していません。</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+            <label className="flex items-center justify-between gap-3 rounded-lg border border-emerald-900/10 bg-white/75 px-3 py-2">
+              <span>地域</span>
+              <select
+                value={regionKey}
+                onChange={(event) => setRegionKey(event.target.value)}
+                disabled={isDownloading}
+                className="rounded-md border border-emerald-900/15 bg-white px-2 py-1 text-emerald-900"
+              >
+                <option value={VIEWPORT_REGION_KEY}>表示中の範囲</option>
+                {cityRegions.map((item) => (
+                  <option key={item.cityId} value={`city:${item.cityId}`}>
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-3 rounded-lg border border-emerald-900/10 bg-white/75 px-3 py-2">
+              <span>最小ズーム</span>
+              <select
+                value={minZoom}
+                onChange={(event) => {
+                  const next = Number(event.target.value);
+                  setMinZoom(next);
+                  if (next > maxZoom) setMaxZoom(next);
+                }}
+                disabled={isDownloading}
+                className="rounded-md border border-emerald-900/15 bg-white px-2 py-1 text-emerald-900"
+              >
+                {ZOOM_OPTIONS.map((zoom) => (
+                  <option key={zoom} value={zoom}>
+                    {zoom}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-3 rounded-lg border border-emerald-900/10 bg-white/75 px-3 py-2">
+              <span>最大ズーム</span>
+              <select
+                value={maxZoom}
+                onChange={(event) => {
+                  const next = Number(event.target.value);
+                  setMaxZoom(next);
+                  if (next < minZoom) setMinZoom(next);
+                }}
+                disabled={isDownloading}
+                className="rounded-md border border-emerald-900/15 bg-white px-2 py-1 text-emerald-900"
+              >
+                {ZOOM_OPTIONS.map((zoom) => (
+                  <option key={zoom} value={zoom}>
+                    {zoom}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {estimate ? (
+            <p className={estimate.exceedsLimit ? "text-amber-700" : undefined}>
+              タイル {estimate.tileCount.toLocaleString()} 枚 · スポット {estimate.spotCount} 件 · 画像{" "}
+              {estimate.imageCount} 枚 · 約 {formatBytes(estimate.bytes)}
+              {estimate.exceedsLimit &&
+                `（タイルは ${OFFLINE_PACK_MAX_TILES.toLocaleString()} 枚までです。範囲かズームを狭めてください）`}
+              {estimate.tileCount === 0 && "（保存したいズームで、この地域の地図を表示してください）"}
+            </p>
+          ) : (
+            <p>地図を動かして範囲を決めてください。</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              onClick={() => void handleDownload()}
+              disabled={!estimate || estimate.exceedsLimit || estimate.tileCount === 0 || isDownloading}
+              className="gap-1"
+            >
+              {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <CloudDownload className="h-4 w-4" />}
+              この地域をダウンロード
+            </Button>
+            {isDownloading && (
+              <>
+                <span className="text-xs text-emerald-900/75">
+                  {progress.done} / {progress.total}
+                  {progress.failed > 0 && `（失敗 ${progress.failed}）`}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => controllerRef.current?.abort()} className="gap-1">
+                  <X className="h-4 w-4" />
+                  中止
+                </Button>
+              </>
+            )}
+          </div>
+          {message && <p className="text-xs text-emerald-900/75">{message}</p>}
+
+          {packs.length > 0 && (
+            <ul className="space-y-2">
+              {packs.map((pack) => (
+                <li
+                  key={pack.id}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-emerald-900/10 bg-white px-4 py-2"
+                >
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium text-emerald-950">{pack.name}</span>
+                    <span className="text-xs text-emerald-900/70">
+                      ズーム {pack.minZoom}〜{pack.maxZoom} · スポット {pack.spotIds.length} 件 · {formatBytes(pack.bytes)} ·{" "}
+                      {new Date(pack.createdAt).toLocaleDateString("ja-JP")}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="delete offline pack"
+                    onClick={() => void handleDelete(pack.id, pack.name)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-[11px] text-emerald-900/60">
+            保存した地域では、電波がなくても地図・スポット詳細・スタンプ画面を開けます。地図タイルは OpenStreetMap
+            の利用規約に従い、この端末で表示した範囲だけを保存します。地図データ: OpenStreetMap
+          </p>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
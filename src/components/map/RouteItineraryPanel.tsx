@@ -0,0 +1,74 @@
+"use client";
+
+import { ExternalLink, Route, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { formatDistance } from "@/lib/geo";
+import { formatDuration, type RouteResult } from "@/lib/routing";
+
+type Props = {
+  route: RouteResult;
+  /** 目的地名 */
+  destinationName: string;
+  /** 外部地図アプリで開く URL（取得できない場合は null） */
+  externalUrl: string | null;
+  onClose: () => void;
+};
+
+const providerLabels: Record<RouteResult["provider"], string> = {
+  osrm: "OSRM",
+  openrouteservice: "OpenRouteService",
+};
+
+/**
+ * アプリ内で取得した経路の概要と案内ステップを表示する。
+ *
+ * @param props - 経路・目的地名・外部地図 URL・閉じる操作
+ * @returns 経路案内パネル
+ * @example
+ * <RouteItineraryPanel route={route} destinationName="盛岡城跡公園" externalUrl={url} onClose={clear} />
+ */
+export function RouteItineraryPanel({ route, destinationName, externalUrl, onClose }: Props) {
+  return (
+    <GlassCard
+      title={`${destinationName}までのルート`}
+      icon={Route}
+      badge={`${formatDistance(route.distance)} · ${formatDuration(route.duration)}`}
+      actions={
+        <div className="flex flex-wrap gap-2">
+          {externalUrl && (
+            <a href={externalUrl} target="_blank" rel="noopener noreferrer">
+              <Button variant="outline" size="sm" className="gap-1">
+                <ExternalLink className="h-4 w-4" />
+                地図アプリ
+              </Button>
+            </a>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="close route">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      }
+    >
+      <ol className="space-y-2">
+        {route.steps.map((step, index) => (
+          <li
+            key={`${index}-${step.location.lat}-${step.location.lng}`}
+            className="flex items-start justify-between gap-3 rounded-xl border border-emerald-900/10 bg-white px-4 py-2"
+          >
+            <span className="flex min-w-0 items-start gap-2">
+              <span className="mt-0.5 grid h-5 w-5 shrink-0 place-items-center rounded-full bg-emerald-100 text-[11px] font-semibold text-emerald-900">
+                {index + 1}
+              </span>
+              <span className="text-emerald-950">{step.instruction}</span>
+            </span>
+            {step.distance > 0 && (
+              <span className="shrink-0 text-xs text-emerald-900/70">{formatDistance(step.distance)}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+      <p className="mt-3 text-[11px] text-emerald-900/60">経路データ: {providerLabels[route.provider]}</p>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { Bike, Car, Footprints, TrainFront, type LucideIcon } from "lucide-react";
+import { TRAVEL_MODE_LABELS, TRAVEL_MODES, type TravelMode } from "@/lib/routeProviders";
+
+type Props = {
+  value: TravelMode;
+  onChange: (mode: TravelMode) => void;
+};
+
+const modeIcons: Record<TravelMode, LucideIcon> = {
+  foot: Footprints,
+  bicycle: Bike,
+  car: Car,
+  transit: TrainFront,
+};
+
+/**
+ * 移動手段（徒歩・自転車・車・公共交通）を切り替えるボタン群。
+ *
+ * @param props - 選択中の移動手段・変更時のコールバック
+ * @returns TravelModeSelector
+ * @example
+ * <TravelModeSelector value={travelMode} onChange={setTravelMode} />
+ */
+export function TravelModeSelector({ value, onChange }: Props) {
+  return (
+    <div role="radiogroup" aria-label="移動手段" className="inline-flex rounded-full border border-emerald-900/15 bg-white p-1">
+      {TRAVEL_MODES.map((mode) => {
+        const Icon = modeIcons[mode];
+        const selected = mode === value;
+        return (
+          <button
+            key={mode}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(mode)}
+            className={`flex items-center gap-1 rounded-full px-3 py-1 text-xs transition ${
+              selected ? "bg-emerald-600 text-white" : "text-emerald-900/80 hover:bg-emerald-50"
+            }`}
+          >
+            <Icon className="h-3.5 w-3.5" />
+            {TRAVEL_MODE_LABELS[mode]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { CalendarDays, LocateFixed, MapPinned, Tag } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import type { SearchSuggestion, SearchSuggestionType } from "@/lib/searchSuggest";
+
+type Props = {
+  id: string;
+  suggestions: SearchSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: SearchSuggestion) => void;
+  onHover: (index: number) => void;
+};
+
+const typeLabels: Record<SearchSuggestionType, { label: string; icon: LucideIcon }> = {
+  spot: { label: "スポット", icon: LocateFixed },
+  event: { label: "イベント", icon: CalendarDays },
+  city: { label: "市区町村", icon: MapPinned },
+  genre: { label: "ジャンル", icon: Tag },
+};
+
+/**
+ * サジェスト候補の DOM id を返す（`aria-activedescendant` 用）。
+ *
+ * @param listId - リストの id
+ * @param index - 候補の位置
+ * @returns 候補の id
+ * @example
+ * getSuggestionOptionId("search-suggest", 0);
+ */
+export function getSuggestionOptionId(listId: string, index: number): string {
+  return `${listId}-option-${index}`;
+}
+
+/**
+ * 一致範囲を強調してラベルを描画する。
+ *
+ * @param props - 候補
+ * @returns ラベル要素
+ * @example
+ * <HighlightedLabel suggestion={suggestion} />
+ */
+function HighlightedLabel({ suggestion }: { suggestion: SearchSuggestion }) {
+  const { label, highlight } = suggestion;
+  if (!highlight) return <>{label}</>;
+  return (
+    <>
+      {label.slice(0, highlight.start)}
+      <mark className="rounded bg-emerald-100 px-0.5 text-emerald-950">{label.slice(highlight.start, highlight.end)}</mark>
+      {label.slice(highlight.end)}
+    </>
+  );
+}
+
+/**
+ * 検索キーワードのサジェストをドロップダウン表示する。
+ *
+ * キーボード操作は入力欄側で扱い、ここでは `activeIndex` の強調とクリック選択のみを行う。
+ *
+ * @param props - 候補・選択状態
+ * @returns サジェスト一覧（候補がなければ null）
+ * @example
+ * <SearchSuggestions id="search-suggest" suggestions={items} activeIndex={0} onSelect={apply} onHover={setIndex} />
+ */
+export function SearchSuggestions({ id, suggestions, activeIndex, onSelect, onHover }: Props) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      className="absolute left-0 right-0 top-full z-20 mt-2 overflow-hidden rounded-2xl border border-emerald-900/15 bg-white py-1 shadow-lg"
+    >
+      {suggestions.map((suggestion, index) => {
+        const meta = typeLabels[suggestion.type];
+        const Icon = meta.icon;
+        return (
+          <li
+            key={`${suggestion.type}-${suggestion.id}`}
+            id={getSuggestionOptionId(id, index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            // 入力欄の blur より先に選択させる
+            onMouseDown={(event) => {
+              event.preventDefault();
+              onSelect(suggestion);
+            }}
+            onMouseEnter={() => onHover(index)}
+            className={`flex cursor-pointer items-center gap-3 px-4 py-2 text-sm ${
+              index === activeIndex ? "bg-emerald-50" : ""
+            }`}
+          >
+            <Icon className="h-4 w-4 shrink-0 text-emerald-700" />
+            <span className="min-w-0 flex-1 truncate text-emerald-950">
+              <HighlightedLabel suggestion={suggestion} />
+            </span>
+            {suggestion.detail && (
+              <span className="shrink-0 text-xs text-emerald-900/55">{suggestion.detail}</span>
+            )}
+            <span className="shrink-0 rounded-full bg-emerald-900/5 px-2 py-0.5 text-[10px] text-emerald-900/70">
+              {meta.label}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
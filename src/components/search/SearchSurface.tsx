@@ -1,97 +1,209 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { useRouter } from "next/navigation";
 import { City, Event, Genre, Spot } from "@/lib/types";
-import { Search, LocateFixed, Navigation, Image as ImageIcon, ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  Search,
+  LocateFixed,
+  Navigation,
+  Image as ImageIcon,
+  Crosshair,
+  Loader2,
+} from "lucide-react";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { Button } from "@/components/ui/Button";
 import { getImageUrl } from "@/lib/storage";
 import Image from "next/image";
 import { useResolvedStorageUrls } from "@/lib/storageSignedClient";
 import { getSpotHref } from "@/lib/spotRoutes";
+import { getEventHref } from "@/lib/eventRoutes";
+import { formatDistance } from "@/lib/geo";
+import type { SearchSuggestion } from "@/lib/searchSuggest";
+import type { SearchFacets, SearchSort } from "@/lib/supabaseClient";
+import { saveSearchSnapshot, takeSearchSnapshot } from "@/lib/searchSnapshot";
+import { getSuggestionOptionId, SearchSuggestions } from "@/components/search/SearchSuggestions";
+import { GeoExportLinks } from "@/components/export/GeoExportLinks";
 
-type SearchTab = "spot" | "event";
-type SpotSearchResponse = {
-  items: Spot[];
+export type SearchTab = "spot" | "event";
+export type SortChoice = SearchSort | "auto";
+type SearchOrigin = { lat: number; lng: number };
+type SearchResponse<T> = {
+  items: T[];
   total: number;
-  page: number;
-  pageSize: number;
   hasNext: boolean;
+  nextCursor: string | null;
+  facets?: SearchFacets;
 };
-type EventSearchResponse = {
-  items: Event[];
-  total: number;
-  page: number;
-  pageSize: number;
-  hasNext: boolean;
+type SpotSearchResponse = SearchResponse<Spot & { distance?: number }>;
+type EventSearchResponse = SearchResponse<Event>;
+
+/** URL クエリから復元する検索条件 */
+export type SearchInitialQuery = {
+  tab: SearchTab;
+  keyword: string;
+  cityId: string;
+  genreId: string;
+  sort: SortChoice;
 };
+
 type Props = {
   cities: City[];
   genres: Genre[];
+  initialQuery?: SearchInitialQuery;
 };
 
 const PAGE_SIZE = 50;
+const EMPTY_RESULT = { items: [], total: 0, hasNext: false, nextCursor: null };
+const DEFAULT_QUERY: SearchInitialQuery = { tab: "spot", keyword: "", cityId: "all", genreId: "all", sort: "auto" };
+const NEAR_RADIUS_OPTIONS = [1000, 5000, 20000] as const;
+const SUGGEST_LIST_ID = "search-suggestions";
+const SORT_OPTIONS: Record<SearchTab, Array<{ value: SortChoice; label: string }>> = {
+  spot: [
+    { value: "auto", label: "おすすめ順" },
+    { value: "distance", label: "近い順" },
+    { value: "name", label: "名前順" },
+    { value: "newest", label: "新着順" },
+  ],
+  event: [
+    { value: "auto", label: "おすすめ順" },
+    { value: "date", label: "開催日順" },
+    { value: "name", label: "名前順" },
+    { value: "newest", label: "新着順" },
+  ],
+};
 
 /**
- * 検索 API クエリ文字列を作成する。
+ * 選択肢ラベルに件数を添える（件数未取得なら名前のみ）。
  *
- * @param params - クエリ構築パラメータ
+ * @param name - 選択肢名
+ * @param counts - ファセット件数
+ * @param id - 選択肢 ID
+ * @returns 表示ラベル
+ * @example
+ * formatFacetLabel("盛岡市", counts, 1); // "盛岡市 (12)"
+ */
+function formatFacetLabel(name: string, counts: Map<number, number> | null, id: number): string {
+  return counts ? `${name} (${counts.get(id) ?? 0})` : name;
+}
+
+/**
+ * 画面 URL に残す検索条件のクエリを作成する（現在地は URL に残さない）。
+ *
+ * @param params - 検索条件
  * @returns URLSearchParams
  * @example
- * const query = buildSearchQuery({ tab: "spot", page: 1, pageSize: 50 });
+ * const query = buildSearchPageQuery({ tab: "spot", keyword: "温泉", cityId: "all", genreId: "all", sort: "auto" });
  */
-function buildSearchQuery(params: {
-  tab: SearchTab;
-  keyword: string;
-  cityId: string;
-  genreId: string;
-  page: number;
-  pageSize: number;
-}): URLSearchParams {
+function buildSearchPageQuery(params: SearchInitialQuery): URLSearchParams {
   const query = new URLSearchParams();
-  query.set("tab", params.tab);
-  query.set("page", String(params.page));
-  query.set("pageSize", String(params.pageSize));
+  if (params.tab !== "spot") query.set("tab", params.tab);
   if (params.keyword) query.set("keyword", params.keyword);
   if (params.cityId !== "all") query.set("cityId", params.cityId);
   if (params.tab === "spot" && params.genreId !== "all") query.set("genreId", params.genreId);
+  if (params.sort !== "auto") query.set("sort", params.sort);
+  return query;
+}
+
+/**
+ * 検索 API クエリ文字列を作成する（続きの取得時は `cursor` を追加する）。
+ *
+ * @param params - クエリ構築パラメータ
+ * @returns URLSearchParams
+ * @example
+ * const query = buildSearchQuery({ tab: "spot", keyword: "", cityId: "all", genreId: "all", origin: null, radius: "all", sort: "auto" });
+ */
+function buildSearchQuery(params: SearchInitialQuery & { origin: SearchOrigin | null; radius: string }): URLSearchParams {
+  const query = buildSearchPageQuery(params);
+  query.set("tab", params.tab);
+  query.set("pageSize", String(PAGE_SIZE));
+  if (params.tab === "spot" && params.origin) {
+    query.set("lat", params.origin.lat.toFixed(5));
+    query.set("lng", params.origin.lng.toFixed(5));
+    if (params.radius !== "all") query.set("radius", params.radius);
+  }
   return query;
 }
 
+/**
+ * 続きのページを読み込み済みの結果へ連結する。
+ *
+ * @param current - 読み込み済みの結果
+ * @param next - 続きのページ
+ * @returns 連結した結果
+ * @example
+ * setSpotResult((current) => appendSearchPage(current, payload));
+ */
+function appendSearchPage<T extends { id: number }>(current: SearchResponse<T>, next: SearchResponse<T>): SearchResponse<T> {
+  const seen = new Set(current.items.map((item) => item.id));
+  return { ...next, items: [...current.items, ...next.items.filter((item) => !seen.has(item.id))] };
+}
+
 /**
  * 検索画面本体。
  *
  * DB 検索 API を利用し、市区町村・ジャンル・キーワードで安全に絞り込む。
+ * 「現在地から探す」を有効にするとスポットを近い順に並べ、半径で絞り込める。
+ * 入力中はサジェストを表示し、矢印キーと Enter でスポット詳細へ移動、または市区町村・ジャンルの絞り込みを適用できる。
+ * 結果はカーソルで続きを読み込む無限スクロールで、条件は URL に反映する。詳細ページから戻った時は
+ * 読み込み済みの結果とスクロール位置を復元する。
  *
  * @param props - コンポーネントプロパティ
  * @returns SearchSurface コンポーネント
  * @example
  * <SearchSurface cities={cities} genres={genres} />
  */
-export function SearchSurface({ cities, genres }: Props) {
-  const [tab, setTab] = useState<SearchTab>("spot");
-  const [keyword, setKeyword] = useState("");
-  const [debouncedKeyword, setDebouncedKeyword] = useState("");
-  const [selectedCityId, setSelectedCityId] = useState<string>("all");
-  const [selectedGenreId, setSelectedGenreId] = useState<string>("all");
-  const [page, setPage] = useState(1);
-
-  const [spotResult, setSpotResult] = useState<SpotSearchResponse>({
-    items: [],
-    total: 0,
-    page: 1,
-    pageSize: PAGE_SIZE,
-    hasNext: false,
-  });
-  const [eventResult, setEventResult] = useState<EventSearchResponse>({
-    items: [],
-    total: 0,
-    page: 1,
-    pageSize: PAGE_SIZE,
-    hasNext: false,
-  });
+export function SearchSurface({ cities, genres, initialQuery = DEFAULT_QUERY }: Props) {
+  const router = useRouter();
+  const [tab, setTab] = useState<SearchTab>(initialQuery.tab);
+  const [keyword, setKeyword] = useState(initialQuery.keyword);
+  const [debouncedKeyword, setDebouncedKeyword] = useState(initialQuery.keyword);
+  const [selectedCityId, setSelectedCityId] = useState<string>(initialQuery.cityId);
+  const [selectedGenreId, setSelectedGenreId] = useState<string>(initialQuery.genreId);
+  const [nearOrigin, setNearOrigin] = useState<SearchOrigin | null>(null);
+  const [nearRadius, setNearRadius] = useState<string>("all");
+  const [sort, setSort] = useState<SortChoice>(initialQuery.sort);
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationMessage, setLocationMessage] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [isSuggestOpen, setIsSuggestOpen] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+
+  const [spotResult, setSpotResult] = useState<SpotSearchResponse>(EMPTY_RESULT);
+  const [eventResult, setEventResult] = useState<EventSearchResponse>(EMPTY_RESULT);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const loadingMoreRef = useRef(false);
+  /** 詳細ページから戻って状態を復元した検索条件（この条件では初回取得を省く） */
+  const restoredKeyRef = useRef<string | null>(null);
+
+  const pageQuery = useMemo(
+    () =>
+      buildSearchPageQuery({
+        tab,
+        keyword: debouncedKeyword,
+        cityId: selectedCityId,
+        genreId: selectedGenreId,
+        sort,
+      }).toString(),
+    [debouncedKeyword, selectedCityId, selectedGenreId, sort, tab]
+  );
+  const searchKey = useMemo(
+    () =>
+      buildSearchQuery({
+        tab,
+        keyword: debouncedKeyword,
+        cityId: selectedCityId,
+        genreId: selectedGenreId,
+        sort,
+        origin: nearOrigin,
+        radius: nearRadius,
+      }).toString(),
+    [debouncedKeyword, nearOrigin, nearRadius, selectedCityId, selectedGenreId, sort, tab]
+  );
+  const searchKeyRef = useRef(searchKey);
 
   const cityById = useMemo(() => new Map(cities.map((city) => [city.id, city])), [cities]);
 
@@ -105,8 +217,49 @@ export function SearchSurface({ cities, genres }: Props) {
   }, [keyword]);
 
   useEffect(() => {
-    setPage(1);
-  }, [tab, selectedCityId, selectedGenreId, debouncedKeyword]);
+    setActiveSuggestion(-1);
+    if (!debouncedKeyword) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    const query = new URLSearchParams({ keyword: debouncedKeyword });
+    fetch(`/api/search/suggest?${query.toString()}`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : { items: [] }))
+      .then((payload: { items?: SearchSuggestion[] }) => setSuggestions(payload.items ?? []))
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error("[search] suggest failed", error);
+      });
+    return () => {
+      controller.abort();
+    };
+  }, [debouncedKeyword]);
+
+  useEffect(() => {
+    // 戻る操作で同じ条件を開けるよう、URL を置き換えて履歴は増やさない
+    const nextUrl = pageQuery ? `${window.location.pathname}?${pageQuery}` : window.location.pathname;
+    if (`${window.location.pathname}${window.location.search}` !== nextUrl) {
+      window.history.replaceState(window.history.state, "", nextUrl);
+    }
+  }, [pageQuery]);
+
+  useEffect(() => {
+    const snapshot = takeSearchSnapshot<SpotSearchResponse | EventSearchResponse>(searchKeyRef.current);
+    if (!snapshot) return;
+    restoredKeyRef.current = snapshot.queryKey;
+    if (initialQuery.tab === "spot") setSpotResult(snapshot.result as SpotSearchResponse);
+    else setEventResult(snapshot.result as EventSearchResponse);
+    const frameId = window.requestAnimationFrame(() => window.scrollTo(0, snapshot.scrollY));
+    return () => {
+      window.cancelAnimationFrame(frameId);
+    };
+  }, [initialQuery.tab]);
+
+  useEffect(() => {
+    // タブ切替や現在地解除で使えなくなった並び順は既定に戻す
+    const available = SORT_OPTIONS[tab].some((option) => option.value === sort);
+    if (!available || (sort === "distance" && !nearOrigin)) setSort("auto");
+  }, [nearOrigin, sort, tab]);
 
   useEffect(() => {
     if (tab !== "event") return;
@@ -114,20 +267,16 @@ export function SearchSurface({ cities, genres }: Props) {
   }, [selectedGenreId, tab]);
 
   useEffect(() => {
+    searchKeyRef.current = searchKey;
+    if (restoredKeyRef.current === searchKey) return;
+    restoredKeyRef.current = null;
+
     const controller = new AbortController();
     const run = async () => {
       setIsLoading(true);
       setErrorMessage(null);
       try {
-        const query = buildSearchQuery({
-          tab,
-          keyword: debouncedKeyword,
-          cityId: selectedCityId,
-          genreId: selectedGenreId,
-          page,
-          pageSize: PAGE_SIZE,
-        });
-        const response = await fetch(`/api/search?${query.toString()}`, {
+        const response = await fetch(`/api/search?${searchKey}`, {
           signal: controller.signal,
           cache: "no-store",
         });
@@ -152,7 +301,168 @@ export function SearchSurface({ cities, genres }: Props) {
     return () => {
       controller.abort();
     };
-  }, [debouncedKeyword, page, selectedCityId, selectedGenreId, tab]);
+  }, [searchKey, tab]);
+
+  const activeResult: SpotSearchResponse | EventSearchResponse = tab === "spot" ? spotResult : eventResult;
+
+  /**
+   * カーソルで続きのページを読み込み、表示中の結果へ連結する。
+   *
+   * @returns なし
+   * @example
+   * await loadMore();
+   */
+  const loadMore = useCallback(async () => {
+    const cursor = activeResult.nextCursor;
+    if (!cursor || isLoading || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    const requestedKey = searchKey;
+    try {
+      const query = new URLSearchParams(requestedKey);
+      query.set("cursor", cursor);
+      const response = await fetch(`/api/search?${query.toString()}`, { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error(`search api error: ${response.status}`);
+      }
+      const payload = await response.json();
+      // 読み込み中に条件が変わった場合は破棄する
+      if (searchKeyRef.current !== requestedKey) return;
+      if (tab === "spot") {
+        setSpotResult((current) => appendSearchPage(current, payload as SpotSearchResponse));
+      } else {
+        setEventResult((current) => appendSearchPage(current, payload as EventSearchResponse));
+      }
+    } catch (error) {
+      console.error("[search] load more failed", error);
+      setErrorMessage("続きの読み込みに失敗しました。");
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [activeResult.nextCursor, isLoading, searchKey, tab]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) void loadMore();
+      },
+      { rootMargin: "400px 0px" }
+    );
+    observer.observe(sentinel);
+    return () => {
+      observer.disconnect();
+    };
+  }, [loadMore]);
+
+  /**
+   * 詳細ページへ移動する前に、読み込み済みの結果とスクロール位置を保存する。
+   *
+   * @returns なし
+   * @example
+   * rememberScrollPosition();
+   */
+  const rememberScrollPosition = useCallback(() => {
+    saveSearchSnapshot(searchKey, activeResult, window.scrollY);
+  }, [activeResult, searchKey]);
+
+  /**
+   * サジェストを適用する。スポットは詳細へ移動し、市区町村・ジャンルは絞り込み条件にする。
+   *
+   * @param suggestion - 選択された候補
+   * @returns なし
+   * @example
+   * applySuggestion(suggestions[0]);
+   */
+  const applySuggestion = useCallback(
+    (suggestion: SearchSuggestion) => {
+      setIsSuggestOpen(false);
+      setActiveSuggestion(-1);
+      if (suggestion.href) {
+        rememberScrollPosition();
+        router.push(suggestion.href);
+        return;
+      }
+      if (suggestion.type === "city") {
+        setSelectedCityId(String(suggestion.id));
+        setKeyword("");
+        return;
+      }
+      if (suggestion.type === "genre") {
+        setTab("spot");
+        setSelectedGenreId(String(suggestion.id));
+        setKeyword("");
+        return;
+      }
+      setTab(suggestion.type === "event" ? "event" : "spot");
+      setKeyword(suggestion.label);
+    },
+    [rememberScrollPosition, router]
+  );
+
+  /**
+   * 入力欄のキー操作でサジェストを選択する。
+   *
+   * @param event - キーボードイベント
+   * @returns なし
+   * @example
+   * <input onKeyDown={handleKeywordKeyDown} />
+   */
+  const handleKeywordKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.nativeEvent.isComposing) return;
+    if (event.key === "Escape") {
+      setIsSuggestOpen(false);
+      return;
+    }
+    if (suggestions.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setIsSuggestOpen(true);
+      // -1（どれも選ばない状態）を含めて循環させる
+      const slots = suggestions.length + 1;
+      setActiveSuggestion((current) => ((current + 1 + step + slots) % slots) - 1);
+      return;
+    }
+    if (event.key === "Enter" && isSuggestOpen && activeSuggestion >= 0) {
+      event.preventDefault();
+      applySuggestion(suggestions[activeSuggestion]);
+    }
+  };
+
+  /**
+   * 「現在地から探す」を切り替える。有効化時は現在地を取得する。
+   *
+   * @returns なし
+   * @example
+   * toggleNearMe();
+   */
+  const toggleNearMe = useCallback(() => {
+    if (nearOrigin) {
+      setNearOrigin(null);
+      setLocationMessage(null);
+      return;
+    }
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      setLocationMessage("位置情報に対応していないため、現在地から探せません。");
+      return;
+    }
+    setIsLocating(true);
+    setLocationMessage(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setNearOrigin({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setIsLocating(false);
+      },
+      () => {
+        setLocationMessage("現在地を取得できませんでした。位置情報の許可を確認してください。");
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 8000 }
+    );
+  }, [nearOrigin]);
 
   /**
    * スポットカード用の画像パス（thumb優先）を返す。
@@ -195,10 +505,18 @@ export function SearchSurface({ cities, genres }: Props) {
     [cities, cityById]
   );
 
-  const activeItems = tab === "spot" ? spotResult.items : eventResult.items;
-  const total = tab === "spot" ? spotResult.total : eventResult.total;
-  const hasNext = tab === "spot" ? spotResult.hasNext : eventResult.hasNext;
-  const hasPrev = page > 1;
+  const activeItems = activeResult.items;
+  const total = activeResult.total;
+  const hasNext = activeResult.hasNext;
+  const facets = activeResult.facets;
+  const cityCounts = useMemo(
+    () => (facets ? new Map(facets.cities.map((facet) => [facet.id, facet.count])) : null),
+    [facets]
+  );
+  const genreCounts = useMemo(
+    () => (facets && tab === "spot" ? new Map(facets.genres.map((facet) => [facet.id, facet.count])) : null),
+    [facets, tab]
+  );
 
   const visibleImagePaths = useMemo(() => {
     if (tab === "spot") return (activeItems as Spot[]).map((spot) => getSpotImagePathValue(spot));
@@ -206,16 +524,27 @@ export function SearchSurface({ cities, genres }: Props) {
   }, [activeItems, getEventImagePathValue, getSpotImagePathValue, tab]);
   const resolvedImageMap = useResolvedStorageUrls(visibleImagePaths, "image");
 
-  const startIndex = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
-  const endIndex = Math.min(page * PAGE_SIZE, total);
 
   return (
     <div className="space-y-4 rounded-3xl border border-emerald-900/10 bg-gradient-to-b from-[#f9fffc] to-[#eef8f4] p-4 shadow-sm ring-1 ring-emerald-900/10 sm:space-y-6 sm:p-5">
-      <div className="flex items-center gap-3 rounded-2xl border border-emerald-900/15 bg-white px-4 py-3 shadow-sm">
+      <div className="relative flex items-center gap-3 rounded-2xl border border-emerald-900/15 bg-white px-4 py-3 shadow-sm">
         <Search className="h-5 w-5 text-emerald-700" strokeWidth={1.8} />
         <input
           value={keyword}
-          onChange={(event) => setKeyword(event.target.value)}
+          onChange={(event) => {
+            setKeyword(event.target.value);
+            setIsSuggestOpen(true);
+          }}
+          onFocus={() => setIsSuggestOpen(true)}
+          onBlur={() => setIsSuggestOpen(false)}
+          onKeyDown={handleKeywordKeyDown}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={isSuggestOpen && suggestions.length > 0}
+          aria-controls={SUGGEST_LIST_ID}
+          aria-activedescendant={
+            isSuggestOpen && activeSuggestion >= 0 ? getSuggestionOptionId(SUGGEST_LIST_ID, activeSuggestion) : undefined
+          }
           placeholder="スポット名やイベント名で検索"
           className="w-full bg-transparent text-sm text-emerald-950 placeholder:text-emerald-900/45 focus:outline-none"
         />
@@ -226,6 +555,15 @@ export function SearchSurface({ cities, genres }: Props) {
         >
           クリア
         </Button>
+        {isSuggestOpen && (
+          <SearchSuggestions
+            id={SUGGEST_LIST_ID}
+            suggestions={suggestions}
+            activeIndex={activeSuggestion}
+            onSelect={applySuggestion}
+            onHover={setActiveSuggestion}
+          />
+        )}
       </div>
 
       <div className="grid gap-2 rounded-2xl border border-emerald-900/10 bg-white/70 p-2 sm:grid-cols-2">
@@ -239,7 +577,7 @@ export function SearchSurface({ cities, genres }: Props) {
             <option value="all">すべて</option>
             {cities.map((city) => (
               <option key={city.id} value={city.id}>
-                {city.name}
+                {formatFacetLabel(city.name, cityCounts, city.id)}
               </option>
             ))}
           </select>
@@ -255,11 +593,60 @@ export function SearchSurface({ cities, genres }: Props) {
             <option value="all">すべて</option>
             {genres.map((genre) => (
               <option key={genre.id} value={genre.id}>
-                {genre.name}
+                {formatFacetLabel(genre.name, genreCounts, genre.id)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 rounded-2xl border border-emerald-900/10 bg-white/70 p-2">
+        <Button
+          variant={nearOrigin ? "primary" : "outline"}
+          size="sm"
+          onClick={toggleNearMe}
+          disabled={tab !== "spot" || isLocating}
+          aria-pressed={Boolean(nearOrigin)}
+          className="gap-2"
+        >
+          {isLocating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4" />}
+          現在地から探す
+        </Button>
+        <label className="flex items-center gap-2 px-2 py-1 text-xs text-emerald-900/75">
+          半径
+          <select
+            value={nearRadius}
+            onChange={(event) => setNearRadius(event.target.value)}
+            disabled={tab !== "spot" || !nearOrigin}
+            className="rounded-md border border-emerald-900/15 bg-white px-2 py-1 text-sm text-emerald-900 disabled:opacity-50"
+          >
+            <option value="all">指定なし</option>
+            {NEAR_RADIUS_OPTIONS.map((radius) => (
+              <option key={radius} value={radius}>
+                {formatDistance(radius)}
               </option>
             ))}
           </select>
         </label>
+        <label className="ml-auto flex items-center gap-2 px-2 py-1 text-xs text-emerald-900/75">
+          並び順
+          <select
+            value={sort}
+            onChange={(event) => setSort(event.target.value as SortChoice)}
+            className="rounded-md border border-emerald-900/15 bg-white px-2 py-1 text-sm text-emerald-900"
+          >
+            {SORT_OPTIONS[tab].map((option) => (
+              <option
+                key={option.value}
+                value={option.value}
+                disabled={option.value === "distance" && !nearOrigin}
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {locationMessage && <p className="w-full px-2 text-xs text-amber-900">{locationMessage}</p>}
       </div>
 
       <div className="flex gap-2 rounded-2xl border border-emerald-900/10 bg-white/70 p-1.5">
@@ -283,12 +670,18 @@ export function SearchSurface({ cities, genres }: Props) {
       <div className="flex flex-wrap items-center justify-between gap-2 px-1 text-xs text-emerald-900/70">
         <p>
           {tab === "spot" ? "スポット" : "イベント"}: {total} 件
-          {tab === "event" && "（ジャンル条件はスポットのみ対応）"}
+          {tab === "spot" && nearOrigin && "（現在地から近い順）"}
+          {tab === "event" && "（ジャンル・現在地の条件はスポットのみ対応）"}
         </p>
         <p>
-          {startIndex}-{endIndex} / {total}
+          {activeItems.length} / {total} 件表示
         </p>
       </div>
+      {tab === "spot" && total > 0 && (
+        <div className="px-1">
+          <GeoExportLinks endpoint="/api/export/spots" query={searchKey} />
+        </div>
+      )}
 
       {errorMessage && (
         <div className="rounded-xl border border-rose-300/60 bg-rose-50 px-3 py-2 text-xs text-rose-800">
@@ -296,15 +689,25 @@ export function SearchSurface({ cities, genres }: Props) {
         </div>
       )}
 
-      <div className="card-grid">
+      <div
+        className="card-grid"
+        onClickCapture={(event) => {
+          if ((event.target as HTMLElement).closest("a")) rememberScrollPosition();
+        }}
+      >
         {tab === "spot" &&
-          (activeItems as Spot[]).map((spot) => {
+          spotResult.items.map((spot) => {
             const imagePath = getSpotImagePathValue(spot);
             const imageUrl = imagePath
               ? (resolvedImageMap.get(imagePath) ?? getImageUrl(imagePath))
               : null;
             return (
-              <GlassCard key={spot.id} title={spot.name} icon={LocateFixed} badge={`#${spot.id}`}>
+              <GlassCard
+                key={spot.id}
+                title={spot.name}
+                icon={LocateFixed}
+                badge={spot.distance !== undefined ? formatDistance(spot.distance) : `#${spot.id}`}
+              >
                 <div className="flex items-start gap-3">
                   <div className="min-w-0 flex-1">
                     <p className="line-clamp-2 text-sm text-emerald-900/80">{spot.description}</p>
@@ -340,6 +743,12 @@ export function SearchSurface({ cities, genres }: Props) {
                 <div className="flex items-start gap-3">
                   <div className="min-w-0 flex-1">
                     <p className="text-sm text-emerald-900/80">{event.location ?? "未設定"}</p>
+                    <a
+                      href={getEventHref(event)}
+                      className="mt-3 inline-flex items-center gap-2 text-xs font-medium text-emerald-700 underline underline-offset-4 hover:text-emerald-800"
+                    >
+                      詳細を見る
+                    </a>
                   </div>
                   <div className="relative h-16 w-24 shrink-0 overflow-hidden rounded-lg border border-emerald-900/10 bg-emerald-50">
                     {imageUrl ? (
@@ -368,31 +777,18 @@ export function SearchSurface({ cities, genres }: Props) {
         )}
       </div>
 
-      <div className="flex items-center justify-center gap-2">
-        <Button
-          variant="outline"
-          size="sm"
-          disabled={!hasPrev || isLoading}
-          onClick={() => setPage((prev) => Math.max(1, prev - 1))}
-          className="gap-1"
-        >
-          <ChevronLeft className="h-4 w-4" />
-          前へ
-        </Button>
-        <span className="text-xs text-emerald-900/75">
-          page {page}
-          {isLoading ? " / 読み込み中..." : ""}
-        </span>
-        <Button
-          variant="outline"
-          size="sm"
-          disabled={!hasNext || isLoading}
-          onClick={() => setPage((prev) => prev + 1)}
-          className="gap-1"
-        >
-          次へ
-          <ChevronRight className="h-4 w-4" />
-        </Button>
+      <div ref={sentinelRef} className="flex items-center justify-center gap-2 py-2">
+        {(isLoading || isLoadingMore) && (
+          <span className="flex items-center gap-2 text-xs text-emerald-900/75">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中...
+          </span>
+        )}
+        {hasNext && !isLoading && !isLoadingMore && (
+          <Button variant="outline" size="sm" onClick={() => void loadMore()}>
+            もっと見る
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -1,20 +1,51 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import { ExploreModePanel } from "@/components/map/ExploreModePanel";
 import { LeafletMap } from "@/components/map/LeafletMap";
+import { MapLayerControl } from "@/components/map/MapLayerControl";
+import { OfflinePackManager } from "@/components/map/OfflinePackManager";
+import { RouteItineraryPanel } from "@/components/map/RouteItineraryPanel";
+import { TravelModeSelector } from "@/components/map/TravelModeSelector";
 import { MORIOKA_STATION } from "@/lib/config";
-import { Spot } from "@/lib/types";
+import { City, Event, Genre, Spot } from "@/lib/types";
 import { SectionTitle } from "@/components/ui/SectionTitle";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { Button } from "@/components/ui/Button";
-import { SlidersHorizontal, MapPin, Navigation } from "lucide-react";
-import { haversineDistance } from "@/lib/geo";
-import { buildRouteUrl } from "@/lib/routeProviders";
+import { SlidersHorizontal, MapPin, Navigation, ScanSearch, Loader2 } from "lucide-react";
+import { formatBoundingBox, haversineDistance, type BoundingBox } from "@/lib/geo";
+import { buildRouteUrl, type LatLng } from "@/lib/routeProviders";
+import { fetchRoute, resolveRoutingBackend, type RouteResult } from "@/lib/routing";
+import {
+  buildHeatmapPoints,
+  buildMapLayerQuery,
+  DEFAULT_MAP_LAYERS,
+  filterSpotsByGenres,
+  placeUpcomingEvents,
+  type MapLayerState,
+} from "@/lib/mapLayers";
 import { getSpotHref } from "@/lib/spotRoutes";
+import { useExploreMode } from "@/lib/exploreModeClient";
+import { useTravelMode } from "@/lib/travelModeClient";
+import { useViewportSpots } from "@/lib/viewportSpotsClient";
 
 type Props = {
   spots: Spot[];
   focusSpotId?: number | null;
+  /** オフライン地図パックの地域選択に使う市町村 */
+  cities?: City[];
+  /** ジャンルレイヤーの切り替えに使うジャンル */
+  genres?: Genre[];
+  /** イベントレイヤーに置くイベント */
+  events?: Event[];
+  /** スタンプ数ヒートマップ用のスポット ID ごとのスタンプ数 */
+  stampCounts?: Record<number, number>;
+  /** URL クエリから復元したレイヤーの選択 */
+  initialLayers?: MapLayerState;
+  /** 初期表示で地図の中心に置くイベント ID */
+  focusEventId?: number | null;
+  /** 探索モードのシミュレーション位置（`simulate` クエリ） */
+  simulatedLocation?: { lat: number; lng: number } | null;
 };
 
 type SpotWithDistance = Spot & { distance: number };
@@ -24,6 +55,19 @@ const DEFAULT_MAX_SEARCH_RADIUS = 20000;
 const TARGET_NEARBY_OPTIONS = [20, 50, 100] as const;
 const MAX_SEARCH_RADIUS_OPTIONS = [5000, 10000, 20000, 50000] as const;
 const EXPANDING_RADII = [500, 1000, 1500, 2000, 3000, 5000, 8000, 12000, 20000, 30000, 50000] as const;
+/** 表示範囲検索で 1 回に取得する件数（検索 API の上限） */
+const VIEWPORT_PAGE_SIZE = 100;
+
+type ActiveRoute = {
+  route: RouteResult;
+  destinationName: string;
+  externalUrl: string | null;
+};
+
+type ViewportResult = {
+  items: SpotWithDistance[];
+  total: number;
+};
 
 /**
  * 近傍スポットを半径拡張方式で目標件数まで取得する。
@@ -68,15 +112,30 @@ function buildNearbyByExpandingRadius(
  * スポット地図画面のメインコンポーネント。
  *
  * 位置情報が取れない場合は盛岡駅を基準に近傍20件を表示し、
- * チェックで全件表示へ切り替えられる。
+ * チェックで全件表示へ切り替えられる。全件表示では地図の表示範囲内のスポットだけをパンに合わせて読み込む。
+ * 「この範囲を検索」で地図の表示範囲内のスポットを検索 API から取得する。
+ * ルート検索は経路を地図上に描き、道順を案内パネルに表示する。
+ * 地域を選んで地図タイルとスポットをオフライン用に保存できる。
+ * `focusEventId` を渡すとそのイベントの会場を中心に表示する。
+ * 探索モードを ON にすると、未スタンプのスポットの圏内に入った時にその場でスタンプを押せる通知を出す。
  *
  * @param props - プロパティ
  * @returns SpotSurface コンポーネント
  * @example
  * <SpotSurface spots={spots} />
  */
-export function SpotSurface({ spots, focusSpotId = null }: Props) {
-  const [userPos, setUserPos] = useState<{ lat: number; lng: number } | null>(null);
+export function SpotSurface({
+  spots,
+  focusSpotId = null,
+  cities = [],
+  genres = [],
+  events = [],
+  stampCounts = {},
+  initialLayers = DEFAULT_MAP_LAYERS,
+  focusEventId = null,
+  simulatedLocation = null,
+}: Props) {
+  const [watchedPos, setWatchedPos] = useState<{ lat: number; lng: number } | null>(null);
   const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number }>(MORIOKA_STATION);
   const [initialCentered, setInitialCentered] = useState(false);
   const [autoUpdate, setAutoUpdate] = useState(true);
@@ -86,6 +145,23 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
   const [maxSearchRadius, setMaxSearchRadius] = useState<number>(DEFAULT_MAX_SEARCH_RADIUS);
 
   const [routeNotice, setRouteNotice] = useState<string | null>(null);
+  const [routeFallbackUrl, setRouteFallbackUrl] = useState<string | null>(null);
+  const [activeRoute, setActiveRoute] = useState<ActiveRoute | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
+  const { travelMode, setTravelMode } = useTravelMode();
+  const [viewportBounds, setViewportBounds] = useState<BoundingBox | null>(null);
+  const [viewportResult, setViewportResult] = useState<ViewportResult | null>(null);
+  const [isViewportLoading, setIsViewportLoading] = useState(false);
+  const [viewportError, setViewportError] = useState<string | null>(null);
+  const [layers, setLayers] = useState<MapLayerState>(initialLayers);
+  const explore = useExploreMode({
+    spots,
+    canSimulate: process.env.NODE_ENV !== "production" || simulatedLocation !== null,
+    initialSimulatedPosition: simulatedLocation,
+  });
+  // 探索モード中はその測位（シミュレーション位置を含む）を現在地として使う
+  const userPos = explore.position ?? watchedPos;
+  const exploreTracking = explore.isTracking;
 
   useEffect(() => {
     let watchId: number | null = null;
@@ -96,7 +172,7 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
       }
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setUserPos({ lat: position.coords.latitude, lng: position.coords.longitude });
+          setWatchedPos({ lat: position.coords.latitude, lng: position.coords.longitude });
           setLocError(null);
         },
         () => setLocError("位置情報を取得できませんでした。盛岡駅を基準に表示します。"),
@@ -104,9 +180,10 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
       );
     };
     request();
-    if (autoUpdate && navigator.geolocation) {
+    // 探索モードが自前で追跡している間は二重に測位しない
+    if (autoUpdate && !exploreTracking && navigator.geolocation) {
       watchId = navigator.geolocation.watchPosition(
-        (position) => setUserPos({ lat: position.coords.latitude, lng: position.coords.longitude }),
+        (position) => setWatchedPos({ lat: position.coords.latitude, lng: position.coords.longitude }),
         () => {},
         { enableHighAccuracy: true, maximumAge: 30000, timeout: 8000 }
       );
@@ -116,7 +193,7 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
         navigator.geolocation.clearWatch(watchId);
       }
     };
-  }, [autoUpdate]);
+  }, [autoUpdate, exploreTracking]);
 
   useEffect(() => {
     if (!userPos || initialCentered) return;
@@ -171,31 +248,130 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
       .slice(0, nearbyTargetCount);
   }, [focusedSpot, nearbyResult.items, nearbyTargetCount]);
 
-  const displaySpots = showAllSpots ? spotsWithDistance : nearbyDisplaySpots;
+  const viewportSpots = useViewportSpots(viewportBounds, showAllSpots && !viewportResult);
+  const viewportSpotsWithDistance = useMemo(() => {
+    return viewportSpots.spots
+      .map((spot) => ({
+        ...spot,
+        distance: haversineDistance(basePoint.lat, basePoint.lng, spot.lat, spot.lng),
+      }))
+      .sort((left, right) => left.distance - right.distance);
+  }, [basePoint.lat, basePoint.lng, viewportSpots.spots]);
+
+  const displaySpots = useMemo(
+    () =>
+      filterSpotsByGenres(
+        viewportResult ? viewportResult.items : showAllSpots ? viewportSpotsWithDistance : nearbyDisplaySpots,
+        layers.genreIds
+      ),
+    [layers.genreIds, nearbyDisplaySpots, showAllSpots, viewportResult, viewportSpotsWithDistance]
+  );
+  const eventMarkers = useMemo(() => placeUpcomingEvents(events, spots), [events, spots]);
+  const focusedEvent = useMemo(
+    () => (focusEventId ? (eventMarkers.find((marker) => marker.id === focusEventId) ?? null) : null),
+    [eventMarkers, focusEventId]
+  );
+
+  useEffect(() => {
+    if (!focusedEvent) return;
+    const frameId = window.requestAnimationFrame(() => {
+      setMapCenter({ lat: focusedEvent.lat, lng: focusedEvent.lng });
+      setInitialCentered(true);
+    });
+    return () => {
+      window.cancelAnimationFrame(frameId);
+    };
+  }, [focusedEvent]);
+  const heatmapPoints = useMemo(
+    () => buildHeatmapPoints(filterSpotsByGenres(spots, layers.genreIds), layers.heatmap, stampCounts),
+    [layers.genreIds, layers.heatmap, spots, stampCounts]
+  );
+
+  // レイヤーの選択を共有できるよう URL クエリへ反映する（focus など他のクエリは残す）
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    ["genres", "events", "heat"].forEach((key) => params.delete(key));
+    new URLSearchParams(buildMapLayerQuery(layers)).forEach((value, key) => params.set(key, value));
+    const query = params.toString();
+    const { pathname } = window.location;
+    window.history.replaceState(window.history.state, "", query ? `${pathname}?${query}` : pathname);
+  }, [layers]);
+
+  /**
+   * 地図の表示範囲内のスポットを、基準点から近い順に検索 API から取得する。
+   *
+   * @returns なし
+   * @example
+   * await searchViewport();
+   */
+  const searchViewport = useCallback(async () => {
+    if (!viewportBounds) return;
+    setIsViewportLoading(true);
+    setViewportError(null);
+    try {
+      const query = new URLSearchParams({
+        tab: "spot",
+        bbox: formatBoundingBox(viewportBounds),
+        lat: basePoint.lat.toFixed(5),
+        lng: basePoint.lng.toFixed(5),
+        pageSize: String(VIEWPORT_PAGE_SIZE),
+      });
+      const response = await fetch(`/api/search?${query.toString()}`, { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error(`search api error: ${response.status}`);
+      }
+      const payload = (await response.json()) as ViewportResult;
+      setViewportResult({ items: payload.items, total: payload.total });
+    } catch (error) {
+      console.error("[map] viewport search failed", error);
+      setViewportError("表示範囲のスポットを取得できませんでした。");
+    } finally {
+      setIsViewportLoading(false);
+    }
+  }, [basePoint.lat, basePoint.lng, viewportBounds]);
 
   /**
-   * スポットへのルート検索を実行し、外部地図アプリを開く。
+   * スポットへの経路を取得して地図と案内パネルに表示する。
+   *
+   * 現在地が不明な場合と公共交通を選んだ場合は外部地図アプリを開く。
+   * 経路を取得できない場合は外部地図アプリへのリンクを案内する。
    *
    * @param destination - 目的地座標
+   * @param destinationName - 目的地名
    * @returns なし
    * @example
-   * handleRouteRequest({ lat: 39.7, lng: 141.1 });
+   * await handleRouteRequest({ lat: 39.7, lng: 141.1 }, "盛岡城跡公園");
    */
   const handleRouteRequest = useCallback(
-    (destination: { lat: number; lng: number }) => {
-      const result = buildRouteUrl("free", userPos, destination);
-      if (result.ok) {
-        if (result.fellBack) {
-          setRouteNotice(result.reason);
+    async (destination: LatLng, destinationName = "目的地") => {
+      const external = buildRouteUrl("free", userPos, destination, travelMode);
+      setRouteFallbackUrl(null);
+      if (!userPos || travelMode === "transit") {
+        setActiveRoute(null);
+        if (external.ok) {
+          setRouteNotice(external.fellBack ? external.reason : null);
+          window.open(external.url, "_blank", "noopener,noreferrer");
         } else {
-          setRouteNotice(null);
+          setRouteNotice(external.error);
         }
-        window.open(result.url, "_blank", "noopener,noreferrer");
-      } else {
-        setRouteNotice(result.error);
+        return;
+      }
+
+      setIsRouting(true);
+      setRouteNotice(null);
+      try {
+        const route = await fetchRoute(resolveRoutingBackend("free"), [userPos, destination], travelMode);
+        setActiveRoute({ route, destinationName, externalUrl: external.ok ? external.url : null });
+      } catch (error) {
+        console.error("[map] route fetch failed", error);
+        setActiveRoute(null);
+        setRouteNotice("アプリ内でルートを取得できませんでした。");
+        setRouteFallbackUrl(external.ok ? external.url : null);
+      } finally {
+        setIsRouting(false);
       }
     },
-    [userPos]
+    [travelMode, userPos]
   );
 
   return (
@@ -212,7 +388,10 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
             <input
               type="checkbox"
               checked={showAllSpots}
-              onChange={(event) => setShowAllSpots(event.target.checked)}
+              onChange={(event) => {
+                setShowAllSpots(event.target.checked);
+                setViewportResult(null);
+              }}
               className="accent-emerald-500"
             />
             すべての観光地を表示する
@@ -237,7 +416,7 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
               navigator.geolocation.getCurrentPosition(
                 (position) => {
                   const next = { lat: position.coords.latitude, lng: position.coords.longitude };
-                  setUserPos(next);
+                  setWatchedPos(next);
                   setMapCenter(next);
                   setInitialCentered(true);
                   setLocError(null);
@@ -249,10 +428,28 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
           >
             現在地を更新
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => void searchViewport()}
+            disabled={!viewportBounds || isViewportLoading}
+            className="gap-1"
+          >
+            {isViewportLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanSearch className="h-4 w-4" />}
+            この範囲を検索
+          </Button>
           <div className="flex items-center gap-2 text-sm text-emerald-900/80">
             <Navigation className="h-4 w-4 text-emerald-700" />
-            <span>ルート検索は地図アプリで案内を開きます</span>
+            <span>ルート検索は地図上に経路と道順を表示します</span>
+            {isRouting && <Loader2 className="h-4 w-4 animate-spin" />}
           </div>
+          <TravelModeSelector value={travelMode} onChange={setTravelMode} />
+        </div>
+        <div className="mt-3">
+          <MapLayerControl genres={genres} value={layers} onChange={setLayers} eventCount={eventMarkers.length} />
+        </div>
+        <div className="mt-3">
+          <ExploreModePanel explore={explore} spots={spots} />
         </div>
         <div className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-2">
           <label className="flex items-center justify-between gap-3 rounded-lg border border-emerald-900/10 bg-white/75 px-3 py-2 text-sm text-emerald-900/90">
@@ -285,7 +482,22 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
           </label>
         </div>
 
-        {!showAllSpots && (
+        {viewportResult && (
+          <div className="mt-2 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-violet-300/50 bg-violet-50 px-3 py-2 text-xs text-violet-900">
+            <span>
+              表示範囲の検索結果: {viewportResult.total} 件
+              {viewportResult.total > viewportResult.items.length && `（近い順に ${viewportResult.items.length} 件を表示）`}
+            </span>
+            <button
+              type="button"
+              onClick={() => setViewportResult(null)}
+              className="underline underline-offset-2"
+            >
+              {showAllSpots ? "全件表示に戻る" : "近傍表示に戻る"}
+            </button>
+          </div>
+        )}
+        {!viewportResult && !showAllSpots && (
           <div className="mt-2 rounded-lg border border-emerald-300/50 bg-emerald-50 px-3 py-2 text-xs text-emerald-900/90">
             近傍探索中: 採用半径{" "}
             <span className="font-semibold">
@@ -299,9 +511,21 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
             </span>
           </div>
         )}
-        {showAllSpots && (
-          <div className="mt-2 rounded-lg border border-sky-300/50 bg-sky-50 px-3 py-2 text-xs text-sky-900">
-            全件表示モード: {spotsWithDistance.length} 件
+        {!viewportResult && showAllSpots && (
+          <div className="mt-2 flex flex-wrap items-center gap-2 rounded-lg border border-sky-300/50 bg-sky-50 px-3 py-2 text-xs text-sky-900">
+            <span>全件表示モード: 表示範囲内 {viewportSpotsWithDistance.length} 件</span>
+            {viewportSpots.isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {viewportSpots.truncated && <span>（件数が多いため一部のみ表示中。ズームすると続きを読み込みます）</span>}
+          </div>
+        )}
+        {!viewportResult && showAllSpots && viewportSpots.error && (
+          <div className="mt-2 rounded-lg border border-rose-300 bg-rose-50 px-3 py-2 text-xs text-rose-800">
+            {viewportSpots.error}
+          </div>
+        )}
+        {viewportError && (
+          <div className="mt-2 rounded-lg border border-rose-300 bg-rose-50 px-3 py-2 text-xs text-rose-800">
+            {viewportError}
           </div>
         )}
         {locError && (
@@ -312,6 +536,19 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
         {routeNotice && (
           <div className="mt-2 rounded-lg border border-sky-300 bg-sky-50 px-3 py-2 text-xs text-sky-900">
             {routeNotice}
+            {routeFallbackUrl && (
+              <>
+                {" "}
+                <a
+                  href={routeFallbackUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline underline-offset-2"
+                >
+                  地図アプリで開く
+                </a>
+              </>
+            )}
           </div>
         )}
 
@@ -322,17 +559,37 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
             spots={displaySpots}
             showUser
             userPosition={userPos}
-            onRouteRequest={handleRouteRequest}
+            onRouteRequest={(destination, spot) => void handleRouteRequest(destination, spot?.name)}
+            routePath={activeRoute?.route.geometry ?? null}
+            autoFit={!viewportResult && !showAllSpots && !focusedEvent}
+            onViewportChange={setViewportBounds}
+            colorByGenre
+            eventMarkers={layers.events ? eventMarkers : []}
+            heatmapPoints={heatmapPoints}
           />
         </div>
+        {activeRoute && (
+          <div className="mt-4">
+            <RouteItineraryPanel
+              route={activeRoute.route}
+              destinationName={activeRoute.destinationName}
+              externalUrl={activeRoute.externalUrl}
+              onClose={() => setActiveRoute(null)}
+            />
+          </div>
+        )}
       </div>
 
+      <OfflinePackManager spots={spots} cities={cities} viewportBounds={viewportBounds} />
+
       <SectionTitle
-        label={showAllSpots ? "すべての観光地" : "近傍の観光地"}
+        label={viewportResult ? "表示範囲の観光地" : showAllSpots ? "すべての観光地" : "近傍の観光地"}
         description={
-          showAllSpots
-            ? "全件表示中"
-            : `盛岡駅/現在地を中心に近い順で最大${nearbyTargetCount}件表示します`
+          viewportResult
+            ? "地図の表示範囲にあるスポットを近い順に表示しています"
+            : showAllSpots
+              ? "地図の表示範囲にあるスポットを近い順に表示しています"
+              : `盛岡駅/現在地を中心に近い順で最大${nearbyTargetCount}件表示します`
         }
         icon={SlidersHorizontal}
       />
@@ -355,7 +612,8 @@ export function SpotSurface({ spots, focusSpotId = null }: Props) {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => handleRouteRequest({ lat: spot.lat, lng: spot.lng })}
+                onClick={() => void handleRouteRequest({ lat: spot.lat, lng: spot.lng }, spot.name)}
+                disabled={isRouting}
                 className="gap-1"
               >
                 <Navigation className="h-3 w-3" />
@@ -0,0 +1,121 @@
+"use client";
+
+import { Award, CalendarDays, CheckCircle2, Flag } from "lucide-react";
+import { GlassCard } from "@/components/ui/GlassCard";
+import type { RallyProgress, RallyStatus } from "@/lib/rallies";
+import type { Rally, Spot } from "@/lib/types";
+
+type Props = {
+  rallies: Rally[];
+  progressById: Map<number, RallyProgress>;
+  spots: Spot[];
+};
+
+const statusLabels: Record<RallyStatus, string> = {
+  upcoming: "開催前",
+  active: "開催中",
+  ended: "終了",
+};
+
+/**
+ * 開催期間を表示用に整形する。
+ *
+ * @param rally - 対象ラリー
+ * @returns 期間ラベル
+ * @example
+ * formatRallyPeriod(rally);
+ */
+function formatRallyPeriod(rally: Pick<Rally, "start_date" | "end_date">): string {
+  if (!rally.start_date && !rally.end_date) return "常設";
+  return `${rally.start_date ?? ""} – ${rally.end_date ?? ""}`;
+}
+
+/**
+ * スタンプラリーごとの進捗と達成バッジを一覧表示する。
+ *
+ * @param props - ラリー・進捗・スポット
+ * @returns ラリー進捗 UI
+ * @example
+ * <RallyProgressList rallies={rallies} progressById={progressById} spots={spots} />
+ */
+export function RallyProgressList({ rallies, progressById, spots }: Props) {
+  if (rallies.length === 0) return null;
+
+  const completedCount = rallies.filter((rally) => progressById.get(rally.id)?.isComplete).length;
+
+  return (
+    <GlassCard title="スタンプラリー" icon={Flag} badge={`達成 ${completedCount}/${rallies.length}`}>
+      <div className="space-y-3">
+        {rallies.map((rally) => {
+          const progress = progressById.get(rally.id);
+          if (!progress) return null;
+          const nextSpot = spots.find((spot) => spot.id === progress.nextSpotId);
+          return (
+            <article
+              key={rally.id}
+              className={`rounded-xl border px-4 py-3 ${
+                progress.isComplete ? "border-amber-300/70 bg-amber-50" : "border-emerald-900/10 bg-white"
+              } ${progress.status === "ended" && !progress.isComplete ? "opacity-70" : ""}`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium text-emerald-950">{rally.title}</p>
+                  <p className="flex items-center gap-1 text-xs text-emerald-900/70">
+                    <CalendarDays className="h-3.5 w-3.5" />
+                    {formatRallyPeriod(rally)} · {statusLabels[progress.status]} ·{" "}
+                    {rally.is_ordered ? "順番どおりに巡る" : "順不同"}
+                  </p>
+                </div>
+                {progress.isComplete ? (
+                  <span className="flex items-center gap-1 rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-900 ring-1 ring-amber-300/60">
+                    <Award className="h-4 w-4" />
+                    {rally.badge_label ?? "達成"}
+                  </span>
+                ) : (
+                  <span className="rounded-full bg-emerald-50 px-3 py-1 text-xs text-emerald-900">
+                    {progress.earnedCount}/{progress.totalCount}
+                  </span>
+                )}
+              </div>
+
+              {rally.description && <p className="mt-2 text-xs text-emerald-900/75">{rally.description}</p>}
+
+              <div className="mt-3 h-2 overflow-hidden rounded-full bg-emerald-900/10">
+                <div
+                  className={`h-full rounded-full transition-all duration-500 ${
+                    progress.isComplete
+                      ? "bg-gradient-to-r from-amber-400 to-orange-400"
+                      : "bg-gradient-to-r from-emerald-400 to-cyan-400"
+                  }`}
+                  style={{ width: `${progress.rate}%` }}
+                />
+              </div>
+
+              <ol className="mt-3 flex flex-wrap gap-1.5">
+                {rally.spot_ids.map((spotId, index) => {
+                  const stamped = progress.stampedSpotIds.includes(spotId);
+                  const spot = spots.find((item) => item.id === spotId);
+                  return (
+                    <li
+                      key={spotId}
+                      className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-[11px] ${
+                        stamped ? "bg-emerald-100 text-emerald-900" : "bg-zinc-100 text-zinc-600"
+                      }`}
+                    >
+                      {stamped ? <CheckCircle2 className="h-3 w-3" /> : rally.is_ordered ? `${index + 1}.` : null}
+                      {spot?.name ?? `#${spotId}`}
+                    </li>
+                  );
+                })}
+              </ol>
+
+              {!progress.isComplete && nextSpot && progress.status === "active" && (
+                <p className="mt-2 text-xs text-emerald-900/70">次のスポット: {nextSpot.name}</p>
+              )}
+            </article>
+          );
+        })}
+      </div>
+    </GlassCard>
+  );
+}
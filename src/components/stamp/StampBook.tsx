@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { BookOpen, ChevronLeft, ChevronRight, Download, Loader2, Printer } from "lucide-react";
+import { useAuthSession } from "@/components/auth/SessionProvider";
+import { Button } from "@/components/ui/Button";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { saveBlobAsFile } from "@/lib/canvasExport";
+import { STAMPS_PATH } from "@/lib/config";
+import {
+  buildStampBookEntries,
+  exportStampBookPng,
+  getStampInkColor,
+  getStampTilt,
+  paginateStampBook,
+  renderStampBookPrintPages,
+  writePrintableStampBook,
+} from "@/lib/stampBook";
+import { ensurePublicUser, fetchUserStamps } from "@/lib/supabaseClient";
+import type { City, Spot, Stamp } from "@/lib/types";
+
+type Props = {
+  spots: Spot[];
+  cities: City[];
+};
+
+const BOOK_TITLE = "いわてスタンプ帳";
+
+/**
+ * 獲得スタンプを押印風に並べるスタンプ帳。PNG 保存と印刷用書き出しに対応する。
+ *
+ * @param props - スポット・市区町村
+ * @returns スタンプ帳 UI
+ * @example
+ * <StampBook spots={spots} cities={cities} />
+ */
+export function StampBook({ spots, cities }: Props) {
+  const { user, status } = useAuthSession();
+  const [stamps, setStamps] = useState<Stamp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [exporting, setExporting] = useState<"png" | "print" | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      if (user?.id) {
+        const ensured = await ensurePublicUser(user.id, user.email ?? "");
+        const userStamps = ensured ? await fetchUserStamps(ensured.id) : [];
+        if (!cancelled) setStamps(userStamps);
+      }
+      if (!cancelled) setLoading(false);
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [status, user]);
+
+  const entries = useMemo(() => buildStampBookEntries(stamps, spots, cities), [stamps, spots, cities]);
+  const pages = useMemo(() => paginateStampBook(entries), [entries]);
+  const safePageIndex = Math.min(pageIndex, pages.length - 1);
+  const currentPage = pages[safePageIndex] ?? [];
+
+  // PNG 保存
+  const handleDownload = async () => {
+    if (exporting) return;
+    setExporting("png");
+    setMessage(null);
+    try {
+      const blob = await exportStampBookPng(entries, BOOK_TITLE);
+      if (!blob) {
+        setMessage("画像の生成に失敗しました。");
+        return;
+      }
+      saveBlobAsFile(blob, "iwate-stamp-book.png");
+      setMessage("スタンプ帳を画像として保存しました。");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // 印刷用ページを別ウィンドウで開く（ポップアップブロック回避のため先に開く）
+  const handlePrint = async () => {
+    if (exporting) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      setMessage("ポップアップがブロックされました。ブラウザ設定を確認してください。");
+      return;
+    }
+    setExporting("print");
+    setMessage(null);
+    try {
+      const printPages = await renderStampBookPrintPages(entries, BOOK_TITLE);
+      writePrintableStampBook(printWindow, printPages, BOOK_TITLE);
+    } catch (error) {
+      console.error("[stamp-book] print failed", error);
+      printWindow.close();
+      setMessage("印刷用ページの生成に失敗しました。");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (status === "loading" || loading) {
+    return (
+      <div className="flex min-h-[40vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-emerald-300" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <GlassCard
+        title={BOOK_TITLE}
+        icon={BookOpen}
+        badge={`${entries.length}個`}
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleDownload} disabled={Boolean(exporting) || entries.length === 0}>
+              {exporting === "png" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              PNG
+            </Button>
+            <Button variant="outline" onClick={handlePrint} disabled={Boolean(exporting) || entries.length === 0}>
+              {exporting === "print" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Printer className="h-4 w-4" />}
+              印刷
+            </Button>
+          </div>
+        }
+      >
+        {message && <p className="mb-3 text-xs text-emerald-900/75">{message}</p>}
+
+        {entries.length === 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm text-emerald-900/75">
+              まだスタンプがありません。スポットを訪れてスタンプを集めると、ここに押印が並びます。
+            </p>
+            <Link href={STAMPS_PATH}>
+              <Button>スタンプを集めに行く</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 rounded-2xl bg-[#fbf7ee] p-4 ring-1 ring-emerald-900/10 sm:grid-cols-3">
+              {currentPage.map((entry) => {
+                const ink = getStampInkColor(entry.spotId);
+                return (
+                  <div key={entry.stampId} className="flex aspect-square items-center justify-center">
+                    <div
+                      className="flex aspect-square w-[82%] flex-col items-center justify-center rounded-full p-3 text-center opacity-90"
+                      style={{
+                        color: ink,
+                        border: `4px solid ${ink}`,
+                        boxShadow: `inset 0 0 0 3px #fbf7ee, inset 0 0 0 4px ${ink}`,
+                        transform: `rotate(${getStampTilt(entry.stampId)}deg)`,
+                      }}
+                    >
+                      {entry.cityName && <span className="text-[10px] sm:text-xs">{entry.cityName}</span>}
+                      <span className="line-clamp-2 font-display text-sm font-bold leading-tight sm:text-base">
+                        {entry.spotName}
+                      </span>
+                      <span className="mt-1 border-t px-2 pt-0.5 text-[10px] sm:text-xs" style={{ borderColor: ink }}>
+                        {entry.dateLabel}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {pages.length > 1 && (
+              <div className="flex items-center justify-center gap-3 text-sm text-emerald-900/80">
+                <Button
+                  variant="ghost"
+                  onClick={() => setPageIndex(Math.max(0, safePageIndex - 1))}
+                  disabled={safePageIndex === 0}
+                  aria-label="previous page"
+                  className="h-10 w-10 rounded-full p-0"
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </Button>
+                <span>
+                  {safePageIndex + 1} / {pages.length} ページ
+                </span>
+                <Button
+                  variant="ghost"
+                  onClick={() => setPageIndex(Math.min(pages.length - 1, safePageIndex + 1))}
+                  disabled={safePageIndex === pages.length - 1}
+                  aria-label="next page"
+                  className="h-10 w-10 rounded-full p-0"
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
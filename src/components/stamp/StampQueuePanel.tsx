@@ -0,0 +1,122 @@
+"use client";
+
+import { CheckCircle2, CloudOff, Loader2, RefreshCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { GlassCard } from "@/components/ui/GlassCard";
+import type { QueuedStamp, QueuedStampStatus } from "@/lib/stampQueue";
+import { describeStampRejection } from "@/lib/stamps";
+import type { Spot } from "@/lib/types";
+
+type Props = {
+  entries: QueuedStamp[];
+  spots: Spot[];
+  isOnline: boolean;
+  isReplaying: boolean;
+  onReplay: () => void;
+  onClearSettled: () => void;
+};
+
+const statusLabels: Record<QueuedStampStatus, string> = {
+  pending: "送信待ち",
+  synced: "登録済み",
+  rejected: "却下",
+};
+
+/**
+ * 測位日時を `M/D HH:mm` で表示する。
+ *
+ * @param value - ISO 日時文字列
+ * @returns 表示用文字列
+ * @example
+ * formatCapturedAt("2026-03-12T01:00:00.000Z");
+ */
+function formatCapturedAt(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${date.getMonth() + 1}/${date.getDate()} ${hours}:${minutes}`;
+}
+
+/**
+ * 圏外で記録したスタンプ申請の送信状況を表示する。
+ *
+ * @param props - キュー項目・操作
+ * @returns キュー一覧 UI（項目がなければ null）
+ * @example
+ * <StampQueuePanel entries={entries} spots={spots} isOnline onReplay={replay} onClearSettled={clear} isReplaying={false} />
+ */
+export function StampQueuePanel({ entries, spots, isOnline, isReplaying, onReplay, onClearSettled }: Props) {
+  if (entries.length === 0) return null;
+
+  const pendingCount = entries.filter((entry) => entry.status === "pending").length;
+  const hasSettled = entries.length > pendingCount;
+
+  return (
+    <GlassCard
+      title="オフライン記録"
+      icon={CloudOff}
+      badge={pendingCount > 0 ? `送信待ち ${pendingCount}件` : "送信完了"}
+      actions={
+        <div className="flex flex-wrap gap-2">
+          {pendingCount > 0 && (
+            <Button variant="outline" onClick={onReplay} disabled={!isOnline || isReplaying}>
+              {isReplaying ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              今すぐ送信
+            </Button>
+          )}
+          {hasSettled && (
+            <Button variant="ghost" onClick={onClearSettled} disabled={isReplaying}>
+              完了分を消去
+            </Button>
+          )}
+        </div>
+      }
+    >
+      {!isOnline && (
+        <p className="mb-3 text-xs text-amber-900">
+          現在オフラインです。電波が戻ると自動でサーバーへ送信します。
+        </p>
+      )}
+      <ul className="space-y-2">
+        {entries.map((entry) => {
+          const spot = spots.find((item) => item.id === entry.spotId);
+          return (
+            <li
+              key={entry.id}
+              className="flex items-center justify-between gap-3 rounded-xl border border-emerald-900/10 bg-white px-4 py-3"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="truncate font-medium text-emerald-950">{spot?.name ?? `#${entry.spotId}`}</p>
+                <p className="text-xs text-emerald-900/70">
+                  {formatCapturedAt(entry.capturedAt)} · 精度 ±{Math.round(entry.accuracy)}m
+                </p>
+                {entry.status === "rejected" && entry.reason && (
+                  <p className="text-xs text-rose-700">{describeStampRejection(entry.reason)}</p>
+                )}
+              </div>
+              <span
+                className={`flex shrink-0 items-center gap-1 rounded-full px-3 py-1 text-xs ${
+                  entry.status === "synced"
+                    ? "bg-emerald-100 text-emerald-900"
+                    : entry.status === "rejected"
+                      ? "bg-rose-100 text-rose-800"
+                      : "bg-amber-100 text-amber-900"
+                }`}
+              >
+                {entry.status === "synced" ? (
+                  <CheckCircle2 className="h-3.5 w-3.5" />
+                ) : entry.status === "rejected" ? (
+                  <XCircle className="h-3.5 w-3.5" />
+                ) : (
+                  <CloudOff className="h-3.5 w-3.5" />
+                )}
+                {statusLabels[entry.status]}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </GlassCard>
+  );
+}
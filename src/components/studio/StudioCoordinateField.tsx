@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, Search } from "lucide-react";
+import { LocationPicker } from "@/components/map/LocationPicker";
+import { Button } from "@/components/ui/Button";
+import { formatDistance } from "@/lib/geo";
+import { checkCoordinate, matchMunicipality, type CoordinateWarning, type GeocodeResult } from "@/lib/geocoding";
+
+type CoordinateValues = { lat: string; lng: string };
+
+type Props = {
+  /** フォームの緯度・経度（文字列のまま扱う） */
+  value: CoordinateValues;
+  onChange: (next: CoordinateValues) => void;
+  /** 選択中の市区町村名（離れすぎの警告と地図の初期位置に使う） */
+  cityName?: string | null;
+  disabled?: boolean;
+};
+
+/**
+ * 緯度・経度の文字列を地点へ変換する（どちらかが空・不正なら null）。
+ *
+ * @param value - 緯度・経度の文字列
+ * @returns 地点または null
+ * @example
+ * readPoint({ lat: "39.7", lng: "141.15" }); // => { lat: 39.7, lng: 141.15 }
+ */
+function readPoint(value: CoordinateValues): { lat: number; lng: number } | null {
+  if (!value.lat.trim() || !value.lng.trim()) return null;
+  const lat = Number(value.lat);
+  const lng = Number(value.lng);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+}
+
+/**
+ * 座標の注意点を表示用の文にする。
+ *
+ * @param warning - 注意点
+ * @returns 表示文
+ * @example
+ * describeWarning({ kind: "outside_iwate" }); // => "岩手県の範囲外です。保存できません。"
+ */
+function describeWarning(warning: CoordinateWarning): string {
+  if (warning.kind === "outside_iwate") return "岩手県の範囲外です。保存できません。";
+  return `${warning.cityName}の中心から ${formatDistance(warning.distance)} 離れています。市区町村と位置を確認してください。`;
+}
+
+/**
+ * Studio の座標入力欄。地図のクリック・ピンのドラッグ・住所検索・直接入力で緯度経度を決める。
+ *
+ * 岩手県の範囲外や、選択中の市区町村から離れすぎた位置には警告を出す。
+ *
+ * @param props - 現在の座標・変更時のコールバック・市区町村名
+ * @returns StudioCoordinateField
+ * @example
+ * <StudioCoordinateField value={{ lat, lng }} onChange={setCoordinates} cityName="盛岡市" />
+ */
+export function StudioCoordinateField({ value, onChange, cityName = null, disabled = false }: Props) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const point = useMemo(() => readPoint({ lat: value.lat, lng: value.lng }), [value.lat, value.lng]);
+  const warnings = useMemo(() => (point ? checkCoordinate(point, cityName) : []), [cityName, point]);
+  const cityCenter = useMemo(() => matchMunicipality(cityName) ?? undefined, [cityName]);
+
+  /**
+   * 候補の位置を採用する。
+   *
+   * @param result - 採用する候補
+   * @returns void
+   * @example
+   * applyResult(results[0]);
+   */
+  function applyResult(result: GeocodeResult): void {
+    onChange({ lat: String(result.lat), lng: String(result.lng) });
+  }
+
+  /**
+   * 住所・地名で位置を検索し、最有力の候補を地図に置く。
+   *
+   * @param event - Enter キーのイベント（外側のフォーム送信を止める）
+   * @returns void
+   * @example
+   * <Button onClick={() => handleSearch()} />
+   */
+  function handleSearch(event?: { preventDefault: () => void }): void {
+    event?.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    void (async () => {
+      setIsSearching(true);
+      setMessage(null);
+      try {
+        const response = await fetch(`/api/studio/geocode?q=${encodeURIComponent(trimmed)}`);
+        const payload = (await response.json().catch(() => ({}))) as { results?: GeocodeResult[]; error?: string };
+        if (!response.ok) {
+          setMessage(payload.error ?? `Request failed with status ${response.status}.`);
+          return;
+        }
+        const found = payload.results ?? [];
+        setResults(found);
+        if (found.length === 0) {
+          setMessage("一致する場所が見つかりませんでした。地図をクリックして位置を指定してください。");
+          return;
+        }
+        applyResult(found[0]);
+      } catch (error) {
+        setMessage(error instanceof Error ? error.message : "位置の検索に失敗しました。");
+      } finally {
+        setIsSearching(false);
+      }
+    })();
+  }
+
+  return (
+    <div className="space-y-3 text-sm text-zinc-700">
+      <div className="flex gap-2">
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") handleSearch(event);
+          }}
+          aria-label="住所・地名で検索"
+          className="min-w-0 flex-1 rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+          placeholder="住所・地名で検索（例: 盛岡市内丸）"
+          disabled={disabled}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          className="gap-1"
+          disabled={disabled || isSearching || !query.trim()}
+          onClick={() => handleSearch()}
+        >
+          <Search className="h-4 w-4" />
+          検索
+        </Button>
+      </div>
+      {message ? <p className="text-xs text-zinc-600">{message}</p> : null}
+      {results.length > 1 ? (
+        <div className="flex flex-wrap gap-2">
+          {results.map((result) => (
+            <button
+              key={`${result.label}:${result.lat}:${result.lng}`}
+              type="button"
+              onClick={() => applyResult(result)}
+              className="rounded-full px-3 py-1 text-xs text-emerald-900 ring-1 ring-emerald-900/15 transition hover:bg-emerald-50"
+              disabled={disabled}
+            >
+              {result.label}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      <LocationPicker
+        value={point}
+        onChange={(next) => onChange({ lat: String(next.lat), lng: String(next.lng) })}
+        fallbackCenter={cityCenter}
+      />
+      <p className="text-xs text-zinc-500">地図をクリックするかピンをドラッグして位置を調整できます。</p>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="block space-y-2">
+          <span className="font-medium">緯度</span>
+          <input
+            value={value.lat}
+            onChange={(event) => onChange({ ...value, lat: event.target.value })}
+            className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+            inputMode="decimal"
+            placeholder="39.7021"
+            disabled={disabled}
+          />
+        </label>
+
+        <label className="block space-y-2">
+          <span className="font-medium">経度</span>
+          <input
+            value={value.lng}
+            onChange={(event) => onChange({ ...value, lng: event.target.value })}
+            className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+            inputMode="decimal"
+            placeholder="141.1527"
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      {warnings.length > 0 ? (
+        <ul className="space-y-1 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          {warnings.map((warning) => (
+            <li key={warning.kind} className="flex items-start gap-2">
+              <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              {describeWarning(warning)}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -3,6 +3,12 @@ import userEvent from "@testing-library/user-event";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { StudioEventsManager } from "@/components/studio/StudioEventsManager";
 
+const spots = [
+  { id: 1, name: "盛岡城跡公園", description: "", city_id: 1, genre_id: 1, lat: 39.7021, lng: 141.1527 },
+  { id: 2, name: "中尊寺 金色堂", description: "", city_id: 2, genre_id: 1, lat: 38.9865, lng: 141.1176 },
+  { id: 4, name: "わんこそば体験", description: "", city_id: 1, genre_id: 3, lat: 39.7036, lng: 141.1527 },
+];
+
 const mockPush = vi.fn();
 const mockRefresh = vi.fn();
 
@@ -13,6 +19,12 @@ vi.mock("next/navigation", () => ({
   }),
 }));
 
+vi.mock("@/components/map/LocationPicker", () => ({
+  LocationPicker: ({ value }: { value: { lat: number; lng: number } | null }) => (
+    <p>{value ? `picked ${value.lat},${value.lng}` : "no point"}</p>
+  ),
+}));
+
 describe("StudioEventsManager", () => {
   beforeEach(() => {
     mockPush.mockReset();
@@ -29,6 +41,7 @@ describe("StudioEventsManager", () => {
         pageSize={20}
         hasNext={false}
         cities={[{ id: 1, name: "盛岡市" }]}
+        spots={[]}
         editingEvent={{
           id: 5,
           title: "盛岡週末ナイトマーケット",
@@ -50,6 +63,7 @@ describe("StudioEventsManager", () => {
         pageSize={20}
         hasNext={false}
         cities={[{ id: 1, name: "盛岡市" }]}
+        spots={[]}
         editingEvent={null}
       />
     );
@@ -76,6 +90,7 @@ describe("StudioEventsManager", () => {
         pageSize={20}
         hasNext={false}
         cities={[{ id: 1, name: "盛岡市" }]}
+        spots={[]}
         editingEvent={null}
       />
     );
@@ -119,6 +134,7 @@ describe("StudioEventsManager", () => {
         pageSize={20}
         hasNext={false}
         cities={[{ id: 1, name: "盛岡市" }]}
+        spots={[]}
         editingEvent={null}
       />
     );
@@ -131,5 +147,134 @@ describe("StudioEventsManager", () => {
       expect(mockRefresh).toHaveBeenCalled();
     });
   });
-});
 
+  it("fills coordinates and city from the geocoded location", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          results: [
+            {
+              label: "平泉町",
+              lat: 38.9869,
+              lng: 141.1147,
+              provider: "gazetteer",
+              precision: "municipality",
+              municipality: "平泉町",
+            },
+          ],
+        }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    render(
+      <StudioEventsManager
+        items={[]}
+        total={0}
+        page={1}
+        pageSize={20}
+        hasNext={false}
+        cities={[
+          { id: 1, name: "盛岡市" },
+          { id: 2, name: "平泉町" },
+        ]}
+        spots={[]}
+        editingEvent={null}
+      />
+    );
+
+    const user = userEvent.setup();
+    await user.type(screen.getByLabelText("場所"), "平泉町 毛越寺");
+    await user.click(screen.getByRole("button", { name: "場所から位置を推定" }));
+
+    expect(await screen.findByText("picked 38.9869,141.1147")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith(`/api/studio/geocode?q=${encodeURIComponent("平泉町 毛越寺")}`);
+    expect(screen.getByLabelText("緯度")).toHaveValue("38.9869");
+    expect(screen.getByLabelText("市区町村")).toHaveValue("2");
+  });
+
+  it("sends the recurrence rule and exception dates built in the editor", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ item: { id: 9 } }), {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    render(
+      <StudioEventsManager
+        items={[]}
+        total={0}
+        page={1}
+        pageSize={20}
+        hasNext={false}
+        cities={[{ id: 1, name: "盛岡市" }]}
+        spots={[]}
+        editingEvent={null}
+      />
+    );
+
+    const user = userEvent.setup();
+    await user.type(screen.getByLabelText("タイトル"), "材木町よ市");
+    await user.type(screen.getByLabelText("開始日"), "2026-04-04");
+    await user.selectOptions(screen.getByLabelText("繰り返しの単位"), "WEEKLY");
+    await user.click(screen.getByLabelText("土"));
+    await user.type(screen.getByLabelText("除外日"), "2026-04-11");
+    await user.click(screen.getByRole("button", { name: "除外日を追加" }));
+
+    expect(screen.getByText("毎週 土曜日")).toBeInTheDocument();
+    expect(screen.getByText("開催日: 2026-04-04 / 2026-04-18 / 2026-04-25 / 2026-05-02 / 2026-05-09")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "作成する" }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      recurrence_rule: "FREQ=WEEKLY;BYDAY=SA",
+      recurrence_exdates: ["2026-04-11"],
+    });
+  });
+
+  it("links venue spots and moves the chosen one to the primary slot", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ id: 5 }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    render(
+      <StudioEventsManager
+        items={[]}
+        total={0}
+        page={1}
+        pageSize={20}
+        hasNext={false}
+        cities={[{ id: 1, name: "盛岡市" }]}
+        spots={spots}
+        editingEvent={{ id: 5, title: "盛岡週末ナイトマーケット", city_id: 1, spot_ids: [1] }}
+      />
+    );
+
+    const user = userEvent.setup();
+    const select = screen.getByLabelText("会場に追加するスポット");
+    expect([...select.querySelectorAll("option")].map((option) => option.textContent)).toEqual([
+      "スポットを選択",
+      "わんこそば体験",
+      "中尊寺 金色堂",
+    ]);
+
+    await user.selectOptions(select, "4");
+    await user.click(screen.getByRole("button", { name: "追加" }));
+    await user.click(screen.getByRole("button", { name: "主会場にする" }));
+    await user.click(screen.getByRole("button", { name: "更新する" }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const [endpoint, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(endpoint).toBe("/api/studio/events/5");
+    expect(JSON.parse(init.body as string)).toMatchObject({ spot_ids: [4, 1] });
+  });
+});
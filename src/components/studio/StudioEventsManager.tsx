@@ -2,10 +2,14 @@
 
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { FormEvent, useEffect, useState, useTransition } from "react";
-import { CalendarDays, PencilLine, Plus, Trash2 } from "lucide-react";
+import { FormEvent, useEffect, useMemo, useState, useTransition } from "react";
+import { CalendarDays, LocateFixed, PencilLine, Plus, Star, Trash2, X } from "lucide-react";
+import { LocationPicker } from "@/components/map/LocationPicker";
+import { StudioRecurrenceEditor } from "@/components/studio/StudioRecurrenceEditor";
 import { Button } from "@/components/ui/Button";
-import type { AdminEventListItem, City, Event } from "@/lib/types";
+import { describeRecurrenceRule, readEventRecurrence } from "@/lib/eventRecurrence";
+import type { GeocodeResult } from "@/lib/geocoding";
+import type { AdminEventListItem, City, Event, Spot } from "@/lib/types";
 
 type EventFormValues = {
   title: string;
@@ -13,6 +17,11 @@ type EventFormValues = {
   start_date: string;
   end_date: string;
   city_id: string;
+  lat: string;
+  lng: string;
+  spot_ids: number[];
+  recurrence_rule: string;
+  recurrence_exdates: string[];
 };
 
 type Props = {
@@ -22,6 +31,7 @@ type Props = {
   pageSize: number;
   hasNext: boolean;
   cities: City[];
+  spots: Spot[];
   editingEvent: Event | null;
 };
 
@@ -39,6 +49,11 @@ function createEmptyEventForm(): EventFormValues {
     start_date: "",
     end_date: "",
     city_id: "",
+    lat: "",
+    lng: "",
+    spot_ids: [],
+    recurrence_rule: "",
+    recurrence_exdates: [],
   };
 }
 
@@ -57,9 +72,29 @@ function createEventFormValues(event: Event): EventFormValues {
     start_date: event.start_date ?? "",
     end_date: event.end_date ?? "",
     city_id: event.city_id ? String(event.city_id) : "",
+    lat: typeof event.lat === "number" ? String(event.lat) : "",
+    lng: typeof event.lng === "number" ? String(event.lng) : "",
+    spot_ids: [...(event.spot_ids ?? [])],
+    recurrence_rule: event.recurrence_rule ?? "",
+    recurrence_exdates: event.recurrence_exdates ?? [],
   };
 }
 
+/**
+ * フォームの緯度・経度を地点へ変換する（どちらかが空・不正なら null）。
+ *
+ * @param values - フォーム値
+ * @returns 地点または null
+ * @example
+ * readFormPoint({ ...values, lat: "39.7", lng: "141.15" }); // => { lat: 39.7, lng: 141.15 }
+ */
+function readFormPoint(values: Pick<EventFormValues, "lat" | "lng">): { lat: number; lng: number } | null {
+  if (!values.lat.trim() || !values.lng.trim()) return null;
+  const lat = Number(values.lat);
+  const lng = Number(values.lng);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+}
+
 /**
  * イベント管理画面の URL を構築する。
  *
@@ -125,6 +160,7 @@ export function StudioEventsManager({
   pageSize,
   hasNext,
   cities,
+  spots,
   editingEvent,
 }: Props) {
   const router = useRouter();
@@ -132,13 +168,32 @@ export function StudioEventsManager({
     editingEvent ? createEventFormValues(editingEvent) : createEmptyEventForm()
   );
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [candidateSpotId, setCandidateSpotId] = useState("");
+  const [geocodeResults, setGeocodeResults] = useState<GeocodeResult[]>([]);
+  const [geocodeMessage, setGeocodeMessage] = useState<string | null>(null);
+  const [isGeocoding, setIsGeocoding] = useState(false);
   const [isMutating, setIsMutating] = useState(false);
   const [isPending, startTransition] = useTransition();
   const isBusy = isMutating || isPending;
+  const spotNameById = useMemo(() => new Map(spots.map((spot) => [spot.id, spot.name])), [spots]);
+  // 選択中の市区町村のスポットを先に並べる
+  const candidateSpots = useMemo(() => {
+    const cityId = Number(formValues.city_id);
+    return spots
+      .filter((spot) => !formValues.spot_ids.includes(spot.id))
+      .sort((left, right) => Number(right.city_id === cityId) - Number(left.city_id === cityId));
+  }, [formValues.city_id, formValues.spot_ids, spots]);
+  const pickedPoint = useMemo(
+    () => readFormPoint({ lat: formValues.lat, lng: formValues.lng }),
+    [formValues.lat, formValues.lng]
+  );
 
   useEffect(() => {
     setFormValues(editingEvent ? createEventFormValues(editingEvent) : createEmptyEventForm());
     setErrorMessage(null);
+    setCandidateSpotId("");
+    setGeocodeResults([]);
+    setGeocodeMessage(null);
   }, [editingEvent]);
 
   /**
@@ -150,13 +205,99 @@ export function StudioEventsManager({
    * @example
    * updateField("title", "盛岡週末ナイトマーケット");
    */
-  function updateField(field: keyof EventFormValues, value: string): void {
+  function updateField(field: Exclude<keyof EventFormValues, "spot_ids" | "recurrence_exdates">, value: string): void {
     setFormValues((current) => ({
       ...current,
       [field]: value,
     }));
   }
 
+  /**
+   * 選択中のスポットを会場に加える。
+   *
+   * @returns void
+   * @example
+   * handleAddSpot();
+   */
+  function handleAddSpot(): void {
+    const spotId = Number(candidateSpotId);
+    if (!Number.isInteger(spotId) || spotId <= 0) return;
+    setFormValues((current) => ({ ...current, spot_ids: [...current.spot_ids, spotId] }));
+    setCandidateSpotId("");
+  }
+
+  /**
+   * 会場スポットを先頭（主会場）に移す。
+   *
+   * @param spotId - 主会場にするスポット ID
+   * @returns void
+   * @example
+   * makePrimarySpot(4);
+   */
+  function makePrimarySpot(spotId: number): void {
+    setFormValues((current) => ({
+      ...current,
+      spot_ids: [spotId, ...current.spot_ids.filter((id) => id !== spotId)],
+    }));
+  }
+
+  /**
+   * ジオコーディング結果を会場の位置として採用する（市区町村が未設定なら結果の市町村も入れる）。
+   *
+   * @param result - 採用する候補
+   * @returns void
+   * @example
+   * applyGeocodeResult(results[0]);
+   */
+  function applyGeocodeResult(result: GeocodeResult): void {
+    const city = result.municipality ? cities.find((item) => item.name === result.municipality) : undefined;
+    setFormValues((current) => ({
+      ...current,
+      lat: String(result.lat),
+      lng: String(result.lng),
+      city_id: current.city_id || (city ? String(city.id) : ""),
+    }));
+  }
+
+  /**
+   * 場所の入力からジオコーダで位置の候補を探し、最有力の候補を地図に置く。
+   *
+   * @returns void
+   * @example
+   * <Button onClick={handleGeocode} />
+   */
+  function handleGeocode(): void {
+    const query = formValues.location.trim();
+    if (!query) {
+      setGeocodeMessage("先に場所を入力してください。");
+      return;
+    }
+
+    void (async () => {
+      setIsGeocoding(true);
+      setGeocodeMessage(null);
+      try {
+        const response = await fetch(`/api/studio/geocode?q=${encodeURIComponent(query)}`);
+        if (!response.ok) {
+          setGeocodeMessage(await readErrorMessage(response));
+          return;
+        }
+        const { results } = (await response.json()) as { results: GeocodeResult[] };
+        setGeocodeResults(results);
+        if (results.length === 0) {
+          setGeocodeMessage("一致する場所が見つかりませんでした。地図をクリックして位置を指定してください。");
+          return;
+        }
+        applyGeocodeResult(results[0]);
+        setGeocodeMessage("推定した位置を地図に置きました。ずれている場合はピンを動かしてください。");
+      } catch (error) {
+        setGeocodeMessage(error instanceof Error ? error.message : "位置の検索に失敗しました。");
+      } finally {
+        setIsGeocoding(false);
+      }
+    })();
+  }
+
   /**
    * フォーム送信を処理する。
    *
@@ -325,6 +466,20 @@ export function StudioEventsManager({
             </label>
           </div>
 
+          <StudioRecurrenceEditor
+            rule={formValues.recurrence_rule}
+            exdates={formValues.recurrence_exdates}
+            startDate={formValues.start_date}
+            onChange={(next) =>
+              setFormValues((current) => ({
+                ...current,
+                recurrence_rule: next.rule,
+                recurrence_exdates: next.exdates,
+              }))
+            }
+            disabled={isBusy}
+          />
+
           <label className="block space-y-2 text-sm text-zinc-700">
             <span className="font-medium">市区町村</span>
             <select
@@ -342,6 +497,150 @@ export function StudioEventsManager({
             </select>
           </label>
 
+          <div className="space-y-2 text-sm text-zinc-700">
+            <span className="font-medium">会場スポット</span>
+            <div className="flex gap-2">
+              <select
+                value={candidateSpotId}
+                onChange={(event) => setCandidateSpotId(event.target.value)}
+                className="min-w-0 flex-1 rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+                aria-label="会場に追加するスポット"
+                disabled={isBusy}
+              >
+                <option value="">スポットを選択</option>
+                {candidateSpots.map((spot) => (
+                  <option key={spot.id} value={spot.id}>
+                    {spot.name}
+                  </option>
+                ))}
+              </select>
+              <Button type="button" variant="outline" disabled={isBusy || !candidateSpotId} onClick={handleAddSpot}>
+                追加
+              </Button>
+            </div>
+            {formValues.spot_ids.length > 0 ? (
+              <ul className="space-y-2">
+                {formValues.spot_ids.map((spotId, index) => (
+                  <li
+                    key={spotId}
+                    className="flex items-center gap-2 rounded-2xl border border-zinc-200 bg-zinc-50/70 px-3 py-2"
+                  >
+                    <span className="min-w-0 flex-1 truncate text-zinc-900">
+                      {spotNameById.get(spotId) ?? `スポット #${spotId}`}
+                    </span>
+                    {index === 0 ? (
+                      <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-800">
+                        主会場
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => makePrimarySpot(spotId)}
+                        className="rounded-full p-1.5 text-zinc-500 transition hover:bg-white"
+                        aria-label="主会場にする"
+                        disabled={isBusy}
+                      >
+                        <Star className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormValues((current) => ({
+                          ...current,
+                          spot_ids: current.spot_ids.filter((id) => id !== spotId),
+                        }))
+                      }
+                      className="rounded-full p-1.5 text-rose-600 transition hover:bg-rose-50"
+                      aria-label="会場から外す"
+                      disabled={isBusy}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-zinc-500">
+                会場のスポットを選ぶと、スポット詳細ページとカレンダーからこのイベントへ案内します。
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3 text-sm text-zinc-700">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-medium">会場の位置</span>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  disabled={isBusy || isGeocoding}
+                  onClick={handleGeocode}
+                >
+                  <LocateFixed className="h-4 w-4" />
+                  場所から位置を推定
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={isBusy || (!formValues.lat && !formValues.lng)}
+                  onClick={() => setFormValues((current) => ({ ...current, lat: "", lng: "" }))}
+                >
+                  位置をクリア
+                </Button>
+              </div>
+            </div>
+            {geocodeMessage ? <p className="text-xs text-zinc-600">{geocodeMessage}</p> : null}
+            {geocodeResults.length > 1 ? (
+              <div className="flex flex-wrap gap-2">
+                {geocodeResults.map((result) => (
+                  <button
+                    key={`${result.label}:${result.lat}:${result.lng}`}
+                    type="button"
+                    onClick={() => applyGeocodeResult(result)}
+                    className="rounded-full px-3 py-1 text-xs text-emerald-900 ring-1 ring-emerald-900/15 transition hover:bg-emerald-50"
+                    disabled={isBusy}
+                  >
+                    {result.label}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+            <LocationPicker
+              value={pickedPoint}
+              onChange={(point) =>
+                setFormValues((current) => ({ ...current, lat: String(point.lat), lng: String(point.lng) }))
+              }
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="block space-y-2">
+                <span className="font-medium">緯度</span>
+                <input
+                  value={formValues.lat}
+                  onChange={(event) => updateField("lat", event.target.value)}
+                  className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+                  placeholder="39.7016"
+                  inputMode="decimal"
+                  disabled={isBusy}
+                />
+              </label>
+              <label className="block space-y-2">
+                <span className="font-medium">経度</span>
+                <input
+                  value={formValues.lng}
+                  onChange={(event) => updateField("lng", event.target.value)}
+                  className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+                  placeholder="141.1368"
+                  inputMode="decimal"
+                  disabled={isBusy}
+                />
+              </label>
+            </div>
+          </div>
+
           <div className="flex flex-wrap gap-3">
             <Button type="submit" className="min-w-40 justify-center" disabled={isBusy}>
               {editingEvent ? "更新する" : "作成する"}
@@ -379,6 +678,7 @@ export function StudioEventsManager({
           {items.length > 0 ? (
             items.map((eventItem) => {
               const isActive = editingEvent?.id === eventItem.id;
+              const recurrence = readEventRecurrence(eventItem);
               return (
                 <article
                   key={eventItem.id}
@@ -395,6 +695,11 @@ export function StudioEventsManager({
                         <p className="mt-1 text-sm text-zinc-600">
                           {eventItem.location ?? "場所未設定"} / {eventItem.city?.name ?? "市区町村未設定"}
                         </p>
+                        {eventItem.spot_ids?.length ? (
+                          <p className="mt-1 text-xs text-emerald-800">
+                            会場: {eventItem.spot_ids.map((spotId) => spotNameById.get(spotId) ?? `#${spotId}`).join("、")}
+                          </p>
+                        ) : null}
                       </div>
                       <dl className="grid gap-2 text-sm text-zinc-600 sm:grid-cols-2">
                         <div>
@@ -405,6 +710,25 @@ export function StudioEventsManager({
                           <dt className="font-medium text-zinc-800">終了日</dt>
                           <dd>{formatDateLabel(eventItem.end_date)}</dd>
                         </div>
+                        {recurrence ? (
+                          <div className="sm:col-span-2">
+                            <dt className="font-medium text-zinc-800">繰り返し</dt>
+                            <dd>
+                              {describeRecurrenceRule(recurrence, eventItem.start_date)}
+                              {eventItem.recurrence_exdates?.length
+                                ? `（除外 ${eventItem.recurrence_exdates.length} 日）`
+                                : ""}
+                            </dd>
+                          </div>
+                        ) : null}
+                        <div className="sm:col-span-2">
+                          <dt className="font-medium text-zinc-800">位置</dt>
+                          <dd>
+                            {typeof eventItem.lat === "number" && typeof eventItem.lng === "number"
+                              ? `${eventItem.lat.toFixed(5)}, ${eventItem.lng.toFixed(5)}`
+                              : "未設定"}
+                          </dd>
+                        </div>
                       </dl>
                     </div>
 
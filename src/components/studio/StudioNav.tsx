@@ -7,6 +7,7 @@ const items = [
   { href: "/studio", label: "Dashboard" },
   { href: "/studio/spots", label: "Spots" },
   { href: "/studio/events", label: "Events" },
+  { href: "/studio/rallies", label: "Rallies" },
 ];
 
 /**
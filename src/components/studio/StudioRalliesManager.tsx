@@ -0,0 +1,576 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FormEvent, useEffect, useMemo, useState, useTransition } from "react";
+import { ArrowDown, ArrowUp, Award, PencilLine, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import type { Rally, Spot } from "@/lib/types";
+
+type RallyFormValues = {
+  title: string;
+  description: string;
+  badge_label: string;
+  start_date: string;
+  end_date: string;
+  is_ordered: boolean;
+  spot_ids: number[];
+};
+
+type Props = {
+  items: Rally[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasNext: boolean;
+  spots: Spot[];
+  editingRally: Rally | null;
+};
+
+/**
+ * 空のラリーフォーム値を返す。
+ *
+ * @returns 初期フォーム値
+ * @example
+ * createEmptyRallyForm();
+ */
+function createEmptyRallyForm(): RallyFormValues {
+  return {
+    title: "",
+    description: "",
+    badge_label: "",
+    start_date: "",
+    end_date: "",
+    is_ordered: false,
+    spot_ids: [],
+  };
+}
+
+/**
+ * ラリーからフォーム値を生成する。
+ *
+ * @param rally - 編集対象ラリー
+ * @returns フォーム値
+ * @example
+ * createRallyFormValues(rally);
+ */
+function createRallyFormValues(rally: Rally): RallyFormValues {
+  return {
+    title: rally.title,
+    description: rally.description ?? "",
+    badge_label: rally.badge_label ?? "",
+    start_date: rally.start_date ?? "",
+    end_date: rally.end_date ?? "",
+    is_ordered: rally.is_ordered,
+    spot_ids: [...rally.spot_ids],
+  };
+}
+
+/**
+ * ラリー管理画面の URL を構築する。
+ *
+ * @param page - 現在ページ
+ * @param editId - 編集対象 ID
+ * @returns href
+ * @example
+ * buildRalliesPageHref(2, 5);
+ */
+function buildRalliesPageHref(page: number, editId?: number): string {
+  const params = new URLSearchParams();
+  params.set("page", String(page));
+  if (editId) params.set("edit", String(editId));
+  const query = params.toString();
+  return query ? `/studio/rallies?${query}` : "/studio/rallies";
+}
+
+/**
+ * API エラーメッセージを抽出する。
+ *
+ * @param response - fetch response
+ * @returns エラーメッセージ
+ * @example
+ * const message = await readErrorMessage(response);
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const payload = (await response.json()) as { error?: string };
+    if (typeof payload.error === "string" && payload.error.trim()) {
+      return payload.error;
+    }
+  } catch {
+    return `Request failed with status ${response.status}.`;
+  }
+  return `Request failed with status ${response.status}.`;
+}
+
+/**
+ * 開催期間を表示用に整形する。
+ *
+ * @param rally - 対象ラリー
+ * @returns 期間ラベル
+ * @example
+ * formatRallyPeriod(rally);
+ */
+function formatRallyPeriod(rally: Pick<Rally, "start_date" | "end_date">): string {
+  if (!rally.start_date && !rally.end_date) return "常設";
+  return `${rally.start_date ?? "未設定"} – ${rally.end_date ?? "未設定"}`;
+}
+
+/**
+ * Studio のスタンプラリー CRUD 管理 UI。
+ *
+ * @param props - 管理画面 props
+ * @returns ラリー管理 UI
+ * @example
+ * <StudioRalliesManager {...props} />
+ */
+export function StudioRalliesManager({ items, total, page, pageSize, hasNext, spots, editingRally }: Props) {
+  const router = useRouter();
+  const [formValues, setFormValues] = useState<RallyFormValues>(
+    editingRally ? createRallyFormValues(editingRally) : createEmptyRallyForm()
+  );
+  const [candidateSpotId, setCandidateSpotId] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isMutating, setIsMutating] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const isBusy = isMutating || isPending;
+
+  const spotNameById = useMemo(() => new Map(spots.map((spot) => [spot.id, spot.name])), [spots]);
+  const candidateSpots = spots.filter((spot) => !formValues.spot_ids.includes(spot.id));
+
+  useEffect(() => {
+    setFormValues(editingRally ? createRallyFormValues(editingRally) : createEmptyRallyForm());
+    setCandidateSpotId("");
+    setErrorMessage(null);
+  }, [editingRally]);
+
+  /**
+   * 単一フィールドを更新する。
+   *
+   * @param field - 対象フィールド
+   * @param value - 新しい値
+   * @returns void
+   * @example
+   * updateField("title", "平泉世界遺産ラリー");
+   */
+  function updateField<K extends keyof RallyFormValues>(field: K, value: RallyFormValues[K]): void {
+    setFormValues((current) => ({
+      ...current,
+      [field]: value,
+    }));
+  }
+
+  /**
+   * 選択中の候補スポットをラリーへ追加する。
+   *
+   * @returns void
+   * @example
+   * handleAddSpot();
+   */
+  function handleAddSpot(): void {
+    const spotId = Number(candidateSpotId);
+    if (!Number.isInteger(spotId) || spotId <= 0) return;
+    updateField("spot_ids", [...formValues.spot_ids, spotId]);
+    setCandidateSpotId("");
+  }
+
+  /**
+   * 対象スポットの並び順を入れ替える。
+   *
+   * @param index - 移動元インデックス
+   * @param offset - 移動量（-1 で上、1 で下）
+   * @returns void
+   * @example
+   * moveSpot(1, -1);
+   */
+  function moveSpot(index: number, offset: -1 | 1): void {
+    const target = index + offset;
+    if (target < 0 || target >= formValues.spot_ids.length) return;
+    const next = [...formValues.spot_ids];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateField("spot_ids", next);
+  }
+
+  /**
+   * フォーム送信を処理する。
+   *
+   * @param event - フォームイベント
+   * @returns void
+   * @example
+   * <form onSubmit={handleSubmit} />
+   */
+  function handleSubmit(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    setErrorMessage(null);
+
+    void (async () => {
+      setIsMutating(true);
+      const endpoint = editingRally ? `/api/studio/rallies/${editingRally.id}` : "/api/studio/rallies";
+      const method = editingRally ? "PATCH" : "POST";
+      try {
+        const response = await fetch(endpoint, {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(formValues),
+        });
+
+        if (!response.ok) {
+          setErrorMessage(await readErrorMessage(response));
+          return;
+        }
+
+        if (!editingRally) {
+          setFormValues(createEmptyRallyForm());
+        }
+
+        startTransition(() => {
+          router.push(buildRalliesPageHref(page));
+          router.refresh();
+        });
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : "ラリー保存に失敗しました。");
+      } finally {
+        setIsMutating(false);
+      }
+    })();
+  }
+
+  /**
+   * ラリー削除を実行する。
+   *
+   * @param rallyId - 削除対象 ID
+   * @returns void
+   * @example
+   * handleDelete(2);
+   */
+  function handleDelete(rallyId: number): void {
+    if (!window.confirm("このラリーを削除します。元に戻せません。")) {
+      return;
+    }
+
+    setErrorMessage(null);
+    void (async () => {
+      setIsMutating(true);
+      try {
+        const response = await fetch(`/api/studio/rallies/${rallyId}`, {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          setErrorMessage(await readErrorMessage(response));
+          return;
+        }
+
+        startTransition(() => {
+          router.push(buildRalliesPageHref(page));
+          router.refresh();
+        });
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : "ラリー削除に失敗しました。");
+      } finally {
+        setIsMutating(false);
+      }
+    })();
+  }
+
+  const from = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const to = Math.min(page * pageSize, total);
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-[minmax(0,0.9fr)_minmax(0,1.1fr)]">
+      <section className="rounded-[30px] border border-emerald-900/10 bg-white p-5 shadow-sm sm:p-6">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.24em] text-emerald-700">
+              {editingRally ? "Edit rally" : "New rally"}
+            </p>
+            <h2 className="mt-2 flex items-center gap-2 text-2xl font-semibold text-zinc-950">
+              {editingRally ? <PencilLine className="h-5 w-5 text-emerald-700" /> : <Plus className="h-5 w-5 text-emerald-700" />}
+              {editingRally ? `ラリー #${editingRally.id} を編集` : "ラリーを追加"}
+            </h2>
+          </div>
+          {editingRally ? (
+            <Link
+              href={buildRalliesPageHref(page)}
+              className="rounded-full px-3 py-2 text-sm font-medium text-zinc-600 ring-1 ring-zinc-200 transition hover:bg-zinc-50"
+            >
+              編集をやめる
+            </Link>
+          ) : null}
+        </div>
+
+        {errorMessage ? (
+          <p className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        <form className="mt-5 space-y-4" onSubmit={handleSubmit}>
+          <label className="block space-y-2 text-sm text-zinc-700">
+            <span className="font-medium">タイトル</span>
+            <input
+              value={formValues.title}
+              onChange={(event) => updateField("title", event.target.value)}
+              className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+              placeholder="平泉世界遺産ラリー"
+              disabled={isBusy}
+            />
+          </label>
+
+          <label className="block space-y-2 text-sm text-zinc-700">
+            <span className="font-medium">説明</span>
+            <textarea
+              value={formValues.description}
+              onChange={(event) => updateField("description", event.target.value)}
+              className="min-h-24 w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+              placeholder="巡り方や特典の案内"
+              disabled={isBusy}
+            />
+          </label>
+
+          <label className="block space-y-2 text-sm text-zinc-700">
+            <span className="font-medium">達成バッジ名</span>
+            <input
+              value={formValues.badge_label}
+              onChange={(event) => updateField("badge_label", event.target.value)}
+              className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+              placeholder="世界遺産マスター"
+              disabled={isBusy}
+            />
+          </label>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block space-y-2 text-sm text-zinc-700">
+              <span className="font-medium">開始日</span>
+              <input
+                type="date"
+                value={formValues.start_date}
+                onChange={(event) => updateField("start_date", event.target.value)}
+                className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+                disabled={isBusy}
+              />
+            </label>
+
+            <label className="block space-y-2 text-sm text-zinc-700">
+              <span className="font-medium">終了日</span>
+              <input
+                type="date"
+                value={formValues.end_date}
+                onChange={(event) => updateField("end_date", event.target.value)}
+                className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+                disabled={isBusy}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-3 text-sm text-zinc-700">
+            <input
+              type="checkbox"
+              checked={formValues.is_ordered}
+              onChange={(event) => updateField("is_ordered", event.target.checked)}
+              className="h-4 w-4 rounded border-zinc-300 accent-emerald-600"
+              disabled={isBusy}
+            />
+            <span className="font-medium">並び順どおりに巡るラリーにする</span>
+          </label>
+
+          <div className="space-y-2 text-sm text-zinc-700">
+            <span className="font-medium">対象スポット</span>
+            <div className="flex gap-2">
+              <select
+                value={candidateSpotId}
+                onChange={(event) => setCandidateSpotId(event.target.value)}
+                className="min-w-0 flex-1 rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
+                aria-label="追加するスポット"
+                disabled={isBusy}
+              >
+                <option value="">スポットを選択</option>
+                {candidateSpots.map((spot) => (
+                  <option key={spot.id} value={spot.id}>
+                    {spot.name}
+                  </option>
+                ))}
+              </select>
+              <Button type="button" variant="outline" disabled={isBusy || !candidateSpotId} onClick={handleAddSpot}>
+                追加
+              </Button>
+            </div>
+            {formValues.spot_ids.length > 0 ? (
+              <ol className="space-y-2">
+                {formValues.spot_ids.map((spotId, index) => (
+                  <li
+                    key={spotId}
+                    className="flex items-center gap-2 rounded-2xl border border-zinc-200 bg-zinc-50/70 px-3 py-2"
+                  >
+                    <span className="w-6 text-center text-xs font-semibold text-emerald-700">
+                      {formValues.is_ordered ? index + 1 : "・"}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate text-zinc-900">
+                      {spotNameById.get(spotId) ?? `スポット #${spotId}`}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => moveSpot(index, -1)}
+                      className="rounded-full p-1.5 text-zinc-500 transition hover:bg-white disabled:opacity-30"
+                      aria-label="上へ移動"
+                      disabled={isBusy || index === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveSpot(index, 1)}
+                      className="rounded-full p-1.5 text-zinc-500 transition hover:bg-white disabled:opacity-30"
+                      aria-label="下へ移動"
+                      disabled={isBusy || index === formValues.spot_ids.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateField(
+                          "spot_ids",
+                          formValues.spot_ids.filter((id) => id !== spotId)
+                        )
+                      }
+                      className="rounded-full p-1.5 text-rose-600 transition hover:bg-rose-50"
+                      aria-label="スポットを外す"
+                      disabled={isBusy}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="rounded-2xl border border-dashed border-zinc-300 px-4 py-3 text-xs text-zinc-500">
+                スポットが選択されていません。
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <Button type="submit" className="min-w-40 justify-center" disabled={isBusy}>
+              {editingRally ? "更新する" : "作成する"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="min-w-32 justify-center"
+              disabled={isBusy}
+              onClick={() =>
+                setFormValues(editingRally ? createRallyFormValues(editingRally) : createEmptyRallyForm())
+              }
+            >
+              リセット
+            </Button>
+          </div>
+        </form>
+      </section>
+
+      <section className="rounded-[30px] border border-emerald-900/10 bg-white p-5 shadow-sm sm:p-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.24em] text-emerald-700">Rally records</p>
+            <h2 className="mt-2 flex items-center gap-2 text-2xl font-semibold text-zinc-950">
+              <Award className="h-5 w-5 text-emerald-700" />
+              登録ラリー一覧
+            </h2>
+          </div>
+          <p className="text-sm text-zinc-600">
+            {from} - {to} / {total}
+          </p>
+        </div>
+
+        <div className="mt-5 space-y-4">
+          {items.length > 0 ? (
+            items.map((rally) => {
+              const isActive = editingRally?.id === rally.id;
+              return (
+                <article
+                  key={rally.id}
+                  className={`rounded-[24px] border p-4 transition ${
+                    isActive
+                      ? "border-emerald-400 bg-emerald-50/70"
+                      : "border-zinc-200 bg-zinc-50/70 hover:border-emerald-200"
+                  }`}
+                >
+                  <div className="flex flex-col gap-3 lg:flex-row lg:items-start lg:justify-between">
+                    <div className="space-y-3">
+                      <div>
+                        <p className="text-lg font-semibold text-zinc-950">{rally.title}</p>
+                        <p className="mt-1 text-sm text-zinc-600">
+                          {formatRallyPeriod(rally)} / {rally.is_ordered ? "順番あり" : "順不同"} /{" "}
+                          {rally.spot_ids.length} スポット
+                        </p>
+                      </div>
+                      <p className="text-sm text-zinc-600">
+                        {rally.spot_ids.map((spotId) => spotNameById.get(spotId) ?? `#${spotId}`).join(" → ")}
+                      </p>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <Link
+                        href={buildRalliesPageHref(page, rally.id)}
+                        className="inline-flex items-center gap-2 rounded-full px-3 py-2 text-sm font-medium text-emerald-900 ring-1 ring-emerald-900/10 transition hover:bg-emerald-50"
+                      >
+                        <PencilLine className="h-4 w-4" />
+                        編集
+                      </Link>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(rally.id)}
+                        className="inline-flex items-center gap-2 rounded-full px-3 py-2 text-sm font-medium text-rose-700 ring-1 ring-rose-200 transition hover:bg-rose-50 disabled:opacity-50"
+                        disabled={isBusy}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        削除
+                      </button>
+                    </div>
+                  </div>
+                </article>
+              );
+            })
+          ) : (
+            <div className="rounded-[24px] border border-dashed border-zinc-300 bg-zinc-50 px-5 py-8 text-center text-sm text-zinc-500">
+              表示できるラリーがありません。
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center justify-between gap-3 border-t border-zinc-100 pt-5">
+          <div className="flex gap-2">
+            {page > 1 ? (
+              <Link
+                href={buildRalliesPageHref(page - 1)}
+                className="inline-flex rounded-full px-4 py-2 text-sm font-medium text-zinc-700 ring-1 ring-zinc-200 transition hover:bg-zinc-50"
+              >
+                前へ
+              </Link>
+            ) : (
+              <span className="inline-flex rounded-full px-4 py-2 text-sm font-medium text-zinc-400 ring-1 ring-zinc-100">
+                前へ
+              </span>
+            )}
+            {hasNext ? (
+              <Link
+                href={buildRalliesPageHref(page + 1)}
+                className="inline-flex rounded-full px-4 py-2 text-sm font-medium text-zinc-700 ring-1 ring-zinc-200 transition hover:bg-zinc-50"
+              >
+                次へ
+              </Link>
+            ) : (
+              <span className="inline-flex rounded-full px-4 py-2 text-sm font-medium text-zinc-400 ring-1 ring-zinc-100">
+                次へ
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-zinc-500">固定 {pageSize} 件 / ページ</p>
+        </div>
+      </section>
+    </div>
+  );
+}
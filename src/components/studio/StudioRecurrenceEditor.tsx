@@ -0,0 +1,399 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Repeat, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import {
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  listRecurrenceStarts,
+  parseRecurrenceRule,
+  RECURRENCE_MAX_COUNT,
+  RECURRENCE_WEEKDAY_LABELS,
+  RECURRENCE_WEEKDAYS,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/eventRecurrence";
+
+type RecurrenceValue = {
+  /** RRULE 文字列（繰り返さない場合は空文字） */
+  rule: string;
+  /** 除外する回の開始日（`YYYY-MM-DD`） */
+  exdates: string[];
+};
+
+type Props = RecurrenceValue & {
+  /** 初回の開始日（曜日・日付の既定値とプレビューに使う） */
+  startDate: string;
+  onChange: (next: RecurrenceValue) => void;
+  disabled?: boolean;
+};
+
+type EndMode = "never" | "count" | "until";
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "毎日",
+  WEEKLY: "毎週",
+  MONTHLY: "毎月",
+  YEARLY: "毎年",
+};
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: "日",
+  WEEKLY: "週",
+  MONTHLY: "か月",
+  YEARLY: "年",
+};
+
+/** プレビューに出す回の数 */
+const PREVIEW_LIMIT = 5;
+
+const FIELD_CLASS_NAME =
+  "w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500";
+
+/**
+ * RRULE 文字列を解析する（空・不正なら null）。
+ *
+ * @param value - RRULE 文字列
+ * @returns 解析済みルールまたは null
+ * @example
+ * readRule("FREQ=WEEKLY;BYDAY=SA");
+ */
+function readRule(value: string): RecurrenceRule | null {
+  if (!value.trim()) return null;
+  try {
+    return parseRecurrenceRule(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 開始日から「第 n 曜日」を求める（第 5 週は「最終」として -1 にする）。
+ *
+ * @param startDate - 開始日（`YYYY-MM-DD`）
+ * @returns BYDAY の 1 項目。日付が読めなければ null
+ * @example
+ * resolveNthWeekday("2026-05-10"); // => { weekday: "SU", nth: 2 }
+ */
+function resolveNthWeekday(startDate: string): RecurrenceRule["byDay"][number] | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(startDate);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  const nth = Math.ceil(date.getUTCDate() / 7);
+  return { weekday: RECURRENCE_WEEKDAYS[date.getUTCDay()], nth: nth > 4 ? -1 : nth };
+}
+
+/**
+ * 繰り返しの単位を変えたときの新しいルールを作る（単位ごとの指定はリセットする）。
+ *
+ * @param freq - 繰り返しの単位
+ * @param current - 現在のルール
+ * @returns 新しいルール
+ * @example
+ * createRule("WEEKLY", null);
+ */
+function createRule(freq: RecurrenceFrequency, current: RecurrenceRule | null): RecurrenceRule {
+  return {
+    freq,
+    interval: current?.interval ?? 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: current?.count ?? null,
+    until: current?.until ?? null,
+  };
+}
+
+/**
+ * Studio のイベント繰り返し設定。単位・間隔・曜日・終了条件・除外日を編集し、RRULE 文字列で返す。
+ *
+ * @param props - 現在の RRULE と除外日・初回の開始日・変更時のコールバック
+ * @returns StudioRecurrenceEditor
+ * @example
+ * <StudioRecurrenceEditor rule="FREQ=YEARLY" exdates={[]} startDate="2026-08-01" onChange={setRecurrence} />
+ */
+export function StudioRecurrenceEditor({ rule, exdates, startDate, onChange, disabled = false }: Props) {
+  const [exdateDraft, setExdateDraft] = useState("");
+  const parsed = useMemo(() => readRule(rule), [rule]);
+  const nthWeekday = useMemo(() => resolveNthWeekday(startDate), [startDate]);
+  const endMode: EndMode = parsed?.count !== null && parsed?.count !== undefined ? "count" : parsed?.until ? "until" : "never";
+  const monthlyMode = parsed?.freq === "MONTHLY" && parsed.byDay.some((day) => day.nth !== null) ? "weekday" : "date";
+
+  const preview = useMemo(() => {
+    if (!parsed || !startDate) return [];
+    const excluded = new Set(exdates);
+    return listRecurrenceStarts(startDate, parsed, "9999-12-31")
+      .filter((day) => !excluded.has(day))
+      .slice(0, PREVIEW_LIMIT);
+  }, [exdates, parsed, startDate]);
+
+  /**
+   * ルールを更新して親へ渡す。
+   *
+   * @param next - 新しいルール（null なら繰り返さない）
+   * @returns void
+   * @example
+   * emitRule({ ...parsed, interval: 2 });
+   */
+  function emitRule(next: RecurrenceRule | null): void {
+    onChange({ rule: next ? formatRecurrenceRule(next) : "", exdates: next ? exdates : [] });
+  }
+
+  /**
+   * 週の曜日指定を切り替える（すべて外すと開始日の曜日になる）。
+   *
+   * @param weekday - 対象の曜日
+   * @returns void
+   * @example
+   * toggleWeekday("SA");
+   */
+  function toggleWeekday(weekday: RecurrenceRule["byDay"][number]["weekday"]): void {
+    if (!parsed) return;
+    const selected = parsed.byDay.some((day) => day.weekday === weekday);
+    const byDay = selected
+      ? parsed.byDay.filter((day) => day.weekday !== weekday)
+      : RECURRENCE_WEEKDAYS.filter(
+          (item) => item === weekday || parsed.byDay.some((day) => day.weekday === item)
+        ).map((item) => ({ weekday: item, nth: null }));
+    emitRule({ ...parsed, byDay });
+  }
+
+  /**
+   * 終了条件を切り替える。
+   *
+   * @param mode - 終了条件
+   * @returns void
+   * @example
+   * changeEndMode("count");
+   */
+  function changeEndMode(mode: EndMode): void {
+    if (!parsed) return;
+    emitRule({
+      ...parsed,
+      count: mode === "count" ? (parsed.count ?? 10) : null,
+      until: mode === "until" ? (parsed.until ?? (startDate || null)) : null,
+    });
+  }
+
+  /**
+   * 入力中の日付を除外日に加える。
+   *
+   * @returns void
+   * @example
+   * addExdate();
+   */
+  function addExdate(): void {
+    if (!exdateDraft || exdates.includes(exdateDraft)) return;
+    onChange({ rule, exdates: [...exdates, exdateDraft].sort() });
+    setExdateDraft("");
+  }
+
+  return (
+    <fieldset className="space-y-3 rounded-[24px] border border-zinc-200 bg-zinc-50/70 p-4 text-sm text-zinc-700">
+      <legend className="flex items-center gap-2 px-1 font-medium">
+        <Repeat className="h-4 w-4 text-emerald-700" />
+        繰り返し
+      </legend>
+
+      {rule.trim() && !parsed ? (
+        <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          保存済みのルール「{rule}」はこの画面で編集できません。単位を選び直すと置き換わります。
+        </p>
+      ) : null}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="block space-y-2">
+          <span className="font-medium">繰り返しの単位</span>
+          <select
+            value={parsed?.freq ?? ""}
+            onChange={(event) =>
+              emitRule(event.target.value ? createRule(event.target.value as RecurrenceFrequency, parsed) : null)
+            }
+            className={FIELD_CLASS_NAME}
+            disabled={disabled}
+          >
+            <option value="">繰り返さない</option>
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((freq) => (
+              <option key={freq} value={freq}>
+                {FREQUENCY_LABELS[freq]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {parsed ? (
+          <label className="block space-y-2">
+            <span className="font-medium">間隔（{INTERVAL_UNITS[parsed.freq]}ごと）</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={parsed.interval}
+              onChange={(event) => {
+                const interval = Number(event.target.value);
+                if (Number.isInteger(interval) && interval >= 1 && interval <= 99) emitRule({ ...parsed, interval });
+              }}
+              className={FIELD_CLASS_NAME}
+              disabled={disabled}
+            />
+          </label>
+        ) : null}
+      </div>
+
+      {parsed?.freq === "WEEKLY" ? (
+        <div className="space-y-2">
+          <span className="font-medium">曜日</span>
+          <div className="flex flex-wrap gap-2">
+            {RECURRENCE_WEEKDAYS.map((weekday) => (
+              <label
+                key={weekday}
+                className="inline-flex items-center gap-1 rounded-full px-3 py-1 ring-1 ring-zinc-200 has-[:checked]:bg-emerald-50 has-[:checked]:ring-emerald-400"
+              >
+                <input
+                  type="checkbox"
+                  checked={parsed.byDay.some((day) => day.weekday === weekday)}
+                  onChange={() => toggleWeekday(weekday)}
+                  disabled={disabled}
+                />
+                {RECURRENCE_WEEKDAY_LABELS[weekday]}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500">選ばなければ開始日と同じ曜日に繰り返します。</p>
+        </div>
+      ) : null}
+
+      {parsed?.freq === "MONTHLY" ? (
+        <label className="block space-y-2">
+          <span className="font-medium">毎月の日付</span>
+          <select
+            value={monthlyMode}
+            onChange={(event) =>
+              emitRule({
+                ...parsed,
+                byDay: event.target.value === "weekday" && nthWeekday ? [nthWeekday] : [],
+                byMonthDay: [],
+              })
+            }
+            className={FIELD_CLASS_NAME}
+            disabled={disabled}
+          >
+            <option value="date">開始日と同じ日</option>
+            <option value="weekday" disabled={!nthWeekday}>
+              {nthWeekday
+                ? `${nthWeekday.nth === -1 ? "最終" : `第${nthWeekday.nth}`}${RECURRENCE_WEEKDAY_LABELS[nthWeekday.weekday]}曜日`
+                : "開始日と同じ週・曜日"}
+            </option>
+          </select>
+        </label>
+      ) : null}
+
+      {parsed ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="block space-y-2">
+            <span className="font-medium">終了</span>
+            <select
+              value={endMode}
+              onChange={(event) => changeEndMode(event.target.value as EndMode)}
+              className={FIELD_CLASS_NAME}
+              disabled={disabled}
+            >
+              <option value="never">終了しない</option>
+              <option value="count">回数を指定</option>
+              <option value="until">日付を指定</option>
+            </select>
+          </label>
+          {endMode === "count" ? (
+            <label className="block space-y-2">
+              <span className="font-medium">回数</span>
+              <input
+                type="number"
+                min={1}
+                max={RECURRENCE_MAX_COUNT}
+                value={parsed.count ?? ""}
+                onChange={(event) => {
+                  const count = Number(event.target.value);
+                  if (Number.isInteger(count) && count >= 1 && count <= RECURRENCE_MAX_COUNT) {
+                    emitRule({ ...parsed, count });
+                  }
+                }}
+                className={FIELD_CLASS_NAME}
+                disabled={disabled}
+              />
+            </label>
+          ) : null}
+          {endMode === "until" ? (
+            <label className="block space-y-2">
+              <span className="font-medium">最終日</span>
+              <input
+                type="date"
+                value={parsed.until ?? ""}
+                onChange={(event) => event.target.value && emitRule({ ...parsed, until: event.target.value })}
+                className={FIELD_CLASS_NAME}
+                disabled={disabled}
+              />
+            </label>
+          ) : null}
+        </div>
+      ) : null}
+
+      {parsed ? (
+        <div className="space-y-2">
+          <span className="font-medium">除外日</span>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              aria-label="除外日"
+              value={exdateDraft}
+              onChange={(event) => setExdateDraft(event.target.value)}
+              className={FIELD_CLASS_NAME}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="shrink-0"
+              disabled={disabled || !exdateDraft}
+              onClick={addExdate}
+            >
+              除外日を追加
+            </Button>
+          </div>
+          {exdates.length > 0 ? (
+            <ul className="flex flex-wrap gap-2">
+              {exdates.map((day) => (
+                <li
+                  key={day}
+                  className="inline-flex items-center gap-1 rounded-full bg-white px-3 py-1 text-xs ring-1 ring-zinc-200"
+                >
+                  {day}
+                  <button
+                    type="button"
+                    aria-label={`${day} を除外日から外す`}
+                    onClick={() => onChange({ rule, exdates: exdates.filter((item) => item !== day) })}
+                    disabled={disabled}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+
+      {parsed ? (
+        <div className="rounded-2xl bg-white px-4 py-3 text-xs text-zinc-600 ring-1 ring-zinc-200">
+          <p className="font-medium text-zinc-800">{describeRecurrenceRule(parsed, startDate || null)}</p>
+          {preview.length > 0 ? (
+            <p className="mt-1">開催日: {preview.join(" / ")}</p>
+          ) : (
+            <p className="mt-1">開始日を入力すると開催日を確認できます。</p>
+          )}
+        </div>
+      ) : null}
+    </fieldset>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { ChangeEvent, useState, useTransition } from "react";
+import { FileUp, Upload } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import type { SpotImportFormat, SpotImportPlan, SpotImportRow } from "@/lib/spotImport";
+
+type ImportFile = {
+  name: string;
+  format: SpotImportFormat;
+  content: string;
+};
+
+type ImportResponse = {
+  plan?: SpotImportPlan;
+  created?: { id: number }[];
+  failed?: { row: number; error: string }[];
+  error?: string;
+};
+
+const statusLabels: Record<SpotImportRow["status"], string> = {
+  create: "作成",
+  duplicate: "重複",
+  invalid: "不正",
+};
+
+const statusClasses: Record<SpotImportRow["status"], string> = {
+  create: "bg-emerald-50 text-emerald-800",
+  duplicate: "bg-zinc-100 text-zinc-600",
+  invalid: "bg-rose-50 text-rose-700",
+};
+
+/**
+ * ファイル名の拡張子から取り込み形式を決める。
+ *
+ * @param fileName - ファイル名
+ * @returns 取り込み形式（未対応なら null）
+ * @example
+ * detectFormat("spots.csv"); // => "csv"
+ */
+function detectFormat(fileName: string): SpotImportFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".csv")) return "csv";
+  if (lower.endsWith(".geojson") || lower.endsWith(".json")) return "geojson";
+  return null;
+}
+
+/**
+ * 取り込み計画の行の補足（重複先・エラー）を表示用の文にする。
+ *
+ * @param row - 取り込み計画の行
+ * @returns 補足文
+ * @example
+ * describeRow(row);
+ */
+function describeRow(row: SpotImportRow): string {
+  if (row.status === "invalid") return row.error;
+  if (row.status === "duplicate") {
+    return row.duplicateOf.id ? `既存 #${row.duplicateOf.id} ${row.duplicateOf.name}` : "ファイル内の先の行と重複";
+  }
+  return `${row.input.lat.toFixed(4)}, ${row.input.lng.toFixed(4)}`;
+}
+
+/**
+ * GeoJSON / CSV からスポットを一括作成する Studio UI。
+ *
+ * まず dry-run で作成・重複・不正の差分を表示し、確認後に「作成」の行だけを登録する。
+ * CSV は `name,description,lat,lng,city,genre` 列（`city_id` / `genre_id` や画像パスの列も可）を受け付ける。
+ *
+ * @returns StudioSpotImport
+ * @example
+ * <StudioSpotImport />
+ */
+export function StudioSpotImport() {
+  const router = useRouter();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [plan, setPlan] = useState<SpotImportPlan | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const isBusy = isSubmitting || isPending;
+
+  /**
+   * 選んだファイルを読み込み、以前の差分を破棄する。
+   *
+   * @param event - ファイル選択イベント
+   * @returns void
+   * @example
+   * <input type="file" onChange={handleFileChange} />
+   */
+  function handleFileChange(event: ChangeEvent<HTMLInputElement>): void {
+    const selected = event.target.files?.[0];
+    setPlan(null);
+    setMessage(null);
+    setErrorMessage(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    const format = detectFormat(selected.name);
+    if (!format) {
+      setFile(null);
+      setErrorMessage("GeoJSON（.geojson / .json）か CSV（.csv）を選んでください。");
+      return;
+    }
+    void selected.text().then((content) => setFile({ name: selected.name, format, content }));
+  }
+
+  /**
+   * 取り込み API を呼ぶ。
+   *
+   * @param dryRun - true なら差分の確認のみ
+   * @returns void
+   * @example
+   * submit(true);
+   */
+  function submit(dryRun: boolean): void {
+    if (!file) return;
+    setErrorMessage(null);
+    setMessage(null);
+
+    void (async () => {
+      setIsSubmitting(true);
+      try {
+        const response = await fetch("/api/studio/spots/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ format: file.format, content: file.content, dry_run: dryRun }),
+        });
+        const payload = (await response.json().catch(() => ({}))) as ImportResponse;
+        if (!response.ok || !payload.plan) {
+          setErrorMessage(payload.error ?? `Request failed with status ${response.status}.`);
+          return;
+        }
+        setPlan(payload.plan);
+        if (dryRun) return;
+
+        const failed = payload.failed ?? [];
+        setMessage(
+          `${payload.created?.length ?? 0} 件を作成しました。` +
+            (failed.length > 0 ? ` ${failed.map((item) => `${item.row} 行目: ${item.error}`).join(" / ")}` : "")
+        );
+        setFile(null);
+        setPlan(null);
+        startTransition(() => router.refresh());
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : "スポットの取り込みに失敗しました。");
+      } finally {
+        setIsSubmitting(false);
+      }
+    })();
+  }
+
+  return (
+    <section className="rounded-[30px] border border-emerald-900/10 bg-white p-5 shadow-sm sm:p-6">
+      <p className="text-xs font-semibold uppercase tracking-[0.24em] text-emerald-700">Bulk import</p>
+      <h2 className="mt-2 flex items-center gap-2 text-2xl font-semibold text-zinc-950">
+        <FileUp className="h-5 w-5 text-emerald-700" />
+        GeoJSON / CSV から一括作成
+      </h2>
+      <p className="mt-3 text-sm leading-6 text-zinc-600">
+        CSV は <code>name,description,lat,lng,city,genre</code> の列を想定しています。各行は通常のスポット作成と同じ検証を通し、岩手県外の座標は取り込めません。
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <input
+          type="file"
+          accept=".geojson,.json,.csv,application/geo+json,application/json,text/csv"
+          onChange={handleFileChange}
+          aria-label="取り込むファイル"
+          className="text-sm text-zinc-700"
+          disabled={isBusy}
+        />
+        <Button type="button" variant="outline" onClick={() => submit(true)} disabled={isBusy || !file}>
+          差分を確認
+        </Button>
+        <Button
+          type="button"
+          className="gap-1"
+          onClick={() => submit(false)}
+          disabled={isBusy || !plan || plan.summary.create === 0}
+        >
+          <Upload className="h-4 w-4" />
+          {plan ? `${plan.summary.create} 件を作成` : "作成"}
+        </Button>
+      </div>
+
+      {errorMessage ? (
+        <p className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{errorMessage}</p>
+      ) : null}
+      {message ? (
+        <p className="mt-4 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">{message}</p>
+      ) : null}
+
+      {plan ? (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-zinc-700">
+            作成 {plan.summary.create} 件 / 重複 {plan.summary.duplicate} 件 / 不正 {plan.summary.invalid} 件
+          </p>
+          <div className="max-h-96 overflow-auto rounded-2xl border border-zinc-200">
+            <table className="min-w-full text-left text-sm">
+              <thead className="bg-zinc-50 text-xs text-zinc-500">
+                <tr>
+                  <th className="px-3 py-2">行</th>
+                  <th className="px-3 py-2">判定</th>
+                  <th className="px-3 py-2">名称</th>
+                  <th className="px-3 py-2">詳細</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.rows.map((row) => (
+                  <tr key={row.row} className="border-t border-zinc-100">
+                    <td className="px-3 py-2 text-zinc-500">{row.row}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs ${statusClasses[row.status]}`}>
+                        {statusLabels[row.status]}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-zinc-950">{row.name || "（名称なし）"}</td>
+                    <td className="px-3 py-2 text-xs text-zinc-600">{describeRow(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -13,6 +13,14 @@ vi.mock("next/navigation", () => ({
   }),
 }));
 
+vi.mock("@/components/map/LocationPicker", () => ({
+  LocationPicker: ({ onChange }: { onChange: (point: { lat: number; lng: number }) => void }) => (
+    <button type="button" onClick={() => onChange({ lat: 38.9865, lng: 141.1176 })}>
+      pick on map
+    </button>
+  ),
+}));
+
 describe("StudioSpotsManager", () => {
   beforeEach(() => {
     mockPush.mockReset();
@@ -165,4 +173,31 @@ describe("StudioSpotsManager", () => {
       expect(mockRefresh).toHaveBeenCalled();
     });
   });
+
+  it("sets coordinates from the map picker and warns when far from the selected city", async () => {
+    render(
+      <StudioSpotsManager
+        items={[]}
+        total={0}
+        page={1}
+        pageSize={20}
+        hasNext={false}
+        cities={[{ id: 1, name: "盛岡市" }]}
+        genres={[{ id: 1, name: "歴史" }]}
+        editingSpot={null}
+      />
+    );
+
+    const user = userEvent.setup();
+    await user.selectOptions(screen.getByLabelText("市区町村"), "1");
+    await user.click(screen.getByRole("button", { name: "pick on map" }));
+
+    expect(screen.getByLabelText("緯度")).toHaveValue("38.9865");
+    expect(screen.getByLabelText("経度")).toHaveValue("141.1176");
+    expect(screen.getByText(/盛岡市の中心から 79.6km 離れています/)).toBeInTheDocument();
+
+    await user.clear(screen.getByLabelText("緯度"));
+    await user.type(screen.getByLabelText("緯度"), "35.68");
+    expect(screen.getByText("岩手県の範囲外です。保存できません。")).toBeInTheDocument();
+  });
 });
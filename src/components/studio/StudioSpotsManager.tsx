@@ -4,6 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { FormEvent, useEffect, useState, useTransition } from "react";
 import { MapPinned, PencilLine, Plus, Trash2 } from "lucide-react";
+import { StudioCoordinateField } from "@/components/studio/StudioCoordinateField";
 import { Button } from "@/components/ui/Button";
 import type { AdminSpotListItem, City, Genre, Spot } from "@/lib/types";
 
@@ -360,30 +361,14 @@ export function StudioSpotsManager({
             </label>
           </div>
 
-          <div className="grid gap-4 sm:grid-cols-2">
-            <label className="block space-y-2 text-sm text-zinc-700">
-              <span className="font-medium">緯度</span>
-              <input
-                value={formValues.lat}
-                onChange={(event) => updateField("lat", event.target.value)}
-                className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
-                inputMode="decimal"
-                placeholder="39.7021"
-                disabled={isBusy}
-              />
-            </label>
-
-            <label className="block space-y-2 text-sm text-zinc-700">
-              <span className="font-medium">経度</span>
-              <input
-                value={formValues.lng}
-                onChange={(event) => updateField("lng", event.target.value)}
-                className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm text-zinc-950 outline-none transition focus:border-emerald-500"
-                inputMode="decimal"
-                placeholder="141.1527"
-                disabled={isBusy}
-              />
-            </label>
+          <div className="space-y-2 text-sm text-zinc-700">
+            <span className="font-medium">位置</span>
+            <StudioCoordinateField
+              value={{ lat: formValues.lat, lng: formValues.lng }}
+              onChange={(next) => setFormValues((current) => ({ ...current, ...next }))}
+              cityName={cities.find((city) => String(city.id) === formValues.city_id)?.name ?? null}
+              disabled={isBusy}
+            />
           </div>
 
           <div className="grid gap-4 sm:grid-cols-2">
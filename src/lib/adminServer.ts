@@ -1,15 +1,18 @@
 import type { PostgrestError } from "@supabase/supabase-js";
 import { getServerAdminClient } from "@/lib/authServer";
-import { mockCities, mockEvents, mockGenres, mockSpots } from "@/lib/mockData";
+import { mockCities, mockEvents, mockGenres, mockRallies, mockSpots } from "@/lib/mockData";
 import type {
   AdminEventCreateInput,
   AdminEventListItem,
   AdminEventUpdateInput,
   AdminListPage,
+  AdminRallyCreateInput,
+  AdminRallyUpdateInput,
   AdminSpotCreateInput,
   AdminSpotListItem,
   AdminSpotUpdateInput,
   Event,
+  Rally,
   Spot,
 } from "@/lib/types";
 
@@ -225,6 +228,8 @@ function mapEventListItem(row: Record<string, unknown>): AdminEventListItem {
       row.city_id === null || row.city_id === undefined || row.city_id === ""
         ? null
         : Number(row.city_id),
+    lat: row.lat === null || row.lat === undefined ? null : Number(row.lat),
+    lng: row.lng === null || row.lng === undefined ? null : Number(row.lng),
     city: normalizeSingleRelation(row.city as { id: number; name: string } | { id: number; name: string }[] | null),
   };
 }
@@ -290,6 +295,11 @@ function toEventInsertPayload(input: AdminEventCreateInput) {
     start_date: input.start_date ?? null,
     end_date: input.end_date ?? null,
     city_id: input.city_id ?? null,
+    lat: input.lat ?? null,
+    lng: input.lng ?? null,
+    spot_ids: input.spot_ids ?? [],
+    recurrence_rule: input.recurrence_rule ?? null,
+    recurrence_exdates: input.recurrence_exdates ?? [],
   };
 }
 
@@ -308,6 +318,51 @@ function toEventUpdatePayload(input: AdminEventUpdateInput) {
   if (input.start_date !== undefined) payload.start_date = input.start_date ?? null;
   if (input.end_date !== undefined) payload.end_date = input.end_date ?? null;
   if (input.city_id !== undefined) payload.city_id = input.city_id ?? null;
+  if (input.lat !== undefined) payload.lat = input.lat ?? null;
+  if (input.lng !== undefined) payload.lng = input.lng ?? null;
+  if (input.spot_ids !== undefined) payload.spot_ids = input.spot_ids ?? [];
+  if (input.recurrence_rule !== undefined) payload.recurrence_rule = input.recurrence_rule ?? null;
+  if (input.recurrence_exdates !== undefined) payload.recurrence_exdates = input.recurrence_exdates ?? [];
+  return payload;
+}
+
+/**
+ * ラリー作成 payload を整形する。
+ *
+ * @param input - 入力値
+ * @returns Supabase 書き込み payload
+ * @example
+ * toRallyInsertPayload(input);
+ */
+function toRallyInsertPayload(input: AdminRallyCreateInput) {
+  return {
+    title: input.title,
+    description: input.description ?? null,
+    spot_ids: input.spot_ids,
+    is_ordered: input.is_ordered,
+    start_date: input.start_date ?? null,
+    end_date: input.end_date ?? null,
+    badge_label: input.badge_label ?? null,
+  };
+}
+
+/**
+ * ラリー更新 payload を整形する。
+ *
+ * @param input - 入力値
+ * @returns Supabase 書き込み payload
+ * @example
+ * toRallyUpdatePayload({ title: "平泉世界遺産ラリー" });
+ */
+function toRallyUpdatePayload(input: AdminRallyUpdateInput) {
+  const payload: Record<string, unknown> = {};
+  if (input.title !== undefined) payload.title = input.title;
+  if (input.description !== undefined) payload.description = input.description ?? null;
+  if (input.spot_ids !== undefined) payload.spot_ids = input.spot_ids;
+  if (input.is_ordered !== undefined) payload.is_ordered = input.is_ordered;
+  if (input.start_date !== undefined) payload.start_date = input.start_date ?? null;
+  if (input.end_date !== undefined) payload.end_date = input.end_date ?? null;
+  if (input.badge_label !== undefined) payload.badge_label = input.badge_label ?? null;
   return payload;
 }
 
@@ -482,7 +537,7 @@ export async function fetchAdminEventsPage(
 
   const { data, error, count } = await client
     .from("events")
-    .select("id,title,location,start_date,end_date,city_id,city:cities(id,name)", { count: "exact" })
+    .select("id,title,location,start_date,end_date,city_id,lat,lng,city:cities(id,name)", { count: "exact" })
     .order("id", { ascending: false })
     .range(from, to);
 
@@ -597,3 +652,144 @@ export async function deleteEvent(id: number): Promise<void> {
     throw new AdminServerNotFoundError("削除対象のイベントが見つかりません。");
   }
 }
+
+/**
+ * 管理用ラリー一覧をページ単位で取得する。
+ *
+ * @param page - ページ番号
+ * @param pageSize - ページサイズ
+ * @returns ラリー一覧
+ * @example
+ * await fetchAdminRalliesPage(1, 20);
+ */
+export async function fetchAdminRalliesPage(
+  page: number,
+  pageSize = DEFAULT_PAGE_SIZE
+): Promise<AdminListPage<Rally>> {
+  const safePage = normalizePage(page);
+  const safePageSize = normalizePageSize(pageSize);
+  const from = (safePage - 1) * safePageSize;
+  const to = from + safePageSize - 1;
+  const client = getServerAdminClient();
+
+  if (!client) {
+    const local = [...mockRallies].sort((left, right) => right.id - left.id);
+    return buildPagedResult(local.slice(from, to + 1), local.length, safePage, safePageSize);
+  }
+
+  const { data, error, count } = await client
+    .from("rallies")
+    .select("*", { count: "exact" })
+    .order("id", { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return buildPagedResult((data ?? []) as Rally[], count ?? 0, safePage, safePageSize);
+}
+
+/**
+ * 管理用の単一ラリーを取得する。
+ *
+ * @param id - ラリー ID
+ * @returns ラリー
+ * @example
+ * await fetchAdminRallyById(2);
+ */
+export async function fetchAdminRallyById(id: number): Promise<Rally | null> {
+  const client = getServerAdminClient();
+  if (!client) {
+    return mockRallies.find((rally) => rally.id === id) ?? null;
+  }
+
+  const { data, error } = await client.from("rallies").select("*").eq("id", id).maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as Rally | null) ?? null;
+}
+
+/**
+ * ラリーを作成する。
+ *
+ * @param input - 作成入力値
+ * @returns 作成後ラリー
+ * @example
+ * await createRally(input);
+ */
+export async function createRally(input: AdminRallyCreateInput): Promise<Rally> {
+  const client = getRequiredAdminClient();
+  const { data, error } = await client
+    .from("rallies")
+    .insert(toRallyInsertPayload(input))
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? "ラリーの作成に失敗しました。");
+  }
+  return data as Rally;
+}
+
+/**
+ * ラリーを更新する。
+ *
+ * @param id - ラリー ID
+ * @param input - 更新入力値
+ * @returns 更新後ラリー
+ * @throws AdminServerNotFoundError 対象なし
+ * @example
+ * await updateRally(2, { title: "新ラリー" });
+ */
+export async function updateRally(id: number, input: AdminRallyUpdateInput): Promise<Rally> {
+  const client = getRequiredAdminClient();
+  const payload = toRallyUpdatePayload(input);
+  const { data, error } = await client
+    .from("rallies")
+    .update(payload)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    if (isNotFoundError(error)) {
+      throw new AdminServerNotFoundError("更新対象のラリーが見つかりません。");
+    }
+    throw new Error(error.message);
+  }
+  if (!data) {
+    throw new AdminServerNotFoundError("更新対象のラリーが見つかりません。");
+  }
+  return data as Rally;
+}
+
+/**
+ * ラリーを削除する。
+ *
+ * @param id - ラリー ID
+ * @returns void
+ * @throws AdminServerNotFoundError 対象なし
+ * @example
+ * await deleteRally(2);
+ */
+export async function deleteRally(id: number): Promise<void> {
+  const client = getRequiredAdminClient();
+  const { data, error } = await client
+    .from("rallies")
+    .delete()
+    .eq("id", id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    if (isNotFoundError(error)) {
+      throw new AdminServerNotFoundError("削除対象のラリーが見つかりません。");
+    }
+    throw new Error(error.message);
+  }
+  if (!data) {
+    throw new AdminServerNotFoundError("削除対象のラリーが見つかりません。");
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  buildCalendarViewQuery,
+  buildWeekendRange,
+  layoutWeekBars,
+  parseCalendarViewQuery,
+  resolveCalendarRange,
+  shiftCalendarView,
+  toTokyoDateKey,
+} from "@/lib/calendarView";
+import type { Event } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+describe("calendarView", () => {
+  it("parses view, range and city queries and drops invalid values", () => {
+    expect(parseCalendarViewQuery({ view: "agenda", from: "2026-10-24", to: "2026-10-25", city: "2" })).toEqual({
+      view: "agenda",
+      from: "2026-10-24",
+      to: "2026-10-25",
+      cityId: 2,
+    });
+    expect(parseCalendarViewQuery({ view: "month", from: "2026-11-18", to: "2026-11-20" })).toEqual({
+      view: "month",
+      from: "2026-11-01",
+      to: null,
+      cityId: null,
+    });
+    expect(parseCalendarViewQuery({ view: "year", from: "2026-02-30", city: "-1" })).toEqual({
+      view: "month",
+      from: null,
+      to: null,
+      cityId: null,
+    });
+    expect(parseCalendarViewQuery({ view: "agenda", from: "2026-10-24", to: "2026-10-20" }).to).toBeNull();
+    expect(parseCalendarViewQuery({ view: "agenda", from: "2026-10-01", to: "2026-12-31" }).to).toBeNull();
+  });
+
+  it("builds queries without default values", () => {
+    expect(buildCalendarViewQuery({ view: "month", from: null, to: null, cityId: null })).toBe("");
+    expect(buildCalendarViewQuery({ view: "list", from: "2026-11-01", to: null, cityId: 1 })).toBe(
+      "view=list&from=2026-11-01&city=1"
+    );
+    const state = { view: "agenda", from: "2026-10-24", to: "2026-10-25", cityId: 3 } as const;
+    expect(parseCalendarViewQuery(Object.fromEntries(new URLSearchParams(buildCalendarViewQuery(state))))).toEqual(
+      state
+    );
+  });
+
+  it("resolves and shifts month and agenda ranges", () => {
+    const today = "2026-10-21";
+
+    expect(resolveCalendarRange({ view: "month", from: null, to: null, cityId: null }, today)).toEqual({
+      from: "2026-10-01",
+      to: "2026-10-31",
+    });
+    expect(resolveCalendarRange({ view: "agenda", from: null, to: null, cityId: null }, today)).toEqual({
+      from: "2026-10-18",
+      to: "2026-10-24",
+    });
+    expect(shiftCalendarView({ view: "month", from: "2026-12-01", to: null, cityId: null }, today, 1).from).toBe(
+      "2027-01-01"
+    );
+    expect(shiftCalendarView({ view: "agenda", from: "2026-10-24", to: "2026-10-25", cityId: 1 }, today, 1)).toEqual({
+      view: "agenda",
+      from: "2026-10-26",
+      to: "2026-10-27",
+      cityId: 1,
+    });
+  });
+
+  it("builds this weekend's range", () => {
+    expect(buildWeekendRange("2026-10-19")).toEqual({ from: "2026-10-24", to: "2026-10-25" });
+    expect(buildWeekendRange("2026-10-24")).toEqual({ from: "2026-10-24", to: "2026-10-25" });
+    expect(buildWeekendRange("2026-10-25")).toEqual({ from: "2026-10-25", to: "2026-10-25" });
+  });
+
+  it("takes today's date in Japan time", () => {
+    expect(toTokyoDateKey(new Date("2026-10-18T14:59:59Z"))).toBe("2026-10-18");
+    expect(toTokyoDateKey(new Date("2026-10-18T15:00:00Z"))).toBe("2026-10-19");
+    expect(toTokyoDateKey(new Date("2026-12-31T16:00:00Z"))).toBe("2027-01-01");
+  });
+
+  it("lays out multi-day bars in lanes and clips them to the week and bounds", () => {
+    const events: Event[] = [
+      { id: 1, title: "ナイトマーケット", start_date: "2026-10-23", end_date: "2026-10-27" },
+      { id: 2, title: "ライトアップ", start_date: "2026-10-24", end_date: "2026-10-24" },
+      { id: 3, title: "よ市", start_date: "2026-10-20", end_date: null },
+      { id: 4, title: "前月から", start_date: "2026-09-28", end_date: "2026-10-02" },
+    ];
+
+    expect(
+      layoutWeekBars(events, "2026-10-18").map(({ event, column, span, lane, continuesAfter }) => [
+        event.id,
+        column,
+        span,
+        lane,
+        continuesAfter,
+      ])
+    ).toEqual([
+      [3, 2, 1, 0, false],
+      [1, 5, 2, 0, true],
+      [2, 6, 1, 1, false],
+    ]);
+
+    const [clipped] = layoutWeekBars(events, "2026-09-27", { from: "2026-10-01", to: "2026-10-31" });
+    expect(clipped).toMatchObject({ column: 4, span: 2, lane: 0, continuesBefore: true, continuesAfter: false });
+  });
+});
@@ -0,0 +1,290 @@
+import { parseDateKey } from "@/lib/searchQuery";
+import type { Event } from "@/lib/types";
+
+/** ホームのカレンダーの表示（月グリッド・期間のアジェンダ・月の縦スクロール一覧） */
+export type CalendarView = "month" | "agenda" | "list";
+
+/** カレンダーの表示状態（URL クエリと相互に変換する） */
+export type CalendarViewState = {
+  view: CalendarView;
+  /** 表示の起点（`YYYY-MM-DD`。月表示では月初。null は今日を含む月・週） */
+  from: string | null;
+  /** アジェンダ表示の終了日（`YYYY-MM-DD`。null は起点から 1 週間） */
+  to: string | null;
+  /** 絞り込む市区町村 */
+  cityId: number | null;
+};
+
+/** 表示範囲（どちらも `YYYY-MM-DD`、両端を含む） */
+export type CalendarRange = {
+  from: string;
+  to: string;
+};
+
+/** 週の行に置く複数日イベントのバー */
+export type CalendarBar<T extends Event = Event> = {
+  event: T;
+  /** 行内の開始列（0 = 日曜） */
+  column: number;
+  /** 行内で占める日数 */
+  span: number;
+  /** 重ならないよう割り当てた段（0 始まり） */
+  lane: number;
+  /** 前の週から続いているか */
+  continuesBefore: boolean;
+  /** 次の週へ続くか */
+  continuesAfter: boolean;
+};
+
+export const CALENDAR_VIEWS: readonly CalendarView[] = ["month", "agenda", "list"];
+
+export const DEFAULT_CALENDAR_VIEW: CalendarViewState = { view: "month", from: null, to: null, cityId: null };
+
+/** アジェンダ表示の既定の日数 */
+const AGENDA_DEFAULT_DAYS = 7;
+
+/** アジェンダ表示で指定できる最長の日数 */
+export const AGENDA_MAX_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 「今日」を決めるタイムゾーン（イベントの日付はすべて岩手の現地日付） */
+const CALENDAR_TIME_ZONE = "Asia/Tokyo";
+
+const TOKYO_DATE_FORMAT = new Intl.DateTimeFormat("en-US", {
+  timeZone: CALENDAR_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * 日時を日本時間の `YYYY-MM-DD` にする（サーバーの UTC でも日本の日付で「今日」を決める）。
+ *
+ * @param date - 日時（省略時は現在）
+ * @returns 日付
+ * @example
+ * toTokyoDateKey(new Date("2026-10-18T15:30:00Z")); // => "2026-10-19"
+ */
+export function toTokyoDateKey(date: Date = new Date()): string {
+  const parts = Object.fromEntries(TOKYO_DATE_FORMAT.formatToParts(date).map((part) => [part.type, part.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * `YYYY-MM-DD` を日数だけずらす（タイムゾーンの影響を受けないよう UTC で計算する）。
+ *
+ * @param key - 日付
+ * @param days - ずらす日数
+ * @returns ずらした日付
+ * @example
+ * shiftDateKey("2026-08-31", 1); // => "2026-09-01"
+ */
+export function shiftDateKey(key: string, days: number): string {
+  const [year, month, day] = key.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * 2 つの日付の日数差を返す。
+ *
+ * @param from - 起点
+ * @param to - 終点
+ * @returns `to - from` の日数
+ * @example
+ * diffDateKeys("2026-08-01", "2026-08-04"); // => 3
+ */
+export function diffDateKeys(from: string, to: string): number {
+  return Math.round((Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * 日付の曜日を返す（0 = 日曜）。
+ *
+ * @param key - 日付
+ * @returns 曜日番号
+ * @example
+ * getWeekday("2026-10-17"); // => 6
+ */
+function getWeekday(key: string): number {
+  return new Date(`${key.slice(0, 10)}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * 日付を含む週の日曜日を返す。
+ *
+ * @param key - 日付
+ * @returns 週の開始日
+ * @example
+ * startOfWeekKey("2026-10-21"); // => "2026-10-18"
+ */
+export function startOfWeekKey(key: string): string {
+  return shiftDateKey(key, -getWeekday(key));
+}
+
+/**
+ * 日付を含む月の初日と末日を返す。
+ *
+ * @param key - 日付
+ * @returns 月の範囲
+ * @example
+ * getMonthRange("2026-02-14"); // => { from: "2026-02-01", to: "2026-02-28" }
+ */
+export function getMonthRange(key: string): CalendarRange {
+  const [year, month] = key.slice(0, 10).split("-").map(Number);
+  const from = `${key.slice(0, 7)}-01`;
+  const to = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+  return { from, to };
+}
+
+/**
+ * 「今週末」の範囲を返す。土曜〜日曜で、日曜日は当日だけにする。
+ *
+ * @param today - 今日（`YYYY-MM-DD`）
+ * @returns 週末の範囲
+ * @example
+ * buildWeekendRange("2026-10-19"); // => { from: "2026-10-24", to: "2026-10-25" }
+ */
+export function buildWeekendRange(today: string): CalendarRange {
+  const weekday = getWeekday(today);
+  if (weekday === 0) return { from: today, to: today };
+  const saturday = shiftDateKey(today, 6 - weekday);
+  return { from: saturday, to: shiftDateKey(saturday, 1) };
+}
+
+/**
+ * 表示状態から実際に表示する期間を決める。
+ *
+ * @param state - 表示状態
+ * @param today - 今日（`YYYY-MM-DD`）
+ * @returns 表示期間（月表示・一覧は月全体、アジェンダは指定期間か今日を含む週）
+ * @example
+ * resolveCalendarRange({ view: "agenda", from: null, to: null, cityId: null }, "2026-10-21");
+ * // => { from: "2026-10-18", to: "2026-10-24" }
+ */
+export function resolveCalendarRange(state: CalendarViewState, today: string): CalendarRange {
+  if (state.view !== "agenda") return getMonthRange(state.from ?? today);
+  const from = state.from ?? startOfWeekKey(today);
+  return { from, to: state.to ?? shiftDateKey(from, AGENDA_DEFAULT_DAYS - 1) };
+}
+
+/**
+ * 表示期間を前後に送る（月表示は 1 か月、アジェンダは同じ日数ずつ）。
+ *
+ * @param state - 表示状態
+ * @param today - 今日（`YYYY-MM-DD`）
+ * @param direction - -1 で前、1 で次
+ * @returns 新しい表示状態
+ * @example
+ * shiftCalendarView({ view: "month", from: "2026-10-01", to: null, cityId: null }, "2026-10-19", 1);
+ * // => { view: "month", from: "2026-11-01", to: null, cityId: null }
+ */
+export function shiftCalendarView(state: CalendarViewState, today: string, direction: -1 | 1): CalendarViewState {
+  const range = resolveCalendarRange(state, today);
+  if (state.view !== "agenda") {
+    const [year, month] = range.from.split("-").map(Number);
+    const from = new Date(Date.UTC(year, month - 1 + direction, 1)).toISOString().slice(0, 10);
+    return { ...state, from, to: null };
+  }
+  const length = diffDateKeys(range.from, range.to) + 1;
+  return {
+    ...state,
+    from: shiftDateKey(range.from, direction * length),
+    to: shiftDateKey(range.to, direction * length),
+  };
+}
+
+/**
+ * URL クエリからカレンダーの表示状態を読み取る。不正な値は既定値に戻す。
+ *
+ * @param query - `view` / `from` / `to` / `city` クエリ
+ * @returns 表示状態
+ * @example
+ * parseCalendarViewQuery({ view: "agenda", from: "2026-10-24", to: "2026-10-25" });
+ * // => { view: "agenda", from: "2026-10-24", to: "2026-10-25", cityId: null }
+ */
+export function parseCalendarViewQuery(query: {
+  view?: string | null;
+  from?: string | null;
+  to?: string | null;
+  city?: string | null;
+}): CalendarViewState {
+  const view = CALENDAR_VIEWS.find((item) => item === query.view) ?? DEFAULT_CALENDAR_VIEW.view;
+  const from = parseDateKey(query.from ?? null) ?? null;
+  const cityId = Number(query.city);
+  const state: CalendarViewState = {
+    view,
+    from: null,
+    to: null,
+    cityId: Number.isInteger(cityId) && cityId > 0 ? cityId : null,
+  };
+  if (!from) return state;
+  if (view !== "agenda") return { ...state, from: getMonthRange(from).from };
+
+  const to = parseDateKey(query.to ?? null) ?? null;
+  const length = to ? diffDateKeys(from, to) + 1 : 0;
+  return { ...state, from, to: length >= 1 && length <= AGENDA_MAX_DAYS ? to : null };
+}
+
+/**
+ * カレンダーの表示状態を URL クエリにする（既定値の項目は省く）。
+ *
+ * @param state - 表示状態
+ * @returns クエリ文字列（`?` なし）
+ * @example
+ * buildCalendarViewQuery({ view: "agenda", from: "2026-10-24", to: "2026-10-25", cityId: 1 });
+ * // => "view=agenda&from=2026-10-24&to=2026-10-25&city=1"
+ */
+export function buildCalendarViewQuery(state: CalendarViewState): string {
+  const params = new URLSearchParams();
+  if (state.view !== DEFAULT_CALENDAR_VIEW.view) params.set("view", state.view);
+  if (state.from) params.set("from", state.from);
+  if (state.view === "agenda" && state.from && state.to) params.set("to", state.to);
+  if (state.cityId) params.set("city", String(state.cityId));
+  return params.toString();
+}
+
+/**
+ * 1 週間分の行に、期間と重なるイベントのバーを重ならない段に割り当てて置く。
+ *
+ * 長いイベントほど上の段に置き、同じ段に入らないものは次の段へ回す。
+ * `bounds` を渡すと、その外側の日（月表示の前月・翌月の空きマス）にはバーを伸ばさない。
+ *
+ * @param events - 展開済みのイベント（開始日のないものは無視する）
+ * @param weekStart - 行の初日（`YYYY-MM-DD`、日曜日）
+ * @param bounds - バーを置いてよい期間
+ * @returns バー（段・開始列順）
+ * @example
+ * layoutWeekBars(events, "2026-09-27", { from: "2026-10-01", to: "2026-10-31" });
+ */
+export function layoutWeekBars<T extends Event>(events: T[], weekStart: string, bounds?: CalendarRange): CalendarBar<T>[] {
+  const weekEnd = shiftDateKey(weekStart, 6);
+  const lower = bounds && bounds.from > weekStart ? bounds.from : weekStart;
+  const upper = bounds && bounds.to < weekEnd ? bounds.to : weekEnd;
+  const segments = events.flatMap((event) => {
+    const start = event.start_date?.slice(0, 10);
+    if (!start) return [];
+    const end = event.end_date && event.end_date.slice(0, 10) > start ? event.end_date.slice(0, 10) : start;
+    if (end < lower || start > upper) return [];
+    const column = diffDateKeys(weekStart, start > lower ? start : lower);
+    const last = diffDateKeys(weekStart, end < upper ? end : upper);
+    return [{ event, column, span: last - column + 1, continuesBefore: start < lower, continuesAfter: end > upper }];
+  });
+
+  const lanes: boolean[][] = [];
+  return segments
+    .sort((left, right) => left.column - right.column || right.span - left.span || left.event.id - right.event.id)
+    .map((segment) => {
+      const columns = Array.from({ length: segment.span }, (_, offset) => segment.column + offset);
+      let lane = lanes.findIndex((used) => columns.every((column) => !used[column]));
+      if (lane === -1) {
+        lane = lanes.length;
+        lanes.push([]);
+      }
+      columns.forEach((column) => {
+        lanes[lane][column] = true;
+      });
+      return { ...segment, lane };
+    })
+    .sort((left, right) => left.lane - right.lane || left.column - right.column);
+}
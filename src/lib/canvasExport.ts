@@ -0,0 +1,33 @@
+/**
+ * canvas を PNG Blob へ変換する。
+ *
+ * @param canvas - 描画済み canvas
+ * @returns PNG Blob（生成失敗時は null）
+ * @example
+ * const blob = await canvasToPngBlob(canvas);
+ */
+export function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    canvas.toBlob((blob) => resolve(blob), "image/png");
+  });
+}
+
+/**
+ * Blob をファイルとしてダウンロードさせる。
+ *
+ * @param blob - 保存するデータ
+ * @param fileName - 保存ファイル名
+ * @returns void
+ * @example
+ * saveBlobAsFile(blob, "iwate-memory.png");
+ */
+export function saveBlobAsFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
@@ -14,11 +14,14 @@ export const SECRET_WORKSPACE_PATH = "/studio";
 export const SECRET_WORKSPACE_LOGIN_PATH = "/studio/access";
 export const PUBLIC_LOGIN_PATH = "/login";
 export const SPOTS_INDEX_PATH = "/spots";
+export const EVENTS_INDEX_PATH = "/events";
 export const CHARACTER_PATH = "/character";
 export const LEGACY_GUIDE_PATH = "/guide";
 export const MAP_PATH = "/map";
 export const STAMPS_PATH = "/stamps";
 export const FAVORITES_PATH = "/favorites";
+export const STAMP_BOOK_PATH = "/stamps/book";
+export const ITINERARY_PATH = "/itinerary";
 
 // Map settings (Leaflet / OSM)
 export const MAP_TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
@@ -30,6 +33,7 @@ export const PUBLIC_NAV_ITEMS = [
   { href: "/", label: "Home" },
   { href: MAP_PATH, label: "Map" },
   { href: "/search", label: "Search" },
+  { href: ITINERARY_PATH, label: "Plan" },
   { href: CHARACTER_PATH, label: "Character" },
   { href: "/camera", label: "Camera" },
 ] as const;
@@ -44,10 +48,33 @@ export const PUBLIC_NAV_ITEMS = [
  * - defaultMode: アプリ起動時のデフォルトモード
  * - openRouteServiceApiKey: OpenRouteService の API キー（有料プロバイダ用）
  *   環境変数 `NEXT_PUBLIC_ORS_API_KEY` から取得。未設定時は無料 (OSRM) へフォールバック。
+ * - osrmBaseUrl / openRouteServiceBaseUrl: アプリ内ルート表示で使う API の接続先（自前サーバーやテスト用の差し替え）
+ *   osrmBaseUrl が空のときは移動手段ごとに FOSSGIS の OSRM サーバーを使う。
  */
 export const ROUTE_CONFIG = {
   /** デフォルトのルートモード */
   defaultMode: "free" as "free" | "paid",
   /** OpenRouteService API キー（NEXT_PUBLIC_ORS_API_KEY） */
   openRouteServiceApiKey: process.env.NEXT_PUBLIC_ORS_API_KEY ?? "",
+  /** OSRM API の接続先（NEXT_PUBLIC_OSRM_BASE_URL。空なら FOSSGIS の移動手段別サーバー） */
+  osrmBaseUrl: process.env.NEXT_PUBLIC_OSRM_BASE_URL ?? "",
+  /** OpenRouteService API の接続先（NEXT_PUBLIC_ORS_BASE_URL） */
+  openRouteServiceBaseUrl: process.env.NEXT_PUBLIC_ORS_BASE_URL || "https://api.openrouteservice.org",
+} as const;
+
+// ---------------------------------------------------------------------------
+// Geocoder settings（ジオコーダ設定）
+// ---------------------------------------------------------------------------
+
+/**
+ * Studio でイベント会場を座標に変換するジオコーダの設定
+ *
+ * - provider: `gazetteer`（岩手県の市町村一覧、オフライン）または `nominatim`（OSM の住所検索）
+ *   環境変数 `GEOCODER_PROVIDER` から取得。未設定時は gazetteer。
+ * - nominatimBaseUrl / nominatimUserAgent: Nominatim の接続先と利用規約で必須の User-Agent
+ */
+export const GEOCODER_CONFIG = {
+  provider: (process.env.GEOCODER_PROVIDER === "nominatim" ? "nominatim" : "gazetteer") as "gazetteer" | "nominatim",
+  nominatimBaseUrl: process.env.GEOCODER_NOMINATIM_BASE_URL || "https://nominatim.openstreetmap.org",
+  nominatimUserAgent: process.env.GEOCODER_USER_AGENT || `${APP_NAME} (${SITE_URL})`,
 } as const;
@@ -0,0 +1,79 @@
+import { buildEventCalendar, buildEventUid, filterCalendarEvents } from "@/lib/eventIcs";
+import { describe, expect, it } from "vitest";
+
+const now = new Date("2026-03-01T09:30:00Z");
+
+describe("eventIcs", () => {
+  it("writes dated events as all-day VEVENTs with an exclusive end", () => {
+    const body = buildEventCalendar(
+      [
+        {
+          id: 3,
+          title: "Morioka Night Market",
+          location: "肴町",
+          start_date: "2026-03-30",
+          end_date: "2026-03-31",
+          city_id: 1,
+          lat: 39.7016,
+          lng: 141.1368,
+        },
+      ],
+      { cities: [{ id: 1, name: "盛岡市" }], now }
+    );
+    const lines = body.split("\r\n");
+
+    expect(body.endsWith("\r\n")).toBe(true);
+    expect(lines).toContain(`UID:${buildEventUid({ id: 3 })}`);
+    expect(lines).toContain("DTSTAMP:20260301T093000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260330");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260401");
+    expect(lines).toContain("LOCATION:肴町\\, 盛岡市");
+    expect(lines).toContain("GEO:39.7016;141.1368");
+  });
+
+  it("skips undated events, escapes text and folds long lines", () => {
+    const title = "盛岡さんさ踊り; 夜の部".repeat(4);
+    const body = buildEventCalendar(
+      [
+        { id: 1, title, start_date: "2026-08-01", end_date: null },
+        { id: 2, title: "日程未定", start_date: null },
+      ],
+      { now }
+    );
+    const lines = body.split("\r\n");
+
+    expect(body).not.toContain("日程未定");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260802");
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(body.replace(/\r\n /g, "")).toContain(`SUMMARY:${title.replace(/;/g, "\\;")}`);
+  });
+
+  it("writes recurring events as one series and filters them by the series span", () => {
+    const sansa = {
+      id: 5,
+      title: "盛岡さんさ踊り",
+      start_date: "2026-08-01",
+      end_date: "2026-08-04",
+      recurrence_rule: "RRULE:FREQ=YEARLY;INTERVAL=1",
+      recurrence_exdates: ["2027-08-01"],
+    };
+    const lines = buildEventCalendar([sansa], { now }).split("\r\n");
+
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260801");
+    expect(lines).toContain("RRULE:FREQ=YEARLY");
+    expect(lines).toContain("EXDATE;VALUE=DATE:20270801");
+    expect(filterCalendarEvents([sansa], { from: "2030-01-01" }, [])).toHaveLength(1);
+    expect(
+      filterCalendarEvents([{ ...sansa, recurrence_rule: "FREQ=YEARLY;COUNT=2" }], { from: "2027-08-05" }, [])
+    ).toHaveLength(0);
+    // 期限付きの系列は、回数が展開の上限を超えても期限まで続くものとして絞り込む
+    const morningMarket = {
+      ...sansa,
+      start_date: "2022-01-01",
+      end_date: null,
+      recurrence_rule: "FREQ=DAILY;UNTIL=20261231",
+    };
+    expect(filterCalendarEvents([morningMarket], { from: "2026-10-01", to: "2026-10-31" }, [])).toHaveLength(1);
+    expect(filterCalendarEvents([morningMarket], { from: "2027-01-01" }, [])).toHaveLength(0);
+  });
+});
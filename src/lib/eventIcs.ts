@@ -0,0 +1,260 @@
+import { APP_NAME, SITE_URL } from "@/lib/config";
+import {
+  expandEventOccurrences,
+  findLastRecurrenceStart,
+  formatRecurrenceRule,
+  readEventRecurrence,
+} from "@/lib/eventRecurrence";
+import { getEventHref } from "@/lib/eventRoutes";
+import { resolveEventCity } from "@/lib/geocoding";
+import { buildAbsoluteUrl } from "@/lib/seo";
+import type { City, Event } from "@/lib/types";
+
+/** iCalendar の 1 行の上限（CRLF を除くオクテット数） */
+const ICS_LINE_LIMIT = 75;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+/** カレンダーを組み立てるときの補足 */
+export type EventCalendarOptions = {
+  /** カレンダー名（X-WR-CALNAME） */
+  name?: string;
+  /** 会場の市区町村名を LOCATION に補うための参照元 */
+  cities?: City[];
+  /** DTSTAMP に使う日時（既定は現在時刻） */
+  now?: Date;
+  /** 購読フィードとして出すときの再取得間隔（時間） */
+  refreshHours?: number;
+};
+
+/** 購読フィードの絞り込み条件 */
+export type EventCalendarFilter = {
+  /** 開催市区町村（`city_id` がなければ会場名から判定する） */
+  cityId?: number | null;
+  /** この日以降に終わるイベント（`YYYY-MM-DD`） */
+  from?: string | null;
+  /** この日までに始まるイベント（`YYYY-MM-DD`） */
+  to?: string | null;
+};
+
+/**
+ * イベント（繰り返しなら系列全体）の最終日を返す。
+ *
+ * @param event - 開始日のあるイベント
+ * @param first - 開始日（`YYYY-MM-DD`）
+ * @returns 最終日。回数も期限もない繰り返しは null
+ * @example
+ * resolveLastDate(event, "2026-08-01"); // => "2026-08-04"
+ */
+function resolveLastDate(event: Event, first: string): string | null {
+  const last = event.end_date && event.end_date.slice(0, 10) > first ? event.end_date.slice(0, 10) : first;
+  const rule = readEventRecurrence(event);
+  if (!rule) return last;
+  if (!rule.count && !rule.until) return null;
+  const final = findLastRecurrenceStart(first, rule) ?? first;
+  const [occurrence] = expandEventOccurrences([event], { from: final, to: final });
+  return occurrence?.end_date?.slice(0, 10) ?? final;
+}
+
+/**
+ * 市区町村と期間でイベントを絞り込む。期間は開催期間と 1 日でも重なれば含める。
+ * 繰り返しイベントは 1 件の予定（RRULE 付き）として出すため、系列の期間で判定する。
+ *
+ * @param events - イベント
+ * @param filter - 絞り込み条件
+ * @param cities - 市区町村（会場名からの市区町村判定に使う）
+ * @returns 条件に合う、開始日のあるイベント
+ * @example
+ * filterCalendarEvents(events, { cityId: 1, from: "2026-08-01", to: "2026-08-31" }, cities);
+ */
+export function filterCalendarEvents(events: Event[], filter: EventCalendarFilter, cities: City[]): Event[] {
+  return events.filter((event) => {
+    const first = event.start_date?.slice(0, 10);
+    if (!first) return false;
+    const last = resolveLastDate(event, first);
+    if (filter.from && last !== null && last < filter.from) return false;
+    if (filter.to && first > filter.to) return false;
+    return !filter.cityId || resolveEventCity(event, cities)?.id === filter.cityId;
+  });
+}
+
+/**
+ * `YYYY-MM-DD` 形式の日付を iCalendar の DATE 値へ変換する。
+ *
+ * @param value - 日付文字列（時刻付きでも先頭の日付だけを使う）
+ * @param offsetDays - 加算する日数
+ * @returns `YYYYMMDD`（読めない値は null）
+ * @example
+ * toIcsDate("2026-03-31", 1); // => "20260401"
+ */
+function toIcsDate(value: string | null | undefined, offsetDays = 0): string | null {
+  const match = value ? DATE_PATTERN.exec(value) : null;
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + offsetDays));
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * 日時を iCalendar の UTC DATE-TIME 値へ変換する。
+ *
+ * @param date - 日時
+ * @returns `YYYYMMDDTHHMMSSZ`
+ * @example
+ * toIcsDateTime(new Date("2026-03-01T09:00:00Z")); // => "20260301T090000Z"
+ */
+function toIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * TEXT 値として安全な文字列にする。
+ *
+ * @param value - 元の文字列
+ * @returns エスケープ済み文字列
+ * @example
+ * escapeIcsText("盛岡, 岩手"); // => "盛岡\\, 岩手"
+ */
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * 75 オクテットを超える行を折り返す（マルチバイト文字の途中では切らない）。
+ *
+ * @param line - 1 行分の内容
+ * @returns 折り返し済みの行（CRLF + 空白で継続）
+ * @example
+ * foldIcsLine("SUMMARY:...");
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  let size = 0;
+  for (const char of line) {
+    const length = encoder.encode(char).length;
+    // 継続行は先頭の空白も 1 オクテットとして数える
+    const limit = chunks.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (size + length > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      size = 0;
+    }
+    chunk += char;
+    size += length;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+/**
+ * イベントの UID を返す。ID とサイトのホスト名だけから作るため、再取得しても変わらない。
+ *
+ * @param event - イベント
+ * @returns UID
+ * @example
+ * buildEventUid({ id: 3 }); // => "event-3@example.com"
+ */
+export function buildEventUid(event: Pick<Event, "id">): string {
+  return `event-${event.id}@${new URL(SITE_URL).hostname}`;
+}
+
+/**
+ * イベント 1 件分の VEVENT 行を組み立てる（日付だけを持つため終日予定として出す）。
+ * 繰り返しイベントは初回を DTSTART とし、RRULE と EXDATE を付ける。
+ *
+ * @param event - イベント
+ * @param context - 市区町村と DTSTAMP
+ * @returns VEVENT の行（開始日が読めないイベントは null）
+ * @example
+ * buildEventLines(event, { cities, stamp: "20260301T000000Z" });
+ */
+function buildEventLines(event: Event, context: { cities: City[]; stamp: string }): string[] | null {
+  const start = toIcsDate(event.start_date);
+  if (!start) return null;
+  const last = toIcsDate(event.end_date);
+  // 終日予定の DTEND は最終日の翌日（排他的）を指す
+  const end = toIcsDate(last && last > start ? event.end_date : event.start_date, 1);
+  const url = buildAbsoluteUrl(getEventHref(event)).toString();
+  const cityName = context.cities.find((city) => city.id === event.city_id)?.name ?? null;
+  const rule = readEventRecurrence(event);
+  const exdates = rule ? (event.recurrence_exdates ?? []).flatMap((day) => toIcsDate(day) ?? []) : [];
+  const location = [event.location, cityName && cityName !== event.location ? cityName : null]
+    .filter(Boolean)
+    .join(", ");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${buildEventUid(event)}`,
+    `DTSTAMP:${context.stamp}`,
+    `DTSTART;VALUE=DATE:${start}`,
+    `DTEND;VALUE=DATE:${end}`,
+    rule ? `RRULE:${formatRecurrenceRule(rule)}` : null,
+    exdates.length > 0 ? `EXDATE;VALUE=DATE:${exdates.join(",")}` : null,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    location ? `LOCATION:${escapeIcsText(location)}` : null,
+    typeof event.lat === "number" && typeof event.lng === "number" ? `GEO:${event.lat};${event.lng}` : null,
+    `URL:${url}`,
+    `DESCRIPTION:${escapeIcsText(url)}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ].filter((line): line is string => line !== null);
+}
+
+/**
+ * イベントを iCalendar (RFC 5545) 形式の文字列にする。
+ *
+ * @param events - イベント
+ * @param options - カレンダー名・市区町村・DTSTAMP
+ * @returns VCALENDAR 文字列（CRLF 区切り）
+ * @example
+ * const body = buildEventCalendar([event], { name: event.title });
+ */
+export function buildEventCalendar(events: Event[], options: EventCalendarOptions = {}): string {
+  const context = { cities: options.cities ?? [], stamp: toIcsDateTime(options.now ?? new Date()) };
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${APP_NAME}//Events//JA`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.name ?? `${APP_NAME} events`)}`,
+    "X-WR-TIMEZONE:Asia/Tokyo",
+    ...(options.refreshHours
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshHours}H`, `X-PUBLISHED-TTL:PT${options.refreshHours}H`]
+      : []),
+    ...events.flatMap((event) => buildEventLines(event, context) ?? []),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * .ics のレスポンスヘッダーを返す。
+ *
+ * 1 件のダウンロードは添付ファイルとして返し、購読フィードはカレンダーアプリが
+ * 定期的に取り直すため inline で短時間キャッシュさせる。
+ *
+ * @param filenameBase - 拡張子を除くファイル名
+ * @param mode - `download`（既定）または `feed`
+ * @returns レスポンスヘッダー
+ * @example
+ * buildEventCalendarHeaders("event-3");
+ */
+export function buildEventCalendarHeaders(
+  filenameBase: string,
+  mode: "download" | "feed" = "download"
+): Record<string, string> {
+  const filename = `${filenameBase}.ics`;
+  const asciiName = filename.replace(/[^A-Za-z0-9._-]+/g, "_");
+  const disposition = mode === "feed" ? "inline" : "attachment";
+  return {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    "Cache-Control": mode === "feed" ? "public, max-age=900, s-maxage=900" : "no-store",
+  };
+}
@@ -0,0 +1,94 @@
+import {
+  describeRecurrenceRule,
+  expandEventOccurrences,
+  findLastRecurrenceStart,
+  formatRecurrenceRule,
+  listRecurrenceStarts,
+  listUpcomingOccurrences,
+  parseRecurrenceRule,
+  resolveNextOccurrence,
+} from "@/lib/eventRecurrence";
+import { describe, expect, it } from "vitest";
+
+const sansa = {
+  id: 7,
+  title: "盛岡さんさ踊り",
+  start_date: "2026-08-01",
+  end_date: "2026-08-04",
+  recurrence_rule: "FREQ=YEARLY",
+  recurrence_exdates: ["2027-08-01"],
+};
+
+describe("eventRecurrence", () => {
+  it("parses, normalizes and describes RRULE strings", () => {
+    const weekly = parseRecurrenceRule("RRULE:freq=weekly;byday=SA,SU;interval=1");
+
+    expect(formatRecurrenceRule(weekly)).toBe("FREQ=WEEKLY;BYDAY=SA,SU");
+    expect(describeRecurrenceRule(weekly)).toBe("毎週 土・日曜日");
+    expect(describeRecurrenceRule(parseRecurrenceRule("FREQ=MONTHLY;BYDAY=2SU;COUNT=6"))).toBe("毎月 第2日曜日（6回）");
+    expect(describeRecurrenceRule(parseRecurrenceRule("FREQ=YEARLY"), "2026-08-01")).toBe("毎年 8月1日");
+    expect(formatRecurrenceRule(parseRecurrenceRule("FREQ=DAILY;UNTIL=2026-12-31"))).toBe("FREQ=DAILY;UNTIL=20261231");
+    expect(() => parseRecurrenceRule("FREQ=WEEKLY;BYDAY=2SA")).toThrow("ordinal BYDAY");
+    expect(() => parseRecurrenceRule("FREQ=DAILY;COUNT=3;UNTIL=20261231")).toThrow("COUNT and UNTIL");
+    expect(() => parseRecurrenceRule("FREQ=MONTHLY;BYSETPOS=1")).toThrow("BYSETPOS is not supported");
+  });
+
+  it("lists occurrence starts for yearly, weekly and monthly rules", () => {
+    expect(listRecurrenceStarts("2026-08-01", parseRecurrenceRule("FREQ=YEARLY"), "2028-12-31")).toEqual([
+      "2026-08-01",
+      "2027-08-01",
+      "2028-08-01",
+    ]);
+    expect(listRecurrenceStarts("2026-10-17", parseRecurrenceRule("FREQ=WEEKLY;BYDAY=SA,SU;COUNT=4"), "2027-12-31")).toEqual([
+      "2026-10-17",
+      "2026-10-18",
+      "2026-10-24",
+      "2026-10-25",
+    ]);
+    expect(listRecurrenceStarts("2026-05-10", parseRecurrenceRule("FREQ=MONTHLY;BYDAY=2SU"), "2026-07-31")).toEqual([
+      "2026-05-10",
+      "2026-06-14",
+      "2026-07-12",
+    ]);
+    expect(listRecurrenceStarts("2026-01-31", parseRecurrenceRule("FREQ=MONTHLY"), "2026-05-31")).toEqual([
+      "2026-01-31",
+      "2026-03-31",
+      "2026-05-31",
+    ]);
+  });
+
+  it("expands events within a range, keeping duration and skipping exception dates", () => {
+    const occurrences = expandEventOccurrences([sansa], { from: "2026-08-03", to: "2028-12-31" });
+
+    expect(occurrences.map((event) => [event.start_date, event.end_date])).toEqual([
+      ["2026-08-01", "2026-08-04"],
+      ["2028-08-01", "2028-08-04"],
+    ]);
+    expect(occurrences.every((event) => event.id === sansa.id)).toBe(true);
+    expect(expandEventOccurrences([{ ...sansa, recurrence_rule: null }], { from: "2027-01-01", to: "2027-12-31" })).toEqual([]);
+  });
+
+  it("resolves upcoming occurrences of a recurring event", () => {
+    expect(resolveNextOccurrence(sansa, "2026-08-05")).toMatchObject({ start_date: "2028-08-01", end_date: "2028-08-04" });
+    expect(resolveNextOccurrence({ ...sansa, recurrence_rule: "FREQ=WEEKLY" }, "2026-08-05").start_date).toBe("2026-08-08");
+    expect(
+      listUpcomingOccurrences({ ...sansa, recurrence_rule: "FREQ=MONTHLY" }, "2026-08-05", 3).map((event) => event.start_date)
+    ).toEqual(["2026-09-01", "2026-10-01", "2026-11-01"]);
+  });
+
+  it("finds current occurrences of series that started years ago", () => {
+    const daily = { id: 8, title: "朝市", start_date: "2022-01-01", end_date: null, recurrence_rule: "FREQ=DAILY" };
+    const weekdays = { ...daily, recurrence_rule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR,SA" };
+
+    expect(
+      expandEventOccurrences([daily], { from: "2026-10-01", to: "2026-10-03" }).map((event) => event.start_date)
+    ).toEqual(["2026-10-01", "2026-10-02", "2026-10-03"]);
+    expect(resolveNextOccurrence(daily, "2026-10-19").start_date).toBe("2026-10-19");
+    expect(resolveNextOccurrence(weekdays, "2026-10-18").start_date).toBe("2026-10-19");
+    expect(
+      listRecurrenceStarts("2026-01-01", parseRecurrenceRule("FREQ=DAILY;COUNT=10"), "2026-12-31", "2026-01-08")
+    ).toEqual(["2026-01-08", "2026-01-09", "2026-01-10"]);
+    expect(findLastRecurrenceStart("2022-01-01", parseRecurrenceRule("FREQ=DAILY;UNTIL=20261231"))).toBe("2026-12-31");
+    expect(findLastRecurrenceStart("2022-01-01", parseRecurrenceRule("FREQ=DAILY"))).toBeNull();
+  });
+});
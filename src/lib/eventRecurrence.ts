@@ -0,0 +1,576 @@
+import type { Event } from "@/lib/types";
+
+/** 繰り返しの単位（RRULE の FREQ） */
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/** 曜日（RRULE の BYDAY） */
+export type RecurrenceWeekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+export const RECURRENCE_FREQUENCIES: readonly RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+/** `Date#getUTCDay()` の順に並べた曜日 */
+export const RECURRENCE_WEEKDAYS: readonly RecurrenceWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export const RECURRENCE_WEEKDAY_LABELS: Record<RecurrenceWeekday, string> = {
+  SU: "日",
+  MO: "月",
+  TU: "火",
+  WE: "水",
+  TH: "木",
+  FR: "金",
+  SA: "土",
+};
+
+/** 1 回の展開で返す回数の上限（展開する期間内で数える） */
+export const RECURRENCE_MAX_OCCURRENCES = 1000;
+
+/** COUNT に指定できる上限 */
+export const RECURRENCE_MAX_COUNT = 500;
+
+/** 1 回の展開で周期をたどる回数の上限（DAILY で 10 年強） */
+const RECURRENCE_MAX_PERIODS = 4000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** BYDAY の 1 項目（`nth` は「第 n」。負数は月末から数える） */
+export type RecurrenceByDay = {
+  weekday: RecurrenceWeekday;
+  nth: number | null;
+};
+
+/** 解析済みの繰り返しルール（RRULE のうちイベントで使う部分） */
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceByDay[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count: number | null;
+  /** 最終回の開始日の上限（`YYYY-MM-DD`） */
+  until: string | null;
+};
+
+/** 展開する期間（どちらも `YYYY-MM-DD`、両端を含む） */
+export type OccurrenceRange = {
+  from: string;
+  to: string;
+};
+
+/**
+ * `YYYY-MM-DD` を 1970-01-01 からの日数にする。
+ *
+ * @param key - 日付文字列（時刻付きでも先頭の日付だけを使う）
+ * @returns 日数（読めない値は null）
+ * @example
+ * toDayNumber("1970-01-02"); // => 1
+ */
+function toDayNumber(key: string | null | undefined): number | null {
+  const match = key ? /^(\d{4})-(\d{2})-(\d{2})/.exec(key) : null;
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS;
+}
+
+/**
+ * 1970-01-01 からの日数を `YYYY-MM-DD` にする。
+ *
+ * @param day - 日数
+ * @returns 日付文字列
+ * @example
+ * fromDayNumber(1); // => "1970-01-02"
+ */
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 数値リストの RRULE 値を解析する。
+ *
+ * @param value - カンマ区切りの値
+ * @param name - 項目名
+ * @param isValid - 値の検証
+ * @returns 数値の配列
+ * @throws Error 不正値
+ * @example
+ * parseNumberList("1,-1", "BYMONTHDAY", (day) => day !== 0);
+ */
+function parseNumberList(value: string, name: string, isValid: (value: number) => boolean): number[] {
+  return value.split(",").map((item) => {
+    const parsed = Number(item);
+    if (!/^[+-]?\d+$/.test(item) || !isValid(parsed)) {
+      throw new Error(`${name} has an invalid value "${item}".`);
+    }
+    return parsed;
+  });
+}
+
+/**
+ * RRULE 形式の文字列を解析する。
+ *
+ * 対応するのは FREQ（DAILY / WEEKLY / MONTHLY / YEARLY）・INTERVAL・BYDAY・BYMONTHDAY・BYMONTH・COUNT・UNTIL。
+ * 先頭の `RRULE:` は省略できる。
+ *
+ * @param value - RRULE 文字列
+ * @returns 解析済みルール
+ * @throws Error 未対応の項目・不正値・組み合わせの誤り
+ * @example
+ * parseRecurrenceRule("FREQ=WEEKLY;BYDAY=SA,SU");
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const source = value.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  source.split(";").forEach((part) => {
+    if (!part) return;
+    const [key, rawValue] = part.split("=", 2);
+    const name = key.trim().toUpperCase();
+    if (!rawValue || parts.has(name)) {
+      throw new Error(`RRULE part "${part}" is invalid.`);
+    }
+    parts.set(name, rawValue.trim().toUpperCase());
+  });
+
+  const freq = parts.get("FREQ");
+  if (!freq || !(RECURRENCE_FREQUENCIES as readonly string[]).includes(freq)) {
+    throw new Error(`FREQ must be one of ${RECURRENCE_FREQUENCIES.join(", ")}.`);
+  }
+  const rule: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: null,
+    until: null,
+  };
+
+  parts.forEach((rawValue, name) => {
+    switch (name) {
+      case "FREQ":
+        return;
+      case "INTERVAL":
+        [rule.interval] = parseNumberList(rawValue, name, (interval) => interval >= 1 && interval <= 99);
+        return;
+      case "COUNT":
+        [rule.count] = parseNumberList(rawValue, name, (count) => count >= 1 && count <= RECURRENCE_MAX_COUNT);
+        return;
+      case "UNTIL": {
+        const match = /^(\d{4})-?(\d{2})-?(\d{2})(T\d{6}Z?)?$/.exec(rawValue);
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+        if (!until || toDayNumber(until) === null || fromDayNumber(toDayNumber(until) as number) !== until) {
+          throw new Error("UNTIL must be a date such as 20261231.");
+        }
+        rule.until = until;
+        return;
+      }
+      case "BYDAY":
+        rule.byDay = rawValue.split(",").map((item) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          const nth = match?.[1] ? Number(match[1]) : null;
+          if (!match || (nth !== null && (nth === 0 || Math.abs(nth) > 5))) {
+            throw new Error(`BYDAY has an invalid value "${item}".`);
+          }
+          return { weekday: match[2] as RecurrenceWeekday, nth };
+        });
+        return;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseNumberList(rawValue, name, (day) => day !== 0 && Math.abs(day) <= 31);
+        return;
+      case "BYMONTH":
+        rule.byMonth = parseNumberList(rawValue, name, (month) => month >= 1 && month <= 12);
+        return;
+      default:
+        throw new Error(`RRULE part ${name} is not supported.`);
+    }
+  });
+
+  if (rule.count !== null && rule.until !== null) {
+    throw new Error("COUNT and UNTIL cannot be used together.");
+  }
+  if (rule.freq === "DAILY" && (rule.byDay.length > 0 || rule.byMonthDay.length > 0 || rule.byMonth.length > 0)) {
+    throw new Error("FREQ=DAILY does not support BYDAY, BYMONTHDAY or BYMONTH.");
+  }
+  if (rule.freq === "WEEKLY" && (rule.byMonthDay.length > 0 || rule.byMonth.length > 0)) {
+    throw new Error("FREQ=WEEKLY supports only BYDAY.");
+  }
+  if (rule.freq === "WEEKLY" && rule.byDay.some((day) => day.nth !== null)) {
+    throw new Error("FREQ=WEEKLY does not support ordinal BYDAY such as 2SA.");
+  }
+  if (rule.freq === "MONTHLY" && rule.byMonth.length > 0) {
+    throw new Error("FREQ=MONTHLY does not support BYMONTH.");
+  }
+  if (rule.byDay.length > 0 && rule.byMonthDay.length > 0) {
+    throw new Error("BYDAY and BYMONTHDAY cannot be used together.");
+  }
+  return rule;
+}
+
+/**
+ * 解析済みルールを正規化した RRULE 文字列にする（INTERVAL=1 は省く）。
+ *
+ * @param rule - 繰り返しルール
+ * @returns RRULE 文字列（`RRULE:` は付けない）
+ * @example
+ * formatRecurrenceRule({ ...rule, freq: "YEARLY" }); // => "FREQ=YEARLY"
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    rule.interval > 1 ? `INTERVAL=${rule.interval}` : null,
+    rule.byMonth.length > 0 ? `BYMONTH=${rule.byMonth.join(",")}` : null,
+    rule.byMonthDay.length > 0 ? `BYMONTHDAY=${rule.byMonthDay.join(",")}` : null,
+    rule.byDay.length > 0 ? `BYDAY=${rule.byDay.map((day) => `${day.nth ?? ""}${day.weekday}`).join(",")}` : null,
+    rule.count !== null ? `COUNT=${rule.count}` : null,
+    rule.until !== null ? `UNTIL=${rule.until.replace(/-/g, "")}` : null,
+  ]
+    .filter(Boolean)
+    .join(";");
+}
+
+/**
+ * 月内の日付を日本語の表示にする。
+ *
+ * @param rule - 繰り返しルール
+ * @param startDay - 初回の日
+ * @returns 表示用テキスト
+ * @example
+ * describeDayOfMonth({ ...rule, byDay: [{ weekday: "SU", nth: 2 }] }, 1); // => "第2日曜日"
+ */
+function describeDayOfMonth(rule: RecurrenceRule, startDay: number | null): string {
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay.map((day) => (day === -1 ? "末日" : day < 0 ? `末日の${-day - 1}日前` : `${day}日`)).join("・");
+  }
+  if (rule.byDay.length > 0) {
+    return rule.byDay
+      .map((day) => {
+        const label = `${RECURRENCE_WEEKDAY_LABELS[day.weekday]}曜日`;
+        if (day.nth === null) return `毎${label}`;
+        return day.nth === -1 ? `最終${label}` : day.nth < 0 ? `最後から${-day.nth}番目の${label}` : `第${day.nth}${label}`;
+      })
+      .join("・");
+  }
+  return startDay ? `${startDay}日` : "";
+}
+
+/**
+ * 繰り返しルールを日本語の説明にする。
+ *
+ * @param rule - 繰り返しルール
+ * @param startDate - 初回の開始日（曜日・日付の補完に使う）
+ * @returns 説明文
+ * @example
+ * describeRecurrenceRule(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=SA,SU")); // => "毎週 土・日曜日"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule, startDate?: string | null): string {
+  const startDayNumber = toDayNumber(startDate);
+  const start = startDayNumber === null ? null : new Date(startDayNumber * DAY_MS);
+  const every = (unit: string, each: string) => (rule.interval > 1 ? `${rule.interval}${unit}ごと` : each);
+
+  let text: string;
+  if (rule.freq === "DAILY") {
+    text = every("日", "毎日");
+  } else if (rule.freq === "WEEKLY") {
+    const weekdays = rule.byDay.length > 0
+      ? rule.byDay.map((day) => day.weekday)
+      : start
+        ? [RECURRENCE_WEEKDAYS[start.getUTCDay()]]
+        : [];
+    const days = weekdays.map((weekday) => RECURRENCE_WEEKDAY_LABELS[weekday]).join("・");
+    text = `${every("週", "毎週")}${days ? ` ${days}曜日` : ""}`;
+  } else if (rule.freq === "MONTHLY") {
+    text = `${every("か月", "毎月")} ${describeDayOfMonth(rule, start?.getUTCDate() ?? null)}`.trim();
+  } else {
+    const months = rule.byMonth.length > 0 ? rule.byMonth : start ? [start.getUTCMonth() + 1] : [];
+    const monthLabel = months.map((month) => `${month}月`).join("・");
+    text = `${every("年", "毎年")} ${monthLabel}${describeDayOfMonth(rule, start?.getUTCDate() ?? null)}`.trim();
+  }
+
+  if (rule.count !== null) return `${text}（${rule.count}回）`;
+  if (rule.until !== null) return `${text}（${rule.until}まで）`;
+  return text;
+}
+
+/**
+ * 指定した年月で、ルールに合う日を返す。
+ *
+ * @param year - 年
+ * @param month - 月（1〜12）
+ * @param rule - 繰り返しルール
+ * @param startDay - 初回の日（BYDAY / BYMONTHDAY がなければこの日を使う）
+ * @returns 日数（昇順）
+ * @example
+ * listMonthDays(2026, 5, parseRecurrenceRule("FREQ=MONTHLY;BYDAY=2SU"), 10);
+ */
+function listMonthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const first = Date.UTC(year, month - 1, 1) / DAY_MS;
+  const length = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  let days: number[];
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map((day) => (day > 0 ? day : length + day + 1)).filter((day) => day >= 1 && day <= length);
+  } else if (rule.byDay.length > 0) {
+    const firstWeekday = new Date(first * DAY_MS).getUTCDay();
+    days = rule.byDay.flatMap((byDay) => {
+      const offset = (RECURRENCE_WEEKDAYS.indexOf(byDay.weekday) - firstWeekday + 7) % 7;
+      const matches: number[] = [];
+      for (let day = offset + 1; day <= length; day += 7) matches.push(day);
+      if (byDay.nth === null) return matches;
+      const picked = byDay.nth > 0 ? matches[byDay.nth - 1] : matches[matches.length + byDay.nth];
+      return picked === undefined ? [] : [picked];
+    });
+  } else {
+    days = startDay <= length ? [startDay] : [];
+  }
+  return [...new Set(days)].sort((a, b) => a - b).map((day) => first + day - 1);
+}
+
+/**
+ * 周期 `period` 回目に含まれる開始日の候補を返す。
+ *
+ * @param rule - 繰り返しルール
+ * @param start - 初回の開始日（日数）
+ * @param period - 周期の番号（0 始まり）
+ * @returns 候補の日数（昇順）
+ * @example
+ * listPeriodStarts(rule, start, 0);
+ */
+function listPeriodStarts(rule: RecurrenceRule, start: number, period: number): number[] {
+  const startDate = new Date(start * DAY_MS);
+  const step = period * rule.interval;
+
+  if (rule.freq === "DAILY") return [start + step];
+  if (rule.freq === "WEEKLY") {
+    // 週の始まりは月曜（RRULE の既定 WKST=MO）
+    const weekStart = start - ((startDate.getUTCDay() + 6) % 7) + step * 7;
+    const weekdays = rule.byDay.length > 0
+      ? rule.byDay.map((day) => RECURRENCE_WEEKDAYS.indexOf(day.weekday))
+      : [startDate.getUTCDay()];
+    return [...new Set(weekdays.map((weekday) => weekStart + ((weekday + 6) % 7)))].sort((a, b) => a - b);
+  }
+  if (rule.freq === "MONTHLY") {
+    const monthIndex = startDate.getUTCMonth() + step;
+    const year = startDate.getUTCFullYear() + Math.floor(monthIndex / 12);
+    return listMonthDays(year, (monthIndex % 12) + 1, rule, startDate.getUTCDate());
+  }
+  const year = startDate.getUTCFullYear() + step;
+  const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [startDate.getUTCMonth() + 1];
+  return months.flatMap((month) => listMonthDays(year, month, rule, startDate.getUTCDate()));
+}
+
+/**
+ * `day` 以降の回を含みうる最初の周期の番号を返す。
+ *
+ * @param rule - 繰り返しルール
+ * @param start - 初回の開始日（日数）
+ * @param day - 探し始める日（日数）
+ * @returns 周期の番号（0 始まり）
+ * @example
+ * findFirstPeriod(parseRecurrenceRule("FREQ=DAILY;INTERVAL=2"), start, start + 9); // => 4
+ */
+function findFirstPeriod(rule: RecurrenceRule, start: number, day: number): number {
+  if (day <= start) return 0;
+  const startDate = new Date(start * DAY_MS);
+  const target = new Date(day * DAY_MS);
+  let elapsed: number;
+  if (rule.freq === "DAILY") {
+    elapsed = day - start;
+  } else if (rule.freq === "WEEKLY") {
+    elapsed = Math.floor((day - (start - ((startDate.getUTCDay() + 6) % 7))) / 7);
+  } else if (rule.freq === "MONTHLY") {
+    elapsed =
+      (target.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + target.getUTCMonth() - startDate.getUTCMonth();
+  } else {
+    elapsed = target.getUTCFullYear() - startDate.getUTCFullYear();
+  }
+  return Math.floor(elapsed / rule.interval);
+}
+
+/**
+ * 繰り返しの各回の開始日を、`from` から `through` まで昇順に列挙する。
+ *
+ * 初回の開始日は常に 1 回目として数える。COUNT は除外日を除く前の回数で数える（RFC 5545 と同じ）。
+ * COUNT のない系列は初回から数え直さず `from` を含む周期まで飛ばすので、何年も前に始まった系列でも欠けない。
+ * 回数の上限（`RECURRENCE_MAX_OCCURRENCES`）は `from` 以降の回にだけかかる。
+ *
+ * @param startDate - 初回の開始日
+ * @param rule - 繰り返しルール
+ * @param through - 列挙する開始日の上限（`YYYY-MM-DD`、含む）
+ * @param from - 列挙する開始日の下限（`YYYY-MM-DD`、含む。省略時は初回から）
+ * @returns 開始日（`YYYY-MM-DD`）
+ * @example
+ * listRecurrenceStarts("2026-08-01", parseRecurrenceRule("FREQ=YEARLY"), "2028-12-31");
+ * // => ["2026-08-01", "2027-08-01", "2028-08-01"]
+ */
+export function listRecurrenceStarts(
+  startDate: string,
+  rule: RecurrenceRule,
+  through: string,
+  from?: string | null
+): string[] {
+  const start = toDayNumber(startDate);
+  const throughDay = toDayNumber(through);
+  if (start === null || throughDay === null) return [];
+  const untilDay = rule.until ? toDayNumber(rule.until) : null;
+  const last = untilDay === null ? throughDay : Math.min(throughDay, untilDay);
+  const lower = Math.max(start, toDayNumber(from) ?? start);
+  const count = rule.count ?? Number.POSITIVE_INFINITY;
+
+  const starts: number[] = [];
+  // COUNT は初回からの回数なので、範囲より前の回も数える
+  let seen = 0;
+  const visit = (day: number) => {
+    seen += 1;
+    if (day >= lower) starts.push(day);
+  };
+  visit(start);
+  const firstPeriod = rule.count === null ? findFirstPeriod(rule, start, lower) : 0;
+  const isFull = () => seen >= count || starts.length >= RECURRENCE_MAX_OCCURRENCES;
+  for (let period = firstPeriod; period < firstPeriod + RECURRENCE_MAX_PERIODS && !isFull(); period += 1) {
+    const candidates = listPeriodStarts(rule, start, period);
+    // 候補のない周期（31 日がない月など）は飛ばし、上限を超えた周期で打ち切る
+    if (candidates.length > 0 && candidates[0] > last) break;
+    for (const day of candidates) {
+      if (day <= start) continue;
+      if (day > last || isFull()) break;
+      visit(day);
+    }
+  }
+  return starts.filter((day) => day <= last).map(fromDayNumber);
+}
+
+/**
+ * イベントの繰り返しルールを読む（未設定・不正なルールは単発として扱う）。
+ *
+ * @param event - イベント
+ * @returns 繰り返しルール（単発なら null）
+ * @example
+ * readEventRecurrence({ id: 1, title: "よ市", recurrence_rule: "FREQ=WEEKLY" });
+ */
+export function readEventRecurrence(event: Pick<Event, "recurrence_rule">): RecurrenceRule | null {
+  if (!event.recurrence_rule) return null;
+  try {
+    return parseRecurrenceRule(event.recurrence_rule);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * イベントを期間内の各回に展開する。
+ *
+ * 各回は元のイベントの `start_date` / `end_date` をその回の日付に置き換えたもので、ID は元のイベントと同じ。
+ * 繰り返しのないイベントは期間と重なればそのまま含め、開始日のないイベントは含めない。
+ * 開催期間（`end_date - start_date`）は各回で保ち、`recurrence_exdates` の日に始まる回は除く。
+ *
+ * @param events - イベント
+ * @param range - 展開する期間
+ * @returns 期間と重なる各回（開始日順）
+ * @example
+ * expandEventOccurrences(events, { from: "2026-08-01", to: "2026-08-31" });
+ */
+export function expandEventOccurrences<T extends Event>(events: T[], range: OccurrenceRange): T[] {
+  const from = toDayNumber(range.from);
+  const to = toDayNumber(range.to);
+  if (from === null || to === null) return [];
+
+  return events
+    .flatMap((event) => {
+      const start = toDayNumber(event.start_date);
+      if (start === null) return [];
+      const duration = Math.max(0, (toDayNumber(event.end_date) ?? start) - start);
+      const rule = readEventRecurrence(event);
+      if (!rule) {
+        return start <= to && start + duration >= from ? [event] : [];
+      }
+
+      const excluded = new Set((event.recurrence_exdates ?? []).map((day) => day.slice(0, 10)));
+      // 期間の開始日より前に始まっても、開催期間が期間にかかる回は含める
+      return listRecurrenceStarts(event.start_date as string, rule, range.to, fromDayNumber(from - duration))
+        .filter((day) => !excluded.has(day))
+        .flatMap((day) => {
+          const occurrenceStart = toDayNumber(day) as number;
+          if (occurrenceStart + duration < from) return [];
+          return [
+            {
+              ...event,
+              start_date: day,
+              end_date: event.end_date ? fromDayNumber(occurrenceStart + duration) : event.end_date,
+            },
+          ];
+        });
+    })
+    .sort((left, right) => (left.start_date ?? "").localeCompare(right.start_date ?? "") || left.id - right.id);
+}
+
+/** 1 周期の最大日数（直近の回を探す範囲の見積もりに使う） */
+const PERIOD_MAX_DAYS: Record<RecurrenceFrequency, number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 };
+
+/**
+ * 回数か期限のある繰り返しの、最後の回の開始日を返す。
+ *
+ * 期限付きの系列は回数が展開の上限を超えることがあるため、期限の手前から範囲を広げながら探す。
+ *
+ * @param startDate - 初回の開始日
+ * @param rule - 繰り返しルール
+ * @returns 最後の回の開始日（終わりのない系列や回のない系列は null）
+ * @example
+ * findLastRecurrenceStart("2022-01-01", parseRecurrenceRule("FREQ=DAILY;UNTIL=20261231")); // => "2026-12-31"
+ */
+export function findLastRecurrenceStart(startDate: string, rule: RecurrenceRule): string | null {
+  const start = toDayNumber(startDate);
+  if (start === null || (rule.count === null && rule.until === null)) return null;
+  const untilDay = rule.until === null ? null : toDayNumber(rule.until);
+  if (untilDay === null) {
+    const starts = listRecurrenceStarts(startDate, rule, "9999-12-31");
+    return starts[starts.length - 1] ?? null;
+  }
+  for (let span = PERIOD_MAX_DAYS[rule.freq] * rule.interval; ; span *= 2) {
+    const from = Math.max(start, untilDay - span);
+    const starts = listRecurrenceStarts(startDate, rule, rule.until as string, fromDayNumber(from));
+    if (starts.length > 0 || from === start) return starts[starts.length - 1] ?? null;
+  }
+}
+
+/**
+ * 繰り返しイベントの、基準日以降に終わる回を近い順に返す。
+ *
+ * @param event - イベント
+ * @param today - 基準日（`YYYY-MM-DD`）
+ * @param limit - 最大件数
+ * @returns 直近の回（繰り返しのないイベントは空配列）
+ * @example
+ * listUpcomingOccurrences(event, "2026-10-19", 3);
+ */
+export function listUpcomingOccurrences<T extends Event>(event: T, today: string, limit: number): T[] {
+  const rule = readEventRecurrence(event);
+  const todayDay = toDayNumber(today);
+  if (!rule || todayDay === null || limit < 1) return [];
+  // 31 日のない月などで飛ぶ周期があっても足りるよう、1 周期ぶん余分に見る
+  const horizon = PERIOD_MAX_DAYS[rule.freq] * rule.interval * (limit + 1);
+  return expandEventOccurrences([event], { from: today, to: fromDayNumber(todayDay + horizon) }).slice(0, limit);
+}
+
+/**
+ * 繰り返しイベントを、基準日以降に終わる直近の回に置き換える。
+ *
+ * 繰り返しのないイベントと、基準日以降の回がない（終了した）系列はそのまま返す。
+ *
+ * @param event - イベント
+ * @param today - 基準日（`YYYY-MM-DD`）
+ * @returns 直近の回
+ * @example
+ * resolveNextOccurrence(event, "2026-10-19");
+ */
+export function resolveNextOccurrence<T extends Event>(event: T, today: string): T {
+  return listUpcomingOccurrences(event, today, 1)[0] ?? event;
+}
+
+/**
+ * 繰り返しの各回を一意に識別するキーを返す（一覧の key などに使う）。
+ *
+ * @param event - イベントまたは展開した回
+ * @returns `id:開始日` 形式のキー
+ * @example
+ * getOccurrenceKey({ id: 4, start_date: "2026-08-01" }); // => "4:2026-08-01"
+ */
+export function getOccurrenceKey(event: Pick<Event, "id" | "start_date">): string {
+  return `${event.id}:${event.start_date ?? ""}`;
+}
@@ -0,0 +1,24 @@
+import {
+  buildEventSlug,
+  extractEventIdFromSlug,
+  getEventFeedHref,
+  getEventHref,
+  getEventIcsHref,
+} from "@/lib/eventRoutes";
+import { describe, expect, it } from "vitest";
+
+describe("eventRoutes", () => {
+  it("builds readable event slugs", () => {
+    expect(buildEventSlug({ id: 3, title: "Morioka Night Market" })).toBe("3-morioka-night-market");
+    expect(buildEventSlug({ id: 4, title: "平泉ライトアップ" })).toBe("4");
+    expect(getEventHref({ id: 3, title: "Morioka Night Market" })).toBe("/events/3-morioka-night-market");
+    expect(getEventIcsHref({ id: 3 })).toBe("/api/events/3/ics");
+    expect(getEventFeedHref(1)).toBe("/api/events.ics?cityId=1");
+    expect(getEventFeedHref(null)).toBe("/api/events.ics");
+  });
+
+  it("extracts event ids safely", () => {
+    expect(extractEventIdFromSlug("3-morioka-night-market")).toBe(3);
+    expect(extractEventIdFromSlug("night-market")).toBeNull();
+  });
+});
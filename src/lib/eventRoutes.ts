@@ -0,0 +1,64 @@
+import { EVENTS_INDEX_PATH } from "@/lib/config";
+import { extractSpotIdFromSlug, slugifySpotName } from "@/lib/spotRoutes";
+import type { Event } from "@/lib/types";
+
+/**
+ * イベントから公開詳細 URL 用の slug を生成する（スポットと同じ `id-title` 形式）。
+ *
+ * @param event - イベント
+ * @returns `id-title` 形式の slug
+ * @example
+ * buildEventSlug({ id: 3, title: "Morioka Night Market" }); // => "3-morioka-night-market"
+ */
+export function buildEventSlug(event: Pick<Event, "id" | "title">): string {
+  const tail = slugifySpotName(event.title);
+  return tail ? `${event.id}-${tail}` : String(event.id);
+}
+
+/**
+ * イベント詳細ページの公開 URL を返す。
+ *
+ * @param event - イベント
+ * @returns 詳細 URL
+ * @example
+ * getEventHref(event);
+ */
+export function getEventHref(event: Pick<Event, "id" | "title">): string {
+  return `${EVENTS_INDEX_PATH}/${buildEventSlug(event)}`;
+}
+
+/**
+ * イベントの .ics ダウンロード URL を返す。
+ *
+ * @param event - イベント
+ * @returns ダウンロード URL
+ * @example
+ * getEventIcsHref({ id: 3 }); // => "/api/events/3/ics"
+ */
+export function getEventIcsHref(event: Pick<Event, "id">): string {
+  return `/api/events/${event.id}/ics`;
+}
+
+/**
+ * slug からイベント ID を取り出す。
+ *
+ * @param slug - `id-title` 形式の slug
+ * @returns event id。無効値は null
+ * @example
+ * extractEventIdFromSlug("3-morioka-night-market"); // => 3
+ */
+export function extractEventIdFromSlug(slug: string): number | null {
+  return extractSpotIdFromSlug(slug);
+}
+
+/**
+ * イベントの iCalendar 購読フィードの URL を返す。
+ *
+ * @param cityId - 絞り込む市区町村（省略時は全域）
+ * @returns フィード URL
+ * @example
+ * getEventFeedHref(1); // => "/api/events.ics?cityId=1"
+ */
+export function getEventFeedHref(cityId?: number | null): string {
+  return cityId ? `/api/events.ics?cityId=${cityId}` : "/api/events.ics";
+}
@@ -0,0 +1,32 @@
+import { listSpotUpcomingEvents, resolveEventSpots } from "@/lib/eventSpots";
+import type { Event } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const spots = [
+  { id: 1, name: "盛岡城跡公園" },
+  { id: 4, name: "わんこそば体験" },
+];
+
+const events: Event[] = [
+  { id: 1, title: "ナイトマーケット", start_date: "2026-10-24", end_date: "2026-10-25", spot_ids: [4, 1] },
+  { id: 2, title: "終了済み", start_date: "2026-10-01", end_date: "2026-10-02", spot_ids: [1] },
+  { id: 3, title: "材木町よ市", start_date: "2026-04-04", end_date: null, spot_ids: [1], recurrence_rule: "FREQ=WEEKLY" },
+  { id: 4, title: "別会場", start_date: "2026-10-20", end_date: null, spot_ids: [2] },
+];
+
+describe("eventSpots", () => {
+  it("resolves venue spots in spot_ids order and skips unknown ids", () => {
+    expect(resolveEventSpots({ spot_ids: [4, 9, 1] }, spots).map((spot) => spot.id)).toEqual([4, 1]);
+    expect(resolveEventSpots({ spot_ids: null }, spots)).toEqual([]);
+  });
+
+  it("lists upcoming events at a spot using the next occurrence of recurring events", () => {
+    const upcoming = listSpotUpcomingEvents(1, events, "2026-10-19");
+
+    expect(upcoming.map((event) => [event.id, event.start_date])).toEqual([
+      [1, "2026-10-24"],
+      [3, "2026-10-24"],
+    ]);
+    expect(listSpotUpcomingEvents(1, events, "2026-10-19", 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { resolveNextOccurrence } from "@/lib/eventRecurrence";
+import type { Event, Spot } from "@/lib/types";
+
+/**
+ * イベントに紐づく会場スポットを `spot_ids` の順に返す（削除済みなど見つからない ID は除く）。
+ *
+ * @param event - イベント
+ * @param spots - スポット
+ * @returns 会場スポット（先頭が主会場）
+ * @example
+ * resolveEventSpots({ id: 1, title: "夜市", spot_ids: [4, 1] }, spots);
+ */
+export function resolveEventSpots<T extends Pick<Spot, "id">>(event: Pick<Event, "spot_ids">, spots: T[]): T[] {
+  const spotById = new Map(spots.map((spot) => [spot.id, spot]));
+  return (event.spot_ids ?? []).flatMap((spotId) => spotById.get(spotId) ?? []);
+}
+
+/**
+ * スポットで開催中・開催予定のイベントを返す。繰り返しイベントは直近の回に置き換える。
+ *
+ * @param spotId - スポット ID
+ * @param events - イベント
+ * @param today - 基準日（`YYYY-MM-DD`）
+ * @param limit - 最大件数
+ * @returns 基準日以降に終わるイベント（開始日順）
+ * @example
+ * listSpotUpcomingEvents(1, events, "2026-10-19", 3);
+ */
+export function listSpotUpcomingEvents<T extends Event>(spotId: number, events: T[], today: string, limit = 5): T[] {
+  return events
+    .filter((event) => event.spot_ids?.includes(spotId))
+    .map((event) => resolveNextOccurrence(event, today))
+    .filter((event) => {
+      const lastDay = (event.end_date ?? event.start_date)?.slice(0, 10);
+      return Boolean(lastDay) && (lastDay as string) >= today;
+    })
+    .sort((left, right) => (left.start_date ?? "").localeCompare(right.start_date ?? "") || left.id - right.id)
+    .slice(0, limit);
+}
@@ -0,0 +1,91 @@
+import {
+  advanceGeofence,
+  buildSimulatedFix,
+  EXPLORE_DWELL_MS,
+  EXPLORE_RENOTIFY_MS,
+  INITIAL_GEOFENCE_STATE,
+  parseSimulatedLocation,
+  resolveExploreProfile,
+  type ExploreFix,
+  type GeofenceState,
+} from "@/lib/exploreMode";
+import type { Spot } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const baseSpot = { description: "", genre_id: 1, city_id: 1 };
+const spots: Spot[] = [
+  { ...baseSpot, id: 1, name: "盛岡城跡公園", lat: 39.7021, lng: 141.1527 },
+  { ...baseSpot, id: 2, name: "中尊寺", lat: 38.9865, lng: 141.1176 },
+];
+const atCastle = (timestamp: number, accuracy = 15): ExploreFix => ({ lat: 39.7025, lng: 141.1527, accuracy, timestamp });
+
+/**
+ * 測位値を順に判定し、通知されたスポット ID を測位ごとに返す。
+ *
+ * @param fixes - 測位値
+ * @param stamped - スタンプ済みのスポット ID
+ * @returns 最終状態と測位ごとの通知
+ */
+function run(fixes: ExploreFix[], stamped: number[] = []) {
+  let state: GeofenceState = INITIAL_GEOFENCE_STATE;
+  const notified = fixes.map((fix) => {
+    const result = advanceGeofence(state, fix, spots, new Set(stamped));
+    state = result.state;
+    return result.entered.map((entry) => entry.spot.id);
+  });
+  return { state, notified };
+}
+
+describe("exploreMode", () => {
+  it("notifies only after dwelling inside the stamp radius", () => {
+    const { notified } = run([atCastle(0), atCastle(5000), atCastle(EXPLORE_DWELL_MS)]);
+
+    expect(notified).toEqual([[], [], [1]]);
+  });
+
+  it("skips stamped spots, coarse fixes and repeated notifications", () => {
+    expect(run([atCastle(0), atCastle(EXPLORE_DWELL_MS)], [1]).notified).toEqual([[], []]);
+    expect(run([atCastle(0, 1000), atCastle(EXPLORE_DWELL_MS, 1000)]).notified).toEqual([[], []]);
+
+    const { notified } = run([
+      atCastle(0),
+      atCastle(EXPLORE_DWELL_MS),
+      atCastle(EXPLORE_DWELL_MS * 2),
+      atCastle(EXPLORE_DWELL_MS + EXPLORE_RENOTIFY_MS),
+    ]);
+    expect(notified).toEqual([[], [1], [], [1]]);
+  });
+
+  it("keeps the dwell near the boundary and resets it after leaving", () => {
+    // 約 220m 北（退出半径の内側）と約 1.1km 北（退出半径の外側）
+    const nearEdge = (timestamp: number): ExploreFix => ({ lat: 39.7041, lng: 141.1527, accuracy: 15, timestamp });
+    const away = (timestamp: number): ExploreFix => ({ lat: 39.7121, lng: 141.1527, accuracy: 15, timestamp });
+
+    expect(run([atCastle(0), nearEdge(4000), atCastle(EXPLORE_DWELL_MS)]).notified).toEqual([[], [], [1]]);
+    expect(run([atCastle(0), away(4000), atCastle(EXPLORE_DWELL_MS)]).notified).toEqual([[], [], []]);
+  });
+
+  it("throttles fixes that arrive faster than the power profile allows", () => {
+    const first = advanceGeofence(INITIAL_GEOFENCE_STATE, atCastle(0), spots, new Set(), { minIntervalMs: 15000 });
+    const throttled = advanceGeofence(first.state, atCastle(5000), spots, new Set(), { minIntervalMs: 15000 });
+
+    expect(throttled.state).toBe(first.state);
+    expect(first.state.inside[1]).toEqual({ enteredAt: 0, fixes: 1 });
+  });
+
+  it("chooses the power profile from the battery state", () => {
+    expect(resolveExploreProfile(null)).toBe("balanced");
+    expect(resolveExploreProfile({ level: 0.1, charging: true })).toBe("high");
+    expect(resolveExploreProfile({ level: 0.8, charging: false })).toBe("high");
+    expect(resolveExploreProfile({ level: 0.35, charging: false })).toBe("balanced");
+    expect(resolveExploreProfile({ level: 0.2, charging: false })).toBe("saver");
+  });
+
+  it("parses simulated locations", () => {
+    expect(parseSimulatedLocation("39.7021, 141.1527")).toEqual({ lat: 39.7021, lng: 141.1527 });
+    expect(parseSimulatedLocation("39.7021")).toBeNull();
+    expect(parseSimulatedLocation("91,141")).toBeNull();
+    expect(parseSimulatedLocation(undefined)).toBeNull();
+    expect(buildSimulatedFix({ lat: 39.7, lng: 141.1 }, 42)).toEqual({ lat: 39.7, lng: 141.1, accuracy: 10, timestamp: 42 });
+  });
+});
@@ -0,0 +1,202 @@
+import { haversineDistance } from "@/lib/geo";
+import { STAMP_MAX_ACCURACY, STAMP_RADIUS, type StampPositionFix } from "@/lib/stamps";
+import type { Spot } from "@/lib/types";
+
+/** 圏内に入ったとみなすまでに必要な滞在時間（ms）。GPS の揺れで一瞬だけ入った場合は通知しない */
+export const EXPLORE_DWELL_MS = 10_000;
+
+/** 圏内に入ったとみなすまでに必要な連続測位回数 */
+export const EXPLORE_MIN_FIXES = 2;
+
+/** 通知を閉じたスポットを再び通知するまでの間隔（ms） */
+export const EXPLORE_RENOTIFY_MS = 30 * 60 * 1000;
+
+/** 圏外に出たとみなす半径（m）。境界付近で入退場を繰り返さないよう `STAMP_RADIUS` より広くとる */
+export const EXPLORE_EXIT_RADIUS = STAMP_RADIUS * 1.25;
+
+/**
+ * 通知の判定に使う測位精度の上限（m）。
+ *
+ * 省電力時の粗い測位でも気付けるよう `STAMP_MAX_ACCURACY` より緩くし、
+ * スタンプを押す時に高精度で測り直す。
+ */
+export const EXPLORE_MAX_TRIGGER_ACCURACY = STAMP_MAX_ACCURACY * 3;
+
+/** シミュレーション位置を流す間隔（ms） */
+export const SIMULATED_FIX_INTERVAL_MS = 3000;
+
+/** シミュレーション位置の測位精度（m） */
+export const SIMULATED_FIX_ACCURACY = 10;
+
+/** 電池残量に応じた測位の設定 */
+export type ExplorePowerProfile = "high" | "balanced" | "saver";
+
+/** Battery Status API から読み取る電池の状態 */
+export type BatteryStatus = {
+  /** 残量（0〜1） */
+  level: number;
+  charging: boolean;
+};
+
+/** watchPosition に渡す設定と、測位結果を判定に使う最短間隔 */
+export type ExploreWatchSettings = {
+  enableHighAccuracy: boolean;
+  maximumAge: number;
+  timeout: number;
+  /** 前回の判定からこの時間（ms）が経つまで次の測位を判定しない */
+  minIntervalMs: number;
+};
+
+/** 時刻付きの測位値 */
+export type ExploreFix = StampPositionFix & {
+  /** 測位時刻（epoch ms） */
+  timestamp: number;
+};
+
+/** 圏内に入ったスポット */
+export type GeofenceEntry = {
+  spot: Spot;
+  distance: number;
+};
+
+/** 圏内判定の途中経過 */
+export type GeofenceState = {
+  /** スポット ID ごとの圏内に入った時刻と連続測位回数 */
+  inside: Record<number, { enteredAt: number; fixes: number }>;
+  /** スポット ID ごとの最後に通知した時刻 */
+  notifiedAt: Record<number, number>;
+  /** 最後に判定した測位の時刻 */
+  lastEvaluatedAt: number | null;
+};
+
+/** 圏内判定の調整値 */
+export type GeofenceOptions = {
+  dwellMs?: number;
+  minFixes?: number;
+  renotifyMs?: number;
+  minIntervalMs?: number;
+};
+
+export const EXPLORE_WATCH_SETTINGS: Record<ExplorePowerProfile, ExploreWatchSettings> = {
+  high: { enableHighAccuracy: true, maximumAge: 5000, timeout: 15000, minIntervalMs: 5000 },
+  balanced: { enableHighAccuracy: true, maximumAge: 15000, timeout: 20000, minIntervalMs: 15000 },
+  saver: { enableHighAccuracy: false, maximumAge: 60000, timeout: 30000, minIntervalMs: 60000 },
+};
+
+export const INITIAL_GEOFENCE_STATE: GeofenceState = { inside: {}, notifiedAt: {}, lastEvaluatedAt: null };
+
+/**
+ * 電池の状態から測位の設定を選ぶ。
+ *
+ * 充電中と残量 50% 超は高精度、20% 以下は省電力、それ以外と状態不明は中間の設定にする。
+ *
+ * @param battery - 電池の状態（取得できない場合は null）
+ * @returns 測位の設定名
+ * @example
+ * resolveExploreProfile({ level: 0.15, charging: false }); // => "saver"
+ */
+export function resolveExploreProfile(battery: BatteryStatus | null): ExplorePowerProfile {
+  if (!battery) return "balanced";
+  if (battery.charging || battery.level > 0.5) return "high";
+  if (battery.level <= 0.2) return "saver";
+  return "balanced";
+}
+
+/**
+ * 探索モードの測位値を受け取り、新たに圏内へ入ったスポットを返す。
+ *
+ * 未スタンプのスポットについて `STAMP_RADIUS` 以内に `dwellMs` 以上かつ `minFixes` 回以上
+ * 続けて留まった時だけ通知する。通知済みのスポットは `renotifyMs` が経つまで再通知しない。
+ * 前回の判定から `minIntervalMs` 未満の測位と、精度が粗すぎる測位は無視する。
+ *
+ * @param state - これまでの判定状態
+ * @param fix - 新しい測位値
+ * @param spots - 対象スポット
+ * @param stampedSpotIds - スタンプ済みのスポット ID
+ * @param options - 判定の調整値
+ * @returns 次の判定状態と新たに通知するスポット（近い順）
+ * @example
+ * const { state: next, entered } = advanceGeofence(state, fix, spots, new Set([1]));
+ */
+export function advanceGeofence(
+  state: GeofenceState,
+  fix: ExploreFix,
+  spots: Spot[],
+  stampedSpotIds: ReadonlySet<number>,
+  options: GeofenceOptions = {}
+): { state: GeofenceState; entered: GeofenceEntry[] } {
+  const {
+    dwellMs = EXPLORE_DWELL_MS,
+    minFixes = EXPLORE_MIN_FIXES,
+    renotifyMs = EXPLORE_RENOTIFY_MS,
+    minIntervalMs = 0,
+  } = options;
+
+  if (state.lastEvaluatedAt !== null && fix.timestamp - state.lastEvaluatedAt < minIntervalMs) {
+    return { state, entered: [] };
+  }
+  if (!Number.isFinite(fix.accuracy) || fix.accuracy <= 0 || fix.accuracy > EXPLORE_MAX_TRIGGER_ACCURACY) {
+    return { state: { ...state, lastEvaluatedAt: fix.timestamp }, entered: [] };
+  }
+
+  const inside: GeofenceState["inside"] = {};
+  const notifiedAt = { ...state.notifiedAt };
+  const entered: GeofenceEntry[] = [];
+
+  for (const spot of spots) {
+    if (stampedSpotIds.has(spot.id)) continue;
+    const distance = haversineDistance(fix.lat, fix.lng, spot.lat, spot.lng);
+    const previous = state.inside[spot.id];
+
+    if (distance > STAMP_RADIUS) {
+      // 境界の少し外では滞在を維持し、出入りの繰り返しで数え直さない
+      if (previous && distance <= EXPLORE_EXIT_RADIUS) inside[spot.id] = previous;
+      continue;
+    }
+
+    const current = previous
+      ? { enteredAt: previous.enteredAt, fixes: previous.fixes + 1 }
+      : { enteredAt: fix.timestamp, fixes: 1 };
+    inside[spot.id] = current;
+
+    const lastNotified = notifiedAt[spot.id];
+    const settled = current.fixes >= minFixes && fix.timestamp - current.enteredAt >= dwellMs;
+    const cooledDown = lastNotified === undefined || fix.timestamp - lastNotified >= renotifyMs;
+    if (settled && cooledDown) {
+      notifiedAt[spot.id] = fix.timestamp;
+      entered.push({ spot, distance });
+    }
+  }
+
+  entered.sort((left, right) => left.distance - right.distance);
+  return { state: { inside, notifiedAt, lastEvaluatedAt: fix.timestamp }, entered };
+}
+
+/**
+ * `lat,lng` 形式の文字列をシミュレーション位置として読み取る。
+ *
+ * @param value - URL クエリなどの文字列
+ * @returns 地点（不正な値なら null）
+ * @example
+ * parseSimulatedLocation("39.7021,141.1527"); // => { lat: 39.7021, lng: 141.1527 }
+ */
+export function parseSimulatedLocation(value: string | null | undefined): { lat: number; lng: number } | null {
+  const parts = (value ?? "").split(",").map((part) => part.trim());
+  if (parts.length !== 2 || parts.some((part) => part === "")) return null;
+  const [lat, lng] = parts.map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * シミュレーション位置を測位値として扱えるようにする。
+ *
+ * @param point - シミュレーション位置
+ * @param timestamp - 測位時刻（epoch ms）
+ * @returns 測位値
+ * @example
+ * buildSimulatedFix({ lat: 39.7021, lng: 141.1527 }, Date.now());
+ */
+export function buildSimulatedFix(point: { lat: number; lng: number }, timestamp: number): ExploreFix {
+  return { lat: point.lat, lng: point.lng, accuracy: SIMULATED_FIX_ACCURACY, timestamp };
+}
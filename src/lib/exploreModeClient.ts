@@ -0,0 +1,373 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { useAuthSession } from "@/components/auth/SessionProvider";
+import {
+  advanceGeofence,
+  buildSimulatedFix,
+  EXPLORE_WATCH_SETTINGS,
+  INITIAL_GEOFENCE_STATE,
+  resolveExploreProfile,
+  SIMULATED_FIX_INTERVAL_MS,
+  type BatteryStatus,
+  type ExploreFix,
+  type GeofenceEntry,
+} from "@/lib/exploreMode";
+import { useStampQueue } from "@/lib/stampQueueClient";
+import { describeStampRejection, isStampRejectReason, verifyStampProximity } from "@/lib/stamps";
+import { ensurePublicUser, fetchUserStamps } from "@/lib/supabaseClient";
+import type { Spot, Stamp } from "@/lib/types";
+
+const STORAGE_KEY = "iwate150_explore_mode_v1";
+
+const listeners = new Set<() => void>();
+
+type BatteryManagerLike = BatteryStatus & EventTarget;
+
+type ExploreMessage = { type: "success" | "error"; text: string };
+
+type Options = {
+  spots: Spot[];
+  /** シミュレーション位置を使えるようにする（開発時と `simulate` クエリ指定時） */
+  canSimulate?: boolean;
+  /** 初期表示で使うシミュレーション位置 */
+  initialSimulatedPosition?: { lat: number; lng: number } | null;
+};
+
+/**
+ * 探索モードの ON/OFF を読み込む（未保存は OFF）。
+ *
+ * @returns ON なら true
+ * @example
+ * readEnabled();
+ */
+function readEnabled(): boolean {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 探索モードの ON/OFF の変更を購読する（別タブでの変更も反映する）。
+ *
+ * @param listener - 変更通知
+ * @returns 購読解除関数
+ * @example
+ * const unsubscribe = subscribe(() => {});
+ */
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+/**
+ * 画面の表示状態の変更を購読する。
+ *
+ * @param listener - 変更通知
+ * @returns 購読解除関数
+ * @example
+ * const unsubscribe = subscribeVisibility(() => {});
+ */
+function subscribeVisibility(listener: () => void): () => void {
+  document.addEventListener("visibilitychange", listener);
+  return () => document.removeEventListener("visibilitychange", listener);
+}
+
+/**
+ * 現在地を高精度で 1 回測る。
+ *
+ * @returns 時刻付きの測位値
+ * @example
+ * const fix = await requestPreciseFix();
+ */
+function requestPreciseFix(): Promise<ExploreFix> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Geolocation is not supported."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          timestamp: position.timestamp,
+        }),
+      reject,
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+    );
+  });
+}
+
+/**
+ * 探索モード（地図表示中に現在地を追い続け、未スタンプのスポットの圏内に入ったら知らせる）を扱う hook。
+ *
+ * 測位の精度と間隔は電池残量で切り替え、画面が非表示の間は測位を止める。
+ * シミュレーション位置を使うと実際に歩かずに通知を確かめられる（その間のスタンプは記録しない）。
+ *
+ * @param options - 対象スポットとシミュレーションの設定
+ * @returns 探索モードの状態・通知・スタンプ操作
+ * @example
+ * const explore = useExploreMode({ spots });
+ */
+export function useExploreMode({ spots, canSimulate = false, initialSimulatedPosition = null }: Options) {
+  const { user } = useAuthSession();
+  const stampQueue = useStampQueue();
+  const enabled = useSyncExternalStore(subscribe, readEnabled, () => false);
+  const isVisible = useSyncExternalStore(
+    subscribeVisibility,
+    () => document.visibilityState !== "hidden",
+    () => true
+  );
+  const [battery, setBattery] = useState<BatteryStatus | null>(null);
+  const [simulatedPosition, setSimulatedPosition] = useState(canSimulate ? initialSimulatedPosition : null);
+  const [lastFix, setLastFix] = useState<ExploreFix | null>(null);
+  const [stamps, setStamps] = useState<Stamp[]>([]);
+  const [alerts, setAlerts] = useState<GeofenceEntry[]>([]);
+  const [stampingSpotId, setStampingSpotId] = useState<number | null>(null);
+  const [message, setMessage] = useState<ExploreMessage | null>(null);
+  const [trackingError, setTrackingError] = useState<string | null>(null);
+  const geofenceRef = useRef(INITIAL_GEOFENCE_STATE);
+
+  const isSimulating = canSimulate && simulatedPosition !== null;
+  const profile = resolveExploreProfile(battery);
+  const settings = EXPLORE_WATCH_SETTINGS[profile];
+
+  const stampedSpotIds = useMemo(() => {
+    const ids = new Set(stamps.map((stamp) => stamp.spot_id));
+    stampQueue.entries.forEach((entry) => {
+      if (entry.status !== "rejected") ids.add(entry.spotId);
+    });
+    return ids;
+  }, [stampQueue.entries, stamps]);
+
+  const spotsRef = useRef(spots);
+  const stampedRef = useRef(stampedSpotIds);
+  useEffect(() => {
+    spotsRef.current = spots;
+    stampedRef.current = stampedSpotIds;
+  }, [spots, stampedSpotIds]);
+
+  const setEnabled = useCallback((next: boolean) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next ? "1" : "0");
+    } catch {
+      // ignore quota / private mode errors
+    }
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  // 電池の状態を追い、残量と充電の変化で測位の設定を切り替える
+  useEffect(() => {
+    if (!enabled) return;
+    const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManagerLike> }).getBattery;
+    if (!getBattery) return;
+
+    let manager: BatteryManagerLike | null = null;
+    let cancelled = false;
+    const update = () => {
+      if (manager) setBattery({ level: manager.level, charging: manager.charging });
+    };
+    void getBattery
+      .call(navigator)
+      .then((loaded) => {
+        if (cancelled) return;
+        manager = loaded;
+        update();
+        loaded.addEventListener("levelchange", update);
+        loaded.addEventListener("chargingchange", update);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      manager?.removeEventListener("levelchange", update);
+      manager?.removeEventListener("chargingchange", update);
+    };
+  }, [enabled]);
+
+  // スタンプ済みのスポットは通知しないため、ログイン中は取得済みスタンプを読み込む
+  useEffect(() => {
+    if (!enabled || !user?.id) return;
+    let cancelled = false;
+    void (async () => {
+      const ensured = await ensurePublicUser(user.id, user.email ?? "");
+      if (!ensured || cancelled) return;
+      const loaded = await fetchUserStamps(ensured.id);
+      if (!cancelled) setStamps(loaded);
+    })().catch((error) => console.error("[explore] stamp load failed", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, user]);
+
+  /**
+   * 測位値を判定し、新たに圏内へ入ったスポットを通知に加える。
+   *
+   * @param fix - 測位値
+   * @param minIntervalMs - 前回の判定からの最短間隔
+   * @returns なし
+   * @example
+   * handleFix(fix, 5000);
+   */
+  const handleFix = useCallback((fix: ExploreFix, minIntervalMs: number) => {
+    setLastFix(fix);
+    const { state, entered } = advanceGeofence(geofenceRef.current, fix, spotsRef.current, stampedRef.current, {
+      minIntervalMs,
+    });
+    geofenceRef.current = state;
+    if (entered.length === 0) return;
+    setAlerts((current) => [
+      ...current,
+      ...entered.filter((entry) => !current.some((alert) => alert.spot.id === entry.spot.id)),
+    ]);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !isVisible) return;
+
+    if (isSimulating && simulatedPosition) {
+      const emit = () => handleFix(buildSimulatedFix(simulatedPosition, Date.now()), 0);
+      const timeoutId = window.setTimeout(emit, 0);
+      const intervalId = window.setInterval(emit, SIMULATED_FIX_INTERVAL_MS);
+      return () => {
+        window.clearTimeout(timeoutId);
+        window.clearInterval(intervalId);
+      };
+    }
+
+    if (!navigator.geolocation) return;
+    const { minIntervalMs, ...watchOptions } = settings;
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setTrackingError(null);
+        handleFix(
+          {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            timestamp: position.timestamp,
+          },
+          minIntervalMs
+        );
+      },
+      () => setTrackingError("位置情報を取得できないため、探索モードの通知を止めています。"),
+      watchOptions
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled, handleFix, isSimulating, isVisible, settings, simulatedPosition]);
+
+  const dismiss = useCallback((spotId: number) => {
+    setAlerts((current) => current.filter((alert) => alert.spot.id !== spotId));
+  }, []);
+
+  /**
+   * 通知されたスポットでスタンプを押す。
+   *
+   * 実際の位置では高精度で測り直してから申請し、圏外ならオフラインキューへ保存する。
+   * シミュレーション中は距離の判定結果だけを表示する。
+   *
+   * @param spot - 対象スポット
+   * @returns なし
+   * @example
+   * await stamp(alert.spot);
+   */
+  const stamp = useCallback(
+    async (spot: Spot) => {
+      if (isSimulating) {
+        const fix = lastFix ?? (simulatedPosition ? buildSimulatedFix(simulatedPosition, Date.now()) : null);
+        const result = fix ? verifyStampProximity(spot, fix) : null;
+        setMessage(
+          result?.ok
+            ? { type: "success", text: `シミュレーション中のため記録しません（${spot.name}でスタンプを押せる位置です）。` }
+            : { type: "error", text: result ? describeStampRejection(result.reason) : "位置が決まっていません。" }
+        );
+        dismiss(spot.id);
+        return;
+      }
+      if (!user) {
+        setMessage({ type: "error", text: "スタンプを押すにはログインが必要です。" });
+        return;
+      }
+
+      setStampingSpotId(spot.id);
+      setMessage(null);
+      let fix: ExploreFix | null = null;
+      try {
+        fix = await requestPreciseFix();
+        if (!navigator.onLine && stampQueue.isSupported) {
+          await stampQueue.enqueue(spot.id, fix, new Date(fix.timestamp));
+          setMessage({ type: "success", text: "オフラインのためスタンプを端末に保存しました。電波が戻ると自動で送信します。" });
+          dismiss(spot.id);
+          return;
+        }
+
+        // 距離判定とユーザー特定はサーバー側で再検証する
+        const response = await fetch("/api/stamps", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ spot_id: spot.id, lat: fix.lat, lng: fix.lng, accuracy: fix.accuracy }),
+        });
+        const payload = (await response.json().catch(() => ({}))) as { stamp?: Stamp; reason?: unknown };
+        if (response.ok && payload.stamp) {
+          const created = payload.stamp;
+          setStamps((current) => [created, ...current]);
+          setMessage({ type: "success", text: `${spot.name}のスタンプを獲得しました！` });
+          dismiss(spot.id);
+          return;
+        }
+        setMessage({
+          type: "error",
+          text: isStampRejectReason(payload.reason)
+            ? describeStampRejection(payload.reason)
+            : "スタンプの登録に失敗しました。",
+        });
+      } catch (error) {
+        console.error("[explore] stamp failed", error);
+        if (fix && stampQueue.isSupported) {
+          await stampQueue.enqueue(spot.id, fix, new Date(fix.timestamp)).catch(() => null);
+          setMessage({ type: "success", text: "通信できないためスタンプを端末に保存しました。電波が戻ると自動で送信します。" });
+          dismiss(spot.id);
+          return;
+        }
+        setMessage({ type: "error", text: fix ? "スタンプの登録に失敗しました。" : "現在地を取得できませんでした。" });
+      } finally {
+        setStampingSpotId(null);
+      }
+    },
+    [dismiss, isSimulating, lastFix, simulatedPosition, stampQueue, user]
+  );
+
+  return {
+    enabled,
+    setEnabled,
+    profile,
+    battery,
+    isTracking: enabled && isVisible,
+    /** 探索モード中の最新の位置（OFF の間は null） */
+    position: enabled ? lastFix : null,
+    trackingError: enabled ? trackingError : null,
+    canSimulate,
+    isSimulating,
+    simulatedPosition,
+    setSimulatedPosition,
+    alerts: enabled ? alerts : [],
+    dismiss,
+    stamp,
+    stampingSpotId,
+    message,
+    clearMessage: () => setMessage(null),
+    isSignedIn: Boolean(user),
+  };
+}
+
+export type ExploreModeController = ReturnType<typeof useExploreMode>;
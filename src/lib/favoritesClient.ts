@@ -0,0 +1,250 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { useAuthSession } from "@/components/auth/SessionProvider";
+import { isSupabaseAuthConfigured } from "@/lib/auth";
+
+type FavoritesStatus = "idle" | "loading" | "ready" | "error";
+type FavoritesSnapshot = {
+  ownerId: string | null;
+  status: FavoritesStatus;
+  spotIds: number[];
+};
+
+const LOCAL_STORAGE_KEY_PREFIX = "iwate150_favorites_v1";
+const EMPTY_SNAPSHOT: FavoritesSnapshot = { ownerId: null, status: "idle", spotIds: [] };
+
+let snapshot: FavoritesSnapshot = EMPTY_SNAPSHOT;
+const listeners = new Set<() => void>();
+
+/**
+ * ストアの状態を差し替えて購読者へ通知する。
+ *
+ * @param next - 次の状態
+ * @returns void
+ * @example
+ * setSnapshot({ ownerId: "user_1", status: "ready", spotIds: [1] });
+ */
+function setSnapshot(next: FavoritesSnapshot): void {
+  snapshot = next;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * ストア変更を購読する。
+ *
+ * @param listener - 変更通知
+ * @returns 購読解除関数
+ * @example
+ * const unsubscribe = subscribe(() => {});
+ */
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * モックモード（Supabase 未設定）で localStorage を保存先にするか判定する。
+ *
+ * @returns localStorage を使う場合 true
+ * @example
+ * if (isLocalFavoritesMode()) { ... }
+ */
+function isLocalFavoritesMode(): boolean {
+  return !isSupabaseAuthConfigured();
+}
+
+/**
+ * localStorage 用のキーを生成する。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns localStorage key
+ * @example
+ * buildLocalStorageKey("user_1");
+ */
+function buildLocalStorageKey(ownerId: string): string {
+  return `${LOCAL_STORAGE_KEY_PREFIX}:${ownerId}`;
+}
+
+/**
+ * localStorage からお気に入りスポット ID を読み込む。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns スポット ID 配列
+ * @example
+ * readLocalFavorites("user_1");
+ */
+function readLocalFavorites(ownerId: string): number[] {
+  try {
+    const raw = window.localStorage.getItem(buildLocalStorageKey(ownerId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((value): value is number => Number.isInteger(value) && value > 0);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * お気に入りスポット ID を localStorage へ保存する。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @param spotIds - スポット ID 配列
+ * @returns void
+ * @example
+ * writeLocalFavorites("user_1", [1, 2]);
+ */
+function writeLocalFavorites(ownerId: string, spotIds: number[]): void {
+  try {
+    window.localStorage.setItem(buildLocalStorageKey(ownerId), JSON.stringify(spotIds));
+  } catch {
+    // ignore quota / private mode errors
+  }
+}
+
+/**
+ * ログインユーザーのお気に入りを読み込む。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns void
+ * @example
+ * await loadFavorites("user_1");
+ */
+async function loadFavorites(ownerId: string): Promise<void> {
+  if (isLocalFavoritesMode()) {
+    setSnapshot({ ownerId, status: "ready", spotIds: readLocalFavorites(ownerId) });
+    return;
+  }
+
+  setSnapshot({ ownerId, status: "loading", spotIds: [] });
+  try {
+    const response = await fetch("/api/favorites", { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(`favorites api error: ${response.status}`);
+    }
+    const payload = (await response.json()) as { items?: Array<{ spot_id: number }> };
+    if (snapshot.ownerId !== ownerId) return;
+    setSnapshot({
+      ownerId,
+      status: "ready",
+      spotIds: (payload.items ?? []).map((item) => item.spot_id),
+    });
+  } catch (error) {
+    console.error("[favorites] load failed", error);
+    if (snapshot.ownerId !== ownerId) return;
+    setSnapshot({ ownerId, status: "error", spotIds: [] });
+  }
+}
+
+/**
+ * 1 スポット分のお気に入り状態だけを切り替え前に戻す。
+ *
+ * @param current - 現在のスポット ID 配列
+ * @param previous - 切り替え前のスポット ID 配列
+ * @param spotId - 戻すスポット ID
+ * @returns 対象スポットだけを戻したスポット ID 配列
+ * @example
+ * restoreSpotId([2], [3, 1], 3); // => [3, 2]
+ */
+function restoreSpotId(current: number[], previous: number[], spotId: number): number[] {
+  const restored = current.filter((id) => id !== spotId);
+  const index = previous.indexOf(spotId);
+  if (index >= 0) restored.splice(Math.min(index, restored.length), 0, spotId);
+  return restored;
+}
+
+/**
+ * お気に入り状態を切り替える（楽観的更新、失敗時は対象スポットだけ巻き戻し）。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @param spotId - 対象スポット ID
+ * @returns 切り替え後にお気に入りなら true
+ * @throws Error API 失敗時
+ * @example
+ * await toggleFavoriteFor("user_1", 3);
+ */
+async function toggleFavoriteFor(ownerId: string, spotId: number): Promise<boolean> {
+  const previous = snapshot;
+  const wasFavorite = previous.spotIds.includes(spotId);
+  const nextIds = wasFavorite
+    ? previous.spotIds.filter((id) => id !== spotId)
+    : [spotId, ...previous.spotIds];
+  setSnapshot({ ownerId, status: "ready", spotIds: nextIds });
+
+  if (isLocalFavoritesMode()) {
+    writeLocalFavorites(ownerId, nextIds);
+    return !wasFavorite;
+  }
+
+  try {
+    const response = wasFavorite
+      ? await fetch(`/api/favorites?spotId=${spotId}`, { method: "DELETE" })
+      : await fetch("/api/favorites", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ spot_id: spotId }),
+        });
+    if (!response.ok) {
+      throw new Error(`favorites api error: ${response.status}`);
+    }
+    return !wasFavorite;
+  } catch (error) {
+    // 並行して成功した他スポットの切り替えを残すため、失敗したスポットだけを元に戻す
+    if (snapshot.ownerId === ownerId) {
+      setSnapshot({ ...snapshot, spotIds: restoreSpotId(snapshot.spotIds, previous.spotIds, spotId) });
+    }
+    throw error;
+  }
+}
+
+/**
+ * ログインユーザーのお気に入り状態を共有ストアから読む hook。
+ *
+ * 同一ページ内の複数ボタン（詳細ページ・地図ポップアップ）で状態を共有する。
+ * Supabase 未設定時は localStorage に保存するため、デモ環境でも動作する。
+ *
+ * @returns お気に入り ID・判定関数・切り替え関数
+ * @example
+ * const { isFavorite, toggleFavorite } = useFavorites();
+ */
+export function useFavorites() {
+  const { user, status: authStatus } = useAuthSession();
+  const ownerId = user?.id ?? null;
+  const state = useSyncExternalStore(subscribe, () => snapshot, () => EMPTY_SNAPSHOT);
+
+  useEffect(() => {
+    if (authStatus === "loading") return;
+    if (!ownerId) {
+      if (snapshot.ownerId !== null) setSnapshot(EMPTY_SNAPSHOT);
+      return;
+    }
+    if (snapshot.ownerId === ownerId && snapshot.status !== "error") return;
+    void loadFavorites(ownerId);
+  }, [authStatus, ownerId]);
+
+  const isOwnedState = ownerId !== null && state.ownerId === ownerId;
+  const spotIds = useMemo(() => (isOwnedState ? state.spotIds : []), [isOwnedState, state.spotIds]);
+  const favoriteIdSet = useMemo(() => new Set(spotIds), [spotIds]);
+
+  const isFavorite = useCallback((spotId: number) => favoriteIdSet.has(spotId), [favoriteIdSet]);
+  const toggleFavorite = useCallback(
+    async (spotId: number) => {
+      if (!ownerId) {
+        throw new Error("Authentication required.");
+      }
+      return toggleFavoriteFor(ownerId, spotId);
+    },
+    [ownerId]
+  );
+
+  return {
+    spotIds,
+    status: isOwnedState ? state.status : ownerId ? "loading" : "idle",
+    isAuthenticated: Boolean(ownerId),
+    isFavorite,
+    toggleFavorite,
+  };
+}
@@ -65,3 +65,88 @@ export function formatDistance(meters: number): string {
   return `${(meters / 1000).toFixed(1)}km`;
 }
 
+
+/**
+ * Bounding box in degrees (south-west / north-east corners)
+ */
+export type BoundingBox = {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+/**
+ * Parse a `west,south,east,north` string (GeoJSON bbox order)
+ * @returns Bounding box, or null when malformed or out of range
+ */
+export function parseBoundingBox(value: string | null | undefined): BoundingBox | null {
+  if (!value) return null;
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [west, south, east, north] = parts;
+  if (south < -90 || north > 90 || south > north) return null;
+  if (west < -180 || east > 180 || west > east) return null;
+  return { south, west, north, east };
+}
+
+/**
+ * Serialize a bounding box as `west,south,east,north`
+ */
+export function formatBoundingBox(bounds: BoundingBox): string {
+  return [bounds.west, bounds.south, bounds.east, bounds.north].map((value) => value.toFixed(5)).join(",");
+}
+
+/**
+ * Check whether a point lies inside a bounding box (edges inclusive)
+ */
+export function isWithinBounds(point: { lat: number; lng: number }, bounds: BoundingBox): boolean {
+  return (
+    point.lat >= bounds.south &&
+    point.lat <= bounds.north &&
+    point.lng >= bounds.west &&
+    point.lng <= bounds.east
+  );
+}
+
+/**
+ * Bounding box that encloses a circle, used to pre-filter candidates before exact distance checks
+ * @param radius Radius in meters
+ */
+export function boundsAroundPoint(lat: number, lng: number, radius: number): BoundingBox {
+  const latDelta = (radius / 6371000) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  return {
+    south: Math.max(-90, lat - latDelta),
+    west: Math.max(-180, lng - lngDelta),
+    north: Math.min(90, lat + latDelta),
+    east: Math.min(180, lng + lngDelta),
+  };
+}
+
+/**
+ * Grow a bounding box by a fraction of its size on every side (clamped to valid coordinates)
+ * @param ratio Fraction of the width/height added to each side (0.5 doubles both dimensions)
+ */
+export function padBoundingBox(bounds: BoundingBox, ratio: number): BoundingBox {
+  const latPad = (bounds.north - bounds.south) * ratio;
+  const lngPad = (bounds.east - bounds.west) * ratio;
+  return {
+    south: Math.max(-90, bounds.south - latPad),
+    west: Math.max(-180, bounds.west - lngPad),
+    north: Math.min(90, bounds.north + latPad),
+    east: Math.min(180, bounds.east + lngPad),
+  };
+}
+
+/**
+ * Check whether `inner` lies entirely inside `outer`
+ */
+export function containsBoundingBox(outer: BoundingBox, inner: BoundingBox): boolean {
+  return (
+    inner.south >= outer.south &&
+    inner.north <= outer.north &&
+    inner.west >= outer.west &&
+    inner.east <= outer.east
+  );
+}
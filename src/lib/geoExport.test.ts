@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildGeoJson,
+  buildGpx,
+  buildKml,
+  parseGeoExportFormat,
+  serializeGeoExport,
+  spotToExportPlace,
+  type GeoExportDocument,
+} from "@/lib/geoExport";
+import type { Spot } from "@/lib/types";
+
+const spots: Spot[] = [
+  { id: 1, name: "盛岡城跡公園", description: "石垣 & 桜", city_id: 1, genre_id: 1, lat: 39.70212345, lng: 141.1527 },
+  { id: 2, name: "中尊寺", description: "", city_id: 2, genre_id: 1, lat: 38.9865, lng: 141.1176 },
+];
+const cities = [
+  { id: 1, name: "盛岡市" },
+  { id: 2, name: "平泉町" },
+];
+const places = spots.map((spot) => spotToExportPlace(spot, { cities, genres: [{ id: 1, name: "歴史" }] }));
+const document: GeoExportDocument = { title: "盛岡 <日帰り>", places, route: places };
+
+describe("geoExport", () => {
+  it("writes points and the route as GeoJSON features", () => {
+    const parsed = JSON.parse(buildGeoJson(document));
+
+    expect(parsed.features).toHaveLength(3);
+    expect(parsed.features[0].geometry).toEqual({ type: "Point", coordinates: [141.1527, 39.702123] });
+    expect(parsed.features[0].properties).toMatchObject({ name: "盛岡城跡公園", city: "盛岡市", genre: "歴史", id: 1 });
+    expect(parsed.features[0].properties.url).toMatch(/\/spots\//);
+    expect(parsed.features[2].geometry.type).toBe("LineString");
+  });
+
+  it("escapes names in GPX waypoints and routes", () => {
+    const gpx = buildGpx(document);
+
+    expect(gpx).toContain('<wpt lat="39.702123" lon="141.1527">');
+    expect(gpx).toContain("<desc>石垣 &amp; 桜</desc>");
+    expect(gpx).toContain("<rte><name>盛岡 &lt;日帰り&gt;</name>");
+    expect(gpx.match(/<rtept /g)).toHaveLength(2);
+  });
+
+  it("writes KML placemarks with lng,lat coordinates", () => {
+    const kml = buildKml({ title: "Stamps", places: [{ ...places[1], time: "2026-03-12T00:00:00.000Z" }] });
+
+    expect(kml).toContain("<coordinates>141.1176,38.9865</coordinates>");
+    expect(kml).toContain('<Data name="time"><value>2026-03-12T00:00:00.000Z</value></Data>');
+    expect(kml).not.toContain("LineString");
+  });
+
+  it("parses the format and builds download headers", () => {
+    expect(parseGeoExportFormat(null)).toBe("geojson");
+    expect(parseGeoExportFormat("kml")).toBe("kml");
+    expect(parseGeoExportFormat("shp")).toBeNull();
+
+    const { headers } = serializeGeoExport("gpx", document, "盛岡さんぽ");
+    expect(headers["Content-Type"]).toBe("application/gpx+xml; charset=utf-8");
+    expect(headers["Content-Disposition"]).toBe(
+      `attachment; filename="_.gpx"; filename*=UTF-8''${encodeURIComponent("盛岡さんぽ.gpx")}`
+    );
+  });
+});
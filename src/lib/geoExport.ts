@@ -0,0 +1,274 @@
+import { APP_NAME } from "@/lib/config";
+import { buildAbsoluteUrl } from "@/lib/seo";
+import { getSpotHref } from "@/lib/spotRoutes";
+import type { City, Genre, Spot } from "@/lib/types";
+
+/** 書き出し形式 */
+export type GeoExportFormat = "geojson" | "gpx" | "kml";
+
+export const GEO_EXPORT_FORMATS: readonly GeoExportFormat[] = ["geojson", "gpx", "kml"];
+
+export const GEO_EXPORT_FORMAT_LABELS: Record<GeoExportFormat, string> = {
+  geojson: "GeoJSON",
+  gpx: "GPX",
+  kml: "KML",
+};
+
+const FORMAT_MEDIA: Record<GeoExportFormat, { contentType: string; extension: string }> = {
+  geojson: { contentType: "application/geo+json; charset=utf-8", extension: "geojson" },
+  gpx: { contentType: "application/gpx+xml; charset=utf-8", extension: "gpx" },
+  kml: { contentType: "application/vnd.google-earth.kml+xml; charset=utf-8", extension: "kml" },
+};
+
+/** 書き出す地点 */
+export type ExportPlace = {
+  name: string;
+  lat: number;
+  lng: number;
+  description?: string | null;
+  /** 詳細ページの絶対 URL */
+  url?: string | null;
+  /** 地点に紐づく日時（スタンプ取得日時など。ISO 文字列） */
+  time?: string | null;
+  /** GeoJSON の properties / KML の ExtendedData に入れる追加項目 */
+  properties?: Record<string, string | number | boolean | null>;
+};
+
+/** 書き出す内容 */
+export type GeoExportDocument = {
+  title: string;
+  places: ExportPlace[];
+  /** 順に結ぶ経路（旅程の書き出しで使う） */
+  route?: ExportPlace[] | null;
+};
+
+/**
+ * 書き出し形式として扱える文字列か判定する。
+ *
+ * @param value - 判定対象
+ * @returns 書き出し形式なら true
+ * @example
+ * isGeoExportFormat("gpx"); // => true
+ */
+export function isGeoExportFormat(value: unknown): value is GeoExportFormat {
+  return typeof value === "string" && (GEO_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * `format` クエリを読み取る（未指定は GeoJSON）。
+ *
+ * @param value - クエリ値
+ * @returns 書き出し形式（未対応の値なら null）
+ * @example
+ * parseGeoExportFormat("kml"); // => "kml"
+ */
+export function parseGeoExportFormat(value: string | null): GeoExportFormat | null {
+  if (value === null || value === "") return "geojson";
+  return isGeoExportFormat(value) ? value : null;
+}
+
+/**
+ * スポットを書き出し用の地点へ変換する。
+ *
+ * @param spot - スポット
+ * @param lookups - 市区町村・ジャンル名の参照元と追加項目
+ * @returns 書き出す地点
+ * @example
+ * spotToExportPlace(spot, { cities, genres });
+ */
+export function spotToExportPlace(
+  spot: Spot,
+  lookups: { cities?: City[]; genres?: Genre[]; time?: string | null } = {}
+): ExportPlace {
+  return {
+    name: spot.name,
+    lat: spot.lat,
+    lng: spot.lng,
+    description: spot.description || null,
+    url: buildAbsoluteUrl(getSpotHref(spot)).toString(),
+    time: lookups.time ?? null,
+    properties: {
+      id: spot.id,
+      city: lookups.cities?.find((city) => city.id === spot.city_id)?.name ?? null,
+      genre: lookups.genres?.find((genre) => genre.id === spot.genre_id)?.name ?? null,
+    },
+  };
+}
+
+/**
+ * 座標を小数 6 桁に丸める。
+ *
+ * @param value - 緯度または経度
+ * @returns 丸めた値
+ * @example
+ * roundCoordinate(39.70212345); // => 39.702123
+ */
+function roundCoordinate(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+/**
+ * XML のテキスト・属性値として安全な文字列にする。
+ *
+ * @param value - 元の文字列
+ * @returns エスケープ済み文字列
+ * @example
+ * escapeXml("A & B"); // => "A &amp; B"
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * GeoJSON の FeatureCollection を組み立てる（経路は LineString として末尾に置く）。
+ *
+ * @param document - 書き出す内容
+ * @returns GeoJSON 文字列
+ * @example
+ * buildGeoJson({ title: "お気に入り", places });
+ */
+export function buildGeoJson(document: GeoExportDocument): string {
+  const features: Record<string, unknown>[] = document.places.map((place) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [roundCoordinate(place.lng), roundCoordinate(place.lat)] },
+    properties: {
+      name: place.name,
+      description: place.description ?? null,
+      url: place.url ?? null,
+      ...(place.time ? { time: place.time } : {}),
+      ...place.properties,
+    },
+  }));
+  if (document.route && document.route.length >= 2) {
+    features.push({
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: document.route.map((place) => [roundCoordinate(place.lng), roundCoordinate(place.lat)]),
+      },
+      properties: { name: document.title },
+    });
+  }
+  return JSON.stringify({ type: "FeatureCollection", name: document.title, features }, null, 2);
+}
+
+/**
+ * GPX 1.1 を組み立てる（地点は wpt、経路は rte）。
+ *
+ * @param document - 書き出す内容
+ * @returns GPX 文字列
+ * @example
+ * buildGpx({ title: "盛岡さんぽ", places, route: places });
+ */
+export function buildGpx(document: GeoExportDocument): string {
+  const point = (tag: "wpt" | "rtept", place: ExportPlace) =>
+    [
+      `<${tag} lat="${roundCoordinate(place.lat)}" lon="${roundCoordinate(place.lng)}">`,
+      place.time ? `<time>${escapeXml(place.time)}</time>` : null,
+      `<name>${escapeXml(place.name)}</name>`,
+      place.description ? `<desc>${escapeXml(place.description)}</desc>` : null,
+      place.url ? `<link href="${escapeXml(place.url)}"/>` : null,
+      `</${tag}>`,
+    ]
+      .filter(Boolean)
+      .join("");
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(APP_NAME)}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `<metadata><name>${escapeXml(document.title)}</name></metadata>`,
+    ...document.places.map((place) => point("wpt", place)),
+  ];
+  if (document.route && document.route.length >= 2) {
+    lines.push(
+      `<rte><name>${escapeXml(document.title)}</name>${document.route.map((place) => point("rtept", place)).join("")}</rte>`
+    );
+  }
+  lines.push("</gpx>");
+  return lines.join("\n");
+}
+
+/**
+ * KML 2.2 を組み立てる（地点は Point、経路は LineString の Placemark）。
+ *
+ * @param document - 書き出す内容
+ * @returns KML 文字列
+ * @example
+ * buildKml({ title: "スタンプ", places });
+ */
+export function buildKml(document: GeoExportDocument): string {
+  const coordinate = (place: ExportPlace) => `${roundCoordinate(place.lng)},${roundCoordinate(place.lat)}`;
+  const placemark = (place: ExportPlace) => {
+    const description = [place.description, place.url].filter(Boolean).join("\n");
+    const data = Object.entries({ ...place.properties, ...(place.time ? { time: place.time } : {}) })
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join("");
+    return [
+      "<Placemark>",
+      `<name>${escapeXml(place.name)}</name>`,
+      description ? `<description>${escapeXml(description)}</description>` : "",
+      data ? `<ExtendedData>${data}</ExtendedData>` : "",
+      `<Point><coordinates>${coordinate(place)}</coordinates></Point>`,
+      "</Placemark>",
+    ].join("");
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    `<name>${escapeXml(document.title)}</name>`,
+    ...document.places.map(placemark),
+  ];
+  if (document.route && document.route.length >= 2) {
+    lines.push(
+      `<Placemark><name>${escapeXml(document.title)}</name><LineString><tessellate>1</tessellate><coordinates>${document.route
+        .map(coordinate)
+        .join(" ")}</coordinates></LineString></Placemark>`
+    );
+  }
+  lines.push("</Document>", "</kml>");
+  return lines.join("\n");
+}
+
+const FORMAT_BUILDERS: Record<GeoExportFormat, (document: GeoExportDocument) => string> = {
+  geojson: buildGeoJson,
+  gpx: buildGpx,
+  kml: buildKml,
+};
+
+/**
+ * 指定形式で書き出し、ダウンロード用のヘッダーと合わせて返す。
+ *
+ * @param format - 書き出し形式
+ * @param document - 書き出す内容
+ * @param filenameBase - 拡張子を除くファイル名
+ * @returns 本文とレスポンスヘッダー
+ * @example
+ * const { body, headers } = serializeGeoExport("gpx", document, "favorites");
+ */
+export function serializeGeoExport(
+  format: GeoExportFormat,
+  document: GeoExportDocument,
+  filenameBase: string
+): { body: string; headers: Record<string, string> } {
+  const body = FORMAT_BUILDERS[format](document);
+  const { contentType, extension } = FORMAT_MEDIA[format];
+  const filename = `${filenameBase}.${extension}`;
+  // ASCII 以外の名前は filename* で渡し、古いブラウザ向けの filename は安全な文字だけにする
+  const asciiName = filename.replace(/[^A-Za-z0-9._-]+/g, "_");
+  return {
+    body,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Cache-Control": "no-store",
+    },
+  };
+}
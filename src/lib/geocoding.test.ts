@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkCoordinate,
+  createFallbackGeocoder,
+  createGazetteerGeocoder,
+  createNominatimGeocoder,
+  geocodeLocation,
+  GeocodingError,
+  IWATE_MUNICIPALITIES,
+  matchMunicipality,
+  resolveEventCity,
+} from "@/lib/geocoding";
+import { createFixtureFetch } from "@/lib/routing.fixtures";
+
+describe("geocoding", () => {
+  it("covers all 33 municipalities of Iwate", () => {
+    expect(IWATE_MUNICIPALITIES).toHaveLength(33);
+    expect(new Set(IWATE_MUNICIPALITIES.map((entry) => entry.name)).size).toBe(33);
+  });
+
+  it("matches municipalities by full name, short name and reading", () => {
+    expect(matchMunicipality("岩手県盛岡市内丸1-1")?.name).toBe("盛岡市");
+    expect(matchMunicipality("金ヶ崎町 城内")?.name).toBe("金ケ崎町");
+    expect(matchMunicipality("平泉 毛越寺")?.name).toBe("平泉町");
+    expect(matchMunicipality("いわいずみ")?.name).toBe("岩泉町");
+    expect(matchMunicipality("岩手県民会館")).toBeNull();
+    expect(matchMunicipality("")).toBeNull();
+  });
+
+  it("prefers known places before the municipality in the gazetteer", async () => {
+    const geocoder = createGazetteerGeocoder({ places: [{ name: "中尊寺", lat: 38.9865, lng: 141.1176 }] });
+    const results = await geocodeLocation(geocoder, "平泉町 中尊寺");
+
+    expect(results.map((result) => [result.label, result.precision])).toEqual([
+      ["中尊寺", "place"],
+      ["平泉町", "municipality"],
+    ]);
+    expect(results[0].municipality).toBe("平泉町");
+    expect(await geocodeLocation(geocoder, "  ")).toEqual([]);
+  });
+
+  it("queries Nominatim within Iwate and drops results outside the prefecture", async () => {
+    const { fetchImpl, calls } = createFixtureFetch([
+      { lat: "39.7016", lon: "141.1368", display_name: "盛岡駅, 盛岡市, 岩手県", addresstype: "railway" },
+      { lat: "35.6812", lon: "139.7671", display_name: "東京駅, 千代田区, 東京都", addresstype: "railway" },
+    ]);
+    const geocoder = createNominatimGeocoder({ baseUrl: "http://nominatim.test/", userAgent: "test", fetchImpl });
+    const results = await geocodeLocation(geocoder, "盛岡駅");
+
+    expect(calls[0].url).toContain("http://nominatim.test/search?q=%E7%9B%9B%E5%B2%A1%E9%A7%85");
+    expect(calls[0].url).toContain("bounded=1");
+    expect(calls[0].init?.headers).toMatchObject({ "User-Agent": "test" });
+    expect(results).toEqual([
+      {
+        label: "盛岡駅, 盛岡市, 岩手県",
+        lat: 39.7016,
+        lng: 141.1368,
+        provider: "nominatim",
+        precision: "address",
+        municipality: "盛岡市",
+      },
+    ]);
+  });
+
+  it("falls back to the gazetteer when the online geocoder fails", async () => {
+    const { fetchImpl } = createFixtureFetch({ error: "rate limited" }, 429);
+    const geocoder = createFallbackGeocoder([
+      createNominatimGeocoder({ baseUrl: "http://nominatim.test", fetchImpl }),
+      createGazetteerGeocoder(),
+    ]);
+
+    const [best] = await geocodeLocation(geocoder, "宮古市 浄土ヶ浜");
+    expect(best).toMatchObject({ label: "宮古市", provider: "gazetteer" });
+
+    const onlineOnly = createFallbackGeocoder([createNominatimGeocoder({ baseUrl: "http://nominatim.test", fetchImpl })]);
+    await expect(geocodeLocation(onlineOnly, "宮古市")).rejects.toBeInstanceOf(GeocodingError);
+  });
+
+  it("resolves the event city from city_id or the location text", () => {
+    const cities = [
+      { id: 1, name: "盛岡市" },
+      { id: 2, name: "平泉町" },
+    ];
+
+    expect(resolveEventCity({ city_id: 2, location: "盛岡市" }, cities)?.id).toBe(2);
+    expect(resolveEventCity({ city_id: null, location: "盛岡 肴町商店街" }, cities)?.id).toBe(1);
+    expect(resolveEventCity({ city_id: null, location: "盛" }, cities)).toBeNull();
+  });
+
+  it("warns about coordinates outside Iwate or far from the selected city", () => {
+    expect(checkCoordinate({ lat: 39.7021, lng: 141.1527 }, "盛岡市")).toEqual([]);
+    expect(checkCoordinate({ lat: 38.9865, lng: 141.1176 }, "盛岡市")).toEqual([
+      { kind: "far_from_city", cityName: "盛岡市", distance: 79623 },
+    ]);
+    expect(checkCoordinate({ lat: 35.6812, lng: 139.7671 })).toEqual([{ kind: "outside_iwate" }]);
+  });
+});
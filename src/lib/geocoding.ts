@@ -0,0 +1,417 @@
+/**
+ * イベント会場などの地名を座標へ変換するジオコーディング
+ *
+ * 既定は岩手県 33 市町村の役所所在地を収めたオフラインの地名辞典（gazetteer）で、外部サービスを使わずに動く。
+ * `GEOCODER_PROVIDER=nominatim` を設定すると OSM Nominatim の住所検索を先に試し、見つからなければ地名辞典へ戻る。
+ * ジオコーダは `Geocoder` を満たせば差し替えられるので、テストでは `fetch` を fixture に置き換えられる。
+ */
+
+import { GEOCODER_CONFIG } from "@/lib/config";
+import { haversineDistance, isWithinBounds, type BoundingBox } from "@/lib/geo";
+import type { City, Event } from "@/lib/types";
+
+// ---------------------------------------------------------------------------
+// 型定義
+// ---------------------------------------------------------------------------
+
+export type GeocoderProvider = "gazetteer" | "nominatim";
+
+/** 検索結果の細かさ */
+export type GeocodePrecision = "municipality" | "place" | "address";
+
+/** ジオコーディングの 1 件の結果 */
+export type GeocodeResult = {
+  /** 表示用の名称 */
+  label: string;
+  lat: number;
+  lng: number;
+  provider: GeocoderProvider;
+  precision: GeocodePrecision;
+  /** 結果が属する市町村名（判定できなければ null） */
+  municipality: string | null;
+};
+
+/** ジオコーダの差し替え口 */
+export type Geocoder = {
+  provider: GeocoderProvider;
+  geocode: (query: string) => Promise<GeocodeResult[]>;
+};
+
+/** 地名辞典の 1 件 */
+export type GazetteerEntry = {
+  name: string;
+  /** ひらがなの読み */
+  kana: string;
+  lat: number;
+  lng: number;
+};
+
+/** 座標の入力内容への注意 */
+export type CoordinateWarning =
+  | { kind: "outside_iwate" }
+  | { kind: "far_from_city"; cityName: string; distance: number };
+
+/** 地名辞典で優先して照合する場所（スポットなど） */
+export type GazetteerPlace = {
+  name: string;
+  lat: number;
+  lng: number;
+};
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/** 地名を座標へ変換できなかった（通信失敗・応答不正） */
+export class GeocodingError extends Error {
+  constructor(message = "location could not be geocoded") {
+    super(message);
+    this.name = "GeocodingError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 地名辞典（岩手県の市町村）
+// ---------------------------------------------------------------------------
+
+/** 岩手県のおおよその範囲 */
+export const IWATE_BOUNDS: BoundingBox = { south: 38.74, west: 140.65, north: 40.45, east: 142.08 };
+
+/** 岩手県 33 市町村と役所所在地の座標 */
+export const IWATE_MUNICIPALITIES: GazetteerEntry[] = [
+  { name: "盛岡市", kana: "もりおかし", lat: 39.702, lng: 141.1545 },
+  { name: "宮古市", kana: "みやこし", lat: 39.6414, lng: 141.957 },
+  { name: "大船渡市", kana: "おおふなとし", lat: 39.0819, lng: 141.7085 },
+  { name: "花巻市", kana: "はなまきし", lat: 39.3886, lng: 141.1169 },
+  { name: "北上市", kana: "きたかみし", lat: 39.2867, lng: 141.1131 },
+  { name: "久慈市", kana: "くじし", lat: 40.1903, lng: 141.7756 },
+  { name: "遠野市", kana: "とおのし", lat: 39.3275, lng: 141.5336 },
+  { name: "一関市", kana: "いちのせきし", lat: 38.9347, lng: 141.1266 },
+  { name: "陸前高田市", kana: "りくぜんたかたし", lat: 39.0153, lng: 141.63 },
+  { name: "釜石市", kana: "かまいしし", lat: 39.2758, lng: 141.8856 },
+  { name: "二戸市", kana: "にのへし", lat: 40.2711, lng: 141.3047 },
+  { name: "八幡平市", kana: "はちまんたいし", lat: 39.9261, lng: 141.0953 },
+  { name: "奥州市", kana: "おうしゅうし", lat: 39.1444, lng: 141.1392 },
+  { name: "滝沢市", kana: "たきざわし", lat: 39.7347, lng: 141.0772 },
+  { name: "雫石町", kana: "しずくいしちょう", lat: 39.6961, lng: 140.9758 },
+  { name: "葛巻町", kana: "くずまきまち", lat: 40.0397, lng: 141.4364 },
+  { name: "岩手町", kana: "いわてまち", lat: 39.9728, lng: 141.2122 },
+  { name: "紫波町", kana: "しわちょう", lat: 39.555, lng: 141.1569 },
+  { name: "矢巾町", kana: "やはばちょう", lat: 39.605, lng: 141.1369 },
+  { name: "西和賀町", kana: "にしわがまち", lat: 39.3211, lng: 140.7825 },
+  { name: "金ケ崎町", kana: "かねがさきちょう", lat: 39.1953, lng: 141.1164 },
+  { name: "平泉町", kana: "ひらいずみちょう", lat: 38.9869, lng: 141.1147 },
+  { name: "住田町", kana: "すみたちょう", lat: 39.1417, lng: 141.5806 },
+  { name: "大槌町", kana: "おおつちちょう", lat: 39.3589, lng: 141.8994 },
+  { name: "山田町", kana: "やまだまち", lat: 39.4678, lng: 141.9489 },
+  { name: "岩泉町", kana: "いわいずみちょう", lat: 39.8431, lng: 141.7967 },
+  { name: "田野畑村", kana: "たのはたむら", lat: 39.9306, lng: 141.9283 },
+  { name: "普代村", kana: "ふだいむら", lat: 40.005, lng: 141.8883 },
+  { name: "軽米町", kana: "かるまいまち", lat: 40.3261, lng: 141.4606 },
+  { name: "野田村", kana: "のだむら", lat: 40.1106, lng: 141.8183 },
+  { name: "九戸村", kana: "くのへむら", lat: 40.2114, lng: 141.4194 },
+  { name: "洋野町", kana: "ひろのちょう", lat: 40.4089, lng: 141.7172 },
+  { name: "一戸町", kana: "いちのへまち", lat: 40.2064, lng: 141.2956 },
+];
+
+/** 選択した市町村の役所所在地からこれ以上離れていたら確認を促す距離（m） */
+export const CITY_DISTANCE_WARNING_METERS = 30_000;
+
+const MUNICIPALITY_SUFFIX = /[市町村]$/;
+const KANA_SUFFIX = /(し|ちょう|まち|むら)$/;
+
+/**
+ * 照合用に表記ゆれ（空白・「ヶ」「ｹ」・県名）を揃える。
+ *
+ * @param text - 地名
+ * @returns 正規化した文字列
+ * @example
+ * normalizePlaceText("岩手県 金ヶ崎町"); // => "金ケ崎町"
+ */
+function normalizePlaceText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/\s+/g, "")
+    .replace(/[ヶヵ]/g, "ケ")
+    .replace(/^岩手県/, "");
+}
+
+/**
+ * 文字列に含まれる岩手県の市町村を探す。
+ *
+ * 正式名（「盛岡市」）の一致を優先し、なければ「市町村」を除いた名前（「盛岡」）や読みで照合する。
+ * 「岩手町」は県名と紛れるため、「岩手」だけでは一致させない。
+ *
+ * @param text - 会場名や住所
+ * @param entries - 地名辞典
+ * @returns 一致した市町村（なければ null）
+ * @example
+ * matchMunicipality("岩手県盛岡市内丸1-1")?.name; // => "盛岡市"
+ */
+export function matchMunicipality(
+  text: string | null | undefined,
+  entries: GazetteerEntry[] = IWATE_MUNICIPALITIES
+): GazetteerEntry | null {
+  const normalized = normalizePlaceText(text ?? "");
+  if (!normalized) return null;
+  const byLength = [...entries].sort((left, right) => right.name.length - left.name.length);
+  const fullMatch = byLength.find((entry) => normalized.includes(entry.name));
+  if (fullMatch) return fullMatch;
+  const shortMatch = byLength.find((entry) => {
+    const shortName = entry.name.replace(MUNICIPALITY_SUFFIX, "");
+    return shortName.length >= 2 && shortName !== "岩手" && normalized.includes(shortName);
+  });
+  if (shortMatch) return shortMatch;
+  return (
+    entries.find((entry) => normalized === entry.kana || normalized === entry.kana.replace(KANA_SUFFIX, "")) ?? null
+  );
+}
+
+/**
+ * 地点が岩手県の範囲内か判定する。
+ *
+ * @param point - 地点
+ * @returns 範囲内なら true
+ * @example
+ * isWithinIwate({ lat: 39.7021, lng: 141.1527 }); // => true
+ */
+export function isWithinIwate(point: { lat: number; lng: number }): boolean {
+  return isWithinBounds(point, IWATE_BOUNDS);
+}
+
+/**
+ * 入力された座標に、岩手県外・選択した市町村から遠いといった注意点がないか調べる。
+ *
+ * @param point - 地点
+ * @param cityName - 選択中の市町村名（未選択なら null）
+ * @returns 注意点（問題なければ空配列）
+ * @example
+ * checkCoordinate({ lat: 38.9865, lng: 141.1176 }, "盛岡市");
+ * // => [{ kind: "far_from_city", cityName: "盛岡市", distance: 79623 }]
+ */
+export function checkCoordinate(
+  point: { lat: number; lng: number },
+  cityName?: string | null
+): CoordinateWarning[] {
+  const warnings: CoordinateWarning[] = [];
+  if (!isWithinIwate(point)) warnings.push({ kind: "outside_iwate" });
+  const municipality = cityName ? matchMunicipality(cityName) : null;
+  if (municipality) {
+    const distance = haversineDistance(point.lat, point.lng, municipality.lat, municipality.lng);
+    if (distance > CITY_DISTANCE_WARNING_METERS) {
+      warnings.push({ kind: "far_from_city", cityName: municipality.name, distance: Math.round(distance) });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * 地名辞典のジオコーダを作る（通信なし）。
+ *
+ * `places` を渡すと市町村より先に名前で照合するので、スポット名で会場の位置を引ける。
+ *
+ * @param options - 優先して照合する場所・地名辞典
+ * @returns Geocoder
+ * @example
+ * const geocoder = createGazetteerGeocoder({ places: spots });
+ * await geocoder.geocode("中尊寺"); // => [{ label: "中尊寺", precision: "place", ... }]
+ */
+export function createGazetteerGeocoder(
+  options: { places?: GazetteerPlace[]; entries?: GazetteerEntry[] } = {}
+): Geocoder {
+  const entries = options.entries ?? IWATE_MUNICIPALITIES;
+  const places = options.places ?? [];
+  return {
+    provider: "gazetteer",
+    async geocode(query) {
+      const normalized = normalizePlaceText(query);
+      if (!normalized) return [];
+      const results: GeocodeResult[] = places
+        .filter((place) => {
+          const name = normalizePlaceText(place.name);
+          return name.length > 0 && (normalized.includes(name) || name.includes(normalized));
+        })
+        .map((place) => ({
+          label: place.name,
+          lat: place.lat,
+          lng: place.lng,
+          provider: "gazetteer",
+          precision: "place",
+          municipality: matchMunicipality(query, entries)?.name ?? null,
+        }));
+      const municipality = matchMunicipality(query, entries);
+      if (municipality) {
+        results.push({
+          label: municipality.name,
+          lat: municipality.lat,
+          lng: municipality.lng,
+          provider: "gazetteer",
+          precision: "municipality",
+          municipality: municipality.name,
+        });
+      }
+      return results;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Nominatim
+// ---------------------------------------------------------------------------
+
+type NominatimResponse = Array<{
+  lat: string;
+  lon: string;
+  display_name: string;
+  addresstype?: string;
+}>;
+
+/**
+ * Nominatim の検索結果を `GeocodeResult` へ変換する（岩手県外の結果は除く）。
+ *
+ * @param payload - `/search?format=jsonv2` の JSON
+ * @returns 検索結果
+ * @example
+ * const results = parseNominatimResults(await response.json());
+ */
+export function parseNominatimResults(payload: NominatimResponse): GeocodeResult[] {
+  if (!Array.isArray(payload)) throw new GeocodingError("nominatim returned an unexpected payload");
+  return payload
+    .map((item) => ({ item, lat: Number(item.lat), lng: Number(item.lon) }))
+    .filter(({ lat, lng }) => Number.isFinite(lat) && Number.isFinite(lng))
+    .filter((point) => isWithinIwate(point))
+    .map(({ item, lat, lng }) => ({
+      label: item.display_name,
+      lat,
+      lng,
+      provider: "nominatim" as const,
+      precision: item.addresstype === "city" || item.addresstype === "town" || item.addresstype === "village"
+        ? ("municipality" as const)
+        : ("address" as const),
+      municipality: matchMunicipality(item.display_name)?.name ?? null,
+    }));
+}
+
+/**
+ * Nominatim ジオコーダを作る（岩手県の範囲に絞って検索する）。
+ *
+ * @param options - 接続先・User-Agent・通信関数
+ * @returns Geocoder
+ * @example
+ * const geocoder = createNominatimGeocoder({ baseUrl: "http://localhost:8080" });
+ */
+export function createNominatimGeocoder(
+  options: { baseUrl?: string; userAgent?: string; fetchImpl?: FetchLike } = {}
+): Geocoder {
+  const baseUrl = (options.baseUrl ?? GEOCODER_CONFIG.nominatimBaseUrl).replace(/\/$/, "");
+  const userAgent = options.userAgent ?? GEOCODER_CONFIG.nominatimUserAgent;
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    provider: "nominatim",
+    async geocode(query) {
+      const params = new URLSearchParams({
+        q: query,
+        format: "jsonv2",
+        countrycodes: "jp",
+        "accept-language": "ja",
+        limit: "5",
+        viewbox: [IWATE_BOUNDS.west, IWATE_BOUNDS.north, IWATE_BOUNDS.east, IWATE_BOUNDS.south].join(","),
+        bounded: "1",
+      });
+      const response = await fetchImpl(`${baseUrl}/search?${params.toString()}`, {
+        headers: { "User-Agent": userAgent, Accept: "application/json" },
+      });
+      if (!response.ok) throw new GeocodingError(`nominatim api error: ${response.status}`);
+      return parseNominatimResults((await response.json()) as NominatimResponse);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// メインエントリ
+// ---------------------------------------------------------------------------
+
+/**
+ * 複数のジオコーダを順に試し、最初に結果を返したものを採用するジオコーダを作る。
+ *
+ * @param geocoders - 優先順のジオコーダ
+ * @returns Geocoder（すべて失敗した場合は GeocodingError）
+ * @example
+ * const geocoder = createFallbackGeocoder([createNominatimGeocoder(), createGazetteerGeocoder()]);
+ */
+export function createFallbackGeocoder(geocoders: Geocoder[]): Geocoder {
+  return {
+    provider: geocoders[0]?.provider ?? "gazetteer",
+    async geocode(query) {
+      let lastError: unknown = null;
+      for (const geocoder of geocoders) {
+        try {
+          const results = await geocoder.geocode(query);
+          if (results.length > 0) return results;
+        } catch (error) {
+          lastError = error;
+        }
+      }
+      if (lastError) {
+        throw lastError instanceof GeocodingError ? lastError : new GeocodingError(String(lastError));
+      }
+      return [];
+    },
+  };
+}
+
+/**
+ * 設定に応じたジオコーダを返す（未設定なら地名辞典のみ）。
+ *
+ * @param options - 地名辞典で優先して照合する場所・通信関数
+ * @returns Geocoder
+ * @example
+ * const geocoder = resolveGeocoder({ places: spots });
+ */
+export function resolveGeocoder(options: { places?: GazetteerPlace[]; fetchImpl?: FetchLike } = {}): Geocoder {
+  const gazetteer = createGazetteerGeocoder({ places: options.places });
+  if (GEOCODER_CONFIG.provider !== "nominatim") return gazetteer;
+  return createFallbackGeocoder([createNominatimGeocoder({ fetchImpl: options.fetchImpl }), gazetteer]);
+}
+
+/**
+ * 地名を座標の候補へ変換する。
+ *
+ * 通信失敗は `GeocodingError` にまとめて投げるので、呼び出し側は手入力へ切り替えられる。
+ *
+ * @param geocoder - 使用するジオコーダ
+ * @param query - 会場名や住所
+ * @returns 候補（空の入力や一致なしは空配列）
+ * @example
+ * const [best] = await geocodeLocation(resolveGeocoder(), "平泉町");
+ */
+export async function geocodeLocation(geocoder: Geocoder, query: string): Promise<GeocodeResult[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  try {
+    return await geocoder.geocode(trimmed);
+  } catch (error) {
+    if (error instanceof GeocodingError) throw error;
+    throw new GeocodingError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * イベントの開催市町村を返す（`city_id` を優先し、なければ会場名から市町村を判定する）。
+ *
+ * @param event - イベント
+ * @param cities - 市町村一覧
+ * @returns 市町村（判定できなければ null）
+ * @example
+ * resolveEventCity({ id: 1, title: "夜市", location: "盛岡市 肴町" }, cities)?.name; // => "盛岡市"
+ */
+export function resolveEventCity<T extends Pick<City, "id" | "name">>(
+  event: Pick<Event, "city_id" | "location">,
+  cities: T[]
+): T | null {
+  if (event.city_id) {
+    const city = cities.find((item) => item.id === event.city_id);
+    if (city) return city;
+  }
+  const municipality = matchMunicipality(event.location);
+  if (!municipality) return null;
+  return cities.find((city) => normalizePlaceText(city.name) === municipality.name) ?? null;
+}
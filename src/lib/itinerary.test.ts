@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildItineraryLegs,
+  buildItineraryQuery,
+  moveItem,
+  optimizeStopOrder,
+  parseItineraryQuery,
+  summarizeItinerary,
+} from "@/lib/itinerary";
+
+const morioka = { id: 1, lat: 39.7021, lng: 141.1527 };
+const hiraizumi = { id: 2, lat: 38.9865, lng: 141.1176 };
+const iwaizumi = { id: 3, lat: 39.8383, lng: 141.7989 };
+const wanko = { id: 4, lat: 39.7036, lng: 141.1527 };
+
+describe("itinerary", () => {
+  it("orders stops by nearest neighbour while keeping the first stop fixed", () => {
+    const ordered = optimizeStopOrder([morioka, hiraizumi, iwaizumi, wanko]);
+    expect(ordered.map((stop) => stop.id)).toEqual([1, 4, 3, 2]);
+  });
+
+  it("starts from the given origin without including it", () => {
+    const ordered = optimizeStopOrder([iwaizumi, morioka, hiraizumi], { lat: 38.99, lng: 141.11 });
+    expect(ordered.map((stop) => stop.id)).toEqual([2, 1, 3]);
+  });
+
+  it("builds per-leg estimates and totals", () => {
+    const legs = buildItineraryLegs([morioka, wanko, hiraizumi]);
+    expect(legs).toHaveLength(2);
+    expect(legs[0].from.id).toBe(1);
+    expect(legs[0].distance).toBeGreaterThan(160);
+    expect(legs[0].distance).toBeLessThan(250);
+    expect(legs[1].duration).toBeGreaterThan(legs[0].duration);
+
+    const total = summarizeItinerary(legs);
+    expect(total.distance).toBeCloseTo(legs[0].distance + legs[1].distance);
+  });
+
+  it("moves items for drag and drop", () => {
+    expect(moveItem([1, 2, 3], 0, 2)).toEqual([2, 3, 1]);
+    expect(moveItem([1, 2, 3], 2, 0)).toEqual([3, 1, 2]);
+    expect(moveItem([1, 2, 3], 5, 0)).toEqual([1, 2, 3]);
+  });
+
+  it("round-trips the share query and drops invalid ids", () => {
+    const query = buildItineraryQuery({ spotIds: [1, 4, 2], name: " 盛岡と平泉 " });
+    const params = new URLSearchParams(query);
+    expect(parseItineraryQuery(params.get("stops"), params.get("name"))).toEqual({
+      spotIds: [1, 4, 2],
+      name: "盛岡と平泉",
+    });
+    expect(parseItineraryQuery("3,x,-1,3,2", null)).toEqual({ spotIds: [3, 2], name: "" });
+  });
+});
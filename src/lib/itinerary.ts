@@ -0,0 +1,232 @@
+import { haversineDistance } from "@/lib/geo";
+import type { LatLng, TravelMode } from "@/lib/routeProviders";
+
+/** 1 つの旅程に含められるスポット数の上限 */
+export const ITINERARY_MAX_STOPS = 20;
+/** 旅程名の最大文字数 */
+export const ITINERARY_NAME_MAX_LENGTH = 60;
+/** 直線距離から実際の道のりを見積もる係数 */
+const ROAD_DETOUR_FACTOR = 1.3;
+/** 所要時間の見積もりに使う移動手段ごとの平均速度（km/h） */
+export const TRAVEL_MODE_SPEEDS_KMH: Record<TravelMode, number> = {
+  foot: 4.5,
+  bicycle: 15,
+  car: 40,
+  transit: 30,
+};
+/** 移動手段を指定しない場合の平均速度（km/h） */
+export const ITINERARY_DEFAULT_SPEED_KMH = TRAVEL_MODE_SPEEDS_KMH.car;
+
+/** 旅程の 1 区間 */
+export type ItineraryLeg<T> = {
+  from: T;
+  to: T;
+  /** 見積もり道のり（m） */
+  distance: number;
+  /** 見積もり所要時間（秒） */
+  duration: number;
+};
+
+/** 共有 URL から読み取った旅程 */
+export type ItineraryQuery = {
+  spotIds: number[];
+  name: string;
+};
+
+/**
+ * 2 点間の道のりを直線距離から見積もる。
+ *
+ * @param from - 出発点
+ * @param to - 到着点
+ * @returns 見積もり道のり（m）
+ * @example
+ * estimateLegDistance({ lat: 39.70, lng: 141.15 }, { lat: 38.99, lng: 141.12 });
+ */
+export function estimateLegDistance(from: LatLng, to: LatLng): number {
+  return haversineDistance(from.lat, from.lng, to.lat, to.lng) * ROAD_DETOUR_FACTOR;
+}
+
+/**
+ * 道のりと平均速度から所要時間を見積もる。
+ *
+ * @param distance - 道のり（m）
+ * @param speedKmh - 平均速度（km/h）
+ * @returns 所要時間（秒）
+ * @example
+ * estimateTravelSeconds(10000); // => 900
+ */
+export function estimateTravelSeconds(distance: number, speedKmh: number = ITINERARY_DEFAULT_SPEED_KMH): number {
+  return distance / ((speedKmh * 1000) / 3600);
+}
+
+/**
+ * 訪問順に並んだ地点から区間ごとの道のりと所要時間を作る。
+ *
+ * @param stops - 訪問順の地点
+ * @param speedKmh - 平均速度（km/h）
+ * @returns 区間配列（地点が 1 つ以下なら空）
+ * @example
+ * const legs = buildItineraryLegs([stationSpot, castleSpot, wankoSpot]);
+ */
+export function buildItineraryLegs<T extends LatLng>(
+  stops: T[],
+  speedKmh: number = ITINERARY_DEFAULT_SPEED_KMH
+): ItineraryLeg<T>[] {
+  return stops.slice(1).map((to, index) => {
+    const from = stops[index];
+    const distance = estimateLegDistance(from, to);
+    return { from, to, distance, duration: estimateTravelSeconds(distance, speedKmh) };
+  });
+}
+
+/**
+ * 区間の合計道のりと所要時間を返す。
+ *
+ * @param legs - 区間配列
+ * @returns 合計
+ * @example
+ * const { distance, duration } = summarizeItinerary(legs);
+ */
+export function summarizeItinerary(legs: Array<ItineraryLeg<unknown>>): { distance: number; duration: number } {
+  return legs.reduce(
+    (total, leg) => ({ distance: total.distance + leg.distance, duration: total.duration + leg.duration }),
+    { distance: 0, duration: 0 }
+  );
+}
+
+/**
+ * 訪問順の直線距離の合計を返す（並べ替えの比較用）。
+ *
+ * @param stops - 訪問順の地点
+ * @returns 合計距離（m）
+ * @example
+ * measurePathLength(stops);
+ */
+function measurePathLength(stops: LatLng[]): number {
+  let total = 0;
+  for (let index = 1; index < stops.length; index += 1) {
+    const from = stops[index - 1];
+    const to = stops[index];
+    total += haversineDistance(from.lat, from.lng, to.lat, to.lng);
+  }
+  return total;
+}
+
+/**
+ * 移動距離が短くなるよう訪問順を並べ替える。
+ *
+ * 最近傍法で初期順を作り、2-opt で交差する区間を解消する。
+ * `start` を渡すとそこから出発する前提で並べ、渡さない場合は先頭の地点を出発点として固定する。
+ *
+ * @param stops - 訪問する地点
+ * @param start - 出発点（現在地など。結果には含めない）
+ * @returns 並べ替えた地点（入力は変更しない）
+ * @example
+ * const ordered = optimizeStopOrder(stops, userPos);
+ */
+export function optimizeStopOrder<T extends LatLng>(stops: T[], start: LatLng | null = null): T[] {
+  if (stops.length <= 2 && !start) return [...stops];
+
+  const remaining = start ? [...stops] : stops.slice(1);
+  const ordered: T[] = start ? [] : [stops[0]];
+  let current: LatLng = start ?? stops[0];
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    let nearestDistance = Number.POSITIVE_INFINITY;
+    remaining.forEach((candidate, index) => {
+      const distance = haversineDistance(current.lat, current.lng, candidate.lat, candidate.lng);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearestIndex = index;
+      }
+    });
+    current = remaining[nearestIndex];
+    ordered.push(remaining[nearestIndex]);
+    remaining.splice(nearestIndex, 1);
+  }
+
+  // 2-opt: 固定する先頭（start または先頭スポット）より後ろの区間を反転して短くなる限り繰り返す
+  const path: LatLng[] = start ? [start, ...ordered] : ordered;
+  const offset = start ? 1 : 0;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let left = 1; left < path.length - 1; left += 1) {
+      for (let right = left + 1; right < path.length; right += 1) {
+        const candidate = [...path.slice(0, left), ...path.slice(left, right + 1).reverse(), ...path.slice(right + 1)];
+        if (measurePathLength(candidate) + 1e-6 < measurePathLength(path)) {
+          path.splice(0, path.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+  return path.slice(offset) as T[];
+}
+
+/**
+ * 配列内の要素を移動する（ドラッグ＆ドロップ・上下ボタン用）。
+ *
+ * @param items - 元の配列
+ * @param fromIndex - 移動元
+ * @param toIndex - 移動先
+ * @returns 移動後の新しい配列（範囲外なら元の並びのコピー）
+ * @example
+ * moveItem([1, 2, 3], 0, 2); // => [2, 3, 1]
+ */
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  const next = [...items];
+  if (fromIndex < 0 || fromIndex >= next.length || toIndex < 0 || toIndex >= next.length) return next;
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+}
+
+/**
+ * 旅程名を保存用に整える。
+ *
+ * @param value - 入力値
+ * @returns 前後の空白を除き最大文字数で切った名前
+ * @example
+ * normalizeItineraryName("  盛岡さんぽ  "); // => "盛岡さんぽ"
+ */
+export function normalizeItineraryName(value: string): string {
+  return value.trim().slice(0, ITINERARY_NAME_MAX_LENGTH);
+}
+
+/**
+ * 旅程を共有用の URL クエリにする。
+ *
+ * @param query - スポット ID と旅程名
+ * @returns `stops=1,4,2&name=...` 形式のクエリ文字列
+ * @example
+ * buildItineraryQuery({ spotIds: [1, 4], name: "盛岡" }); // => "stops=1%2C4&name=%E7%9B%9B%E5%B2%A1"
+ */
+export function buildItineraryQuery(query: ItineraryQuery): string {
+  const params = new URLSearchParams();
+  if (query.spotIds.length > 0) params.set("stops", query.spotIds.join(","));
+  const name = normalizeItineraryName(query.name);
+  if (name) params.set("name", name);
+  return params.toString();
+}
+
+/**
+ * 共有 URL のクエリから旅程を読み取る。不正な ID・重複は除き、上限件数で切る。
+ *
+ * @param stops - `stops` クエリ
+ * @param name - `name` クエリ
+ * @returns 旅程
+ * @example
+ * parseItineraryQuery("1,4,x,1", "盛岡"); // => { spotIds: [1, 4], name: "盛岡" }
+ */
+export function parseItineraryQuery(stops: string | null | undefined, name: string | null | undefined): ItineraryQuery {
+  const spotIds: number[] = [];
+  (stops ?? "").split(",").forEach((part) => {
+    const id = Number(part.trim());
+    if (Number.isInteger(id) && id > 0 && !spotIds.includes(id)) spotIds.push(id);
+  });
+  return {
+    spotIds: spotIds.slice(0, ITINERARY_MAX_STOPS),
+    name: normalizeItineraryName(name ?? ""),
+  };
+}
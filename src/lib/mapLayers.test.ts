@@ -0,0 +1,81 @@
+import {
+  buildHeatmapCells,
+  buildHeatmapPoints,
+  buildMapLayerQuery,
+  buildSpotMapHref,
+  DEFAULT_MAP_LAYERS,
+  filterSpotsByGenres,
+  getGenreColor,
+  parseMapLayerQuery,
+  placeUpcomingEvents,
+} from "@/lib/mapLayers";
+import type { Event, Spot } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const baseSpot = { description: "" };
+const spots: Spot[] = [
+  { ...baseSpot, id: 1, name: "盛岡城跡公園", city_id: 1, genre_id: 1, lat: 39.7021, lng: 141.1527 },
+  { ...baseSpot, id: 4, name: "わんこそば", city_id: 1, genre_id: 3, lat: 39.7036, lng: 141.1527 },
+  { ...baseSpot, id: 2, name: "中尊寺", city_id: 2, genre_id: 1, lat: 38.9865, lng: 141.1176 },
+];
+
+describe("mapLayers", () => {
+  it("round-trips layer choices through the url query", () => {
+    const state = { genreIds: [1, 3], events: true, heatmap: "stamps" as const };
+
+    expect(parseMapLayerQuery(Object.fromEntries(new URLSearchParams(buildMapLayerQuery(state))))).toEqual(state);
+    expect(buildMapLayerQuery(DEFAULT_MAP_LAYERS)).toBe("");
+    expect(parseMapLayerQuery({ genres: "x,2,2", heat: "rain" })).toEqual({
+      genreIds: [2],
+      events: false,
+      heatmap: "off",
+    });
+  });
+
+  it("filters spots by genre and keeps all when no genre filter is set", () => {
+    expect(filterSpotsByGenres(spots, [3]).map((spot) => spot.id)).toEqual([4]);
+    expect(filterSpotsByGenres(spots, [])).toEqual([]);
+    expect(filterSpotsByGenres(spots, null)).toHaveLength(3);
+    expect(getGenreColor(1)).not.toBe(getGenreColor(2));
+  });
+
+  it("places upcoming events at their coordinates, linked spot, venue spot, municipality or city centroid", () => {
+    const events: Event[] = [
+      { id: 1, title: "ナイトマーケット", location: "肴町", start_date: "2026-03-14", end_date: "2026-03-15", city_id: 1 },
+      { id: 2, title: "ライトアップ", location: "中尊寺", start_date: "2026-03-20", end_date: null, city_id: 2 },
+      { id: 3, title: "終了済み", location: "中尊寺", start_date: "2026-03-01", end_date: "2026-03-02", city_id: 2 },
+      { id: 4, title: "場所不明", location: null, start_date: "2026-03-20", end_date: null, city_id: null },
+      {
+        id: 5,
+        title: "確定済み",
+        location: "中尊寺",
+        start_date: "2026-03-21",
+        end_date: null,
+        city_id: 2,
+        lat: 38.9901,
+        lng: 141.1002,
+      },
+      { id: 6, title: "浜の朝市", location: "宮古市 浄土ヶ浜", start_date: "2026-03-22", end_date: null, city_id: null },
+      { id: 7, title: "そば祭り", location: "盛岡市内各所", start_date: "2026-03-23", end_date: null, spot_ids: [9, 4] },
+    ];
+    const markers = placeUpcomingEvents(events, spots, new Date(2026, 2, 12));
+
+    expect(markers.map((marker) => marker.id)).toEqual([1, 2, 5, 6, 7]);
+    expect(markers[0].lat).toBeCloseTo(39.70285);
+    expect(markers[1]).toMatchObject({ lat: 38.9865, lng: 141.1176 });
+    expect(markers[2]).toMatchObject({ lat: 38.9901, lng: 141.1002 });
+    expect(markers[3]).toMatchObject({ lat: 39.6414, lng: 141.957 });
+    expect(markers[4]).toMatchObject({ lat: 39.7036, lng: 141.1527 });
+    expect(buildSpotMapHref(4)).toBe("/map?focus=4");
+  });
+
+  it("aggregates heatmap points into weighted cells", () => {
+    const points = buildHeatmapPoints(spots, "stamps", { 1: 3, 4: 1 });
+    const cells = buildHeatmapCells(points, 8);
+
+    expect(points).toHaveLength(2);
+    expect(cells).toHaveLength(1);
+    expect(cells[0]).toMatchObject({ weight: 4, intensity: 1 });
+    expect(buildHeatmapCells(buildHeatmapPoints(spots, "spots"), 8)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * 地図レイヤー
+ *
+ * ジャンル別の色分け・表示切り替え、イベントレイヤー、ヒートマップの状態と計算をまとめる。
+ * レイヤーの選択は `/map` の URL クエリ（`genres` / `events` / `heat`）と相互に変換して共有できるようにする。
+ */
+
+import { MAP_PATH } from "@/lib/config";
+import { resolveNextOccurrence } from "@/lib/eventRecurrence";
+import { resolveEventSpots } from "@/lib/eventSpots";
+import { matchMunicipality } from "@/lib/geocoding";
+import { projectToPixel } from "@/lib/markerCluster";
+import type { Event, Spot } from "@/lib/types";
+
+/** ヒートマップの集計対象 */
+export type HeatmapMode = "off" | "spots" | "stamps";
+
+/** 地図レイヤーの選択状態 */
+export type MapLayerState = {
+  /** 表示するジャンル ID（null はすべて表示） */
+  genreIds: number[] | null;
+  /** イベントレイヤーを表示するか */
+  events: boolean;
+  heatmap: HeatmapMode;
+};
+
+/** 地図に置けるイベント */
+export type EventMarker = {
+  id: number;
+  title: string;
+  lat: number;
+  lng: number;
+  start_date: string | null;
+  end_date: string | null;
+  location: string | null;
+};
+
+/** ヒートマップの重み付き地点 */
+export type HeatmapPoint = { lat: number; lng: number; weight: number };
+
+/** ヒートマップの 1 マス */
+export type HeatmapCell = {
+  key: string;
+  lat: number;
+  lng: number;
+  weight: number;
+  /** 最大のマスを 1 とした強さ（0〜1） */
+  intensity: number;
+};
+
+export const DEFAULT_MAP_LAYERS: MapLayerState = { genreIds: null, events: false, heatmap: "off" };
+
+export const HEATMAP_MODE_LABELS: Record<HeatmapMode, string> = {
+  off: "なし",
+  spots: "スポット密度",
+  stamps: "スタンプ数",
+};
+
+/** ジャンルの色（ID 順に割り当てる） */
+const GENRE_PALETTE = ["#b45309", "#15803d", "#dc2626", "#2563eb", "#7c3aed", "#0891b2", "#db2777", "#4d7c0f"];
+/** ヒートマップでまとめる画面上の大きさ（px） */
+const HEATMAP_CELL_SIZE = 40;
+
+/**
+ * ジャンルのマーカー色を返す。
+ *
+ * @param genreId - ジャンル ID
+ * @returns CSS カラー
+ * @example
+ * getGenreColor(1); // => "#b45309"
+ */
+export function getGenreColor(genreId: number): string {
+  const index = (((genreId - 1) % GENRE_PALETTE.length) + GENRE_PALETTE.length) % GENRE_PALETTE.length;
+  return GENRE_PALETTE[index];
+}
+
+/**
+ * URL クエリから地図レイヤーの選択を読み取る。不正な値は既定値に戻す。
+ *
+ * @param query - `genres` / `events` / `heat` クエリ
+ * @returns レイヤーの選択状態
+ * @example
+ * parseMapLayerQuery({ genres: "1,3", events: "1", heat: "stamps" });
+ * // => { genreIds: [1, 3], events: true, heatmap: "stamps" }
+ */
+export function parseMapLayerQuery(query: {
+  genres?: string | null;
+  events?: string | null;
+  heat?: string | null;
+}): MapLayerState {
+  let genreIds: number[] | null = null;
+  if (query.genres !== undefined && query.genres !== null) {
+    genreIds = [];
+    query.genres.split(",").forEach((part) => {
+      const id = Number(part.trim());
+      if (part.trim() && Number.isInteger(id) && id > 0 && !genreIds?.includes(id)) genreIds?.push(id);
+    });
+  }
+  const heatmap: HeatmapMode = query.heat === "spots" || query.heat === "stamps" ? query.heat : "off";
+  return { genreIds, events: query.events === "1", heatmap };
+}
+
+/**
+ * 地図レイヤーの選択を URL クエリにする（既定値の項目は省く）。
+ *
+ * @param state - レイヤーの選択状態
+ * @returns クエリ文字列（`?` なし）
+ * @example
+ * buildMapLayerQuery({ genreIds: [1, 3], events: true, heatmap: "off" }); // => "genres=1%2C3&events=1"
+ */
+export function buildMapLayerQuery(state: MapLayerState): string {
+  const params = new URLSearchParams();
+  if (state.genreIds !== null) params.set("genres", state.genreIds.join(","));
+  if (state.events) params.set("events", "1");
+  if (state.heatmap !== "off") params.set("heat", state.heatmap);
+  return params.toString();
+}
+
+/**
+ * イベントの会場を中心にイベントレイヤーを表示する地図の URL を返す。
+ *
+ * @param eventId - イベント ID
+ * @returns `/map` の URL
+ * @example
+ * buildEventMapHref(3); // => "/map?events=1&event=3"
+ */
+export function buildEventMapHref(eventId: number): string {
+  return `${MAP_PATH}?events=1&event=${eventId}`;
+}
+
+/**
+ * スポットを中心に表示する地図の URL を返す。
+ *
+ * @param spotId - スポット ID
+ * @returns `/map` の URL
+ * @example
+ * buildSpotMapHref(3); // => "/map?focus=3"
+ */
+export function buildSpotMapHref(spotId: number): string {
+  return `${MAP_PATH}?focus=${spotId}`;
+}
+
+/**
+ * 選択中のジャンルでスポットを絞り込む。
+ *
+ * @param spots - スポット
+ * @param genreIds - 表示するジャンル ID（null はすべて）
+ * @returns 絞り込んだスポット
+ * @example
+ * filterSpotsByGenres(spots, [1]);
+ */
+export function filterSpotsByGenres<T extends Pick<Spot, "genre_id">>(spots: T[], genreIds: number[] | null): T[] {
+  if (genreIds === null) return spots;
+  return spots.filter((spot) => genreIds.includes(spot.genre_id));
+}
+
+/**
+ * 日時をローカル日付の `YYYY-MM-DD` へ変換する。
+ *
+ * @param date - 日時
+ * @returns 日付キー
+ * @example
+ * toDateKey(new Date(2026, 2, 12)); // => "2026-03-12"
+ */
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * イベントを地図に置く位置を決める。
+ *
+ * @param event - イベント
+ * @param spots - 全スポット
+ * @returns 位置（決められなければ null）
+ * @example
+ * resolveEventPoint({ id: 1, title: "夜市", location: "盛岡市" }, spots); // => { lat: 39.702, lng: 141.1545 }
+ */
+function resolveEventPoint(event: Event, spots: Spot[]): { lat: number; lng: number } | null {
+  if (typeof event.lat === "number" && typeof event.lng === "number") return { lat: event.lat, lng: event.lng };
+  const [linkedVenue] = resolveEventSpots(event, spots);
+  if (linkedVenue) return { lat: linkedVenue.lat, lng: linkedVenue.lng };
+  const location = event.location?.trim() ?? "";
+  const venue = location ? spots.find((spot) => spot.name === location || location.includes(spot.name)) : undefined;
+  if (venue) return { lat: venue.lat, lng: venue.lng };
+  const municipality = matchMunicipality(location);
+  if (municipality) return { lat: municipality.lat, lng: municipality.lng };
+  const citySpots = event.city_id ? spots.filter((spot) => spot.city_id === event.city_id) : [];
+  if (citySpots.length === 0) return null;
+  return {
+    lat: citySpots.reduce((total, spot) => total + spot.lat, 0) / citySpots.length,
+    lng: citySpots.reduce((total, spot) => total + spot.lng, 0) / citySpots.length,
+  };
+}
+
+/**
+ * 開催中・開催予定のイベントに地図上の位置を与える。
+ *
+ * Studio で確定した座標があればそこに置く。なければ紐づけた会場スポット、会場名と一致するスポット、
+ * 会場名に含まれる市町村の役所所在地、市町村のスポットの重心の順に位置を決める。
+ * 位置を決められないイベントと、終了したイベントは含めない。繰り返しイベントは直近の回の日付で置く。
+ *
+ * @param events - イベント
+ * @param spots - 全スポット
+ * @param today - 基準日
+ * @returns 地図に置けるイベント（開始日順）
+ * @example
+ * const markers = placeUpcomingEvents(events, spots, new Date());
+ */
+export function placeUpcomingEvents(events: Event[], spots: Spot[], today: Date = new Date()): EventMarker[] {
+  const todayKey = toDateKey(today);
+  return events
+    .map((event) => resolveNextOccurrence(event, todayKey))
+    .filter((event) => {
+      const lastDay = event.end_date ?? event.start_date;
+      return Boolean(lastDay) && (lastDay as string).slice(0, 10) >= todayKey;
+    })
+    .flatMap((event) => {
+      const point = resolveEventPoint(event, spots);
+      if (!point) return [];
+      return [
+        {
+          id: event.id,
+          title: event.title,
+          ...point,
+          start_date: event.start_date ?? null,
+          end_date: event.end_date ?? null,
+          location: event.location ?? null,
+        },
+      ];
+    })
+    .sort((a, b) => (a.start_date ?? "").localeCompare(b.start_date ?? ""));
+}
+
+/**
+ * スポット密度またはスタンプ数からヒートマップの地点を作る。
+ *
+ * @param spots - スポット
+ * @param mode - 集計対象
+ * @param stampCounts - スポット ID ごとのスタンプ数
+ * @returns 重み付き地点（重み 0 の地点は含めない）
+ * @example
+ * buildHeatmapPoints(spots, "stamps", { 1: 12 });
+ */
+export function buildHeatmapPoints(
+  spots: Spot[],
+  mode: HeatmapMode,
+  stampCounts: Record<number, number> = {}
+): HeatmapPoint[] {
+  if (mode === "off") return [];
+  return spots
+    .map((spot) => ({ lat: spot.lat, lng: spot.lng, weight: mode === "spots" ? 1 : (stampCounts[spot.id] ?? 0) }))
+    .filter((point) => point.weight > 0);
+}
+
+/**
+ * 地点を画面上の格子に集計してヒートマップのマスを作る。
+ *
+ * @param points - 重み付き地点
+ * @param zoom - 現在のズームレベル
+ * @param cellSize - マスの大きさ（px）
+ * @returns マス配列（位置は重みつき重心）
+ * @example
+ * const cells = buildHeatmapCells(points, map.getZoom());
+ */
+export function buildHeatmapCells(
+  points: HeatmapPoint[],
+  zoom: number,
+  cellSize: number = HEATMAP_CELL_SIZE
+): HeatmapCell[] {
+  const grid = new Map<string, { lat: number; lng: number; weight: number }>();
+  points.forEach((point) => {
+    const pixel = projectToPixel(point.lat, point.lng, zoom);
+    const key = `${Math.floor(pixel.x / cellSize)}:${Math.floor(pixel.y / cellSize)}`;
+    const cell = grid.get(key) ?? { lat: 0, lng: 0, weight: 0 };
+    cell.lat += point.lat * point.weight;
+    cell.lng += point.lng * point.weight;
+    cell.weight += point.weight;
+    grid.set(key, cell);
+  });
+  const maxWeight = Math.max(0, ...[...grid.values()].map((cell) => cell.weight));
+  return [...grid.entries()].map(([key, cell]) => ({
+    key,
+    lat: cell.lat / cell.weight,
+    lng: cell.lng / cell.weight,
+    weight: cell.weight,
+    intensity: maxWeight > 0 ? cell.weight / maxWeight : 0,
+  }));
+}
@@ -0,0 +1,39 @@
+import { clusterMarkers, projectToPixel } from "@/lib/markerCluster";
+import { describe, expect, it } from "vitest";
+
+const spots = [
+  { id: 1, lat: 39.7021, lng: 141.1527 },
+  { id: 4, lat: 39.7036, lng: 141.1527 },
+  { id: 2, lat: 38.9865, lng: 141.1176 },
+  { id: 3, lat: 39.8383, lng: 141.7989 },
+];
+
+describe("markerCluster", () => {
+  it("doubles pixel distances with each zoom level", () => {
+    const low = projectToPixel(39.7, 141.1, 10);
+    const high = projectToPixel(39.7, 141.1, 11);
+
+    expect(high.x).toBeCloseTo(low.x * 2);
+    expect(high.y).toBeCloseTo(low.y * 2);
+  });
+
+  it("groups nearby markers at low zoom and places the cluster at their centroid", () => {
+    const clusters = clusterMarkers(spots, 10);
+    const morioka = clusters.find((cluster) => cluster.items.length === 2);
+
+    expect(clusters).toHaveLength(3);
+    expect(morioka?.key).toBe("cluster-1-4");
+    expect(morioka?.lat).toBeCloseTo(39.70285);
+    expect(morioka?.bounds).toEqual({ south: 39.7021, west: 141.1527, north: 39.7036, east: 141.1527 });
+  });
+
+  it("expands clusters as the map zooms in", () => {
+    expect(clusterMarkers(spots, 17).map((cluster) => cluster.key).sort()).toEqual([
+      "spot-1",
+      "spot-2",
+      "spot-3",
+      "spot-4",
+    ]);
+    expect(clusterMarkers(spots, 5)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,128 @@
+import type { BoundingBox } from "@/lib/geo";
+
+/** 近接マーカーをまとめた 1 グループ */
+export type MarkerCluster<T> = {
+  /** 描画用の安定キー（単独マーカーは `spot-<id>`） */
+  key: string;
+  /** 構成マーカーの重心 */
+  lat: number;
+  lng: number;
+  items: T[];
+  /** 構成マーカーを囲む範囲（クリック時のズームに使う） */
+  bounds: BoundingBox;
+};
+
+type ClusterOptions = {
+  /** 同じクラスタにまとめる画面上の距離（px） */
+  cellSize?: number;
+  /** このズーム以上ではまとめない */
+  maxClusterZoom?: number;
+};
+
+const TILE_SIZE = 256;
+export const DEFAULT_CLUSTER_CELL_SIZE = 60;
+export const DEFAULT_MAX_CLUSTER_ZOOM = 16;
+
+/**
+ * 緯度経度を指定ズームの Web メルカトル画素座標へ変換する。
+ *
+ * @param lat - 緯度
+ * @param lng - 経度
+ * @param zoom - ズームレベル
+ * @returns 画素座標
+ * @example
+ * projectToPixel(39.7, 141.15, 10);
+ */
+export function projectToPixel(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const clampedLat = Math.max(-85.05112878, Math.min(85.05112878, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * 画面上で近いマーカーをまとめる。
+ *
+ * 入力順に未所属のマーカーを起点とし、画面上で `cellSize` px 以内の未所属マーカーを同じクラスタにする
+ * （近傍探索は格子で絞り込む）。位置は構成マーカーの重心。ズームするほど画面上の距離が広がって
+ * クラスタがほどけ、`maxClusterZoom` 以上ではすべて単独表示になる。
+ *
+ * @param items - 座標と ID を持つ対象
+ * @param zoom - 現在のズームレベル
+ * @param options - まとめる距離・クラスタを解除するズーム
+ * @returns クラスタ配列（単独マーカーも 1 件のクラスタとして含む）
+ * @example
+ * const clusters = clusterMarkers(spots, map.getZoom());
+ */
+export function clusterMarkers<T extends { id: number; lat: number; lng: number }>(
+  items: T[],
+  zoom: number,
+  options: ClusterOptions = {}
+): MarkerCluster<T>[] {
+  const cellSize = options.cellSize ?? DEFAULT_CLUSTER_CELL_SIZE;
+  const maxClusterZoom = options.maxClusterZoom ?? DEFAULT_MAX_CLUSTER_ZOOM;
+  if (zoom >= maxClusterZoom) return items.map((item) => buildCluster([item]));
+
+  const projected = items.map((item) => ({ item, ...projectToPixel(item.lat, item.lng, zoom) }));
+  const grid = new Map<string, typeof projected>();
+  projected.forEach((point) => {
+    const cellKey = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const bucket = grid.get(cellKey);
+    if (bucket) bucket.push(point);
+    else grid.set(cellKey, [point]);
+  });
+
+  const assigned = new Set<T>();
+  const clusters: MarkerCluster<T>[] = [];
+  projected.forEach((origin) => {
+    if (assigned.has(origin.item)) return;
+    const members = [origin.item];
+    assigned.add(origin.item);
+    const cellX = Math.floor(origin.x / cellSize);
+    const cellY = Math.floor(origin.y / cellSize);
+    for (let dx = -1; dx <= 1; dx += 1) {
+      for (let dy = -1; dy <= 1; dy += 1) {
+        grid.get(`${cellX + dx}:${cellY + dy}`)?.forEach((point) => {
+          if (assigned.has(point.item)) return;
+          if (Math.hypot(point.x - origin.x, point.y - origin.y) > cellSize) return;
+          members.push(point.item);
+          assigned.add(point.item);
+        });
+      }
+    }
+    clusters.push(buildCluster(members));
+  });
+  return clusters;
+}
+
+/**
+ * 構成マーカーからクラスタを組み立てる。
+ *
+ * @param members - 構成マーカー（1 件以上）
+ * @returns クラスタ
+ * @example
+ * buildCluster([spot]);
+ */
+function buildCluster<T extends { id: number; lat: number; lng: number }>(members: T[]): MarkerCluster<T> {
+  const lats = members.map((member) => member.lat);
+  const lngs = members.map((member) => member.lng);
+  const key =
+    members.length === 1
+      ? `spot-${members[0].id}`
+      : `cluster-${members.map((member) => member.id).sort((left, right) => left - right).join("-")}`;
+  return {
+    key,
+    lat: lats.reduce((sum, value) => sum + value, 0) / members.length,
+    lng: lngs.reduce((sum, value) => sum + value, 0) / members.length,
+    items: members,
+    bounds: {
+      south: Math.min(...lats),
+      west: Math.min(...lngs),
+      north: Math.max(...lats),
+      east: Math.max(...lngs),
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import { City, Genre, Spot, Event } from "./types";
+import { City, Genre, Spot, Event, Rally } from "./types";
 
 /**
  * 今日からの相対日付を `YYYY-MM-DD` で返す。
@@ -106,6 +106,9 @@ export const mockEvents: Event[] = [
     start_date: buildRelativeDate(2),
     end_date: buildRelativeDate(4),
     city_id: 1,
+    lat: 39.7016,
+    lng: 141.1368,
+    spot_ids: [1, 4],
   },
   {
     id: 2,
@@ -114,6 +117,9 @@ export const mockEvents: Event[] = [
     start_date: buildRelativeDate(6),
     end_date: buildRelativeDate(6),
     city_id: 2,
+    lat: 38.9865,
+    lng: 141.1176,
+    spot_ids: [2],
   },
   {
     id: 3,
@@ -122,5 +128,43 @@ export const mockEvents: Event[] = [
     start_date: buildRelativeDate(12),
     end_date: buildRelativeDate(13),
     city_id: 3,
+    lat: 39.8383,
+    lng: 141.7989,
+    spot_ids: [3],
+  },
+  {
+    id: 4,
+    title: "材木町よ市",
+    location: "盛岡市材木町",
+    start_date: buildRelativeDate(-21),
+    end_date: buildRelativeDate(-21),
+    city_id: 1,
+    lat: 39.7089,
+    lng: 141.1488,
+    recurrence_rule: "FREQ=WEEKLY",
+    recurrence_exdates: [buildRelativeDate(7)],
+  },
+];
+
+export const mockRallies: Rally[] = [
+  {
+    id: 1,
+    title: "平泉・盛岡 歴史めぐり",
+    description: "世界遺産の金色堂から盛岡城跡まで、南北の歴史スポットを順にたどります。",
+    spot_ids: [2, 1],
+    is_ordered: true,
+    start_date: buildRelativeDate(-30),
+    end_date: buildRelativeDate(60),
+    badge_label: "歴史探訪マスター",
+  },
+  {
+    id: 2,
+    title: "いわて味と自然ラリー",
+    description: "わんこそばと龍泉洞、岩手の食と自然をどちらからでも。",
+    spot_ids: [4, 3],
+    is_ordered: false,
+    start_date: null,
+    end_date: null,
+    badge_label: "いわて満喫",
   },
 ];
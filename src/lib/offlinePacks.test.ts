@@ -0,0 +1,79 @@
+import {
+  buildCityRegion,
+  buildTileKey,
+  buildTileUrl,
+  countTiles,
+  enumerateTiles,
+  estimateOfflinePack,
+  extractPageAssetUrls,
+  latLngToTile,
+  OFFLINE_PACK_MAX_TILES,
+  selectViewedTiles,
+} from "@/lib/offlinePacks";
+import type { Spot } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const baseSpot = { description: "", genre_id: 1 };
+const spots: Spot[] = [
+  { ...baseSpot, id: 1, name: "盛岡城跡公園", city_id: 1, lat: 39.7021, lng: 141.1527, image_path: "a.jpg" },
+  { ...baseSpot, id: 4, name: "わんこそば", city_id: 1, lat: 39.7036, lng: 141.1527, image_thumb_path: "b.jpg" },
+  { ...baseSpot, id: 2, name: "中尊寺", city_id: 2, lat: 38.9865, lng: 141.1176 },
+];
+const morioka = { south: 39.69, west: 141.14, north: 39.71, east: 141.16 };
+
+describe("offlinePacks", () => {
+  it("converts coordinates to slippy map tiles", () => {
+    expect(latLngToTile(39.7021, 141.1527, 12)).toEqual({ z: 12, x: 3654, y: 1555 });
+    expect(latLngToTile(0, 0, 1)).toEqual({ z: 1, x: 1, y: 1 });
+  });
+
+  it("counts the same tiles it enumerates", () => {
+    const tiles = enumerateTiles(morioka, 10, 14);
+
+    expect(tiles).toHaveLength(countTiles(morioka, 10, 14));
+    expect(tiles[0].z).toBe(10);
+    expect(buildTileUrl({ z: 12, x: 3654, y: 1555 })).toBe("https://tile.openstreetmap.org/12/3654/1555.png");
+  });
+
+  it("builds a city region around the city's spots", () => {
+    const region = buildCityRegion({ id: 1, name: "盛岡市" }, spots);
+
+    expect(region?.label).toBe("盛岡市");
+    expect(region?.bounds.south).toBeLessThan(39.7021);
+    expect(region?.bounds.north).toBeGreaterThan(39.7036);
+    expect(buildCityRegion({ id: 99, name: "なし" }, spots)).toBeNull();
+  });
+
+  it("estimates size and flags packs over the tile limit", () => {
+    const region = { label: "盛岡市", bounds: morioka, cityId: 1 };
+    const estimate = estimateOfflinePack(region, 10, 14, spots);
+
+    expect(estimate).toMatchObject({ spotCount: 2, imageCount: 2, exceedsLimit: false });
+    expect(estimate.bytes).toBeGreaterThan(0);
+    const wide = { label: "岩手県", bounds: { south: 38.7, west: 140.6, north: 40.5, east: 142.1 }, cityId: null };
+    expect(estimateOfflinePack(wide, 8, 16, spots).tileCount).toBeGreaterThan(OFFLINE_PACK_MAX_TILES);
+  });
+
+  it("keeps only the tiles already shown on the map", () => {
+    const inside = latLngToTile(39.7021, 141.1527, 12);
+    const viewed = new Set([buildTileKey(inside), buildTileKey(latLngToTile(38.9865, 141.1176, 12)), "17/0/0"]);
+    const region = { label: "盛岡市", bounds: morioka, cityId: 1 };
+
+    expect(selectViewedTiles(morioka, 10, 14, viewed)).toEqual([inside]);
+    expect(estimateOfflinePack(region, 10, 14, spots, viewed).tileCount).toBe(1);
+    expect(estimateOfflinePack(region, 10, 14, spots, new Set()).tileCount).toBe(0);
+  });
+
+  it("extracts static and optimized image assets from page html", () => {
+    const html =
+      '<script src="/_next/static/chunks/app.js"></script>' +
+      '<img srcSet="/_next/image?url=%2Fa.jpg&amp;w=640&amp;q=75 1x, /_next/image?url=%2Fa.jpg&amp;w=1080&amp;q=75 2x">' +
+      '<script src="/_next/static/chunks/app.js"></script>';
+
+    expect(extractPageAssetUrls(html)).toEqual([
+      "/_next/static/chunks/app.js",
+      "/_next/image?url=%2Fa.jpg&w=640&q=75",
+      "/_next/image?url=%2Fa.jpg&w=1080&q=75",
+    ]);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * オフライン地図パック
+ *
+ * 地域（市町村 or 表示範囲）とズーム範囲から、保存する OSM タイル・スポット・ページを決めて
+ * ダウンロード前に容量を見積もる。実際の保存は `offlinePacksClient` と Service Worker が行う。
+ *
+ * OSM タイルサーバーは利用規約で一括の先読みを禁じているため、タイルはこの端末の地図で表示したものだけを保存する。
+ */
+
+import { MAP_TILE_URL } from "@/lib/config";
+import { isWithinBounds, padBoundingBox, type BoundingBox } from "@/lib/geo";
+import type { Spot } from "@/lib/types";
+
+/** 保存できる最小ズーム */
+export const OFFLINE_PACK_MIN_ZOOM = 8;
+/** 保存できる最大ズーム（OSM タイルサーバーへの負荷を抑えるため 16 まで） */
+export const OFFLINE_PACK_MAX_ZOOM = 16;
+/** 1 パックあたりのタイル数の上限 */
+export const OFFLINE_PACK_MAX_TILES = 3000;
+/** パックの Cache Storage 名の接頭辞（Service Worker と共有） */
+export const OFFLINE_PACK_CACHE_PREFIX = "iwate150-pack-";
+/** パックがある間に閲覧したアセットを残す Cache Storage 名（Service Worker と共有） */
+export const OFFLINE_RUNTIME_CACHE = "iwate150-runtime-v2";
+/** Service Worker がパックのスポット一覧を探すパス */
+export const OFFLINE_PACK_SPOTS_PATH = "/__offline/packs";
+
+/** タイル 1 枚の平均サイズの見積もり（byte） */
+const ESTIMATED_TILE_BYTES = 20 * 1024;
+/** スポット画像 1 枚の平均サイズの見積もり（byte） */
+const ESTIMATED_IMAGE_BYTES = 150 * 1024;
+/** スポット詳細ページ（HTML + データ）の平均サイズの見積もり（byte） */
+const ESTIMATED_PAGE_BYTES = 60 * 1024;
+/** 市町村の範囲をスポットの外周からどれだけ広げるか */
+const CITY_REGION_PADDING = 0.15;
+/** スポットが 1 件だけの市町村で使う範囲の半径（度） */
+const SINGLE_SPOT_REGION_DEGREES = 0.03;
+
+/** タイル座標 */
+export type TileCoord = { z: number; x: number; y: number };
+
+/** ダウンロードする地域 */
+export type OfflinePackRegion = {
+  /** 表示名（例: 盛岡市 / 表示中の範囲） */
+  label: string;
+  bounds: BoundingBox;
+  cityId: number | null;
+};
+
+/** 保存済みパック（localStorage に保存するメタデータ） */
+export type OfflinePack = {
+  id: string;
+  name: string;
+  bounds: BoundingBox;
+  cityId: number | null;
+  minZoom: number;
+  maxZoom: number;
+  spotIds: number[];
+  tileCount: number;
+  /** 実際に保存したサイズ（byte） */
+  bytes: number;
+  createdAt: string;
+};
+
+/** ダウンロード前の見積もり */
+export type OfflinePackEstimate = {
+  tileCount: number;
+  spotCount: number;
+  imageCount: number;
+  /** 見積もりサイズ（byte） */
+  bytes: number;
+  /** タイル数が上限を超えている */
+  exceedsLimit: boolean;
+};
+
+/**
+ * 緯度経度を指定ズームのタイル座標へ変換する（Web メルカトル）。
+ *
+ * @param lat - 緯度
+ * @param lng - 経度
+ * @param zoom - ズーム
+ * @returns タイル座標
+ * @example
+ * latLngToTile(39.7021, 141.1527, 12); // => { z: 12, x: 3654, y: 1555 }
+ */
+export function latLngToTile(lat: number, lng: number, zoom: number): TileCoord {
+  const count = 2 ** zoom;
+  const clampedLat = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = (clampedLat * Math.PI) / 180;
+  const x = Math.floor(((lng + 180) / 360) * count);
+  const y = Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * count);
+  return { z: zoom, x: Math.min(count - 1, Math.max(0, x)), y: Math.min(count - 1, Math.max(0, y)) };
+}
+
+/**
+ * 範囲とズームごとのタイルの列・行の範囲を返す。
+ *
+ * @param bounds - 範囲
+ * @param zoom - ズーム
+ * @returns x / y の最小・最大
+ * @example
+ * tileRange(bounds, 12);
+ */
+function tileRange(bounds: BoundingBox, zoom: number) {
+  const northWest = latLngToTile(bounds.north, bounds.west, zoom);
+  const southEast = latLngToTile(bounds.south, bounds.east, zoom);
+  return { minX: northWest.x, maxX: southEast.x, minY: northWest.y, maxY: southEast.y };
+}
+
+/**
+ * 範囲を覆うタイル数を数える。
+ *
+ * @param bounds - 範囲
+ * @param minZoom - 最小ズーム
+ * @param maxZoom - 最大ズーム
+ * @returns タイル数
+ * @example
+ * countTiles(bounds, 10, 14);
+ */
+export function countTiles(bounds: BoundingBox, minZoom: number, maxZoom: number): number {
+  let total = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom += 1) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+    total += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return total;
+}
+
+/**
+ * 範囲を覆うタイルを低ズームから順に列挙する。
+ *
+ * @param bounds - 範囲
+ * @param minZoom - 最小ズーム
+ * @param maxZoom - 最大ズーム
+ * @returns タイル座標の配列
+ * @example
+ * const tiles = enumerateTiles(bounds, 10, 14);
+ */
+export function enumerateTiles(bounds: BoundingBox, minZoom: number, maxZoom: number): TileCoord[] {
+  const tiles: TileCoord[] = [];
+  for (let z = minZoom; z <= maxZoom; z += 1) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x += 1) {
+      for (let y = minY; y <= maxY; y += 1) {
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * 表示済みタイルの照合に使うキーを返す。
+ *
+ * @param tile - タイル座標
+ * @returns `z/x/y` 形式のキー
+ * @example
+ * buildTileKey({ z: 12, x: 3654, y: 1555 }); // => "12/3654/1555"
+ */
+export function buildTileKey(tile: TileCoord): string {
+  return `${tile.z}/${tile.x}/${tile.y}`;
+}
+
+/**
+ * 範囲を覆うタイルのうち、表示済みのものだけを返す。
+ *
+ * 広い範囲でも全タイルを列挙しないよう、表示済みタイルの側から範囲内かを確かめる。
+ *
+ * @param bounds - 範囲
+ * @param minZoom - 最小ズーム
+ * @param maxZoom - 最大ズーム
+ * @param viewedTileKeys - 表示済みタイルのキー（`buildTileKey`）
+ * @returns タイル座標の配列
+ * @example
+ * const tiles = selectViewedTiles(bounds, 10, 14, new Set(["12/3654/1555"]));
+ */
+export function selectViewedTiles(
+  bounds: BoundingBox,
+  minZoom: number,
+  maxZoom: number,
+  viewedTileKeys: ReadonlySet<string>
+): TileCoord[] {
+  const tiles: TileCoord[] = [];
+  for (const key of viewedTileKeys) {
+    const [z, x, y] = key.split("/").map(Number);
+    if (!(z >= minZoom && z <= maxZoom)) continue;
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    if (x >= minX && x <= maxX && y >= minY && y <= maxY) tiles.push({ z, x, y });
+  }
+  return tiles.sort((left, right) => left.z - right.z || left.x - right.x || left.y - right.y);
+}
+
+/**
+ * タイルの保存用 URL を作る。
+ *
+ * `{s}` のサブドメインは外し、Service Worker も同じ URL で照合する。
+ *
+ * @param tile - タイル座標
+ * @returns タイル URL
+ * @example
+ * buildTileUrl({ z: 12, x: 3654, y: 1555 }); // => "https://tile.openstreetmap.org/12/3654/1555.png"
+ */
+export function buildTileUrl(tile: TileCoord): string {
+  return MAP_TILE_URL.replace("{s}.", "")
+    .replace("{z}", String(tile.z))
+    .replace("{x}", String(tile.x))
+    .replace("{y}", String(tile.y));
+}
+
+/**
+ * 市町村のスポットを囲む範囲を地域として返す。
+ *
+ * @param city - 市町村
+ * @param spots - 全スポット
+ * @returns 地域（スポットがなければ null）
+ * @example
+ * const region = buildCityRegion({ id: 1, name: "盛岡市" }, spots);
+ */
+export function buildCityRegion(city: { id: number; name: string }, spots: Spot[]): OfflinePackRegion | null {
+  const citySpots = spots.filter((spot) => spot.city_id === city.id);
+  if (citySpots.length === 0) return null;
+  const lats = citySpots.map((spot) => spot.lat);
+  const lngs = citySpots.map((spot) => spot.lng);
+  const bounds = {
+    south: Math.min(...lats) - SINGLE_SPOT_REGION_DEGREES,
+    west: Math.min(...lngs) - SINGLE_SPOT_REGION_DEGREES,
+    north: Math.max(...lats) + SINGLE_SPOT_REGION_DEGREES,
+    east: Math.max(...lngs) + SINGLE_SPOT_REGION_DEGREES,
+  };
+  return { label: city.name, bounds: padBoundingBox(bounds, CITY_REGION_PADDING), cityId: city.id };
+}
+
+/**
+ * 地域に含まれるスポットを返す（市町村指定ならその市町村のスポット）。
+ *
+ * @param region - 地域
+ * @param spots - 全スポット
+ * @returns 地域内のスポット
+ * @example
+ * const packSpots = selectPackSpots(region, spots);
+ */
+export function selectPackSpots(region: OfflinePackRegion, spots: Spot[]): Spot[] {
+  return spots.filter((spot) =>
+    region.cityId !== null ? spot.city_id === region.cityId : isWithinBounds(spot, region.bounds)
+  );
+}
+
+/**
+ * ダウンロード前にパックのサイズを見積もる。
+ *
+ * @param region - 地域
+ * @param minZoom - 最小ズーム
+ * @param maxZoom - 最大ズーム
+ * @param spots - 全スポット
+ * @param viewedTileKeys - 表示済みタイルのキー（指定時は保存対象になるこのタイルだけを数える）
+ * @returns 見積もり
+ * @example
+ * const estimate = estimateOfflinePack(region, 10, 14, spots, viewedTileKeys);
+ */
+export function estimateOfflinePack(
+  region: OfflinePackRegion,
+  minZoom: number,
+  maxZoom: number,
+  spots: Spot[],
+  viewedTileKeys?: ReadonlySet<string>
+): OfflinePackEstimate {
+  const tileCount = viewedTileKeys
+    ? selectViewedTiles(region.bounds, minZoom, maxZoom, viewedTileKeys).length
+    : countTiles(region.bounds, minZoom, maxZoom);
+  const packSpots = selectPackSpots(region, spots);
+  const imageCount = packSpots.reduce(
+    (total, spot) => total + (spot.image_thumb_path ? 1 : 0) + (spot.image_path ? 1 : 0),
+    0
+  );
+  return {
+    tileCount,
+    spotCount: packSpots.length,
+    imageCount,
+    bytes:
+      tileCount * ESTIMATED_TILE_BYTES +
+      imageCount * ESTIMATED_IMAGE_BYTES +
+      packSpots.length * ESTIMATED_PAGE_BYTES,
+    exceedsLimit: tileCount > OFFLINE_PACK_MAX_TILES,
+  };
+}
+
+/**
+ * ページ HTML から、オフライン表示に必要な同一オリジンのアセット URL を取り出す。
+ *
+ * `/_next/static`（JS・CSS・フォント）と `/_next/image`（最適化済み画像、srcset を含む）が対象。
+ *
+ * @param html - ページ HTML
+ * @returns 重複を除いたパスの配列
+ * @example
+ * extractPageAssetUrls('<script src="/_next/static/chunks/a.js"></script>'); // => ["/_next/static/chunks/a.js"]
+ */
+export function extractPageAssetUrls(html: string): string[] {
+  const urls = new Set<string>();
+  const pattern = /\/_next\/(?:static|image)[^"'\s,)\\]*/g;
+  for (const match of html.matchAll(pattern)) {
+    urls.add(match[0].replace(/&amp;/g, "&"));
+  }
+  return [...urls];
+}
+
+/**
+ * パックのスポット一覧を保存するパスを返す（Service Worker がオフライン時の `/api/spots` に使う）。
+ *
+ * @param packId - パック ID
+ * @returns パス
+ * @example
+ * buildPackSpotsPath("pack_1"); // => "/__offline/packs/pack_1/spots.json"
+ */
+export function buildPackSpotsPath(packId: string): string {
+  return `${OFFLINE_PACK_SPOTS_PATH}/${packId}/spots.json`;
+}
+
+/**
+ * バイト数を KB / MB で表示する。
+ *
+ * @param bytes - バイト数
+ * @returns 表示文字列
+ * @example
+ * formatBytes(5 * 1024 * 1024); // => "5.0MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
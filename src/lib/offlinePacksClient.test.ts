@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Spot } from "@/lib/types";
+
+const { fetchSpots } = vi.hoisted(() => ({ fetchSpots: vi.fn() }));
+
+vi.mock("@/lib/supabaseClient", () => ({ fetchSpots }));
+vi.mock("@/lib/storageSignedClient", () => ({ resolveClientStorageUrls: vi.fn() }));
+
+import { fetchSpotsWithOfflinePacks } from "@/lib/offlinePacksClient";
+
+const baseSpot = { description: "", genre_id: 1, city_id: 1 };
+const packSpots: Record<string, Spot[]> = {
+  "iwate150-pack-pack_a": [
+    { ...baseSpot, id: 12, name: "盛岡城跡公園", lat: 39.7021, lng: 141.1527 },
+    { ...baseSpot, id: 3, name: "岩手銀行赤レンガ館", lat: 39.7005, lng: 141.1544 },
+  ],
+  "iwate150-pack-pack_b": [{ ...baseSpot, id: 12, name: "盛岡城跡公園", lat: 39.7021, lng: 141.1527 }],
+};
+
+describe("offlinePacksClient", () => {
+  beforeEach(() => {
+    window.localStorage.setItem(
+      "iwate150_offline_packs_v1",
+      JSON.stringify([{ id: "pack_a" }, { id: "pack_b" }, { id: "pack_missing" }])
+    );
+    vi.stubGlobal("caches", {
+      open: async (name: string) => ({
+        match: async (url: string) =>
+          url.endsWith("/spots.json") && packSpots[name] ? new Response(JSON.stringify(packSpots[name])) : undefined,
+      }),
+    });
+    fetchSpots.mockResolvedValue([{ ...baseSpot, id: 1, name: "デモスポット", lat: 39.7, lng: 141.1 }]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchSpots.mockReset();
+  });
+
+  it("reads spots from saved packs while offline instead of the demo fallback", async () => {
+    vi.spyOn(window.navigator, "onLine", "get").mockReturnValue(false);
+
+    const spots = await fetchSpotsWithOfflinePacks();
+
+    expect(spots.map((spot) => spot.id)).toEqual([3, 12]);
+    expect(fetchSpots).not.toHaveBeenCalled();
+  });
+
+  it("reads spots from the database while online", async () => {
+    vi.spyOn(window.navigator, "onLine", "get").mockReturnValue(true);
+
+    const spots = await fetchSpotsWithOfflinePacks();
+
+    expect(spots.map((spot) => spot.id)).toEqual([1]);
+    expect(fetchSpots).toHaveBeenCalledTimes(1);
+  });
+});
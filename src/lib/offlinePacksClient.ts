@@ -0,0 +1,415 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { MAP_PATH, STAMP_BOOK_PATH, STAMPS_PATH } from "@/lib/config";
+import {
+  buildPackSpotsPath,
+  buildTileKey,
+  buildTileUrl,
+  extractPageAssetUrls,
+  OFFLINE_PACK_CACHE_PREFIX,
+  OFFLINE_PACK_MAX_TILES,
+  OFFLINE_RUNTIME_CACHE,
+  selectPackSpots,
+  selectViewedTiles,
+  type OfflinePack,
+  type OfflinePackRegion,
+  type TileCoord,
+} from "@/lib/offlinePacks";
+import { getSpotHref } from "@/lib/spotRoutes";
+import { resolveClientStorageUrls } from "@/lib/storageSignedClient";
+import { fetchSpots } from "@/lib/supabaseClient";
+import type { Spot } from "@/lib/types";
+
+const STORAGE_KEY = "iwate150_offline_packs_v1";
+const SERVICE_WORKER_PATH = "/offline-sw.js";
+/** 同時に取得するリクエスト数（タイルサーバーへの負荷を抑える） */
+const DOWNLOAD_CONCURRENCY = 4;
+/** パックに必ず含めるページ */
+const OFFLINE_PAGE_PATHS = [MAP_PATH, "/stamp", STAMPS_PATH, STAMP_BOOK_PATH];
+const EMPTY_PACKS: OfflinePack[] = [];
+const EMPTY_TILE_KEYS: ReadonlySet<string> = new Set();
+
+/** ダウンロードの進み具合 */
+export type OfflinePackProgress = {
+  done: number;
+  total: number;
+  /** 取得に失敗したリクエスト数 */
+  failed: number;
+};
+
+/** ダウンロードするパックの指定 */
+export type OfflinePackRequest = {
+  region: OfflinePackRegion;
+  minZoom: number;
+  maxZoom: number;
+  spots: Spot[];
+};
+
+let packs: OfflinePack[] | null = null;
+/** このページで地図に表示したタイル（パックに保存できるのはこれだけ） */
+let viewedTileKeys: ReadonlySet<string> = EMPTY_TILE_KEYS;
+const listeners = new Set<() => void>();
+
+/**
+ * パックのキャッシュ名を返す（Service Worker と同じ規則）。
+ *
+ * @param packId - パック ID
+ * @returns Cache Storage 名
+ * @example
+ * buildPackCacheName("pack_1"); // => "iwate150-pack-pack_1"
+ */
+function buildPackCacheName(packId: string): string {
+  return `${OFFLINE_PACK_CACHE_PREFIX}${packId}`;
+}
+
+/**
+ * 保存済みパックのメタデータを返す（初回は localStorage から読む）。
+ *
+ * @returns パック配列
+ * @example
+ * const current = readPacks();
+ */
+function readPacks(): OfflinePack[] {
+  if (packs) return packs;
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]") as unknown;
+    packs = Array.isArray(parsed) ? (parsed as OfflinePack[]) : [];
+  } catch {
+    packs = [];
+  }
+  return packs;
+}
+
+/**
+ * パックのメタデータを保存して購読者へ通知する。
+ *
+ * @param next - 次のパック配列
+ * @returns void
+ * @example
+ * writePacks([pack]);
+ */
+function writePacks(next: OfflinePack[]): void {
+  packs = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // ignore quota / private mode errors
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * パック一覧の変更を購読する。
+ *
+ * @param listener - 変更通知
+ * @returns 購読解除関数
+ * @example
+ * const unsubscribe = subscribe(() => {});
+ */
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 表示済みタイルのキーを返す。
+ *
+ * @returns タイルキーの集合
+ * @example
+ * const keys = readViewedTileKeys();
+ */
+function readViewedTileKeys(): ReadonlySet<string> {
+  return viewedTileKeys;
+}
+
+/**
+ * 地図に表示したタイルを記録する（Leaflet の `tileload` から呼ぶ）。
+ *
+ * @param tile - 表示したタイルの座標
+ * @returns void
+ * @example
+ * recordViewedTile({ z: 12, x: 3654, y: 1555 });
+ */
+export function recordViewedTile(tile: TileCoord): void {
+  const key = buildTileKey(tile);
+  if (viewedTileKeys.has(key)) return;
+  viewedTileKeys = new Set(viewedTileKeys).add(key);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * ブラウザが Service Worker と Cache Storage を使えるか判定する。
+ *
+ * @returns 使える場合 true
+ * @example
+ * if (isOfflineSupported()) { ... }
+ */
+function isOfflineSupported(): boolean {
+  return "serviceWorker" in navigator && "caches" in window;
+}
+
+/**
+ * オフライン用 Service Worker を登録する（登録済みなら何もしない）。
+ *
+ * @returns void
+ * @throws Error 登録に失敗した場合
+ * @example
+ * await registerOfflineServiceWorker();
+ */
+async function registerOfflineServiceWorker(): Promise<void> {
+  await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+  await navigator.serviceWorker.ready;
+}
+
+/**
+ * オフライン用 Service Worker の登録を解除する（パックが 1 つも残っていないときに呼ぶ）。
+ *
+ * @returns void
+ * @example
+ * await unregisterOfflineServiceWorker();
+ */
+async function unregisterOfflineServiceWorker(): Promise<void> {
+  if (!("serviceWorker" in navigator)) return;
+  const registrations = await navigator.serviceWorker.getRegistrations();
+  await Promise.all(
+    registrations
+      .filter((registration) =>
+        [registration.active, registration.waiting, registration.installing].some((worker) =>
+          worker?.scriptURL.endsWith(SERVICE_WORKER_PATH)
+        )
+      )
+      .map((registration) => registration.unregister())
+  );
+}
+
+/**
+ * 1 件取得してパックのキャッシュへ保存する。
+ *
+ * @param cache - パックのキャッシュ
+ * @param url - 取得する URL
+ * @param signal - 中断シグナル
+ * @param requestCache - HTTP キャッシュの使い方（表示済みタイルは `force-cache` で再取得を避ける）
+ * @returns 保存したサイズ（byte）とレスポンス本文
+ * @throws Error 取得に失敗した場合
+ * @example
+ * const { bytes } = await storeResponse(cache, "/map", signal);
+ */
+async function storeResponse(
+  cache: Cache,
+  url: string,
+  signal: AbortSignal,
+  requestCache: RequestCache = "default"
+): Promise<{ bytes: number; body: Blob }> {
+  const response = await fetch(url, { signal, credentials: "same-origin", cache: requestCache });
+  if (!response.ok) throw new Error(`offline pack fetch failed: ${response.status} ${url}`);
+  const body = await response.blob();
+  // 本文は展開済みなので Content-Encoding などは引き継がず、種類だけ残す
+  await cache.put(
+    url,
+    new Response(body, { headers: { "Content-Type": response.headers.get("Content-Type") ?? body.type } })
+  );
+  return { bytes: body.size, body };
+}
+
+/**
+ * URL を同時実行数を絞って順に保存する。
+ *
+ * @param urls - 保存する URL
+ * @param handle - 1 件分の処理（保存サイズを返す）
+ * @param onSettled - 1 件終わるたびに呼ばれる
+ * @returns 保存できた合計サイズ（byte）
+ * @example
+ * await storeAll(urls, (url) => storeResponse(cache, url, signal).then((r) => r.bytes), tick);
+ */
+async function storeAll(
+  urls: string[],
+  handle: (url: string) => Promise<number>,
+  onSettled: (ok: boolean) => void
+): Promise<number> {
+  const queue = [...urls];
+  let bytes = 0;
+  const workers = Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, queue.length) }, async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      try {
+        bytes += await handle(url);
+        onSettled(true);
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") throw error;
+        onSettled(false);
+      }
+    }
+  });
+  await Promise.all(workers);
+  return bytes;
+}
+
+/**
+ * 地域のタイル・スポット・ページ・画像をダウンロードしてパックとして保存する。
+ *
+ * ページはアセット（JS・CSS・最適化画像）も合わせて保存するので、オフラインでも地図・スポット詳細・スタンプを開ける。
+ * タイルは OSM の利用規約に従い、地図で表示済みのものだけを保存する。
+ *
+ * @param request - 地域・ズーム範囲・全スポット
+ * @param options - 中断シグナル・進捗通知
+ * @returns 保存したパック
+ * @throws Error 非対応ブラウザ・表示済みタイルなし・タイル数超過・中断時
+ * @example
+ * const pack = await downloadOfflinePack({ region, minZoom: 10, maxZoom: 14, spots }, { signal, onProgress });
+ */
+async function downloadOfflinePack(
+  request: OfflinePackRequest,
+  options: { signal: AbortSignal; onProgress: (progress: OfflinePackProgress) => void }
+): Promise<OfflinePack> {
+  if (!isOfflineSupported()) throw new Error("このブラウザはオフライン保存に対応していません。");
+  const tiles = selectViewedTiles(request.region.bounds, request.minZoom, request.maxZoom, readViewedTileKeys());
+  if (tiles.length === 0) {
+    throw new Error("この地域で表示した地図がありません。保存したいズームで地図を表示してからダウンロードしてください。");
+  }
+  if (tiles.length > OFFLINE_PACK_MAX_TILES) {
+    throw new Error(`タイル数が上限（${OFFLINE_PACK_MAX_TILES} 枚）を超えています。範囲かズームを狭めてください。`);
+  }
+  await registerOfflineServiceWorker();
+
+  const id = `pack_${Date.now().toString(36)}`;
+  const cache = await caches.open(buildPackCacheName(id));
+  const packSpots = selectPackSpots(request.region, request.spots);
+  const imageUrls = await resolveClientStorageUrls(
+    packSpots.flatMap((spot) => [spot.image_thumb_path, spot.image_path]),
+    "image"
+  );
+  const pageUrls = [...OFFLINE_PAGE_PATHS, ...packSpots.map((spot) => getSpotHref(spot))];
+  const tileUrls = tiles.map(buildTileUrl);
+  const progress: OfflinePackProgress = { done: 0, total: tileUrls.length + imageUrls.size + pageUrls.length, failed: 0 };
+  const tick = (ok: boolean) => {
+    progress.done += 1;
+    if (!ok) progress.failed += 1;
+    options.onProgress({ ...progress });
+  };
+  options.onProgress({ ...progress });
+
+  try {
+    const assetUrls = new Set<string>();
+    let bytes = await storeAll(
+      pageUrls,
+      async (url) => {
+        const { bytes: pageBytes, body } = await storeResponse(cache, url, options.signal);
+        extractPageAssetUrls(await body.text()).forEach((asset) => assetUrls.add(asset));
+        return pageBytes;
+      },
+      tick
+    );
+    progress.total += assetUrls.size;
+    const store = (url: string) => storeResponse(cache, url, options.signal).then((result) => result.bytes);
+    bytes += await storeAll([...assetUrls], store, tick);
+    bytes += await storeAll([...imageUrls.values()], store, tick);
+    bytes += await storeAll(
+      tileUrls,
+      (url) => storeResponse(cache, url, options.signal, "force-cache").then((result) => result.bytes),
+      tick
+    );
+
+    const spotsJson = JSON.stringify(packSpots);
+    await cache.put(
+      buildPackSpotsPath(id),
+      new Response(spotsJson, { headers: { "Content-Type": "application/json" } })
+    );
+
+    const pack: OfflinePack = {
+      id,
+      name: request.region.label,
+      bounds: request.region.bounds,
+      cityId: request.region.cityId,
+      minZoom: request.minZoom,
+      maxZoom: request.maxZoom,
+      spotIds: packSpots.map((spot) => spot.id),
+      tileCount: tileUrls.length,
+      bytes: bytes + spotsJson.length,
+      createdAt: new Date().toISOString(),
+    };
+    writePacks([pack, ...readPacks()]);
+    return pack;
+  } catch (error) {
+    await caches.delete(buildPackCacheName(id));
+    if (readPacks().length === 0) await unregisterOfflineServiceWorker();
+    throw error;
+  }
+}
+
+/**
+ * パックを削除する。最後のパックを消したときは閲覧時に残した runtime キャッシュも消し、
+ * Service Worker の登録を解除する。
+ *
+ * @param packId - パック ID
+ * @returns void
+ * @example
+ * await deleteOfflinePack("pack_1");
+ */
+async function deleteOfflinePack(packId: string): Promise<void> {
+  if ("caches" in window) {
+    await caches.delete(buildPackCacheName(packId));
+  }
+  const next = readPacks().filter((pack) => pack.id !== packId);
+  if (next.length === 0) {
+    if ("caches" in window) await caches.delete(OFFLINE_RUNTIME_CACHE);
+    await unregisterOfflineServiceWorker();
+  }
+  writePacks(next);
+}
+
+/**
+ * 保存済みパックに入れたスポットを読む（複数のパックにあるスポットは 1 件にまとめる）。
+ *
+ * @returns スポット（ID 昇順。パックがなければ空）
+ * @example
+ * const spots = await readOfflinePackSpots();
+ */
+async function readOfflinePackSpots(): Promise<Spot[]> {
+  if (!("caches" in window)) return [];
+  const spots = new Map<number, Spot>();
+  for (const pack of readPacks()) {
+    const cache = await caches.open(buildPackCacheName(pack.id));
+    const response = await cache.match(buildPackSpotsPath(pack.id));
+    if (!response) continue;
+    ((await response.json()) as Spot[]).forEach((spot) => spots.set(spot.id, spot));
+  }
+  return [...spots.values()].sort((left, right) => left.id - right.id);
+}
+
+/**
+ * スポット一覧を読む。オフライン時は DB（取得失敗時はデモデータになる）ではなく保存済みパックから読む。
+ *
+ * スタンプ画面はパックに保存してオフラインで開くため、距離判定やキューに積むスポット ID を実データに揃える。
+ *
+ * @returns スポット
+ * @example
+ * const spots = await fetchSpotsWithOfflinePacks();
+ */
+export async function fetchSpotsWithOfflinePacks(): Promise<Spot[]> {
+  if (navigator.onLine) return fetchSpots();
+  return readOfflinePackSpots();
+}
+
+/**
+ * オフライン地図パックの一覧・ダウンロード・削除を扱う hook。
+ *
+ * @returns パック一覧・表示済みタイル・対応可否・ダウンロード/削除関数
+ * @example
+ * const { packs, viewedTileKeys, downloadPack, deletePack } = useOfflinePacks();
+ */
+export function useOfflinePacks() {
+  const current = useSyncExternalStore(subscribe, readPacks, () => EMPTY_PACKS);
+  const viewed = useSyncExternalStore(subscribe, readViewedTileKeys, () => EMPTY_TILE_KEYS);
+  const isSupported = useSyncExternalStore(subscribe, isOfflineSupported, () => false);
+
+  const downloadPack = useCallback(
+    (request: OfflinePackRequest, options: { signal: AbortSignal; onProgress: (progress: OfflinePackProgress) => void }) =>
+      downloadOfflinePack(request, options),
+    []
+  );
+  const deletePack = useCallback((packId: string) => deleteOfflinePack(packId), []);
+
+  return { packs: current, viewedTileKeys: viewed, isSupported, downloadPack, deletePack };
+}
@@ -0,0 +1,89 @@
+import { computeRallyProgress, getRallyStatus } from "@/lib/rallies";
+import type { Rally, Stamp } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const heritageRally: Rally = {
+  id: 1,
+  title: "Hiraizumi World Heritage",
+  spot_ids: [2, 5, 1],
+  is_ordered: true,
+  start_date: "2026-04-01",
+  end_date: "2026-04-30",
+  badge_label: "Heritage Master",
+};
+
+/**
+ * テスト用スタンプを生成する。
+ *
+ * @param spotId - スポット ID
+ * @param createdAt - 取得日時
+ * @returns スタンプ
+ * @example
+ * buildStamp(2, "2026-04-02T10:00:00");
+ */
+function buildStamp(spotId: number, createdAt: string): Stamp {
+  return { id: spotId * 10, user_id: 8, spot_id: spotId, created_at: createdAt };
+}
+
+describe("rallies", () => {
+  it("derives rally status from the period", () => {
+    expect(getRallyStatus(heritageRally, new Date(2026, 2, 31))).toBe("upcoming");
+    expect(getRallyStatus(heritageRally, new Date(2026, 3, 30))).toBe("active");
+    expect(getRallyStatus(heritageRally, new Date(2026, 4, 1))).toBe("ended");
+    expect(getRallyStatus({ start_date: null, end_date: null })).toBe("active");
+  });
+
+  it("counts ordered stamps only while they follow the rally order", () => {
+    const progress = computeRallyProgress(
+      heritageRally,
+      [buildStamp(2, "2026-04-02T10:00:00"), buildStamp(1, "2026-04-03T10:00:00"), buildStamp(5, "2026-04-04T10:00:00")],
+      new Date(2026, 3, 10)
+    );
+
+    expect(progress.stampedSpotIds).toEqual([2, 5]);
+    expect(progress.isComplete).toBe(false);
+    expect(progress.nextSpotId).toBe(1);
+  });
+
+  it("orders and dates stamps by the capture time of offline stamps", () => {
+    const progress = computeRallyProgress(
+      heritageRally,
+      [
+        buildStamp(2, "2026-04-02T10:00:00"),
+        { ...buildStamp(1, "2026-04-03T10:00:00"), captured_at: "2026-04-03T09:00:00" },
+        { ...buildStamp(5, "2026-04-04T10:00:00"), captured_at: "2026-04-02T12:00:00" },
+      ],
+      new Date(2026, 3, 10)
+    );
+
+    expect(progress.stampedSpotIds).toEqual([2, 5, 1]);
+    expect(progress.completedAt).toBe("2026-04-03T09:00:00");
+
+    const syncedAfterPeriod = computeRallyProgress(heritageRally, [
+      { ...buildStamp(2, "2026-05-02T10:00:00"), captured_at: "2026-04-30T18:00:00" },
+      { ...buildStamp(5, "2026-05-02T10:00:01"), captured_at: "2026-05-01T09:00:00" },
+    ]);
+    expect(syncedAfterPeriod.stampedSpotIds).toEqual([2]);
+  });
+
+  it("ignores stamps outside the period and completes unordered rallies", () => {
+    const unordered = { ...heritageRally, is_ordered: false };
+    const outside = computeRallyProgress(unordered, [
+      buildStamp(2, "2026-03-20T10:00:00"),
+      buildStamp(5, "2026-04-04T10:00:00"),
+      buildStamp(1, "2026-04-03T10:00:00"),
+    ]);
+    expect(outside.earnedCount).toBe(2);
+    expect(outside.nextSpotId).toBe(2);
+
+    const complete = computeRallyProgress(unordered, [
+      buildStamp(1, "2026-04-03T10:00:00"),
+      buildStamp(2, "2026-04-05T10:00:00"),
+      buildStamp(5, "2026-04-04T10:00:00"),
+      buildStamp(9, "2026-04-06T10:00:00"),
+    ]);
+    expect(complete.isComplete).toBe(true);
+    expect(complete.rate).toBe(100);
+    expect(complete.completedAt).toBe("2026-04-05T10:00:00");
+  });
+});
@@ -0,0 +1,148 @@
+import type { Rally, Stamp } from "@/lib/types";
+
+/** 開催期間から見たラリーの状態 */
+export type RallyStatus = "upcoming" | "active" | "ended";
+
+/** ユーザーごとのラリー進捗 */
+export type RallyProgress = {
+  rallyId: number;
+  status: RallyStatus;
+  /** 進捗に数えたスポット ID（ラリー定義の並び順） */
+  stampedSpotIds: number[];
+  earnedCount: number;
+  totalCount: number;
+  /** 0〜100 の達成率 */
+  rate: number;
+  isComplete: boolean;
+  /** 次に巡るべきスポット ID。達成済みなら null */
+  nextSpotId: number | null;
+  /** 達成時は最後に数えたスタンプの取得日時 */
+  completedAt: string | null;
+};
+
+/**
+ * 日時をローカル日付の `YYYY-MM-DD` へ変換する。
+ *
+ * @param date - 日時
+ * @returns 日付キー
+ * @example
+ * toDateKey(new Date(2026, 2, 12));
+ */
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * スタンプを押した日時を返す。オフラインで記録したスタンプは端末での測位日時を使う。
+ *
+ * @param stamp - スタンプ
+ * @returns `captured_at`（なければ `created_at`）
+ * @example
+ * getStampedAt(stamp);
+ */
+function getStampedAt(stamp: Stamp): string {
+  return stamp.captured_at ?? stamp.created_at;
+}
+
+/**
+ * スタンプがラリー期間内に押されたか判定する。
+ *
+ * @param rally - 対象ラリー
+ * @param stamp - スタンプ
+ * @returns 期間内（期間未設定を含む）なら true
+ * @example
+ * isWithinRallyPeriod(rally, stamp);
+ */
+function isWithinRallyPeriod(rally: Pick<Rally, "start_date" | "end_date">, stamp: Stamp): boolean {
+  const stampedAt = new Date(getStampedAt(stamp));
+  if (Number.isNaN(stampedAt.getTime())) return false;
+  const key = toDateKey(stampedAt);
+  if (rally.start_date && key < rally.start_date) return false;
+  if (rally.end_date && key > rally.end_date) return false;
+  return true;
+}
+
+/**
+ * 開催期間からラリーの状態を判定する。
+ *
+ * @param rally - 対象ラリー
+ * @param today - 判定基準日
+ * @returns 開催前・開催中・終了
+ * @example
+ * getRallyStatus(rally);
+ */
+export function getRallyStatus(
+  rally: Pick<Rally, "start_date" | "end_date">,
+  today: Date = new Date()
+): RallyStatus {
+  const key = toDateKey(today);
+  if (rally.start_date && key < rally.start_date) return "upcoming";
+  if (rally.end_date && key > rally.end_date) return "ended";
+  return "active";
+}
+
+/**
+ * ユーザーのスタンプからラリー進捗を算出する。
+ *
+ * 押した日時（オフライン記録は測位日時）が期間外のスタンプは数えない。順序付きラリーでは定義順に沿って押された
+ * スタンプだけを先頭から連続して数え、順番を飛ばした分は前のスポットを押すまで保留となる。
+ *
+ * @param rally - 対象ラリー
+ * @param stamps - ユーザーのスタンプ
+ * @param today - 状態判定の基準日
+ * @returns ラリー進捗
+ * @example
+ * const progress = computeRallyProgress(rally, userStamps);
+ */
+export function computeRallyProgress(rally: Rally, stamps: Stamp[], today: Date = new Date()): RallyProgress {
+  const eligible = new Map<number, Stamp>();
+  stamps.forEach((stamp) => {
+    if (!rally.spot_ids.includes(stamp.spot_id) || !isWithinRallyPeriod(rally, stamp)) return;
+    const current = eligible.get(stamp.spot_id);
+    if (!current || new Date(getStampedAt(stamp)) < new Date(getStampedAt(current))) {
+      eligible.set(stamp.spot_id, stamp);
+    }
+  });
+
+  const counted: Stamp[] = [];
+  if (rally.is_ordered) {
+    let previousTime = Number.NEGATIVE_INFINITY;
+    for (const spotId of rally.spot_ids) {
+      const stamp = eligible.get(spotId);
+      const stampedTime = stamp ? new Date(getStampedAt(stamp)).getTime() : Number.NaN;
+      if (!stamp || !(stampedTime >= previousTime)) break;
+      counted.push(stamp);
+      previousTime = stampedTime;
+    }
+  } else {
+    rally.spot_ids.forEach((spotId) => {
+      const stamp = eligible.get(spotId);
+      if (stamp) counted.push(stamp);
+    });
+  }
+
+  const stampedSpotIds = counted.map((stamp) => stamp.spot_id);
+  const totalCount = rally.spot_ids.length;
+  const earnedCount = stampedSpotIds.length;
+  const isComplete = totalCount > 0 && earnedCount === totalCount;
+  const completedAt = isComplete
+    ? counted.reduce(
+        (latest, stamp) => (new Date(getStampedAt(stamp)) > new Date(latest) ? getStampedAt(stamp) : latest),
+        getStampedAt(counted[0])
+      )
+    : null;
+
+  return {
+    rallyId: rally.id,
+    status: getRallyStatus(rally, today),
+    stampedSpotIds,
+    earnedCount,
+    totalCount,
+    rate: totalCount > 0 ? Math.round((earnedCount / totalCount) * 100) : 0,
+    isComplete,
+    nextSpotId: rally.spot_ids.find((spotId) => !stampedSpotIds.includes(spotId)) ?? null,
+    completedAt,
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { buildGoogleMapsUrl, buildOsrmUrl, buildRouteUrl, isTravelMode } from "@/lib/routeProviders";
+
+const origin = { lat: 39.7017, lng: 141.1364 };
+const destination = { lat: 39.7021, lng: 141.1527 };
+
+describe("routeProviders", () => {
+  it("maps travel modes to OSRM engines", () => {
+    expect(buildOsrmUrl(origin, destination, "foot")).toContain("engine=fossgis_osrm_foot");
+    expect(buildOsrmUrl(origin, destination, "bicycle")).toContain("engine=fossgis_osrm_bike");
+    expect(buildOsrmUrl(origin, destination)).toContain("engine=fossgis_osrm_car");
+  });
+
+  it("includes the travel mode in the route url result", () => {
+    const result = buildRouteUrl("free", origin, destination, "bicycle");
+    expect(result).toMatchObject({ ok: true, provider: "osrm", travelMode: "bicycle", fellBack: false });
+  });
+
+  it("falls back to Google Maps for public transport", () => {
+    const result = buildRouteUrl("free", origin, destination, "transit");
+    expect(result).toMatchObject({ ok: true, travelMode: "transit", fellBack: true });
+    expect(result.ok && result.url).toBe(buildGoogleMapsUrl(destination, "transit", origin));
+    expect(result.ok && result.url).toContain("travelmode=transit");
+  });
+
+  it("validates stored travel modes", () => {
+    expect(isTravelMode("foot")).toBe(true);
+    expect(isTravelMode("plane")).toBe(false);
+    expect(isTravelMode(null)).toBe(false);
+  });
+});
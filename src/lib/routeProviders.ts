@@ -2,7 +2,8 @@
  * ルート検索プロバイダ定義
  *
  * 無料 (OSRM Public) と有料 (OpenRouteService) の2つのルートエンジンを切り替え、
- * 外部地図アプリへの遷移URLを生成するユーティリティ。
+ * 外部地図アプリへの遷移URLを生成するユーティリティ。移動手段（徒歩・自転車・車・公共交通）に応じて
+ * 各プロバイダのプロファイルを選ぶ。
  */
 
 import { ROUTE_CONFIG } from "@/lib/config";
@@ -17,19 +18,68 @@ export type RouteMode = "free" | "paid";
 /** ルートプロバイダ識別子 */
 export type RouteProvider = "osrm" | "openrouteservice";
 
+/** 移動手段 */
+export type TravelMode = "foot" | "bicycle" | "car" | "transit";
+
+/** 選択肢の表示順 */
+export const TRAVEL_MODES: readonly TravelMode[] = ["foot", "bicycle", "car", "transit"];
+
+/** 既定の移動手段 */
+export const DEFAULT_TRAVEL_MODE: TravelMode = "car";
+
+/** 移動手段の表示名 */
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  foot: "徒歩",
+  bicycle: "自転車",
+  car: "車",
+  transit: "公共交通",
+};
+
 /** 位置座標 */
 export type LatLng = { lat: number; lng: number };
 
 /** ルートURL生成結果 */
 export type RouteUrlResult =
-  | { ok: true; url: string; provider: RouteProvider; fellBack: false }
-  | { ok: true; url: string; provider: RouteProvider; fellBack: true; reason: string }
+  | { ok: true; url: string; provider: RouteProvider; travelMode: TravelMode; fellBack: false }
+  | { ok: true; url: string; provider: RouteProvider; travelMode: TravelMode; fellBack: true; reason: string }
   | { ok: false; error: string };
 
+// OSRM / OpenRouteService は公共交通の経路を持たないため transit は Google Maps に委ねる
+const OSRM_ENGINES: Record<Exclude<TravelMode, "transit">, string> = {
+  foot: "fossgis_osrm_foot",
+  bicycle: "fossgis_osrm_bike",
+  car: "fossgis_osrm_car",
+};
+
+const OPEN_ROUTE_SERVICE_MAP_PROFILES: Record<Exclude<TravelMode, "transit">, string> = {
+  foot: "2",
+  bicycle: "1a",
+  car: "0",
+};
+
+const GOOGLE_MAPS_TRAVEL_MODES: Record<TravelMode, string> = {
+  foot: "walking",
+  bicycle: "bicycling",
+  car: "driving",
+  transit: "transit",
+};
+
 // ---------------------------------------------------------------------------
 // ヘルパー
 // ---------------------------------------------------------------------------
 
+/**
+ * 値が移動手段として有効か判定する（保存値・URL クエリの検証用）。
+ *
+ * @param value - 判定する値
+ * @returns TravelMode なら true
+ * @example
+ * if (isTravelMode(stored)) setMode(stored);
+ */
+export function isTravelMode(value: unknown): value is TravelMode {
+  return typeof value === "string" && (TRAVEL_MODES as readonly string[]).includes(value);
+}
+
 /**
  * 有料プロバイダ (OpenRouteService) が利用可能かを判定する
  *
@@ -80,16 +130,18 @@ export function resolveProvider(mode: RouteMode): {
  *
  * @param origin - 出発地の緯度経度
  * @param destination - 目的地の緯度経度
+ * @param travelMode - 移動手段（公共交通は扱えないため車として扱う）
  * @returns OpenStreetMap directions URL
  * @example
- * const url = buildOsrmUrl({ lat: 39.7, lng: 141.1 }, { lat: 39.8, lng: 141.2 });
- * // => "https://www.openstreetmap.org/directions?engine=fossgis_osrm_car&route=39.7%2C141.1%3B39.8%2C141.2"
+ * const url = buildOsrmUrl({ lat: 39.7, lng: 141.1 }, { lat: 39.8, lng: 141.2 }, "foot");
+ * // => "https://www.openstreetmap.org/directions?engine=fossgis_osrm_foot&route=39.7%2C141.1%3B39.8%2C141.2"
  */
-export function buildOsrmUrl(origin: LatLng, destination: LatLng): string {
+export function buildOsrmUrl(origin: LatLng, destination: LatLng, travelMode: TravelMode = DEFAULT_TRAVEL_MODE): string {
   const route = encodeURIComponent(
     `${origin.lat},${origin.lng};${destination.lat},${destination.lng}`
   );
-  return `https://www.openstreetmap.org/directions?engine=fossgis_osrm_car&route=${route}`;
+  const engine = OSRM_ENGINES[travelMode === "transit" ? "car" : travelMode];
+  return `https://www.openstreetmap.org/directions?engine=${engine}&route=${route}`;
 }
 
 /**
@@ -97,29 +149,39 @@ export function buildOsrmUrl(origin: LatLng, destination: LatLng): string {
  *
  * @param origin - 出発地の緯度経度
  * @param destination - 目的地の緯度経度
+ * @param travelMode - 移動手段（公共交通は扱えないため車として扱う）
  * @returns OpenRouteService Maps の URL
  * @example
- * const url = buildOpenRouteServiceUrl({ lat: 39.7, lng: 141.1 }, { lat: 39.8, lng: 141.2 });
+ * const url = buildOpenRouteServiceUrl({ lat: 39.7, lng: 141.1 }, { lat: 39.8, lng: 141.2 }, "bicycle");
  */
-export function buildOpenRouteServiceUrl(origin: LatLng, destination: LatLng): string {
+export function buildOpenRouteServiceUrl(
+  origin: LatLng,
+  destination: LatLng,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE
+): string {
   const coordinates = encodeURIComponent(
     `${origin.lng},${origin.lat},${destination.lng},${destination.lat}`
   );
   const centerLat = ((origin.lat + destination.lat) / 2).toFixed(6);
   const centerLng = ((origin.lng + destination.lng) / 2).toFixed(6);
-  return `https://maps.openrouteservice.org/directions?a=${coordinates}&b=0&c=0&k1=ja-JP&k2=km&n1=${centerLat}&n2=${centerLng}&n3=11`;
+  const profile = OPEN_ROUTE_SERVICE_MAP_PROFILES[travelMode === "transit" ? "car" : travelMode];
+  return `https://maps.openrouteservice.org/directions?a=${coordinates}&b=${profile}&c=0&k1=ja-JP&k2=km&n1=${centerLat}&n2=${centerLng}&n3=11`;
 }
 
 /**
  * Google Maps のルート URL を生成する（フォールバック / 共通利用用）
  *
  * @param destination - 目的地の緯度経度
+ * @param travelMode - 移動手段（未指定なら Google Maps の既定）
+ * @param origin - 出発地（未指定なら端末の現在地）
  * @returns Google Maps ルート URL
  * @example
- * const url = buildGoogleMapsUrl({ lat: 39.8, lng: 141.2 });
+ * const url = buildGoogleMapsUrl({ lat: 39.8, lng: 141.2 }, "transit");
  */
-export function buildGoogleMapsUrl(destination: LatLng): string {
-  return `https://www.google.com/maps/dir/?api=1&destination=${destination.lat},${destination.lng}`;
+export function buildGoogleMapsUrl(destination: LatLng, travelMode?: TravelMode, origin?: LatLng | null): string {
+  const originParam = origin ? `&origin=${origin.lat},${origin.lng}` : "";
+  const modeParam = travelMode ? `&travelmode=${GOOGLE_MAPS_TRAVEL_MODES[travelMode]}` : "";
+  return `https://www.google.com/maps/dir/?api=1${originParam}&destination=${destination.lat},${destination.lng}${modeParam}`;
 }
 
 // ---------------------------------------------------------------------------
@@ -130,41 +192,55 @@ export function buildGoogleMapsUrl(destination: LatLng): string {
  * 指定モードに基づいて外部ルートURLを生成する
  *
  * 有料プロバイダが選択されていても設定不備の場合は自動的に無料にフォールバックし、
- * その旨を結果に含めて返す。
+ * その旨を結果に含めて返す。公共交通は OSRM / OpenRouteService が扱えないため Google Maps を開く。
  *
  * @param mode - ユーザーが選択したルートモード ("free" | "paid")
  * @param origin - 出発地（通常は現在地）
  * @param destination - 目的地のスポット座標
+ * @param travelMode - 移動手段
  * @returns ルート URL 生成結果
  * @example
- * const result = buildRouteUrl("free", userPos, { lat: 39.8, lng: 141.2 });
+ * const result = buildRouteUrl("free", userPos, { lat: 39.8, lng: 141.2 }, "foot");
  * if (result.ok) window.open(result.url, "_blank");
  */
 export function buildRouteUrl(
   mode: RouteMode,
   origin: LatLng | null,
-  destination: LatLng
+  destination: LatLng,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE
 ): RouteUrlResult {
   // 現在地が取得できていない場合は Google Maps に委ねる（現在地は端末側で補完）
   if (!origin) {
     return {
       ok: true,
-      url: buildGoogleMapsUrl(destination),
+      url: buildGoogleMapsUrl(destination, travelMode),
       provider: "osrm",
+      travelMode,
       fellBack: true,
       reason: "現在地を確認できないため、目的地の地図を表示しました。",
     };
   }
 
+  if (travelMode === "transit") {
+    return {
+      ok: true,
+      url: buildGoogleMapsUrl(destination, travelMode, origin),
+      provider: "osrm",
+      travelMode,
+      fellBack: true,
+      reason: "公共交通の経路は Google マップで表示しました。",
+    };
+  }
+
   const { provider, fellBack, reason } = resolveProvider(mode);
 
   const url =
     provider === "osrm"
-      ? buildOsrmUrl(origin, destination)
-      : buildOpenRouteServiceUrl(origin, destination);
+      ? buildOsrmUrl(origin, destination, travelMode)
+      : buildOpenRouteServiceUrl(origin, destination, travelMode);
 
   if (fellBack) {
-    return { ok: true, url, provider, fellBack: true, reason };
+    return { ok: true, url, provider, travelMode, fellBack: true, reason };
   }
-  return { ok: true, url, provider, fellBack: false };
+  return { ok: true, url, provider, travelMode, fellBack: false };
 }
@@ -0,0 +1,114 @@
+/**
+ * ルーティング API の応答 fixture（盛岡駅 → 盛岡城跡公園）
+ *
+ * テストや API キーのない開発環境で、実サーバーの代わりに `createFixtureFetch` を渡して使う。
+ */
+
+/** OSRM `/route/v1/driving` の応答 */
+export const osrmRouteFixture = {
+  code: "Ok",
+  routes: [
+    {
+      distance: 1620.4,
+      duration: 245.8,
+      geometry: {
+        coordinates: [
+          [141.1364, 39.7017],
+          [141.1421, 39.7008],
+          [141.1489, 39.7012],
+          [141.1527, 39.7021],
+        ],
+      },
+      legs: [
+        {
+          steps: [
+            {
+              distance: 560.2,
+              duration: 88.1,
+              name: "開運橋通",
+              maneuver: { type: "depart", location: [141.1364, 39.7017] },
+            },
+            {
+              distance: 1060.2,
+              duration: 157.7,
+              name: "大通",
+              maneuver: { type: "turn", modifier: "left", location: [141.1421, 39.7008] },
+            },
+            {
+              distance: 0,
+              duration: 0,
+              name: "",
+              maneuver: { type: "arrive", location: [141.1527, 39.7021] },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+/** OpenRouteService `/v2/directions/{profile}/geojson` の応答 */
+export const openRouteServiceRouteFixture = {
+  features: [
+    {
+      geometry: {
+        coordinates: [
+          [141.1364, 39.7017],
+          [141.1421, 39.7008],
+          [141.1527, 39.7021],
+        ],
+      },
+      properties: {
+        summary: { distance: 1655.0, duration: 260.3 },
+        segments: [
+          {
+            steps: [
+              {
+                distance: 570.0,
+                duration: 92.0,
+                instruction: "開運橋通を東へ進む",
+                name: "開運橋通",
+                way_points: [0, 1],
+              },
+              {
+                distance: 1085.0,
+                duration: 168.3,
+                instruction: "左折して大通へ",
+                name: "大通",
+                way_points: [1, 2],
+              },
+              {
+                distance: 0,
+                duration: 0,
+                instruction: "目的地に到着",
+                name: "-",
+                way_points: [2, 2],
+              },
+            ],
+          },
+        ],
+      },
+    },
+  ],
+};
+
+/**
+ * 常に同じ JSON を返す `fetch` の代替を作る。受け取ったリクエストは `calls` に記録する。
+ *
+ * @param payload - 返す JSON
+ * @param status - HTTP status
+ * @returns fetch 互換関数と呼び出し記録
+ * @example
+ * const { fetchImpl, calls } = createFixtureFetch(osrmRouteFixture);
+ */
+export function createFixtureFetch(payload: unknown, status = 200) {
+  const calls: Array<{ url: string; init?: RequestInit }> = [];
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    calls.push({ url, init });
+    return new Response(JSON.stringify(payload), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+  return { fetchImpl, calls };
+}
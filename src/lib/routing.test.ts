@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  createOpenRouteServiceBackend,
+  createOsrmBackend,
+  fetchRoute,
+  formatDuration,
+  RoutingError,
+} from "@/lib/routing";
+import { createFixtureFetch, openRouteServiceRouteFixture, osrmRouteFixture } from "@/lib/routing.fixtures";
+
+const origin = { lat: 39.7017, lng: 141.1364 };
+const destination = { lat: 39.7021, lng: 141.1527 };
+
+describe("routing", () => {
+  it("converts an OSRM route into geometry, totals and Japanese steps", async () => {
+    const { fetchImpl, calls } = createFixtureFetch(osrmRouteFixture);
+    const route = await fetchRoute(createOsrmBackend({ baseUrl: "http://osrm.test/", fetchImpl }), [
+      origin,
+      destination,
+    ]);
+
+    expect(calls[0].url).toBe(
+      "http://osrm.test/route/v1/driving/141.1364,39.7017;141.1527,39.7021?overview=full&geometries=geojson&steps=true"
+    );
+    expect(route.provider).toBe("osrm");
+    expect(route.geometry[0]).toEqual(origin);
+    expect(route.distance).toBeCloseTo(1620.4);
+    expect(route.steps.map((step) => step.instruction)).toEqual(["開運橋通を出発", "左折して大通へ", "目的地に到着"]);
+  });
+
+  it("defaults to the FOSSGIS OSRM server for each travel mode", async () => {
+    const { fetchImpl, calls } = createFixtureFetch(osrmRouteFixture);
+    const backend = createOsrmBackend({ baseUrl: "", fetchImpl });
+    await fetchRoute(backend, [origin, destination], "foot");
+    await fetchRoute(backend, [origin, destination], "bicycle");
+    await fetchRoute(backend, [origin, destination], "car");
+
+    expect(calls.map((call) => call.url.split("/route/v1/")[0])).toEqual([
+      "https://routing.openstreetmap.de/routed-foot",
+      "https://routing.openstreetmap.de/routed-bike",
+      "https://routing.openstreetmap.de/routed-car",
+    ]);
+  });
+
+  it("posts waypoints to OpenRouteService and maps step locations", async () => {
+    const { fetchImpl, calls } = createFixtureFetch(openRouteServiceRouteFixture);
+    const route = await fetchRoute(
+      createOpenRouteServiceBackend("test-key", { baseUrl: "http://ors.test", fetchImpl }),
+      [origin, destination],
+      "foot"
+    );
+
+    expect(calls[0].url).toBe("http://ors.test/v2/directions/foot-walking/geojson");
+    expect(calls[0].init?.headers).toMatchObject({ Authorization: "test-key" });
+    expect(JSON.parse(String(calls[0].init?.body)).coordinates).toEqual([
+      [141.1364, 39.7017],
+      [141.1527, 39.7021],
+    ]);
+    expect(route.steps[1].location).toEqual({ lat: 39.7008, lng: 141.1421 });
+    expect(route.steps[2].name).toBe("");
+  });
+
+  it("raises RoutingError for missing routes and network failures", async () => {
+    const { fetchImpl } = createFixtureFetch({ code: "NoRoute", message: "Impossible route" }, 400);
+    await expect(fetchRoute(createOsrmBackend({ fetchImpl }), [origin, destination])).rejects.toThrow(
+      "Impossible route"
+    );
+
+    const failing = createOsrmBackend({
+      fetchImpl: async () => {
+        throw new TypeError("Failed to fetch");
+      },
+    });
+    await expect(fetchRoute(failing, [origin, destination])).rejects.toBeInstanceOf(RoutingError);
+    await expect(fetchRoute(failing, [origin])).rejects.toBeInstanceOf(RoutingError);
+    await expect(fetchRoute(failing, [origin, destination], "transit")).rejects.toThrow("transit");
+  });
+
+  it("formats durations in minutes and hours", () => {
+    expect(formatDuration(30)).toBe("約1分");
+    expect(formatDuration(245.8)).toBe("約4分");
+    expect(formatDuration(3900)).toBe("1時間5分");
+    expect(formatDuration(7200)).toBe("2時間");
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * アプリ内ルート表示用のルーティング
+ *
+ * OSRM / OpenRouteService の API から経路（線形・距離・所要時間・案内）を取得し、
+ * 共通の `RouteResult` に揃える。バックエンドは `fetch` を差し替えられるのでテストでは fixture を返せる。
+ */
+
+import { ROUTE_CONFIG } from "@/lib/config";
+import {
+  DEFAULT_TRAVEL_MODE,
+  resolveProvider,
+  type LatLng,
+  type RouteMode,
+  type RouteProvider,
+  type TravelMode,
+} from "@/lib/routeProviders";
+
+// ---------------------------------------------------------------------------
+// 型定義
+// ---------------------------------------------------------------------------
+
+/** 1 つの案内ステップ */
+export type RouteStep = {
+  /** 案内文（日本語） */
+  instruction: string;
+  /** 道路名（不明なら空文字） */
+  name: string;
+  /** 次のステップまでの距離（m） */
+  distance: number;
+  /** 次のステップまでの所要時間（秒） */
+  duration: number;
+  /** ステップ開始地点 */
+  location: LatLng;
+};
+
+/** 取得した経路 */
+export type RouteResult = {
+  provider: RouteProvider;
+  /** 経路の線形（地図描画用） */
+  geometry: LatLng[];
+  /** 総距離（m） */
+  distance: number;
+  /** 総所要時間（秒） */
+  duration: number;
+  steps: RouteStep[];
+};
+
+/** 経路 API が扱える移動手段（公共交通は対象外） */
+export type RoutableTravelMode = Exclude<TravelMode, "transit">;
+
+/** ルーティング API の差し替え口 */
+export type RoutingBackend = {
+  provider: RouteProvider;
+  fetchRoute: (waypoints: LatLng[], travelMode: RoutableTravelMode) => Promise<RouteResult>;
+};
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+type BackendOptions = {
+  /** API の接続先 */
+  baseUrl?: string;
+  /** 通信関数（テストでは fixture を返す関数を渡す） */
+  fetchImpl?: FetchLike;
+};
+
+/** 経路を取得できなかった（通信失敗・経路なし・応答不正） */
+export class RoutingError extends Error {
+  constructor(message = "route could not be resolved") {
+    super(message);
+    this.name = "RoutingError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OSRM
+// ---------------------------------------------------------------------------
+
+// 自前の OSRM サーバーは移動手段ごとにプロファイルを持つ
+const OSRM_PROFILES: Record<RoutableTravelMode, string> = {
+  foot: "foot",
+  bicycle: "bike",
+  car: "driving",
+};
+
+// 接続先が未設定のときは FOSSGIS の移動手段別サーバーを使う（外部リンクの fossgis_osrm_* と同じ）
+const FOSSGIS_OSRM_BASE_URLS: Record<RoutableTravelMode, string> = {
+  foot: "https://routing.openstreetmap.de/routed-foot",
+  bicycle: "https://routing.openstreetmap.de/routed-bike",
+  car: "https://routing.openstreetmap.de/routed-car",
+};
+
+type OsrmManeuver = {
+  type: string;
+  modifier?: string;
+  location: [number, number];
+  exit?: number;
+};
+
+type OsrmResponse = {
+  code: string;
+  message?: string;
+  routes?: Array<{
+    distance: number;
+    duration: number;
+    geometry: { coordinates: Array<[number, number]> };
+    legs: Array<{
+      steps: Array<{ distance: number; duration: number; name: string; maneuver: OsrmManeuver }>;
+    }>;
+  }>;
+};
+
+const MODIFIER_LABELS: Record<string, string> = {
+  left: "左折",
+  right: "右折",
+  "slight left": "斜め左へ進み",
+  "slight right": "斜め右へ進み",
+  "sharp left": "大きく左折",
+  "sharp right": "大きく右折",
+  straight: "直進",
+  uturn: "Uターン",
+};
+
+/**
+ * OSRM の maneuver から日本語の案内文を作る（OSRM は案内文を返さないため）。
+ *
+ * @param maneuver - OSRM の maneuver
+ * @param name - 進む先の道路名
+ * @returns 案内文
+ * @example
+ * describeOsrmManeuver({ type: "turn", modifier: "left", location: [141.15, 39.7] }, "大通");
+ * // => "左折して大通へ"
+ */
+export function describeOsrmManeuver(maneuver: OsrmManeuver, name: string): string {
+  if (maneuver.type === "depart") return name ? `${name}を出発` : "出発";
+  if (maneuver.type === "arrive") return "目的地に到着";
+  if (maneuver.type === "roundabout" || maneuver.type === "rotary") {
+    return maneuver.exit ? `ロータリーで${maneuver.exit}番目の出口へ` : "ロータリーを進む";
+  }
+  const action = MODIFIER_LABELS[maneuver.modifier ?? "straight"] ?? "直進";
+  return name ? `${action}して${name}へ` : action;
+}
+
+/**
+ * OSRM の応答を `RouteResult` へ変換する。
+ *
+ * @param payload - OSRM `/route/v1` の JSON
+ * @returns 経路
+ * @example
+ * const route = parseOsrmRoute(await response.json());
+ */
+export function parseOsrmRoute(payload: OsrmResponse): RouteResult {
+  const route = payload.routes?.[0];
+  if (payload.code !== "Ok" || !route) {
+    throw new RoutingError(payload.message ?? `osrm returned ${payload.code}`);
+  }
+  return {
+    provider: "osrm",
+    geometry: route.geometry.coordinates.map(([lng, lat]) => ({ lat, lng })),
+    distance: route.distance,
+    duration: route.duration,
+    steps: route.legs.flatMap((leg) =>
+      leg.steps.map((step) => ({
+        instruction: describeOsrmManeuver(step.maneuver, step.name),
+        name: step.name,
+        distance: step.distance,
+        duration: step.duration,
+        location: { lat: step.maneuver.location[1], lng: step.maneuver.location[0] },
+      }))
+    ),
+  };
+}
+
+/**
+ * OSRM バックエンドを作る。接続先が未設定なら移動手段ごとに FOSSGIS のサーバーへ問い合わせる。
+ *
+ * @param options - 接続先・通信関数
+ * @returns RoutingBackend
+ * @example
+ * const backend = createOsrmBackend({ baseUrl: "http://localhost:5000" });
+ */
+export function createOsrmBackend(options: BackendOptions = {}): RoutingBackend {
+  const configuredBaseUrl = (options.baseUrl ?? ROUTE_CONFIG.osrmBaseUrl).replace(/\/$/, "");
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    provider: "osrm",
+    async fetchRoute(waypoints, travelMode) {
+      const baseUrl = configuredBaseUrl || FOSSGIS_OSRM_BASE_URLS[travelMode];
+      const coordinates = waypoints.map((point) => `${point.lng},${point.lat}`).join(";");
+      const response = await fetchImpl(
+        `${baseUrl}/route/v1/${OSRM_PROFILES[travelMode]}/${coordinates}?overview=full&geometries=geojson&steps=true`
+      );
+      if (!response.ok && response.status !== 400) {
+        throw new RoutingError(`osrm api error: ${response.status}`);
+      }
+      return parseOsrmRoute((await response.json()) as OsrmResponse);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OpenRouteService
+// ---------------------------------------------------------------------------
+
+const OPEN_ROUTE_SERVICE_PROFILES: Record<RoutableTravelMode, string> = {
+  foot: "foot-walking",
+  bicycle: "cycling-regular",
+  car: "driving-car",
+};
+
+type OpenRouteServiceResponse = {
+  error?: { message?: string } | string;
+  features?: Array<{
+    geometry: { coordinates: Array<[number, number]> };
+    properties: {
+      summary: { distance?: number; duration?: number };
+      segments: Array<{
+        steps: Array<{
+          distance: number;
+          duration: number;
+          instruction: string;
+          name: string;
+          way_points: [number, number];
+        }>;
+      }>;
+    };
+  }>;
+};
+
+/**
+ * OpenRouteService の GeoJSON 応答を `RouteResult` へ変換する。
+ *
+ * @param payload - `/v2/directions/{profile}/geojson` の JSON
+ * @returns 経路
+ * @example
+ * const route = parseOpenRouteServiceRoute(await response.json());
+ */
+export function parseOpenRouteServiceRoute(payload: OpenRouteServiceResponse): RouteResult {
+  const feature = payload.features?.[0];
+  if (!feature) {
+    const message = typeof payload.error === "string" ? payload.error : payload.error?.message;
+    throw new RoutingError(message ?? "openrouteservice returned no route");
+  }
+  const geometry = feature.geometry.coordinates.map(([lng, lat]) => ({ lat, lng }));
+  return {
+    provider: "openrouteservice",
+    geometry,
+    distance: feature.properties.summary.distance ?? 0,
+    duration: feature.properties.summary.duration ?? 0,
+    steps: feature.properties.segments.flatMap((segment) =>
+      segment.steps.map((step) => ({
+        instruction: step.instruction,
+        name: step.name === "-" ? "" : step.name,
+        distance: step.distance,
+        duration: step.duration,
+        location: geometry[step.way_points[0]] ?? geometry[0],
+      }))
+    ),
+  };
+}
+
+/**
+ * OpenRouteService バックエンドを作る。
+ *
+ * @param apiKey - OpenRouteService API キー
+ * @param options - 接続先・通信関数
+ * @returns RoutingBackend
+ * @example
+ * const backend = createOpenRouteServiceBackend(ROUTE_CONFIG.openRouteServiceApiKey);
+ */
+export function createOpenRouteServiceBackend(apiKey: string, options: BackendOptions = {}): RoutingBackend {
+  const baseUrl = (options.baseUrl ?? ROUTE_CONFIG.openRouteServiceBaseUrl).replace(/\/$/, "");
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    provider: "openrouteservice",
+    async fetchRoute(waypoints, travelMode) {
+      const profile = OPEN_ROUTE_SERVICE_PROFILES[travelMode];
+      const response = await fetchImpl(`${baseUrl}/v2/directions/${profile}/geojson`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: apiKey },
+        body: JSON.stringify({
+          coordinates: waypoints.map((point) => [point.lng, point.lat]),
+          instructions: true,
+          language: "ja",
+        }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as OpenRouteServiceResponse;
+      if (!response.ok) {
+        throw new RoutingError(
+          typeof payload.error === "object" && payload.error?.message
+            ? payload.error.message
+            : `openrouteservice api error: ${response.status}`
+        );
+      }
+      return parseOpenRouteServiceRoute(payload);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// メインエントリ
+// ---------------------------------------------------------------------------
+
+/**
+ * ルートモードに対応するバックエンドを返す（有料が使えない場合は OSRM）。
+ *
+ * @param mode - ユーザーが選択したルートモード
+ * @param options - 接続先・通信関数
+ * @returns RoutingBackend
+ * @example
+ * const backend = resolveRoutingBackend("paid");
+ */
+export function resolveRoutingBackend(mode: RouteMode, options: BackendOptions = {}): RoutingBackend {
+  const { provider } = resolveProvider(mode);
+  return provider === "openrouteservice"
+    ? createOpenRouteServiceBackend(ROUTE_CONFIG.openRouteServiceApiKey, options)
+    : createOsrmBackend(options);
+}
+
+/**
+ * 経由地を順に通る経路を取得する。
+ *
+ * 通信失敗・公共交通の指定は `RoutingError` にまとめて投げるので、呼び出し側は外部地図 URL へ切り替えられる。
+ *
+ * @param backend - 使用するバックエンド
+ * @param waypoints - 出発地・経由地・目的地（2 点以上）
+ * @param travelMode - 移動手段
+ * @returns 経路
+ * @example
+ * const route = await fetchRoute(resolveRoutingBackend("free"), [userPos, spot], "foot");
+ */
+export async function fetchRoute(
+  backend: RoutingBackend,
+  waypoints: LatLng[],
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE
+): Promise<RouteResult> {
+  if (waypoints.length < 2) {
+    throw new RoutingError("at least two waypoints are required");
+  }
+  if (travelMode === "transit") {
+    throw new RoutingError("transit routes are not supported");
+  }
+  try {
+    return await backend.fetchRoute(waypoints, travelMode);
+  } catch (error) {
+    if (error instanceof RoutingError) throw error;
+    throw new RoutingError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * 所要時間を「約 N 分」「N 時間 M 分」で表示する。
+ *
+ * @param seconds - 秒
+ * @returns 表示文字列
+ * @example
+ * formatDuration(3900); // => "1時間5分"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `約${minutes}分`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}時間` : `${hours}時間${rest}分`;
+}
@@ -0,0 +1,74 @@
+/** カーソルの形式不正・検索条件の不一致 */
+export class SearchCursorError extends Error {
+  constructor(message = "cursor is invalid for this query") {
+    super(message);
+    this.name = "SearchCursorError";
+  }
+}
+
+type CursorPayload = {
+  /** 次に返す先頭位置 */
+  o: number;
+  /** 発行時の検索条件の指紋 */
+  q: string;
+};
+
+/**
+ * 検索条件から短い指紋を作る（別条件のカーソルを取り違えないため）。
+ *
+ * @param query - 並び順・絞り込みなど結果の並びに影響する条件
+ * @returns 指紋文字列
+ * @example
+ * const fingerprint = buildSearchFingerprint({ tab: "spot", keyword: "温泉", sort: "name" });
+ */
+export function buildSearchFingerprint(query: Record<string, unknown>): string {
+  const source = JSON.stringify(Object.keys(query).sort().map((key) => [key, query[key] ?? null]));
+  let hash = 5381;
+  for (let index = 0; index < source.length; index += 1) {
+    hash = ((hash << 5) + hash + source.charCodeAt(index)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * 次ページの位置を不透明なカーソル文字列にする。
+ *
+ * クライアントは中身に依存せず、そのまま `cursor` として送り返す。
+ *
+ * @param offset - 次に返す先頭位置
+ * @param fingerprint - 検索条件の指紋
+ * @returns URL セーフなカーソル
+ * @example
+ * const cursor = encodeSearchCursor(50, fingerprint);
+ */
+export function encodeSearchCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, q: fingerprint };
+  return btoa(JSON.stringify(payload)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * カーソルを検証し、次に返す先頭位置を取り出す。
+ *
+ * @param cursor - `encodeSearchCursor` が返した文字列
+ * @param fingerprint - 現在の検索条件の指紋
+ * @returns 先頭位置
+ * @throws SearchCursorError 形式不正、または検索条件が発行時と異なる場合
+ * @example
+ * const offset = decodeSearchCursor(cursor, fingerprint);
+ */
+export function decodeSearchCursor(cursor: string, fingerprint: string): number {
+  let payload: Partial<CursorPayload>;
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    payload = JSON.parse(atob(base64)) as Partial<CursorPayload>;
+  } catch {
+    throw new SearchCursorError();
+  }
+  if (typeof payload.o !== "number" || !Number.isInteger(payload.o) || payload.o < 0) {
+    throw new SearchCursorError();
+  }
+  if (payload.q !== fingerprint) {
+    throw new SearchCursorError("cursor was issued for a different query");
+  }
+  return payload.o;
+}
@@ -0,0 +1,108 @@
+import type { SearchOrigin, SearchSort } from "@/lib/supabaseClient";
+
+const MAX_KEYWORD_LENGTH = 100;
+/** 半径指定の上限（m）。県全域を覆える程度に抑える */
+const MAX_RADIUS = 200000;
+
+/**
+ * 文字列を正の整数として安全に解析する。
+ *
+ * @param value - 入力文字列
+ * @returns 正の整数。無効値は null
+ * @example
+ * const page = parsePositiveInteger("2");
+ */
+export function parsePositiveInteger(value: string | null): number | null {
+  if (!value) return null;
+  const num = Number(value);
+  if (!Number.isFinite(num)) return null;
+  const safe = Math.floor(num);
+  return safe > 0 ? safe : null;
+}
+
+/**
+ * キーワードを正規化する。
+ *
+ * @param raw - 生キーワード
+ * @returns 正規化済みキーワード
+ * @example
+ * const keyword = normalizeKeyword("  盛岡  ");
+ */
+export function normalizeKeyword(raw: string | null): string {
+  if (!raw) return "";
+  return raw.trim().slice(0, MAX_KEYWORD_LENGTH);
+}
+
+/**
+ * 文字列を有限の数値として解析する。
+ *
+ * @param value - 入力文字列
+ * @returns 数値。未指定・無効値は null
+ * @example
+ * const lat = parseFiniteNumber("39.70");
+ */
+export function parseFiniteNumber(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * `lat` / `lng` / `radius` から検索の基準点を組み立てる。
+ *
+ * @param searchParams - URL クエリ
+ * @returns 基準点（未指定なら null）、または入力エラー文言
+ * @example
+ * const origin = parseSearchOrigin(new URLSearchParams("lat=39.7&lng=141.1&radius=3000"));
+ */
+export function parseSearchOrigin(searchParams: URLSearchParams): { origin: SearchOrigin | null } | { error: string } {
+  const rawLat = searchParams.get("lat");
+  const rawLng = searchParams.get("lng");
+  const rawRadius = searchParams.get("radius");
+
+  if (rawLat === null && rawLng === null) {
+    return rawRadius === null ? { origin: null } : { error: "radius requires lat and lng" };
+  }
+  const lat = parseFiniteNumber(rawLat);
+  const lng = parseFiniteNumber(rawLng);
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return { error: "lat and lng must be valid coordinates" };
+  }
+  if (rawRadius === null) return { origin: { lat, lng, radius: null } };
+
+  const radius = parseFiniteNumber(rawRadius);
+  if (radius === null || radius <= 0 || radius > MAX_RADIUS) {
+    return { error: `radius must be between 1 and ${MAX_RADIUS} meters` };
+  }
+  return { origin: { lat, lng, radius } };
+}
+
+/**
+ * タブで使える並び順か判定して返す。
+ *
+ * @param value - 入力文字列
+ * @param allowed - タブで使える並び順
+ * @returns 並び順（未指定は null、未対応は undefined）
+ * @example
+ * const sort = parseSort("name", SPOT_SEARCH_SORTS);
+ */
+export function parseSort(value: string | null, allowed: readonly SearchSort[]): SearchSort | null | undefined {
+  if (!value) return null;
+  return allowed.find((sort) => sort === value);
+}
+
+/**
+ * `YYYY-MM-DD` 形式の日付クエリを解析する（実在しない日付は無効）。
+ *
+ * @param value - 入力文字列
+ * @returns 日付文字列（未指定は null、無効値は undefined）
+ * @example
+ * const from = parseDateKey("2026-08-01");
+ */
+export function parseDateKey(value: string | null): string | null | undefined {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value ? value : undefined;
+}
@@ -0,0 +1,55 @@
+const SNAPSHOT_KEY = "iwate150_search_snapshot_v1";
+/** 詳細ページから戻るまでの猶予（これより古い状態は復元しない） */
+const SNAPSHOT_MAX_AGE_MS = 30 * 60 * 1000;
+
+/** 検索画面を離れる直前の表示状態 */
+export type SearchSnapshot<T> = {
+  /** 検索条件を表すキー（URL クエリ文字列） */
+  queryKey: string;
+  result: T;
+  scrollY: number;
+  savedAt: number;
+};
+
+/**
+ * 検索画面の表示状態を sessionStorage へ保存する。
+ *
+ * @param queryKey - 検索条件を表すキー
+ * @param result - 読み込み済みの結果
+ * @param scrollY - スクロール位置
+ * @returns なし
+ * @example
+ * saveSearchSnapshot("tab=spot&keyword=温泉", result, window.scrollY);
+ */
+export function saveSearchSnapshot<T>(queryKey: string, result: T, scrollY: number): void {
+  if (typeof window === "undefined") return;
+  try {
+    const snapshot: SearchSnapshot<T> = { queryKey, result, scrollY, savedAt: Date.now() };
+    window.sessionStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+  } catch {
+    // 容量超過などは復元を諦めるだけでよい
+  }
+}
+
+/**
+ * 同じ検索条件の保存状態を 1 度だけ取り出す（取り出した状態は削除する）。
+ *
+ * @param queryKey - 現在の検索条件を表すキー
+ * @returns 保存状態（なければ null）
+ * @example
+ * const snapshot = takeSearchSnapshot<SpotResult>("tab=spot");
+ */
+export function takeSearchSnapshot<T>(queryKey: string): SearchSnapshot<T> | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.sessionStorage.getItem(SNAPSHOT_KEY);
+    if (!raw) return null;
+    window.sessionStorage.removeItem(SNAPSHOT_KEY);
+    const snapshot = JSON.parse(raw) as SearchSnapshot<T>;
+    if (snapshot.queryKey !== queryKey) return null;
+    if (Date.now() - snapshot.savedAt > SNAPSHOT_MAX_AGE_MS) return null;
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
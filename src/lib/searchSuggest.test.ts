@@ -0,0 +1,38 @@
+import { buildSearchSuggestions } from "@/lib/searchSuggest";
+import { findMatchRange } from "@/lib/textSearch";
+import { mockCities, mockEvents, mockGenres, mockSpots } from "@/lib/mockData";
+import { describe, expect, it } from "vitest";
+
+const source = { spots: mockSpots, events: mockEvents, cities: mockCities, genres: mockGenres };
+
+describe("searchSuggest", () => {
+  it("maps the match back onto the original label", () => {
+    expect(findMatchRange("盛岡城跡公園", "城跡")).toEqual({ start: 2, end: 4 });
+    expect(findMatchRange("わんこそば体験", "ソバ")).toEqual({ start: 3, end: 5 });
+    expect(findMatchRange("ＡＢＣホール", "abc")).toEqual({ start: 0, end: 3 });
+    expect(findMatchRange("盛岡市", "morioka")).toBeNull();
+  });
+
+  it("mixes cities, spots and events with type tags", () => {
+    const items = buildSearchSuggestions("盛岡", source);
+
+    expect(items.map((item) => [item.type, item.label])).toEqual([
+      ["city", "盛岡市"],
+      ["spot", "盛岡城跡公園"],
+      ["event", "盛岡週末ナイトマーケット"],
+    ]);
+    expect(items[0].href).toBeNull();
+    expect(items[1].href).toBe("/spots/1");
+    expect(items[2].href).toBe("/events/1");
+    expect(items[1].highlight).toEqual({ start: 0, end: 2 });
+  });
+
+  it("suggests cities by their reading and genres by name", () => {
+    expect(buildSearchSuggestions("ひらいずみ", source).map((item) => [item.type, item.id])).toEqual([["city", 2]]);
+    expect(buildSearchSuggestions("グルメ", source).map((item) => [item.type, item.id])).toEqual([["genre", 3]]);
+  });
+
+  it("returns nothing for a blank keyword", () => {
+    expect(buildSearchSuggestions("  ", source)).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { getEventHref } from "@/lib/eventRoutes";
+import { getSpotHref } from "@/lib/spotRoutes";
+import { findMatchRange, scoreSearchFields, type MatchRange, type SearchField } from "@/lib/textSearch";
+import type { City, Event, Genre, Spot } from "@/lib/types";
+
+/** サジェスト候補の種別 */
+export type SearchSuggestionType = "spot" | "event" | "city" | "genre";
+
+/** 検索サジェスト 1 件 */
+export type SearchSuggestion = {
+  type: SearchSuggestionType;
+  id: number;
+  label: string;
+  /** 補足表示（市区町村名・開催日など） */
+  detail: string | null;
+  /** 遷移先（市区町村・ジャンルは絞り込みに使うため null） */
+  href: string | null;
+  /** `label` 上の一致範囲 */
+  highlight: MatchRange | null;
+};
+
+type SuggestionSource = {
+  spots: Spot[];
+  events: Event[];
+  cities: City[];
+  genres: Genre[];
+};
+
+type ScoredSuggestion = SearchSuggestion & { score: number };
+
+export const SEARCH_SUGGEST_DEFAULT_LIMIT = 8;
+
+/** 同点時の並び順（絞り込み系を先に出す） */
+const TYPE_ORDER: Record<SearchSuggestionType, number> = {
+  city: 0,
+  genre: 1,
+  spot: 2,
+  event: 3,
+};
+
+/** 種別ごとの最大件数（1 種別で候補が埋まらないようにする） */
+const TYPE_LIMITS: Record<SearchSuggestionType, number> = {
+  city: 3,
+  genre: 2,
+  spot: 5,
+  event: 3,
+};
+
+/**
+ * 1 種別分の候補をスコア付きで作る。
+ *
+ * @param type - 種別
+ * @param items - 対象
+ * @param keyword - 検索キーワード
+ * @param toSuggestion - 候補の表示情報と検索フィールド
+ * @returns スコア順の候補（種別の上限まで）
+ * @example
+ * scoreSuggestions("genre", genres, "グルメ", (genre) => ({ ... }));
+ */
+function scoreSuggestions<T>(
+  type: SearchSuggestionType,
+  items: T[],
+  keyword: string,
+  toSuggestion: (item: T) => { id: number; label: string; detail: string | null; href: string | null; fields: SearchField[] }
+): ScoredSuggestion[] {
+  return items
+    .map((item) => {
+      const { fields, ...rest } = toSuggestion(item);
+      return {
+        ...rest,
+        type,
+        highlight: findMatchRange(rest.label, keyword),
+        score: scoreSearchFields(fields, keyword),
+      };
+    })
+    .filter((suggestion) => suggestion.score > 0)
+    .sort((left, right) => right.score - left.score)
+    .slice(0, TYPE_LIMITS[type]);
+}
+
+/**
+ * キーワードに一致するスポット・イベント・市区町村・ジャンルを混在させたサジェストを作る。
+ *
+ * 名前（市区町村はかなも）を対象に、前方一致を優先して関連度順に並べる。
+ *
+ * @param keyword - 入力途中のキーワード
+ * @param source - 候補データ
+ * @param limit - 最大件数
+ * @returns サジェスト配列
+ * @example
+ * buildSearchSuggestions("もり", { spots, events, cities, genres });
+ */
+export function buildSearchSuggestions(
+  keyword: string,
+  source: SuggestionSource,
+  limit: number = SEARCH_SUGGEST_DEFAULT_LIMIT
+): SearchSuggestion[] {
+  if (!keyword.trim()) return [];
+  const cityById = new Map(source.cities.map((city) => [city.id, city]));
+
+  const scored = [
+    ...scoreSuggestions("city", source.cities, keyword, (city) => ({
+      id: city.id,
+      label: city.name,
+      detail: city.region ?? null,
+      href: null,
+      fields: [
+        { value: city.name, weight: 1 },
+        { value: city.name_kana, weight: 1 },
+      ],
+    })),
+    ...scoreSuggestions("genre", source.genres, keyword, (genre) => ({
+      id: genre.id,
+      label: genre.name,
+      detail: null,
+      href: null,
+      fields: [{ value: genre.name, weight: 1 }],
+    })),
+    ...scoreSuggestions("spot", source.spots, keyword, (spot) => ({
+      id: spot.id,
+      label: spot.name,
+      detail: cityById.get(spot.city_id)?.name ?? null,
+      href: getSpotHref(spot),
+      fields: [{ value: spot.name, weight: 1 }],
+    })),
+    ...scoreSuggestions("event", source.events, keyword, (event) => ({
+      id: event.id,
+      label: event.title,
+      detail: event.start_date ?? null,
+      href: getEventHref(event),
+      fields: [{ value: event.title, weight: 1 }],
+    })),
+  ];
+
+  return scored
+    .sort((left, right) => right.score - left.score || TYPE_ORDER[left.type] - TYPE_ORDER[right.type])
+    .slice(0, limit)
+    .map((suggestion) => ({
+      type: suggestion.type,
+      id: suggestion.id,
+      label: suggestion.label,
+      detail: suggestion.detail,
+      href: suggestion.href,
+      highlight: suggestion.highlight,
+    }));
+}
@@ -1,4 +1,4 @@
-import { buildPageMetadata, buildSpotJsonLd } from "@/lib/seo";
+import { buildEventJsonLd, buildPageMetadata, buildSpotJsonLd } from "@/lib/seo";
 import { describe, expect, it } from "vitest";
 
 describe("seo helpers", () => {
@@ -34,4 +34,22 @@ describe("seo helpers", () => {
     expect(JSON.stringify(jsonLd)).toContain("TouristAttraction");
     expect(JSON.stringify(jsonLd)).toContain("BreadcrumbList");
   });
+
+  it("creates event json-ld with venue geo", () => {
+    const jsonLd = buildEventJsonLd(
+      { id: 3, title: "Morioka Night Market", location: "肴町", start_date: "2026-03-30", lat: 39.7, lng: 141.13 },
+      { id: 1, name: "盛岡市" }
+    );
+    const [event] = jsonLd["@graph"] as Record<string, unknown>[];
+
+    expect(event).toEqual(
+      expect.objectContaining({
+        "@type": "Event",
+        url: expect.stringContaining("/events/3-morioka-night-market"),
+        startDate: "2026-03-30",
+        endDate: "2026-03-30",
+      })
+    );
+    expect(JSON.stringify(event)).toContain("GeoCoordinates");
+  });
 });
@@ -1,5 +1,5 @@
 import type { Metadata } from "next";
-import type { Event, Spot } from "@/lib/types";
+import type { City, Event, Spot } from "@/lib/types";
 import {
   APP_DESCRIPTION,
   APP_OG_DESCRIPTION,
@@ -8,6 +8,7 @@ import {
   SITE_URL,
   SPOTS_INDEX_PATH,
 } from "@/lib/config";
+import { getEventHref } from "@/lib/eventRoutes";
 import { buildSpotSlug } from "@/lib/spotRoutes";
 
 type MetadataOverrides = {
@@ -97,6 +98,44 @@ export function buildSpotMetadata(spot: Spot, image?: string | null): Metadata {
   });
 }
 
+/**
+ * イベントの開催期間を表示用の文字列にする。
+ *
+ * @param event - イベント
+ * @returns 開催期間（日付がなければ null）
+ * @example
+ * formatEventPeriod({ start_date: "2026-03-01", end_date: "2026-03-03" }); // => "2026-03-01 – 2026-03-03"
+ */
+export function formatEventPeriod(event: Pick<Event, "start_date" | "end_date">): string | null {
+  if (!event.start_date) return null;
+  return event.end_date && event.end_date !== event.start_date
+    ? `${event.start_date} – ${event.end_date}`
+    : event.start_date;
+}
+
+/**
+ * Event 詳細ページ用 metadata を生成する。
+ *
+ * @param event - イベント
+ * @param city - 開催地の市区町村
+ * @param image - OGP 画像
+ * @returns metadata
+ * @example
+ * buildEventMetadata(event, city, "/images/city.jpg");
+ */
+export function buildEventMetadata(event: Event, city?: City | null, image?: string | null): Metadata {
+  const place = event.location ?? city?.name ?? "岩手";
+  const period = formatEventPeriod(event);
+  return buildPageMetadata({
+    title: `${event.title} | Events`,
+    description: period
+      ? `${place}で開催（${period}）。${event.title}の日程と会場をチェック。`
+      : `${place}で開催される${event.title}の詳細です。`,
+    path: getEventHref(event),
+    image: image ?? undefined,
+  });
+}
+
 /**
  * Home 用の JSON-LD を返す。
  *
@@ -120,6 +159,7 @@ export function buildHomeJsonLd(events: Event[]): Record<string, unknown> {
     subjectOf: events.slice(0, 3).map((event) => ({
       "@type": "Event",
       name: event.title,
+      url: buildAbsoluteUrl(getEventHref(event)).toString(),
       location: event.location ?? "Iwate, Japan",
       startDate: event.start_date ?? undefined,
       endDate: event.end_date ?? undefined,
@@ -181,3 +221,65 @@ export function buildSpotJsonLd(spot: Spot): Record<string, unknown> {
     ],
   };
 }
+
+/**
+ * Event 詳細ページ用 JSON-LD を返す。
+ *
+ * @param event - イベント
+ * @param city - 開催地の市区町村
+ * @returns JSON-LD オブジェクト
+ * @example
+ * buildEventJsonLd(event, city);
+ */
+export function buildEventJsonLd(event: Event, city?: City | null): Record<string, unknown> {
+  const url = buildAbsoluteUrl(getEventHref(event)).toString();
+  const hasCoordinates = typeof event.lat === "number" && typeof event.lng === "number";
+  return {
+    "@context": "https://schema.org",
+    "@graph": [
+      {
+        "@type": "Event",
+        name: event.title,
+        url,
+        startDate: event.start_date ?? undefined,
+        endDate: event.end_date ?? event.start_date ?? undefined,
+        eventStatus: "https://schema.org/EventScheduled",
+        eventAttendanceMode: "https://schema.org/OfflineEventAttendanceMode",
+        location: {
+          "@type": "Place",
+          name: event.location ?? city?.name ?? "Iwate, Japan",
+          address: {
+            "@type": "PostalAddress",
+            addressLocality: city?.name ?? event.location ?? undefined,
+            addressRegion: "岩手県",
+            addressCountry: "JP",
+          },
+          geo: hasCoordinates
+            ? {
+                "@type": "GeoCoordinates",
+                latitude: event.lat,
+                longitude: event.lng,
+              }
+            : undefined,
+        },
+      },
+      {
+        "@type": "BreadcrumbList",
+        itemListElement: [
+          {
+            "@type": "ListItem",
+            position: 1,
+            name: "Home",
+            item: SITE_URL,
+          },
+          {
+            "@type": "ListItem",
+            position: 2,
+            name: event.title,
+            item: url,
+          },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseSpotImportSource, planSpotImport } from "@/lib/spotImport";
+import type { Spot } from "@/lib/types";
+
+// studioApi の検証ヘルパーだけを使うので、NextAuth の初期化は読み込まない
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/authServer", () => ({ fetchAppUserByIdentity: vi.fn() }));
+
+const cities = [
+  { id: 1, name: "盛岡市" },
+  { id: 2, name: "平泉町" },
+];
+const genres = [
+  { id: 1, name: "歴史" },
+  { id: 3, name: "グルメ" },
+];
+const existing: Spot[] = [
+  { id: 1, name: "盛岡城跡公園", description: "城跡", city_id: 1, genre_id: 1, lat: 39.7021, lng: 141.1527 },
+];
+
+describe("spotImport", () => {
+  it("parses quoted CSV fields and resolves city and genre names", () => {
+    const rows = parseSpotImportSource(
+      "csv",
+      '﻿name,description,lat,lng,city,genre\r\n"中尊寺","金色堂, 国宝",38.9865,141.1176,平泉,歴史\r\n'
+    );
+    const plan = planSpotImport(rows, { existing, cities, genres });
+
+    expect(rows[0].values.description).toBe("金色堂, 国宝");
+    expect(plan.rows[0]).toMatchObject({ status: "create", input: { city_id: 2, genre_id: 1, lat: 38.9865 } });
+  });
+
+  it("marks duplicates, rows outside Iwate and unknown references in the dry-run diff", () => {
+    const content = JSON.stringify({
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", geometry: { type: "Point", coordinates: [141.1528, 39.7022] }, properties: { name: "盛岡城跡 公園", description: "重複", city_id: 1, genre_id: 1 } },
+        { type: "Feature", geometry: { type: "Point", coordinates: [139.7671, 35.6812] }, properties: { name: "東京駅", description: "県外", city_id: 1, genre_id: 1 } },
+        { type: "Feature", geometry: { type: "Point", coordinates: [141.1365, 39.7017] }, properties: { name: "盛岡駅", description: "駅", city: "花巻市", genre_id: 1 } },
+        { type: "Feature", geometry: { type: "Point", coordinates: [141.1368, 39.7016] }, properties: { name: "盛岡冷麺", description: "麺", city_id: 1, genre_id: 3 } },
+        { type: "Feature", geometry: { type: "Point", coordinates: [141.1369, 39.7016] }, properties: { name: "盛岡冷麺", description: "麺", city_id: 1, genre_id: 3 } },
+      ],
+    });
+    const plan = planSpotImport(parseSpotImportSource("geojson", content), { existing, cities, genres });
+
+    expect(plan.rows.map((row) => row.status)).toEqual(["duplicate", "invalid", "invalid", "create", "duplicate"]);
+    expect(plan.rows[0]).toMatchObject({ duplicateOf: { id: 1, name: "盛岡城跡公園" } });
+    expect(plan.rows[1]).toMatchObject({ error: expect.stringContaining("Iwate") });
+    expect(plan.rows[2]).toMatchObject({ error: 'city "花巻市" was not found.' });
+    expect(plan.rows[4]).toMatchObject({ duplicateOf: { id: null, name: "盛岡冷麺" } });
+    expect(plan.summary).toEqual({ create: 1, duplicate: 2, invalid: 2 });
+  });
+
+  it("rejects malformed files", () => {
+    expect(() => parseSpotImportSource("geojson", "{")).toThrow("GeoJSON must be valid JSON.");
+    expect(() => parseSpotImportSource("csv", 'name\n"unterminated')).toThrow("unterminated");
+    expect(() => parseSpotImportSource("csv", "name,description\n")).toThrow("no spots");
+  });
+});
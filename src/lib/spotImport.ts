@@ -0,0 +1,290 @@
+import { haversineDistance } from "@/lib/geo";
+import { matchMunicipality } from "@/lib/geocoding";
+import { parseSpotCreateInput } from "@/lib/studioPayloads";
+import type { AdminSpotCreateInput, City, Genre, Spot } from "@/lib/types";
+
+/** 取り込み元の形式 */
+export type SpotImportFormat = "geojson" | "csv";
+
+export const SPOT_IMPORT_FORMATS: readonly SpotImportFormat[] = ["geojson", "csv"];
+
+/** 1 回に取り込める行数の上限 */
+export const SPOT_IMPORT_MAX_ROWS = 500;
+
+/** 同名スポットを重複とみなす距離（m） */
+export const SPOT_IMPORT_DUPLICATE_DISTANCE = 100;
+
+/** ファイルから読み取った 1 行分の値 */
+export type SpotImportSourceRow = {
+  /** 1 始まりの行番号（CSV はヘッダーを除くデータ行、GeoJSON は Feature の順） */
+  row: number;
+  values: Record<string, unknown>;
+};
+
+/** 取り込み計画の 1 行 */
+export type SpotImportRow =
+  | { row: number; status: "create"; name: string; input: AdminSpotCreateInput }
+  | { row: number; status: "duplicate"; name: string; input: AdminSpotCreateInput; duplicateOf: { id: number | null; name: string } }
+  | { row: number; status: "invalid"; name: string; error: string };
+
+/** 取り込み計画（dry-run の差分） */
+export type SpotImportPlan = {
+  rows: SpotImportRow[];
+  summary: Record<SpotImportRow["status"], number>;
+};
+
+/**
+ * 取り込み形式として扱える文字列か判定する。
+ *
+ * @param value - 判定対象
+ * @returns 取り込み形式なら true
+ * @example
+ * isSpotImportFormat("csv"); // => true
+ */
+export function isSpotImportFormat(value: unknown): value is SpotImportFormat {
+  return typeof value === "string" && (SPOT_IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * CSV を行・列の文字列へ分解する（ダブルクォートと改行を含む値に対応）。
+ *
+ * @param content - CSV 本文
+ * @returns 行ごとの列
+ * @example
+ * splitCsv('name,lat\n"盛岡城, 跡",39.7'); // => [["name", "lat"], ["盛岡城, 跡", "39.7"]]
+ */
+function splitCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("CSV has an unterminated quoted field.");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * CSV の各データ行を、ヘッダー名をキーにした値へ変換する。
+ *
+ * @param content - CSV 本文（1 行目はヘッダー）
+ * @returns 取り込み元の行
+ * @throws Error ヘッダーなし・列数の不一致
+ * @example
+ * parseCsvRows("name,description,lat,lng,city,genre\n...");
+ */
+function parseCsvRows(content: string): SpotImportSourceRow[] {
+  const [header, ...body] = splitCsv(content);
+  if (!header) {
+    throw new Error("CSV must have a header row.");
+  }
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return body.map((cells, index) => {
+    if (cells.length > keys.length) {
+      throw new Error(`CSV row ${index + 1} has more columns than the header.`);
+    }
+    const values: Record<string, unknown> = {};
+    keys.forEach((key, column) => {
+      if (key) values[key] = cells[column] ?? "";
+    });
+    return { row: index + 1, values };
+  });
+}
+
+/**
+ * GeoJSON の Point Feature を取り込み元の行へ変換する（座標は `lat` / `lng` に入れる）。
+ *
+ * @param content - GeoJSON 本文（FeatureCollection または Feature）
+ * @returns 取り込み元の行
+ * @throws Error JSON として読めない・Feature がない
+ * @example
+ * parseGeoJsonRows('{"type":"FeatureCollection","features":[]}');
+ */
+function parseGeoJsonRows(content: string): SpotImportSourceRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("GeoJSON must be valid JSON.");
+  }
+  const root = parsed as { type?: unknown; features?: unknown };
+  const features = root?.type === "FeatureCollection" ? root.features : root?.type === "Feature" ? [root] : null;
+  if (!Array.isArray(features)) {
+    throw new Error("GeoJSON must be a FeatureCollection or a Feature.");
+  }
+
+  return features.map((feature, index) => {
+    const { geometry, properties } = (feature ?? {}) as {
+      geometry?: { type?: unknown; coordinates?: unknown };
+      properties?: Record<string, unknown> | null;
+    };
+    const values: Record<string, unknown> = {};
+    Object.entries(properties ?? {}).forEach(([key, value]) => {
+      values[key.toLowerCase()] = value;
+    });
+    if (geometry?.type === "Point" && Array.isArray(geometry.coordinates)) {
+      const [lng, lat] = geometry.coordinates;
+      values.lat = lat;
+      values.lng = lng;
+    } else {
+      delete values.lat;
+      delete values.lng;
+    }
+    return { row: index + 1, values };
+  });
+}
+
+/**
+ * 取り込みファイルを行へ分解する。
+ *
+ * @param format - 取り込み形式
+ * @param content - ファイル本文
+ * @returns 取り込み元の行
+ * @throws Error 形式の誤り・行数の上限超過
+ * @example
+ * const rows = parseSpotImportSource("csv", text);
+ */
+export function parseSpotImportSource(format: SpotImportFormat, content: string): SpotImportSourceRow[] {
+  const rows = format === "csv" ? parseCsvRows(content) : parseGeoJsonRows(content);
+  if (rows.length === 0) {
+    throw new Error("The file has no spots to import.");
+  }
+  if (rows.length > SPOT_IMPORT_MAX_ROWS) {
+    throw new Error(`Up to ${SPOT_IMPORT_MAX_ROWS} spots can be imported at once.`);
+  }
+  return rows;
+}
+
+/**
+ * 名前を重複判定用に正規化する。
+ *
+ * @param name - スポット名
+ * @returns 正規化した名前
+ * @example
+ * normalizeName(" 盛岡城跡 公園 "); // => "盛岡城跡公園"
+ */
+function normalizeName(name: string): string {
+  return name.normalize("NFKC").replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * 名前または ID で指定された市区町村・ジャンルを ID へ変換した入力にする。
+ *
+ * `city` / `genre` 列は名前（市区町村は「盛岡」のような略称も可）、`city_id` / `genre_id` 列は ID を受け付ける。
+ * 空文字の列は未指定として扱う。
+ *
+ * @param values - 取り込み元の値
+ * @param lookups - 市区町村・ジャンル
+ * @returns `parseSpotCreateInput` に渡す値
+ * @example
+ * resolveImportValues({ name: "盛岡城跡公園", city: "盛岡市" }, { cities, genres });
+ */
+function resolveImportValues(
+  values: Record<string, unknown>,
+  { cities, genres }: { cities: City[]; genres: Genre[] }
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    if (typeof value === "string" && value.trim() === "") return;
+    resolved[key] = value;
+  });
+
+  if (resolved.city_id === undefined && typeof resolved.city === "string") {
+    const cityName = resolved.city.trim();
+    const municipality = matchMunicipality(cityName)?.name;
+    const city = cities.find((item) => item.name === cityName || item.name === municipality);
+    if (!city) throw new Error(`city "${cityName}" was not found.`);
+    resolved.city_id = city.id;
+  }
+  if (resolved.genre_id === undefined && typeof resolved.genre === "string") {
+    const genreName = resolved.genre.trim();
+    const genre = genres.find((item) => item.name === genreName);
+    if (!genre) throw new Error(`genre "${genreName}" was not found.`);
+    resolved.genre_id = genre.id;
+  }
+  return resolved;
+}
+
+/**
+ * 取り込み元の行を検証し、既存スポットとの差分（作成・重複・不正）を組み立てる。
+ *
+ * 各行は Studio のスポット作成と同じ `parseSpotCreateInput` で検証するため、岩手県外の座標は不正になる。
+ * 既存スポットまたはファイル内の先の行と同名で `SPOT_IMPORT_DUPLICATE_DISTANCE` 以内にあるものは重複とする。
+ *
+ * @param rows - 取り込み元の行
+ * @param context - 既存スポット・市区町村・ジャンル
+ * @returns 取り込み計画
+ * @example
+ * const plan = planSpotImport(rows, { existing: spots, cities, genres });
+ */
+export function planSpotImport(
+  rows: SpotImportSourceRow[],
+  context: { existing: Spot[]; cities: City[]; genres: Genre[] }
+): SpotImportPlan {
+  const cityIds = new Set(context.cities.map((city) => city.id));
+  const genreIds = new Set(context.genres.map((genre) => genre.id));
+  const known: { id: number | null; name: string; key: string; lat: number; lng: number }[] = context.existing.map(
+    (spot) => ({ id: spot.id, name: spot.name, key: normalizeName(spot.name), lat: spot.lat, lng: spot.lng })
+  );
+
+  const planned = rows.map((source): SpotImportRow => {
+    const name = typeof source.values.name === "string" ? source.values.name.trim() : "";
+    let input: AdminSpotCreateInput;
+    try {
+      input = parseSpotCreateInput(resolveImportValues(source.values, context));
+      if (!cityIds.has(input.city_id)) throw new Error(`city_id ${input.city_id} was not found.`);
+      if (!genreIds.has(input.genre_id)) throw new Error(`genre_id ${input.genre_id} was not found.`);
+    } catch (error) {
+      return { row: source.row, status: "invalid", name, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const key = normalizeName(input.name);
+    const duplicate = known.find(
+      (spot) =>
+        spot.key === key && haversineDistance(spot.lat, spot.lng, input.lat, input.lng) <= SPOT_IMPORT_DUPLICATE_DISTANCE
+    );
+    if (duplicate) {
+      return { row: source.row, status: "duplicate", name: input.name, input, duplicateOf: { id: duplicate.id, name: duplicate.name } };
+    }
+    known.push({ id: null, name: input.name, key, lat: input.lat, lng: input.lng });
+    return { row: source.row, status: "create", name: input.name, input };
+  });
+
+  const summary = { create: 0, duplicate: 0, invalid: 0 };
+  planned.forEach((row) => {
+    summary[row.status] += 1;
+  });
+  return { rows: planned, summary };
+}
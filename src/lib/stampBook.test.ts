@@ -0,0 +1,42 @@
+import { buildStampBookEntries, formatStampDate, paginateStampBook } from "@/lib/stampBook";
+import type { City, Spot, Stamp } from "@/lib/types";
+import { describe, expect, it } from "vitest";
+
+const cities: City[] = [{ id: 2, name: "平泉町" }];
+const spots: Spot[] = [
+  {
+    id: 2,
+    name: "中尊寺 金色堂",
+    description: "",
+    city_id: 2,
+    genre_id: 1,
+    lat: 38.9987,
+    lng: 141.1003,
+  },
+];
+
+describe("stampBook", () => {
+  it("orders entries by stamp date and resolves spot and city names", () => {
+    const stamps: Stamp[] = [
+      { id: 9, user_id: 1, spot_id: 7, created_at: "2026-05-03T12:00:00" },
+      { id: 4, user_id: 1, spot_id: 2, created_at: "2026-04-29T09:30:00" },
+    ];
+
+    const entries = buildStampBookEntries(stamps, spots, cities);
+
+    expect(entries.map((entry) => entry.stampId)).toEqual([4, 9]);
+    expect(entries[0]).toEqual(
+      expect.objectContaining({ spotName: "中尊寺 金色堂", cityName: "平泉町", dateLabel: "2026.04.29" })
+    );
+    expect(entries[1]).toEqual(expect.objectContaining({ spotName: "スポット #7", cityName: null }));
+  });
+
+  it("splits entries into printable pages", () => {
+    expect(paginateStampBook([], 12)).toEqual([[]]);
+    expect(paginateStampBook([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("returns an empty date label for invalid timestamps", () => {
+    expect(formatStampDate("not-a-date")).toBe("");
+  });
+});
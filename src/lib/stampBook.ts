@@ -0,0 +1,340 @@
+import { canvasToPngBlob } from "@/lib/canvasExport";
+import type { City, Spot, Stamp } from "@/lib/types";
+
+/** スタンプ帳 1 ページあたりの押印数（3 列 × 4 段） */
+export const STAMP_BOOK_PAGE_SIZE = 12;
+
+const STAMP_BOOK_COLUMNS = 3;
+const PAPER_COLOR = "#fbf7ee";
+const INK_COLORS = ["#b3261e", "#1f4e8c", "#0f6b4f", "#7a3e9d", "#a5591a"];
+const TITLE_FONT = "\"Shippori Mincho\", serif";
+const BODY_FONT = "\"Noto Sans JP\", 'Helvetica Neue', sans-serif";
+
+/** 印刷用ページ（A4 縦・約 150dpi）の寸法 */
+const PRINT_PAGE_WIDTH = 1240;
+const PRINT_PAGE_HEIGHT = 1754;
+const PNG_WIDTH = 1200;
+
+/** スタンプ帳の 1 押印分 */
+export type StampBookEntry = {
+  stampId: number;
+  spotId: number;
+  spotName: string;
+  cityName: string | null;
+  stampedAt: string;
+  dateLabel: string;
+};
+
+type StampBookCanvasOptions = {
+  title: string;
+  subtitle: string;
+  width: number;
+  height?: number;
+};
+
+/**
+ * スタンプ取得日時を `YYYY.MM.DD` 形式（ローカル日付）で返す。
+ *
+ * @param value - ISO 日時文字列
+ * @returns 日付ラベル（不正値は空文字）
+ * @example
+ * formatStampDate("2026-03-12T01:00:00.000Z");
+ */
+export function formatStampDate(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+/**
+ * スタンプをスポット・市町村名と結び付け、取得順に並べる。
+ *
+ * @param stamps - ユーザーのスタンプ
+ * @param spots - スポット一覧
+ * @param cities - 市区町村一覧
+ * @returns スタンプ帳の押印配列（古い順）
+ * @example
+ * const entries = buildStampBookEntries(stamps, spots, cities);
+ */
+export function buildStampBookEntries(stamps: Stamp[], spots: Spot[], cities: City[]): StampBookEntry[] {
+  const spotById = new Map(spots.map((spot) => [spot.id, spot]));
+  const cityById = new Map(cities.map((city) => [city.id, city]));
+
+  return [...stamps]
+    .sort((left, right) => new Date(left.created_at).getTime() - new Date(right.created_at).getTime())
+    .map((stamp) => {
+      const spot = spotById.get(stamp.spot_id);
+      return {
+        stampId: stamp.id,
+        spotId: stamp.spot_id,
+        spotName: spot?.name ?? `スポット #${stamp.spot_id}`,
+        cityName: spot ? (cityById.get(spot.city_id)?.name ?? null) : null,
+        stampedAt: stamp.created_at,
+        dateLabel: formatStampDate(stamp.created_at),
+      };
+    });
+}
+
+/**
+ * 押印をページ単位に分割する。空でも 1 ページ（白紙）を返す。
+ *
+ * @param entries - 押印配列
+ * @param pageSize - 1 ページあたりの件数
+ * @returns ページ配列
+ * @example
+ * paginateStampBook(entries);
+ */
+export function paginateStampBook<T>(entries: T[], pageSize = STAMP_BOOK_PAGE_SIZE): T[][] {
+  const safePageSize = Math.max(1, Math.floor(pageSize));
+  if (entries.length === 0) return [[]];
+  const pages: T[][] = [];
+  for (let index = 0; index < entries.length; index += safePageSize) {
+    pages.push(entries.slice(index, index + safePageSize));
+  }
+  return pages;
+}
+
+/**
+ * スポットごとに固定のインク色を返す。
+ *
+ * @param spotId - スポット ID
+ * @returns CSS カラー
+ * @example
+ * getStampInkColor(3);
+ */
+export function getStampInkColor(spotId: number): string {
+  return INK_COLORS[Math.abs(spotId) % INK_COLORS.length];
+}
+
+/**
+ * 押印ごとに固定の傾き（度）を返す。手押し風に ±8° の範囲で揺らす。
+ *
+ * @param stampId - スタンプ ID
+ * @returns 回転角（度）
+ * @example
+ * getStampTilt(12);
+ */
+export function getStampTilt(stampId: number): number {
+  return ((Math.abs(stampId) * 37) % 17) - 8;
+}
+
+/**
+ * 最大幅に収まるようテキストを最大 2 行へ分割する。
+ *
+ * @param ctx - 描画コンテキスト
+ * @param text - 対象テキスト
+ * @param maxWidth - 1 行の最大幅
+ * @returns 行配列
+ * @example
+ * splitTextLines(ctx, "中尊寺 金色堂", 180);
+ */
+function splitTextLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  if (ctx.measureText(text).width <= maxWidth) return [text];
+  const chars = Array.from(text);
+  const middle = Math.ceil(chars.length / 2);
+  return [chars.slice(0, middle).join(""), chars.slice(middle).join("")];
+}
+
+/**
+ * 1 つの押印（二重丸の印影 + スポット名 + 日付）を描画する。
+ *
+ * @param ctx - 描画コンテキスト
+ * @param entry - 押印
+ * @param cx - 中心 X
+ * @param cy - 中心 Y
+ * @param radius - 印影の半径
+ * @returns void
+ * @example
+ * drawStampImpression(ctx, entry, 200, 200, 120);
+ */
+function drawStampImpression(
+  ctx: CanvasRenderingContext2D,
+  entry: StampBookEntry,
+  cx: number,
+  cy: number,
+  radius: number
+): void {
+  const ink = getStampInkColor(entry.spotId);
+  ctx.save();
+  ctx.translate(cx, cy);
+  ctx.rotate((getStampTilt(entry.stampId) * Math.PI) / 180);
+  ctx.globalAlpha = 0.88;
+  ctx.strokeStyle = ink;
+  ctx.fillStyle = ink;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  ctx.lineWidth = radius * 0.06;
+  ctx.beginPath();
+  ctx.arc(0, 0, radius, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.lineWidth = radius * 0.02;
+  ctx.beginPath();
+  ctx.arc(0, 0, radius * 0.86, 0, Math.PI * 2);
+  ctx.stroke();
+
+  if (entry.cityName) {
+    ctx.font = `${radius * 0.14}px ${BODY_FONT}`;
+    ctx.fillText(entry.cityName, 0, -radius * 0.52);
+  }
+
+  let fontSize = radius * 0.24;
+  ctx.font = `bold ${fontSize}px ${TITLE_FONT}`;
+  let lines = splitTextLines(ctx, entry.spotName, radius * 1.4);
+  while (lines.some((line) => ctx.measureText(line).width > radius * 1.4) && fontSize > radius * 0.12) {
+    fontSize *= 0.9;
+    ctx.font = `bold ${fontSize}px ${TITLE_FONT}`;
+    lines = splitTextLines(ctx, entry.spotName, radius * 1.4);
+  }
+  const lineHeight = fontSize * 1.15;
+  lines.forEach((line, index) => {
+    ctx.fillText(line, 0, (index - (lines.length - 1) / 2) * lineHeight - radius * 0.04);
+  });
+
+  ctx.lineWidth = radius * 0.015;
+  ctx.beginPath();
+  ctx.moveTo(-radius * 0.55, radius * 0.38);
+  ctx.lineTo(radius * 0.55, radius * 0.38);
+  ctx.stroke();
+  ctx.font = `${radius * 0.15}px ${BODY_FONT}`;
+  ctx.fillText(entry.dateLabel, 0, radius * 0.56);
+  ctx.restore();
+}
+
+/**
+ * 押印を格子状に並べたスタンプ帳の canvas を生成する。
+ *
+ * `height` を省略すると全件が収まる高さ（PNG 書き出し用）になる。
+ *
+ * @param entries - 描画する押印
+ * @param options - タイトル・寸法
+ * @returns 描画済み canvas（2D コンテキスト未対応時は null）
+ * @example
+ * const canvas = renderStampBookCanvas(entries, { title: "スタンプ帳", subtitle: "12 件", width: 1200 });
+ */
+export function renderStampBookCanvas(
+  entries: StampBookEntry[],
+  options: StampBookCanvasOptions
+): HTMLCanvasElement | null {
+  const padding = Math.round(options.width * 0.065);
+  const headerHeight = Math.round(options.width * 0.16);
+  const cellSize = (options.width - padding * 2) / STAMP_BOOK_COLUMNS;
+  const rows = Math.max(1, Math.ceil(entries.length / STAMP_BOOK_COLUMNS));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = options.width;
+  canvas.height = options.height ?? Math.ceil(headerHeight + rows * cellSize + padding);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.fillStyle = PAPER_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.strokeStyle = "rgba(15, 28, 26, 0.18)";
+  ctx.lineWidth = 2;
+  ctx.strokeRect(padding / 2, padding / 2, canvas.width - padding, canvas.height - padding);
+
+  ctx.fillStyle = "#0f1c1a";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "alphabetic";
+  ctx.font = `${options.width * 0.045}px ${TITLE_FONT}`;
+  ctx.fillText(options.title, padding, padding + options.width * 0.05);
+  ctx.fillStyle = "rgba(15, 28, 26, 0.6)";
+  ctx.font = `${options.width * 0.018}px ${BODY_FONT}`;
+  ctx.fillText(options.subtitle, padding, padding + options.width * 0.085);
+
+  entries.forEach((entry, index) => {
+    const column = index % STAMP_BOOK_COLUMNS;
+    const row = Math.floor(index / STAMP_BOOK_COLUMNS);
+    const cx = padding + cellSize * column + cellSize / 2;
+    const cy = headerHeight + cellSize * row + cellSize / 2;
+    drawStampImpression(ctx, entry, cx, cy, cellSize * 0.4);
+  });
+
+  return canvas;
+}
+
+/**
+ * スタンプ帳全体を 1 枚の PNG として書き出す。
+ *
+ * @param entries - 押印配列
+ * @param title - 見出し
+ * @returns PNG Blob（生成失敗時は null）
+ * @example
+ * const blob = await exportStampBookPng(entries, "いわてスタンプ帳");
+ */
+export async function exportStampBookPng(entries: StampBookEntry[], title: string): Promise<Blob | null> {
+  await document.fonts?.ready;
+  const canvas = renderStampBookCanvas(entries, {
+    title,
+    subtitle: `${entries.length} 個のスタンプ`,
+    width: PNG_WIDTH,
+  });
+  if (!canvas) return null;
+  return canvasToPngBlob(canvas);
+}
+
+/**
+ * 印刷用に A4 縦のページ画像（data URL）を生成する。
+ *
+ * @param entries - 押印配列
+ * @param title - 見出し
+ * @returns ページごとの PNG data URL
+ * @example
+ * const pages = await renderStampBookPrintPages(entries, "いわてスタンプ帳");
+ */
+export async function renderStampBookPrintPages(entries: StampBookEntry[], title: string): Promise<string[]> {
+  await document.fonts?.ready;
+  const pages = paginateStampBook(entries);
+  return pages.flatMap((pageEntries, index) => {
+    const canvas = renderStampBookCanvas(pageEntries, {
+      title,
+      subtitle: `${index + 1} / ${pages.length} ページ · 全 ${entries.length} 個`,
+      width: PRINT_PAGE_WIDTH,
+      height: PRINT_PAGE_HEIGHT,
+    });
+    return canvas ? [canvas.toDataURL("image/png")] : [];
+  });
+}
+
+/**
+ * ページ画像を別ウィンドウへ並べ、ブラウザの印刷ダイアログを開く。
+ *
+ * ポップアップブロックを避けるため、ウィンドウはクリック直後に呼び出し側で開いておく。
+ *
+ * @param printWindow - 事前に開いたウィンドウ
+ * @param pages - ページ画像の data URL
+ * @param title - 文書タイトル
+ * @returns void
+ * @example
+ * writePrintableStampBook(window.open("", "_blank")!, pages, "いわてスタンプ帳");
+ */
+export function writePrintableStampBook(printWindow: Window, pages: string[], title: string): void {
+  const doc = printWindow.document;
+  doc.title = title;
+  doc.head.innerHTML = `<style>
+    @page { size: A4 portrait; margin: 0; }
+    html, body { margin: 0; padding: 0; background: #e5e5e5; }
+    .page { width: 210mm; height: 297mm; margin: 0 auto 8mm; page-break-after: always; break-after: page; }
+    .page:last-child { page-break-after: auto; break-after: auto; }
+    .page img { display: block; width: 100%; height: 100%; object-fit: contain; background: ${PAPER_COLOR}; }
+    @media print { body { background: none; } .page { margin: 0; } }
+  </style>`;
+  doc.body.innerHTML = "";
+  pages.forEach((src, index) => {
+    const page = doc.createElement("div");
+    page.className = "page";
+    const image = doc.createElement("img");
+    image.src = src;
+    image.alt = `${title} ${index + 1}`;
+    page.appendChild(image);
+    doc.body.appendChild(page);
+  });
+
+  const images = Array.from(doc.images);
+  void Promise.all(images.map((image) => image.decode().catch(() => undefined))).then(() => {
+    printWindow.focus();
+    printWindow.print();
+  });
+}
@@ -0,0 +1,31 @@
+import { resolveReplayOutcome } from "@/lib/stampQueue";
+import { describe, expect, it } from "vitest";
+
+const stamp = { id: 3, user_id: 8, spot_id: 1, created_at: "2026-05-03T12:00:00.000Z" };
+
+describe("stampQueue", () => {
+  it("treats created and already stamped responses as synced", () => {
+    expect(resolveReplayOutcome(201, { stamp })).toEqual({ status: "synced", stamp });
+    expect(resolveReplayOutcome(409, { reason: "already_stamped" })).toEqual({ status: "synced", stamp: null });
+  });
+
+  it("settles server rejections with their reason", () => {
+    expect(resolveReplayOutcome(403, { reason: "too_far" })).toEqual({ status: "rejected", reason: "too_far" });
+    expect(resolveReplayOutcome(503, { reason: "not_configured" })).toEqual({
+      status: "rejected",
+      reason: "not_configured",
+    });
+  });
+
+  it("keeps entries pending for auth, timeout, rate-limit and server failures", () => {
+    expect(resolveReplayOutcome(401, {})).toEqual({ status: "retry" });
+    expect(resolveReplayOutcome(408, {})).toEqual({ status: "retry" });
+    expect(resolveReplayOutcome(429, {})).toEqual({ status: "retry" });
+    expect(resolveReplayOutcome(500, {})).toEqual({ status: "retry" });
+  });
+
+  it("settles other client errors without a reason instead of retrying forever", () => {
+    expect(resolveReplayOutcome(400, {})).toEqual({ status: "rejected", reason: "invalid_request" });
+    expect(resolveReplayOutcome(422, {})).toEqual({ status: "rejected", reason: "invalid_request" });
+  });
+});
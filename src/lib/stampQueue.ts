@@ -0,0 +1,273 @@
+import { isStampRejectReason, type StampPositionFix, type StampRejectReason } from "@/lib/stamps";
+import type { Stamp } from "@/lib/types";
+
+const DB_NAME = "iwate150_stamp_queue_v1";
+const DB_VERSION = 1;
+const STORE_NAME = "entries";
+
+/** 4xx のうち時間をおけば通る可能性があり、再送対象とするもの */
+const RETRYABLE_CLIENT_STATUSES = new Set([401, 408, 429]);
+
+/** オフライン申請の送信状態 */
+export type QueuedStampStatus = "pending" | "synced" | "rejected";
+
+/** 端末に保存したスタンプ申請 */
+export type QueuedStamp = StampPositionFix & {
+  id: string;
+  /** セッションのユーザー ID（同一端末の別アカウントと混ざらないようにする） */
+  ownerId: string;
+  spotId: number;
+  /** 測位日時（ISO 文字列） */
+  capturedAt: string;
+  status: QueuedStampStatus;
+  reason: StampRejectReason | null;
+  attempts: number;
+  /** 送信成功時にサーバーが返したスタンプ */
+  stamp: Stamp | null;
+};
+
+/** 1 件分の送信結果 */
+export type ReplayOutcome =
+  | { status: "synced"; stamp: Stamp | null }
+  | { status: "rejected"; reason: StampRejectReason }
+  | { status: "retry" };
+
+/**
+ * IndexedDB が利用できるか判定する。
+ *
+ * @returns 利用可能なら true
+ * @example
+ * if (isStampQueueSupported()) { ... }
+ */
+export function isStampQueueSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * IDBRequest を Promise へ変換する。
+ *
+ * @param request - IndexedDB request
+ * @returns 結果
+ * @example
+ * const value = await promisifyRequest(store.get(id));
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * キュー用データベースを開く（初回はストアを作成）。
+ *
+ * @returns IDBDatabase
+ * @example
+ * const db = await openQueueDatabase();
+ */
+function openQueueDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("ownerId", "ownerId", { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * ストアに対して 1 トランザクション分の処理を実行する。
+ *
+ * @param mode - トランザクションモード
+ * @param run - ストア操作
+ * @returns 操作結果
+ * @example
+ * await withStore("readonly", (store) => promisifyRequest(store.getAll()));
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> {
+  const db = await openQueueDatabase();
+  try {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await run(transaction.objectStore(STORE_NAME));
+    await done;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * ユーザーのキュー項目を測位日時の新しい順に取得する。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns キュー項目
+ * @example
+ * const entries = await listQueuedStamps("user_1");
+ */
+export async function listQueuedStamps(ownerId: string): Promise<QueuedStamp[]> {
+  const entries = await withStore("readonly", (store) =>
+    promisifyRequest(store.index("ownerId").getAll(ownerId) as IDBRequest<QueuedStamp[]>)
+  );
+  return entries.sort((left, right) => right.capturedAt.localeCompare(left.capturedAt));
+}
+
+/**
+ * 測位値付きのスタンプ申請をキューへ追加する。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @param spotId - スポット ID
+ * @param fix - 測位値
+ * @param capturedAt - 測位日時
+ * @returns 追加した項目
+ * @example
+ * await enqueueStamp("user_1", 3, { lat: 39.7, lng: 141.1, accuracy: 20 });
+ */
+export async function enqueueStamp(
+  ownerId: string,
+  spotId: number,
+  fix: StampPositionFix,
+  capturedAt: Date = new Date()
+): Promise<QueuedStamp> {
+  const entry: QueuedStamp = {
+    id: typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `${Date.now()}-${spotId}`,
+    ownerId,
+    spotId,
+    lat: fix.lat,
+    lng: fix.lng,
+    accuracy: fix.accuracy,
+    capturedAt: capturedAt.toISOString(),
+    status: "pending",
+    reason: null,
+    attempts: 0,
+    stamp: null,
+  };
+  await withStore("readwrite", (store) => promisifyRequest(store.put(entry)));
+  return entry;
+}
+
+/**
+ * キュー項目を上書き保存する。
+ *
+ * @param entry - 更新後の項目
+ * @returns void
+ * @example
+ * await saveQueuedStamp({ ...entry, status: "synced" });
+ */
+async function saveQueuedStamp(entry: QueuedStamp): Promise<void> {
+  await withStore("readwrite", (store) => promisifyRequest(store.put(entry)));
+}
+
+/**
+ * 送信済み・却下済みの項目を削除する。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns void
+ * @example
+ * await clearSettledStamps("user_1");
+ */
+export async function clearSettledStamps(ownerId: string): Promise<void> {
+  const entries = await listQueuedStamps(ownerId);
+  const settled = entries.filter((entry) => entry.status !== "pending");
+  if (settled.length === 0) return;
+  await withStore("readwrite", async (store) => {
+    await Promise.all(settled.map((entry) => promisifyRequest(store.delete(entry.id))));
+  });
+}
+
+/**
+ * `POST /api/stamps` の応答を送信結果へ分類する。
+ *
+ * 既にスタンプ済み（409）はサーバー側に記録があるため同期済みとみなす。
+ * 認証切れ（401）・タイムアウト（408）・レート制限（429）・サーバー障害は再送対象とし、
+ * それ以外の 4xx は理由がなくても（入力検証エラーなど）確定扱いにする。
+ *
+ * @param status - HTTP status
+ * @param payload - レスポンス JSON
+ * @returns 送信結果
+ * @example
+ * resolveReplayOutcome(201, { stamp });
+ */
+export function resolveReplayOutcome(status: number, payload: { stamp?: Stamp; reason?: unknown }): ReplayOutcome {
+  if (status >= 200 && status < 300) {
+    return { status: "synced", stamp: payload.stamp ?? null };
+  }
+  if (payload.reason === "already_stamped") {
+    return { status: "synced", stamp: null };
+  }
+  if (isStampRejectReason(payload.reason) && (status < 500 || payload.reason === "not_configured")) {
+    return { status: "rejected", reason: payload.reason };
+  }
+  if (status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.has(status)) {
+    return { status: "rejected", reason: "invalid_request" };
+  }
+  return { status: "retry" };
+}
+
+/**
+ * 1 件のキュー項目をサーバーへ送信する。
+ *
+ * @param entry - キュー項目
+ * @returns 送信結果（ネットワーク断は retry）
+ * @example
+ * const outcome = await sendQueuedStamp(entry);
+ */
+async function sendQueuedStamp(entry: QueuedStamp): Promise<ReplayOutcome> {
+  try {
+    const response = await fetch("/api/stamps", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        spot_id: entry.spotId,
+        lat: entry.lat,
+        lng: entry.lng,
+        accuracy: entry.accuracy,
+        captured_at: entry.capturedAt,
+      }),
+    });
+    const payload = (await response.json().catch(() => ({}))) as { stamp?: Stamp; reason?: unknown };
+    return resolveReplayOutcome(response.status, payload);
+  } catch {
+    return { status: "retry" };
+  }
+}
+
+/**
+ * 送信待ちの項目を古い順に再送する。ネットワーク断を検知した時点で打ち切る。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns 再送後のキュー項目
+ * @example
+ * const entries = await replayQueuedStamps("user_1");
+ */
+export async function replayQueuedStamps(ownerId: string): Promise<QueuedStamp[]> {
+  const pending = (await listQueuedStamps(ownerId))
+    .filter((entry) => entry.status === "pending")
+    .reverse();
+
+  for (const entry of pending) {
+    const outcome = await sendQueuedStamp(entry);
+    if (outcome.status === "retry") {
+      await saveQueuedStamp({ ...entry, attempts: entry.attempts + 1 });
+      break;
+    }
+    await saveQueuedStamp({
+      ...entry,
+      attempts: entry.attempts + 1,
+      status: outcome.status,
+      reason: outcome.status === "rejected" ? outcome.reason : null,
+      stamp: outcome.status === "synced" ? outcome.stamp : null,
+    });
+  }
+
+  return listQueuedStamps(ownerId);
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuthSession } from "@/components/auth/SessionProvider";
+import {
+  clearSettledStamps,
+  enqueueStamp,
+  isStampQueueSupported,
+  listQueuedStamps,
+  replayQueuedStamps,
+  type QueuedStamp,
+} from "@/lib/stampQueue";
+import type { StampPositionFix } from "@/lib/stamps";
+
+/**
+ * ブラウザのオンライン状態を返す（SSR 時はオンライン扱い）。
+ *
+ * @returns オンラインなら true
+ * @example
+ * readOnlineStatus();
+ */
+function readOnlineStatus(): boolean {
+  return typeof navigator === "undefined" ? true : navigator.onLine;
+}
+
+/**
+ * オフラインで記録したスタンプ申請キューを扱う hook。
+ *
+ * 画面表示時とブラウザが `online` に戻った時に送信待ちを自動で再送する。
+ *
+ * @returns キュー項目・オンライン状態・追加/再送/整理関数
+ * @example
+ * const { entries, enqueue, replay } = useStampQueue();
+ */
+export function useStampQueue() {
+  const { user } = useAuthSession();
+  const ownerId = user?.id ?? null;
+  const [entries, setEntries] = useState<QueuedStamp[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const replayingRef = useRef(false);
+  const isSupported = isStampQueueSupported();
+
+  const replay = useCallback(async () => {
+    if (!ownerId || !isSupported || replayingRef.current) return;
+    replayingRef.current = true;
+    setIsReplaying(true);
+    try {
+      setEntries(await replayQueuedStamps(ownerId));
+    } catch (error) {
+      console.error("[stamp-queue] replay failed", error);
+    } finally {
+      replayingRef.current = false;
+      setIsReplaying(false);
+    }
+  }, [isSupported, ownerId]);
+
+  useEffect(() => {
+    setIsOnline(readOnlineStatus());
+    if (!ownerId || !isSupported) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    void listQueuedStamps(ownerId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setEntries(loaded);
+        if (readOnlineStatus() && loaded.some((entry) => entry.status === "pending")) {
+          void replay();
+        }
+      })
+      .catch((error) => console.error("[stamp-queue] load failed", error));
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      void replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [isSupported, ownerId, replay]);
+
+  const enqueue = useCallback(
+    async (spotId: number, fix: StampPositionFix, capturedAt?: Date) => {
+      if (!ownerId || !isSupported) {
+        throw new Error("Offline stamp queue is not available.");
+      }
+      const entry = await enqueueStamp(ownerId, spotId, fix, capturedAt);
+      setEntries((current) => [entry, ...current]);
+      return entry;
+    },
+    [isSupported, ownerId]
+  );
+
+  const clearSettled = useCallback(async () => {
+    if (!ownerId || !isSupported) return;
+    await clearSettledStamps(ownerId);
+    setEntries(await listQueuedStamps(ownerId));
+  }, [isSupported, ownerId]);
+
+  return {
+    entries,
+    isSupported,
+    isOnline,
+    isReplaying,
+    enqueue,
+    replay,
+    clearSettled,
+  };
+}
@@ -0,0 +1,154 @@
+import { haversineDistance } from "@/lib/geo";
+import type { Spot } from "@/lib/types";
+
+/** スタンプ取得を許可する半径（m） */
+export const STAMP_RADIUS = 200;
+
+/** 受け付ける GPS 精度の上限（m）。これより粗い測位は拒否する */
+export const STAMP_MAX_ACCURACY = 100;
+
+/** オフラインで記録したスタンプを受け付ける期限（ms） */
+export const STAMP_MAX_OFFLINE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** 端末時計のずれとして許容する未来方向の幅（ms） */
+const STAMP_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/** 位置情報付きのスタンプ申請 */
+export type StampPositionFix = {
+  lat: number;
+  lng: number;
+  /** GeolocationCoordinates.accuracy（m） */
+  accuracy: number;
+};
+
+/** スタンプ申請の拒否理由 */
+export type StampRejectReason =
+  | "invalid_position"
+  | "low_accuracy"
+  | "too_far"
+  | "expired"
+  | "already_stamped"
+  | "spot_not_found"
+  | "invalid_request"
+  | "not_configured";
+
+/** 近接判定の結果 */
+export type StampProximityResult =
+  | { ok: true; distance: number }
+  | { ok: false; reason: StampRejectReason; distance: number | null };
+
+/**
+ * 測位値が地球上の座標として妥当か判定する。
+ *
+ * @param fix - 測位値
+ * @returns 妥当なら true
+ * @example
+ * isPlausiblePositionFix({ lat: 39.7, lng: 141.1, accuracy: 15 });
+ */
+function isPlausiblePositionFix(fix: StampPositionFix): boolean {
+  return (
+    Number.isFinite(fix.lat) &&
+    Number.isFinite(fix.lng) &&
+    Math.abs(fix.lat) <= 90 &&
+    Math.abs(fix.lng) <= 180
+  );
+}
+
+/**
+ * 測位値とスポット座標からスタンプ取得可否を判定する。
+ *
+ * 精度が 0 以下（偽装の疑い）または `STAMP_MAX_ACCURACY` 超過の場合は拒否し、
+ * スポットまでの距離が `STAMP_RADIUS` を超える場合も拒否する。
+ *
+ * @param spot - 対象スポット
+ * @param fix - 利用者の測位値
+ * @returns 判定結果
+ * @example
+ * const result = verifyStampProximity(spot, { lat: 39.7021, lng: 141.1527, accuracy: 12 });
+ */
+export function verifyStampProximity(
+  spot: Pick<Spot, "lat" | "lng">,
+  fix: StampPositionFix
+): StampProximityResult {
+  if (!isPlausiblePositionFix(fix)) {
+    return { ok: false, reason: "invalid_position", distance: null };
+  }
+  if (!Number.isFinite(fix.accuracy) || fix.accuracy <= 0 || fix.accuracy > STAMP_MAX_ACCURACY) {
+    return { ok: false, reason: "low_accuracy", distance: null };
+  }
+
+  const distance = haversineDistance(fix.lat, fix.lng, spot.lat, spot.lng);
+  if (distance > STAMP_RADIUS) {
+    return { ok: false, reason: "too_far", distance };
+  }
+  return { ok: true, distance };
+}
+
+/**
+ * オフライン記録の取得日時が受け付け可能か判定する。
+ *
+ * 未来すぎる日時（端末時計の改ざん）と `STAMP_MAX_OFFLINE_AGE_MS` より古い記録は拒否する。
+ *
+ * @param capturedAt - 端末で測位した日時（ISO 文字列）
+ * @param now - 判定基準時刻
+ * @returns 受け付け可能なら true
+ * @example
+ * isAcceptableCaptureTime("2026-03-12T01:00:00.000Z");
+ */
+export function isAcceptableCaptureTime(capturedAt: string, now: Date = new Date()): boolean {
+  const captured = new Date(capturedAt).getTime();
+  if (Number.isNaN(captured)) return false;
+  const age = now.getTime() - captured;
+  return age >= -STAMP_CLOCK_SKEW_MS && age <= STAMP_MAX_OFFLINE_AGE_MS;
+}
+
+/**
+ * 拒否理由をユーザー向けメッセージへ変換する。
+ *
+ * @param reason - 拒否理由
+ * @returns 表示メッセージ
+ * @example
+ * describeStampRejection("too_far");
+ */
+export function describeStampRejection(reason: StampRejectReason): string {
+  switch (reason) {
+    case "invalid_position":
+      return "位置情報が正しく取得できませんでした。";
+    case "low_accuracy":
+      return `GPS の精度が不足しています（${STAMP_MAX_ACCURACY}m 以内で再取得してください）。`;
+    case "too_far":
+      return `スポットから${STAMP_RADIUS}m以内で押してください。`;
+    case "expired":
+      return "オフラインで記録したスタンプの送信期限（7日）を過ぎました。";
+    case "already_stamped":
+      return "このスポットは既にスタンプ済みです。";
+    case "spot_not_found":
+      return "スポットが見つかりません。";
+    case "invalid_request":
+      return "送信内容に誤りがあるため登録できませんでした。";
+    case "not_configured":
+    default:
+      return "スタンプの登録に失敗しました。";
+  }
+}
+
+/**
+ * 値が拒否理由か判定する。
+ *
+ * @param value - 判定対象
+ * @returns StampRejectReason の場合 true
+ * @example
+ * isStampRejectReason("too_far");
+ */
+export function isStampRejectReason(value: unknown): value is StampRejectReason {
+  return (
+    value === "invalid_position" ||
+    value === "low_accuracy" ||
+    value === "too_far" ||
+    value === "expired" ||
+    value === "already_stamped" ||
+    value === "spot_not_found" ||
+    value === "invalid_request" ||
+    value === "not_configured"
+  );
+}
@@ -64,6 +64,27 @@ export function parseRequiredInteger(value: unknown, fieldName: string): number
   return parsed;
 }
 
+/**
+ * 値を重複のない整数 ID の配列として検証する。
+ *
+ * @param value - 入力値
+ * @param fieldName - フィールド名
+ * @returns 整数 ID 配列（入力順）
+ * @throws Error 空配列・不正値・重複
+ * @example
+ * parseRequiredIdList([1, "4"], "spot_ids"); // => [1, 4]
+ */
+export function parseRequiredIdList(value: unknown, fieldName: string): number[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${fieldName} must be a non-empty array.`);
+  }
+  const ids = value.map((item) => parseRequiredInteger(item, fieldName));
+  if (new Set(ids).size !== ids.length) {
+    throw new Error(`${fieldName} must not contain duplicates.`);
+  }
+  return ids;
+}
+
 /**
  * 値を省略可能な整数 ID として検証する。
  *
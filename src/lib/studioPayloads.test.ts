@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  parseEventCreateInput,
+  parseEventUpdateInput,
+  parseRallyCreateInput,
+  parseRallyUpdateInput,
+  parseSpotCreateInput,
+  parseSpotUpdateInput,
+} from "@/lib/studioPayloads";
+
+// studioApi の検証ヘルパーだけを使うので、NextAuth の初期化は読み込まない
+vi.mock("@/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/authServer", () => ({ fetchAppUserByIdentity: vi.fn() }));
+
+const spotInput = {
+  name: "盛岡城跡公園",
+  description: "石垣が残る城跡",
+  city_id: "1",
+  genre_id: "1",
+  lat: "39.7021",
+  lng: "141.1527",
+};
+
+describe("studioPayloads", () => {
+  it("accepts spot coordinates inside Iwate and rejects points outside", () => {
+    expect(parseSpotCreateInput(spotInput)).toMatchObject({ lat: 39.7021, lng: 141.1527 });
+    expect(() => parseSpotCreateInput({ ...spotInput, lat: "35.6812", lng: "139.7671" })).toThrow(
+      "lat must be within Iwate"
+    );
+    expect(() => parseSpotUpdateInput({ lng: "0" })).toThrow("lng must be within Iwate");
+  });
+
+  it("requires event latitude and longitude together", () => {
+    const eventInput = { title: "夜市", location: "盛岡市" };
+
+    expect(parseEventCreateInput(eventInput)).toMatchObject({ lat: null, lng: null });
+    expect(parseEventCreateInput({ ...eventInput, lat: "39.70", lng: 141.15 })).toMatchObject({
+      lat: 39.7,
+      lng: 141.15,
+    });
+    expect(() => parseEventCreateInput({ ...eventInput, lat: "39.70", lng: "" })).toThrow(
+      "lat and lng must be provided together."
+    );
+  });
+
+  it("accepts optional venue spot ids for events", () => {
+    const eventInput = { title: "夜市", location: "盛岡市" };
+
+    expect(parseEventCreateInput(eventInput)).toMatchObject({ spot_ids: [] });
+    expect(parseEventCreateInput({ ...eventInput, spot_ids: [4, "1"] })).toMatchObject({ spot_ids: [4, 1] });
+    expect(parseEventUpdateInput({ spot_ids: [] }, {})).toEqual({ spot_ids: [] });
+    expect(() => parseEventCreateInput({ ...eventInput, spot_ids: [1, 1] })).toThrow(
+      "spot_ids must not contain duplicates."
+    );
+  });
+
+  it("normalizes event recurrence rules and exception dates", () => {
+    const eventInput = { title: "さんさ踊り", start_date: "2026-08-01", end_date: "2026-08-04" };
+
+    expect(
+      parseEventCreateInput({
+        ...eventInput,
+        recurrence_rule: "rrule:freq=yearly;interval=1",
+        recurrence_exdates: "2027-08-01,2026-08-01,2027-08-01",
+      })
+    ).toMatchObject({ recurrence_rule: "FREQ=YEARLY", recurrence_exdates: ["2026-08-01", "2027-08-01"] });
+    expect(() => parseEventCreateInput({ ...eventInput, recurrence_rule: "FREQ=HOURLY" })).toThrow(
+      "recurrence_rule: FREQ must be one of"
+    );
+    expect(() => parseEventCreateInput({ title: "よ市", recurrence_rule: "FREQ=WEEKLY" })).toThrow(
+      "recurrence_rule requires start_date."
+    );
+    expect(() =>
+      parseEventUpdateInput({ recurrence_rule: "" }, { ...eventInput, recurrence_exdates: ["2027-08-01"] })
+    ).toThrow("recurrence_exdates requires recurrence_rule.");
+  });
+
+  it("validates rally titles, spot lists and the ordering flag", () => {
+    const rallyInput = { title: "歴史めぐり", spot_ids: ["2", 1] };
+
+    expect(parseRallyCreateInput(rallyInput)).toMatchObject({
+      title: "歴史めぐり",
+      spot_ids: [2, 1],
+      is_ordered: false,
+    });
+    expect(() => parseRallyCreateInput({ spot_ids: [2, 1] })).toThrow("title is required.");
+    expect(() => parseRallyCreateInput({ ...rallyInput, spot_ids: [] })).toThrow("spot_ids must be a non-empty array.");
+    expect(() => parseRallyCreateInput({ ...rallyInput, spot_ids: [2, 1, 2] })).toThrow(
+      "spot_ids must not contain duplicates."
+    );
+    expect(() => parseRallyCreateInput({ ...rallyInput, is_ordered: "true" })).toThrow("is_ordered must be a boolean.");
+    expect(() => parseRallyCreateInput({ ...rallyInput, start_date: "2026-05-01", end_date: "2026-04-01" })).toThrow(
+      "end_date must be on or after start_date."
+    );
+  });
+
+  it("checks rally updates against the stored period", () => {
+    const current = { start_date: "2026-04-01", end_date: "2026-04-30" };
+
+    expect(parseRallyUpdateInput({ is_ordered: true }, current)).toEqual({ is_ordered: true });
+    expect(() => parseRallyUpdateInput({}, current)).toThrow("At least one field is required for update.");
+    expect(() => parseRallyUpdateInput({ is_ordered: 1 }, current)).toThrow("is_ordered must be a boolean.");
+    expect(() => parseRallyUpdateInput({ end_date: "2026-03-31" }, current)).toThrow(
+      "end_date must be on or after start_date."
+    );
+    expect(() => parseRallyUpdateInput({ start_date: "2026-05-01" }, current)).toThrow(
+      "end_date must be on or after start_date."
+    );
+    expect(parseRallyUpdateInput({ start_date: "2026-05-01", end_date: null }, current)).toEqual({
+      start_date: "2026-05-01",
+      end_date: null,
+    });
+    expect(() => parseRallyUpdateInput({ title: " " }, current)).toThrow("title is required.");
+    expect(() => parseRallyUpdateInput({ spot_ids: [3, 3] }, current)).toThrow("spot_ids must not contain duplicates.");
+  });
+});
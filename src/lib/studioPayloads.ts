@@ -1,23 +1,35 @@
 import type {
   AdminEventCreateInput,
   AdminEventUpdateInput,
+  AdminRallyCreateInput,
+  AdminRallyUpdateInput,
   AdminSpotCreateInput,
   AdminSpotUpdateInput,
 } from "@/lib/types";
+import { formatRecurrenceRule, parseRecurrenceRule } from "@/lib/eventRecurrence";
+import { IWATE_BOUNDS } from "@/lib/geocoding";
 import {
   parseOptionalDate,
   parseOptionalInteger,
   parseOptionalString,
+  parseRequiredIdList,
   parseRequiredInteger,
   parseRequiredNumber,
   parseRequiredString,
 } from "@/lib/studioApi";
 
+/** 1 つのイベントに登録できる除外日の上限 */
+const EVENT_MAX_EXDATES = 200;
+
+/** 1 つのイベントに紐づけられるスポットの上限 */
+const EVENT_MAX_SPOTS = 20;
+
 /**
  * スポット作成入力を検証する。
  *
  * @param input - 生入力
  * @returns 正規化済み入力
+ * @throws Error 不正値または岩手県外の座標
  * @example
  * parseSpotCreateInput(await request.json());
  */
@@ -27,8 +39,8 @@ export function parseSpotCreateInput(input: Record<string, unknown>): AdminSpotC
     description: parseRequiredString(input.description, "description"),
     city_id: parseRequiredInteger(input.city_id, "city_id"),
     genre_id: parseRequiredInteger(input.genre_id, "genre_id"),
-    lat: parseRequiredNumber(input.lat, "lat"),
-    lng: parseRequiredNumber(input.lng, "lng"),
+    lat: parseSpotLatitude(input.lat),
+    lng: parseSpotLongitude(input.lng),
     image_thumb_path: parseOptionalString(input.image_thumb_path),
     image_path: parseOptionalString(input.image_path),
     model_path: parseOptionalString(input.model_path),
@@ -41,7 +53,7 @@ export function parseSpotCreateInput(input: Record<string, unknown>): AdminSpotC
  *
  * @param input - 生入力
  * @returns 正規化済み入力
- * @throws Error 更新項目なし
+ * @throws Error 更新項目なしまたは岩手県外の座標
  * @example
  * parseSpotUpdateInput(await request.json());
  */
@@ -52,8 +64,8 @@ export function parseSpotUpdateInput(input: Record<string, unknown>): AdminSpotU
   if ("description" in input) payload.description = parseRequiredString(input.description, "description");
   if ("city_id" in input) payload.city_id = parseRequiredInteger(input.city_id, "city_id");
   if ("genre_id" in input) payload.genre_id = parseRequiredInteger(input.genre_id, "genre_id");
-  if ("lat" in input) payload.lat = parseRequiredNumber(input.lat, "lat");
-  if ("lng" in input) payload.lng = parseRequiredNumber(input.lng, "lng");
+  if ("lat" in input) payload.lat = parseSpotLatitude(input.lat);
+  if ("lng" in input) payload.lng = parseSpotLongitude(input.lng);
   if ("image_thumb_path" in input) payload.image_thumb_path = parseOptionalString(input.image_thumb_path);
   if ("image_path" in input) payload.image_path = parseOptionalString(input.image_path);
   if ("model_path" in input) payload.model_path = parseOptionalString(input.model_path);
@@ -77,6 +89,9 @@ export function parseEventCreateInput(input: Record<string, unknown>): AdminEven
   const startDate = parseOptionalDate(input.start_date, "start_date");
   const endDate = parseOptionalDate(input.end_date, "end_date");
   assertEventDateOrder(startDate, endDate);
+  const recurrenceRule = parseEventRecurrenceRule(input.recurrence_rule);
+  const recurrenceExdates = parseEventExdates(input.recurrence_exdates);
+  assertEventRecurrence(startDate, recurrenceRule, recurrenceExdates);
 
   return {
     title: parseRequiredString(input.title, "title"),
@@ -84,6 +99,10 @@ export function parseEventCreateInput(input: Record<string, unknown>): AdminEven
     start_date: startDate,
     end_date: endDate,
     city_id: parseOptionalInteger(input.city_id, "city_id"),
+    ...parseEventCoordinates(input),
+    spot_ids: parseEventSpotIds(input.spot_ids),
+    recurrence_rule: recurrenceRule,
+    recurrence_exdates: recurrenceExdates,
   };
 }
 
@@ -99,7 +118,12 @@ export function parseEventCreateInput(input: Record<string, unknown>): AdminEven
  */
 export function parseEventUpdateInput(
   input: Record<string, unknown>,
-  current: { start_date?: string | null; end_date?: string | null }
+  current: {
+    start_date?: string | null;
+    end_date?: string | null;
+    recurrence_rule?: string | null;
+    recurrence_exdates?: string[] | null;
+  }
 ): AdminEventUpdateInput {
   const payload: AdminEventUpdateInput = {};
 
@@ -108,15 +132,258 @@ export function parseEventUpdateInput(
   if ("city_id" in input) payload.city_id = parseOptionalInteger(input.city_id, "city_id");
   if ("start_date" in input) payload.start_date = parseOptionalDate(input.start_date, "start_date");
   if ("end_date" in input) payload.end_date = parseOptionalDate(input.end_date, "end_date");
+  if ("lat" in input || "lng" in input) Object.assign(payload, parseEventCoordinates(input));
+  if ("spot_ids" in input) payload.spot_ids = parseEventSpotIds(input.spot_ids);
+  if ("recurrence_rule" in input) payload.recurrence_rule = parseEventRecurrenceRule(input.recurrence_rule);
+  if ("recurrence_exdates" in input) payload.recurrence_exdates = parseEventExdates(input.recurrence_exdates);
 
   if (Object.keys(payload).length === 0) {
     throw new Error("At least one field is required for update.");
   }
 
-  assertEventDateOrder(payload.start_date ?? current.start_date ?? null, payload.end_date ?? current.end_date ?? null);
+  const startDate = "start_date" in payload ? (payload.start_date ?? null) : (current.start_date ?? null);
+  assertEventDateOrder(startDate, payload.end_date ?? current.end_date ?? null);
+  assertEventRecurrence(
+    startDate,
+    "recurrence_rule" in payload ? (payload.recurrence_rule ?? null) : (current.recurrence_rule ?? null),
+    payload.recurrence_exdates ?? current.recurrence_exdates ?? []
+  );
   return payload;
 }
 
+/**
+ * ラリー作成入力を検証する。
+ *
+ * @param input - 生入力
+ * @returns 正規化済み入力
+ * @throws Error 不正値または日付不整合
+ * @example
+ * parseRallyCreateInput(await request.json());
+ */
+export function parseRallyCreateInput(input: Record<string, unknown>): AdminRallyCreateInput {
+  const startDate = parseOptionalDate(input.start_date, "start_date");
+  const endDate = parseOptionalDate(input.end_date, "end_date");
+  assertEventDateOrder(startDate, endDate);
+
+  return {
+    title: parseRequiredString(input.title, "title"),
+    description: parseOptionalString(input.description),
+    spot_ids: parseRallySpotIds(input.spot_ids),
+    is_ordered: input.is_ordered === undefined ? false : parseRequiredBoolean(input.is_ordered, "is_ordered"),
+    start_date: startDate,
+    end_date: endDate,
+    badge_label: parseOptionalString(input.badge_label),
+  };
+}
+
+/**
+ * ラリー更新入力を検証する。
+ *
+ * @param input - 生入力
+ * @param current - 既存ラリー値
+ * @returns 正規化済み入力
+ * @throws Error 更新項目なしまたは日付不整合
+ * @example
+ * parseRallyUpdateInput(await request.json(), currentRally);
+ */
+export function parseRallyUpdateInput(
+  input: Record<string, unknown>,
+  current: { start_date?: string | null; end_date?: string | null }
+): AdminRallyUpdateInput {
+  const payload: AdminRallyUpdateInput = {};
+
+  if ("title" in input) payload.title = parseRequiredString(input.title, "title");
+  if ("description" in input) payload.description = parseOptionalString(input.description);
+  if ("spot_ids" in input) payload.spot_ids = parseRallySpotIds(input.spot_ids);
+  if ("is_ordered" in input) payload.is_ordered = parseRequiredBoolean(input.is_ordered, "is_ordered");
+  if ("start_date" in input) payload.start_date = parseOptionalDate(input.start_date, "start_date");
+  if ("end_date" in input) payload.end_date = parseOptionalDate(input.end_date, "end_date");
+  if ("badge_label" in input) payload.badge_label = parseOptionalString(input.badge_label);
+
+  if (Object.keys(payload).length === 0) {
+    throw new Error("At least one field is required for update.");
+  }
+
+  assertEventDateOrder(
+    "start_date" in payload ? (payload.start_date ?? null) : (current.start_date ?? null),
+    "end_date" in payload ? (payload.end_date ?? null) : (current.end_date ?? null)
+  );
+  return payload;
+}
+
+/**
+ * ラリー対象スポット ID 配列を検証する。
+ *
+ * @param value - 入力値
+ * @returns 重複なしのスポット ID 配列（入力順）
+ * @throws Error 空配列・不正値・重複
+ * @example
+ * parseRallySpotIds([2, 1]);
+ */
+function parseRallySpotIds(value: unknown): number[] {
+  return parseRequiredIdList(value, "spot_ids");
+}
+
+/**
+ * イベントの会場スポット ID 配列を検証する（未指定は空配列）。
+ *
+ * @param value - 入力値
+ * @returns 重複なしのスポット ID 配列（入力順。先頭が主会場）
+ * @throws Error 不正値・重複・件数超過
+ * @example
+ * parseEventSpotIds([1, 4]);
+ */
+function parseEventSpotIds(value: unknown): number[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value) && value.length === 0) return [];
+  const spotIds = parseRallySpotIds(value);
+  if (spotIds.length > EVENT_MAX_SPOTS) {
+    throw new Error(`spot_ids must contain at most ${EVENT_MAX_SPOTS} spots.`);
+  }
+  return spotIds;
+}
+
+/**
+ * 真偽値を検証して返す。
+ *
+ * @param value - 入力値
+ * @param fieldName - フィールド名
+ * @returns 真偽値
+ * @throws Error 不正値
+ * @example
+ * parseRequiredBoolean(true, "is_ordered");
+ */
+function parseRequiredBoolean(value: unknown, fieldName: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new Error(`${fieldName} must be a boolean.`);
+  }
+  return value;
+}
+
+/**
+ * スポットの緯度を検証する（岩手県の範囲外は受け付けない）。
+ *
+ * @param value - 入力値
+ * @returns 緯度
+ * @throws Error 不正値または範囲外
+ * @example
+ * parseSpotLatitude("39.7021"); // => 39.7021
+ */
+function parseSpotLatitude(value: unknown): number {
+  const lat = parseRequiredNumber(value, "lat");
+  if (lat < IWATE_BOUNDS.south || lat > IWATE_BOUNDS.north) {
+    throw new Error(`lat must be within Iwate (${IWATE_BOUNDS.south} to ${IWATE_BOUNDS.north}).`);
+  }
+  return lat;
+}
+
+/**
+ * スポットの経度を検証する（岩手県の範囲外は受け付けない）。
+ *
+ * @param value - 入力値
+ * @returns 経度
+ * @throws Error 不正値または範囲外
+ * @example
+ * parseSpotLongitude("141.1527"); // => 141.1527
+ */
+function parseSpotLongitude(value: unknown): number {
+  const lng = parseRequiredNumber(value, "lng");
+  if (lng < IWATE_BOUNDS.west || lng > IWATE_BOUNDS.east) {
+    throw new Error(`lng must be within Iwate (${IWATE_BOUNDS.west} to ${IWATE_BOUNDS.east}).`);
+  }
+  return lng;
+}
+
+/**
+ * イベント会場の座標を検証する（緯度・経度はどちらも指定するか、どちらも空にする）。
+ *
+ * @param input - 生入力
+ * @returns 緯度・経度（未指定なら null）
+ * @throws Error 片方だけの指定または範囲外
+ * @example
+ * parseEventCoordinates({ lat: "39.70", lng: "141.15" }); // => { lat: 39.7, lng: 141.15 }
+ */
+function parseEventCoordinates(input: Record<string, unknown>): { lat: number | null; lng: number | null } {
+  const isBlank = (value: unknown) => value === null || value === undefined || value === "";
+  if (isBlank(input.lat) && isBlank(input.lng)) return { lat: null, lng: null };
+  if (isBlank(input.lat) || isBlank(input.lng)) {
+    throw new Error("lat and lng must be provided together.");
+  }
+  const lat = parseRequiredNumber(input.lat, "lat");
+  const lng = parseRequiredNumber(input.lng, "lng");
+  if (lat < -90 || lat > 90) throw new Error("lat must be between -90 and 90.");
+  if (lng < -180 || lng > 180) throw new Error("lng must be between -180 and 180.");
+  return { lat, lng };
+}
+
+/**
+ * イベントの繰り返しルールを検証し、正規化した RRULE 文字列にする。
+ *
+ * @param value - 生入力（空なら単発）
+ * @returns 正規化した RRULE（単発なら null）
+ * @throws Error 未対応・不正なルール
+ * @example
+ * parseEventRecurrenceRule("rrule:freq=weekly;byday=sa"); // => "FREQ=WEEKLY;BYDAY=SA"
+ */
+function parseEventRecurrenceRule(value: unknown): string | null {
+  const normalized = parseOptionalString(value);
+  if (!normalized) return null;
+  try {
+    return formatRecurrenceRule(parseRecurrenceRule(normalized));
+  } catch (error) {
+    throw new Error(`recurrence_rule: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 繰り返しの除外日を検証する（配列またはカンマ区切り文字列）。
+ *
+ * @param value - 生入力
+ * @returns 重複を除いた昇順の日付
+ * @throws Error 日付の形式が不正
+ * @example
+ * parseEventExdates(["2026-08-08", "2026-08-01"]); // => ["2026-08-01", "2026-08-08"]
+ */
+function parseEventExdates(value: unknown): string[] {
+  if (value === null || value === undefined || value === "") return [];
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items)) {
+    throw new Error("recurrence_exdates must be an array of dates.");
+  }
+  if (items.length > EVENT_MAX_EXDATES) {
+    throw new Error(`recurrence_exdates can have up to ${EVENT_MAX_EXDATES} dates.`);
+  }
+  const dates = items
+    .map((item) => parseOptionalDate(item, "recurrence_exdates"))
+    .filter((item): item is string => item !== null);
+  return [...new Set(dates)].sort();
+}
+
+/**
+ * 繰り返しルールと開始日・除外日の組み合わせを検証する。
+ *
+ * @param startDate - 初回の開始日
+ * @param recurrenceRule - 正規化済み RRULE
+ * @param exdates - 除外日
+ * @returns void
+ * @throws Error 開始日なしの繰り返し・開始日より前の UNTIL・ルールなしの除外日
+ * @example
+ * assertEventRecurrence("2026-08-01", "FREQ=YEARLY", []);
+ */
+function assertEventRecurrence(startDate: string | null, recurrenceRule: string | null, exdates: string[]): void {
+  if (!recurrenceRule) {
+    if (exdates.length > 0) throw new Error("recurrence_exdates requires recurrence_rule.");
+    return;
+  }
+  if (!startDate) {
+    throw new Error("recurrence_rule requires start_date.");
+  }
+  const { until } = parseRecurrenceRule(recurrenceRule);
+  if (until && until < startDate) {
+    throw new Error("recurrence_rule UNTIL must be on or after start_date.");
+  }
+}
+
 /**
  * イベント日付の前後関係を検証する。
  *
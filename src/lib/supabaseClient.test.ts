@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = Record<string, unknown>;
+
+/** PostgREST が 1 リクエストで返す行数の上限（`db-max-rows`） */
+const MAX_ROWS_PER_REQUEST = 1000;
+
+const { tables, requestedRanges } = vi.hoisted(() => {
+  // モジュール読み込み時に Supabase クライアントを作らせるため、import より前に環境変数を入れる
+  process.env.NEXT_PUBLIC_SUPABASE_URL = "https://example.supabase.co";
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = "anon-key";
+  return {
+    tables: new Map<string, Record<string, unknown>[]>(),
+    requestedRanges: [] as Array<[string, number, number]>,
+  };
+});
+
+/**
+ * PostgREST の `or(...)` 条件 1 つを行に当てはめる（テストで使う演算子だけを解釈する）。
+ *
+ * @param row - 行
+ * @param condition - `列.演算子.値` 形式の条件
+ * @returns 条件を満たせば true
+ * @example
+ * matchesCondition(row, "end_date.gte.2026-10-01");
+ */
+function matchesCondition(row: Row, condition: string): boolean {
+  const [column, operator, ...rest] = condition.split(".");
+  const value = rest.join(".");
+  const cell = row[column] as string | number | null | undefined;
+  if (operator === "gte") return cell !== null && cell !== undefined && cell >= value;
+  if (operator === "lte") return cell !== null && cell !== undefined && cell <= value;
+  if (operator === "is") return value === "null" ? cell === null || cell === undefined : false;
+  if (operator === "not" && value === "is.null") return cell !== null && cell !== undefined;
+  throw new Error(`unsupported condition: ${condition}`);
+}
+
+/**
+ * テーブルの行に対する最小限のクエリビルダーを作る。
+ *
+ * 実際の PostgREST と同じく、1 リクエストで返す行は `MAX_ROWS_PER_REQUEST` 件までにする。
+ *
+ * @param table - テーブル名
+ * @returns select / filter / order / range / limit に対応したビルダー
+ * @example
+ * await createQuery("spots").select("*").order("id").range(0, 999);
+ */
+function createQuery(table: string) {
+  const filters: Array<(row: Row) => boolean> = [];
+  const orders: Array<{ column: string; ascending: boolean }> = [];
+  let start = 0;
+  let end = Number.POSITIVE_INFINITY;
+
+  const builder = {
+    select: () => builder,
+    eq: (column: string, value: unknown) => {
+      filters.push((row) => row[column] === value);
+      return builder;
+    },
+    gte: (column: string, value: string | number) => {
+      filters.push((row) => (row[column] as string | number) >= value);
+      return builder;
+    },
+    lte: (column: string, value: string | number) => {
+      filters.push((row) => (row[column] as string | number) <= value);
+      return builder;
+    },
+    or: (conditions: string) => {
+      filters.push((row) => conditions.split(",").some((condition) => matchesCondition(row, condition)));
+      return builder;
+    },
+    order: (column: string, options?: { ascending?: boolean }) => {
+      orders.push({ column, ascending: options?.ascending ?? true });
+      return builder;
+    },
+    range: (from: number, to: number) => {
+      requestedRanges.push([table, from, to]);
+      start = from;
+      end = to + 1;
+      return builder;
+    },
+    limit: (count: number) => {
+      end = Math.min(end, start + count);
+      return builder;
+    },
+    then: <T>(resolve: (value: { data: Row[]; error: null; count: number }) => T) => {
+      const rows = (tables.get(table) ?? []).filter((row) => filters.every((filter) => filter(row)));
+      rows.sort((left, right) => {
+        for (const { column, ascending } of orders) {
+          const a = left[column] as string | number;
+          const b = right[column] as string | number;
+          if (a !== b) return (a < b ? -1 : 1) * (ascending ? 1 : -1);
+        }
+        return 0;
+      });
+      const data = rows.slice(start, Math.min(end, start + MAX_ROWS_PER_REQUEST));
+      return Promise.resolve(resolve({ data, error: null, count: rows.length }));
+    },
+  };
+  return builder;
+}
+
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: () => ({ from: (table: string) => createQuery(table) }),
+}));
+
+import { fetchSpotsForExport, fetchSpotsInBounds, searchEvents, searchSpots } from "@/lib/supabaseClient";
+
+/**
+ * テスト用スポットを生成する。
+ *
+ * @param id - スポット ID
+ * @param name - 名称
+ * @returns スポット行
+ * @example
+ * buildSpot(1, "盛岡城跡公園");
+ */
+function buildSpot(id: number, name: string): Row {
+  return { id, name, description: "", city_id: 1, genre_id: 1, lat: 39.7, lng: 141.15 };
+}
+
+describe("supabaseClient search", () => {
+  beforeEach(() => {
+    tables.clear();
+    requestedRanges.length = 0;
+    tables.set("cities", [{ id: 1, name: "盛岡市", name_kana: "もりおかし" }]);
+    tables.set("genres", [{ id: 1, name: "自然" }]);
+  });
+
+  it("finds keyword matches beyond the first candidate chunk and counts them all", async () => {
+    const spots = Array.from({ length: 1500 }, (_, index) => buildSpot(index + 1, `スポット${index + 1}`));
+    spots[1199] = buildSpot(1200, "龍泉洞");
+    spots[1449] = buildSpot(1450, "龍泉洞 地底湖");
+    tables.set("spots", spots);
+
+    const result = await searchSpots({ keyword: "龍泉洞" });
+
+    expect(result.items.map((spot) => spot.id)).toEqual([1200, 1450]);
+    expect(result.total).toBe(2);
+    expect(requestedRanges.filter(([table]) => table === "spots")).toEqual([
+      ["spots", 0, 999],
+      ["spots", 1000, 1999],
+    ]);
+  });
+});
+
+describe("supabaseClient facets", () => {
+  beforeEach(() => {
+    tables.clear();
+    requestedRanges.length = 0;
+    tables.set("cities", [{ id: 1, name: "盛岡市", name_kana: "もりおかし" }]);
+    tables.set("genres", [{ id: 1, name: "自然" }]);
+  });
+
+  it("counts spot and event facets over every row, not just the first response", async () => {
+    const spotRows = Array.from({ length: 2500 }, (_, index) => buildSpot(index + 1, `スポット${index + 1}`));
+    tables.set("spots", spotRows.map((spot, index) => ({ ...spot, city_id: index < 1800 ? 1 : 2 })));
+    tables.set(
+      "events",
+      Array.from({ length: 1200 }, (_, index) => ({
+        id: index + 1,
+        title: `イベント${index + 1}`,
+        city_id: 1,
+        start_date: "2026-10-01",
+        end_date: null,
+        recurrence_rule: null,
+      }))
+    );
+
+    const spots = await searchSpots({ pageSize: 10 });
+    const events = await searchEvents({ pageSize: 10 });
+
+    expect(spots.total).toBe(2500);
+    expect(spots.facets.cities).toEqual([
+      { id: 1, count: 1800 },
+      { id: 2, count: 700 },
+    ]);
+    expect(spots.facets.genres).toEqual([{ id: 1, count: 2500 }]);
+    expect(events.facets.cities).toEqual([{ id: 1, count: 1200 }]);
+  });
+});
+
+describe("supabaseClient viewport", () => {
+  beforeEach(() => {
+    tables.clear();
+    requestedRanges.length = 0;
+  });
+
+  it("reads past the per-request row cap and flags spots beyond the limit", async () => {
+    tables.set("spots", Array.from({ length: 1500 }, (_, index) => buildSpot(index + 1, `スポット${index + 1}`)));
+    const bounds = { south: 39.6, west: 141.0, north: 39.8, east: 141.3 };
+
+    const capped = await fetchSpotsInBounds(bounds, 1200);
+    expect(capped.items).toHaveLength(1200);
+    expect(capped.truncated).toBe(true);
+
+    const full = await fetchSpotsInBounds(bounds, 2000);
+    expect(full.items).toHaveLength(1500);
+    expect(full.truncated).toBe(false);
+  });
+});
+
+describe("supabaseClient export", () => {
+  beforeEach(() => {
+    tables.clear();
+    requestedRanges.length = 0;
+    tables.set("cities", [{ id: 1, name: "盛岡市", name_kana: "もりおかし" }]);
+    tables.set("genres", [{ id: 1, name: "自然" }]);
+  });
+
+  it("exports keyword matches past the search candidate limit and flags the cap", async () => {
+    tables.set("spots", Array.from({ length: 2100 }, (_, index) => buildSpot(index + 1, `龍泉洞 ${index + 1}`)));
+
+    const result = await fetchSpotsForExport({ keyword: "龍泉洞", sort: "newest" }, 2000);
+
+    expect(result.items).toHaveLength(2000);
+    expect(result.items[0].id).toBe(2100);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("reads rows in chunks up to the cap without a facet query", async () => {
+    tables.set("spots", Array.from({ length: 2500 }, (_, index) => buildSpot(index + 1, `スポット${index + 1}`)));
+
+    const capped = await fetchSpotsForExport({ cityId: 1 }, 2000);
+
+    expect(capped.items.map((spot) => spot.id).slice(-1)).toEqual([2000]);
+    expect(capped.truncated).toBe(true);
+    expect(requestedRanges).toEqual([
+      ["spots", 0, 999],
+      ["spots", 1000, 1999],
+      ["spots", 2000, 2000],
+    ]);
+
+    tables.set("spots", (tables.get("spots") ?? []).slice(0, 2000));
+    expect((await fetchSpotsForExport({ cityId: 1 }, 2000)).truncated).toBe(false);
+  });
+});
+
+describe("supabaseClient event search", () => {
+  beforeEach(() => {
+    tables.clear();
+    requestedRanges.length = 0;
+    tables.set("cities", [{ id: 1, name: "盛岡市", name_kana: "もりおかし" }]);
+  });
+
+  it("skips one-off events that ended before the range and keeps long-running series", async () => {
+    const finished = Array.from({ length: 1200 }, (_, index) => ({
+      id: index + 1,
+      title: `終了したイベント${index + 1}`,
+      city_id: 1,
+      start_date: "2020-05-01",
+      end_date: "2020-05-02",
+      recurrence_rule: null,
+    }));
+    tables.set("events", [
+      ...finished,
+      { id: 2001, title: "朝市", city_id: 1, start_date: "2021-04-01", end_date: null, recurrence_rule: "FREQ=DAILY" },
+      { id: 2002, title: "秋まつり", city_id: 1, start_date: "2026-09-30", end_date: "2026-10-02", recurrence_rule: null },
+      { id: 2003, title: "冬のあかり", city_id: 1, start_date: "2026-10-03", end_date: null, recurrence_rule: null },
+    ]);
+
+    const result = await searchEvents({ from: "2026-10-01", to: "2026-10-02", sort: "date" });
+
+    expect(result.items.map((event) => [event.id, event.start_date])).toEqual([
+      [2002, "2026-09-30"],
+      [2001, "2026-10-01"],
+      [2001, "2026-10-02"],
+    ]);
+    expect(requestedRanges.filter(([table]) => table === "events")).toEqual([["events", 0, 999]]);
+  });
+});
@@ -1,5 +1,9 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
-import { mockCities, mockGenres, mockSpots, mockEvents } from "./mockData";
+import { boundsAroundPoint, haversineDistance, isWithinBounds, type BoundingBox } from "./geo";
+import { expandEventOccurrences, resolveNextOccurrence } from "./eventRecurrence";
+import { buildSearchFingerprint, decodeSearchCursor, encodeSearchCursor } from "./searchCursor";
+import { rankEventsBySearch, rankSpotsBySearch } from "./textSearch";
+import { mockCities, mockGenres, mockSpots, mockEvents, mockRallies } from "./mockData";
 import {
   AdminDashboardEventSummary,
   AdminDashboardSpotSummary,
@@ -9,9 +13,13 @@ import {
   AdminUserSummary,
   City,
   Event,
+  Favorite,
   Genre,
+  Rally,
   Spot,
   Stamp,
+  TripPlan,
+  TripPlanInput,
   User,
   UserRole,
 } from "./types";
@@ -124,24 +132,98 @@ export type PagedResult<T> = {
   hasNext: boolean;
 };
 
+/** 距離順検索の基準点（`radius` はメートル。未指定なら距離で絞り込まない） */
+export type SearchOrigin = {
+  lat: number;
+  lng: number;
+  radius?: number | null;
+};
+
+/**
+ * 検索結果の並び順。
+ *
+ * - relevance: キーワード一致度順（キーワードなしは既定順: スポットは ID、イベントは開催日）
+ * - distance: 基準点から近い順（スポットのみ）
+ * - name: 名前順
+ * - newest: 登録の新しい順
+ * - date: 開催日順（イベントのみ）
+ */
+export type SearchSort = "relevance" | "distance" | "name" | "newest" | "date";
+
+export const SPOT_SEARCH_SORTS = ["relevance", "distance", "name", "newest"] as const satisfies readonly SearchSort[];
+export const EVENT_SEARCH_SORTS = ["relevance", "date", "name", "newest"] as const satisfies readonly SearchSort[];
+
+/** 絞り込み候補ごとの件数 */
+export type FacetCount = {
+  id: number;
+  count: number;
+};
+
+/**
+ * 現在の条件での市区町村・ジャンル別件数。
+ *
+ * 各ファセットは自分自身の絞り込みを除いた条件で数える（市区町村を選んでも他の市区町村の件数が見える）。
+ */
+export type SearchFacets = {
+  cities: FacetCount[];
+  genres: FacetCount[];
+};
+
+/**
+ * 並び順とファセット件数付きの検索結果。
+ *
+ * `nextCursor` を次のリクエストの `cursor` に渡すと続きを取得できる（最後まで取得済みなら null）。
+ */
+export type SearchResult<T> = PagedResult<T> & {
+  sort: SearchSort;
+  facets: SearchFacets;
+  nextCursor: string | null;
+};
+
 export type SpotSearchParams = {
   keyword?: string | null;
   cityId?: number | null;
   genreId?: number | null;
+  near?: SearchOrigin | null;
+  bbox?: BoundingBox | null;
+  sort?: SearchSort | null;
   page?: number;
   pageSize?: number;
+  /** 前回結果の `nextCursor`（指定時は `page` より優先） */
+  cursor?: string | null;
 };
 
+/** スポット検索結果（基準点指定時は `distance` に距離（m）が入る） */
+export type SpotSearchItem = Spot & { distance?: number };
+
 export type EventSearchParams = {
   keyword?: string | null;
   cityId?: number | null;
+  /** 表示範囲の開始日（`YYYY-MM-DD`。`to` と組で指定すると繰り返しイベントを範囲内の回に展開する） */
+  from?: string | null;
+  /** 表示範囲の終了日（`YYYY-MM-DD`） */
+  to?: string | null;
+  sort?: SearchSort | null;
   page?: number;
   pageSize?: number;
+  /** 前回結果の `nextCursor`（指定時は `page` より優先） */
+  cursor?: string | null;
+};
+
+/** 今回返す範囲（先頭位置・件数）とカーソル用の条件指紋 */
+type SearchWindow = {
+  from: number;
+  pageSize: number;
+  fingerprint: string;
 };
 
 const SEARCH_DEFAULT_PAGE_SIZE = 50;
 const SEARCH_MAX_PAGE_SIZE = 100;
 const SEARCH_MAX_KEYWORD_LENGTH = 100;
+/** `fetchRowsInChunks` が 1 リクエストで読む件数（PostgREST の行数上限に合わせる） */
+const SPOT_FETCH_CHUNK_SIZE = 1000;
+/** 表示範囲読み込みの既定上限 */
+export const SPOTS_IN_BOUNDS_LIMIT = 1000;
 
 /**
  * 検索キーワードを正規化する。
@@ -158,18 +240,6 @@ function normalizeKeyword(value: string | null | undefined): string {
   return value.trim().slice(0, SEARCH_MAX_KEYWORD_LENGTH).replace(/[(),]/g, " ").trim();
 }
 
-/**
- * ILIKE 検索向けにワイルドカードをエスケープする。
- *
- * @param value - キーワード
- * @returns `%` と `_` をエスケープ済みの文字列
- * @example
- * const escaped = escapeForIlike("100%_test");
- */
-function escapeForIlike(value: string): string {
-  return value.replace(/[%_\\]/g, "\\$&");
-}
-
 /**
  * ページ番号を安全な範囲に正規化する。
  *
@@ -218,71 +288,331 @@ function buildPagedResult<T>(items: T[], total: number, page: number, pageSize:
   };
 }
 
+/**
+ * ページ番号またはカーソルから今回返す範囲を決める。
+ *
+ * @param params - ページ番号・カーソル・ページサイズ
+ * @param query - 結果の並びに影響する検索条件（カーソルの指紋に使う）
+ * @returns 返す範囲
+ * @throws SearchCursorError カーソルが不正、または別条件で発行された場合
+ * @example
+ * const window = resolveSearchWindow({ cursor }, { tab: "spot", keyword: "温泉" });
+ */
+function resolveSearchWindow(
+  params: { page?: number; pageSize?: number; cursor?: string | null },
+  query: Record<string, unknown>
+): SearchWindow {
+  const pageSize = normalizePageSize(params.pageSize);
+  const fingerprint = buildSearchFingerprint(query);
+  const from = params.cursor
+    ? decodeSearchCursor(params.cursor, fingerprint)
+    : (normalizePage(params.page) - 1) * pageSize;
+  return { from, pageSize, fingerprint };
+}
+
+/**
+ * 取得済みの 1 ページ分から検索結果を組み立てる（次ページがあればカーソルを発行する）。
+ *
+ * @param items - 今回返すアイテム
+ * @param total - 総件数
+ * @param window - 今回返した範囲
+ * @param sort - 適用した並び順
+ * @param facets - ファセット件数
+ * @returns 検索結果
+ * @example
+ * const result = buildSearchResult(items, 120, window, "name", facets);
+ */
+function buildSearchResult<T>(
+  items: T[],
+  total: number,
+  window: SearchWindow,
+  sort: SearchSort,
+  facets: SearchFacets
+): SearchResult<T> {
+  const page = Math.floor(window.from / window.pageSize) + 1;
+  const nextFrom = window.from + items.length;
+  const hasNext = items.length > 0 && nextFrom < total;
+  return {
+    ...buildPagedResult(items, total, page, window.pageSize),
+    hasNext,
+    sort,
+    facets,
+    nextCursor: hasNext ? encodeSearchCursor(nextFrom, window.fingerprint) : null,
+  };
+}
+
+/**
+ * 検索候補に範囲・キーワード・基準点の条件を適用する。
+ *
+ * キーワード指定時は関連度順に並べ、基準点がある場合は各項目に距離を付与して `radius` 以内に絞り込む。
+ *
+ * @param spots - 検索候補
+ * @param params - 検索条件
+ * @param keyword - 正規化済みキーワード
+ * @param context - 市区町村・ジャンル（キーワード一致用）
+ * @returns 条件に合うスポット（関連度順、キーワードなしは入力順）
+ * @example
+ * const items = refineSpotCandidates(spots, { near: { lat: 39.7, lng: 141.1 } }, "", { cities, genres });
+ */
+function refineSpotCandidates(
+  spots: Spot[],
+  params: SpotSearchParams,
+  keyword: string,
+  context: { cities: City[]; genres: Genre[] }
+): SpotSearchItem[] {
+  const bbox = params.bbox;
+  let local = bbox ? spots.filter((spot) => isWithinBounds(spot, bbox)) : spots;
+  if (keyword) local = rankSpotsBySearch(local, keyword, context);
+  if (!params.near) return local;
+  const { lat, lng, radius } = params.near;
+  const withDistance = local.map((spot) => ({
+    ...spot,
+    distance: haversineDistance(lat, lng, spot.lat, spot.lng),
+  }));
+  return radius ? withDistance.filter((spot) => spot.distance <= radius) : withDistance;
+}
+
+/**
+ * 指定キーの値ごとに件数を数える（件数の多い順、同数は ID 昇順）。
+ *
+ * @param items - 対象
+ * @param readId - 集計キー
+ * @returns ファセット件数
+ * @example
+ * countFacet(spots, (spot) => spot.city_id);
+ */
+function countFacet<T>(items: T[], readId: (item: T) => number | null | undefined): FacetCount[] {
+  const counts = new Map<number, number>();
+  items.forEach((item) => {
+    const id = readId(item);
+    if (typeof id === "number") counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  return Array.from(counts, ([id, count]) => ({ id, count })).sort(
+    (left, right) => right.count - left.count || left.id - right.id
+  );
+}
+
+/**
+ * スポットの市区町村・ジャンル別件数を数える。
+ *
+ * @param spots - 市区町村・ジャンル以外の条件を適用済みのスポット
+ * @param params - 検索条件
+ * @returns ファセット件数
+ * @example
+ * const facets = buildSpotFacets(spots, { cityId: 1 });
+ */
+function buildSpotFacets(spots: Array<Pick<Spot, "city_id" | "genre_id">>, params: SpotSearchParams): SearchFacets {
+  return {
+    cities: countFacet(
+      params.genreId ? spots.filter((spot) => spot.genre_id === params.genreId) : spots,
+      (spot) => spot.city_id
+    ),
+    genres: countFacet(
+      params.cityId ? spots.filter((spot) => spot.city_id === params.cityId) : spots,
+      (spot) => spot.genre_id
+    ),
+  };
+}
+
+/**
+ * 指定がなければ条件から既定の並び順を決める（基準点ありは距離順）。
+ *
+ * @param sort - 指定された並び順
+ * @param hasOrigin - 基準点があるか
+ * @returns 適用する並び順
+ * @example
+ * resolveSpotSort(null, true); // "distance"
+ */
+function resolveSpotSort(sort: SearchSort | null | undefined, hasOrigin: boolean): SearchSort {
+  if (sort === "distance" && !hasOrigin) return "relevance";
+  return sort ?? (hasOrigin ? "distance" : "relevance");
+}
+
+/**
+ * 名前の比較関数（日本語の読み順に近い並び）。
+ *
+ * @param left - 左辺
+ * @param right - 右辺
+ * @returns 比較結果
+ * @example
+ * names.sort(compareNames);
+ */
+function compareNames(left: string, right: string): number {
+  return left.localeCompare(right, "ja");
+}
+
+/**
+ * スポットを並び順に従って並べ替える。`relevance` は入力順（関連度順）を保つ。
+ *
+ * @param spots - 対象
+ * @param sort - 並び順
+ * @returns 並べ替えたスポット
+ * @example
+ * sortSpotResults(spots, "name");
+ */
+function sortSpotResults(spots: SpotSearchItem[], sort: SearchSort): SpotSearchItem[] {
+  if (sort === "distance") return [...spots].sort((left, right) => (left.distance ?? 0) - (right.distance ?? 0));
+  if (sort === "name") return [...spots].sort((left, right) => compareNames(left.name, right.name) || left.id - right.id);
+  if (sort === "newest") return [...spots].sort((left, right) => right.id - left.id);
+  return spots;
+}
+
+/**
+ * 市区町村・ジャンルの条件でスポットを絞り込む。
+ *
+ * @param spots - 対象
+ * @param params - 検索条件
+ * @returns 条件に合うスポット（入力順）
+ * @example
+ * filterSpotsByCityAndGenre(spots, { cityId: 1 });
+ */
+function filterSpotsByCityAndGenre(spots: SpotSearchItem[], params: SpotSearchParams): SpotSearchItem[] {
+  return spots.filter(
+    (spot) => (!params.cityId || spot.city_id === params.cityId) && (!params.genreId || spot.genre_id === params.genreId)
+  );
+}
+
+/**
+ * 候補からファセット・絞り込み・並べ替え・ページングまでを行う。
+ *
+ * @param candidates - 市区町村・ジャンルで絞り込む前の候補（ID 昇順）
+ * @param params - 検索条件
+ * @param keyword - 正規化済みキーワード
+ * @param context - 市区町村・ジャンル
+ * @param window - 返す範囲
+ * @returns 検索結果
+ * @example
+ * const result = buildSpotSearchResult(mockSpots, {}, "", { cities, genres }, window);
+ */
+function buildSpotSearchResult(
+  candidates: Spot[],
+  params: SpotSearchParams,
+  keyword: string,
+  context: { cities: City[]; genres: Genre[] },
+  window: SearchWindow
+): SearchResult<SpotSearchItem> {
+  const refined = refineSpotCandidates(candidates, params, keyword, context);
+  const facets = buildSpotFacets(refined, params);
+  const filtered = filterSpotsByCityAndGenre(refined, params);
+  const sort = resolveSpotSort(params.sort, Boolean(params.near));
+  const sorted = sortSpotResults(filtered, sort);
+  return buildSearchResult(sorted.slice(window.from, window.from + window.pageSize), sorted.length, window, sort, facets);
+}
+
 /**
  * モックデータでスポット検索結果を作る。
  *
  * @param params - 検索条件
- * @param page - ページ番号
- * @param pageSize - ページサイズ
+ * @param window - 返す範囲
  * @param keyword - 正規化済みキーワード
  * @returns ページング付きスポット配列
  * @example
- * const result = buildSpotMockSearchResult({}, 1, 50, "");
+ * const result = buildSpotMockSearchResult({}, window, "");
  */
 function buildSpotMockSearchResult(
   params: SpotSearchParams,
-  page: number,
-  pageSize: number,
+  window: SearchWindow,
   keyword: string
-): PagedResult<Spot> {
-  const from = (page - 1) * pageSize;
-  const to = from + pageSize - 1;
-  let local = [...mockSpots];
-  if (params.cityId) local = local.filter((spot) => spot.city_id === params.cityId);
-  if (params.genreId) local = local.filter((spot) => spot.genre_id === params.genreId);
-  if (keyword) {
-    const lower = keyword.toLowerCase();
-    local = local.filter(
-      (spot) => spot.name.toLowerCase().includes(lower) || spot.description.toLowerCase().includes(lower)
+): SearchResult<SpotSearchItem> {
+  return buildSpotSearchResult(mockSpots, params, keyword, { cities: mockCities, genres: mockGenres }, window);
+}
+
+/**
+ * イベントを並び順に従って並べ替える。`relevance` は入力順（関連度順または開催日順）を保つ。
+ *
+ * @param events - 対象
+ * @param sort - 並び順
+ * @returns 並べ替えたイベント
+ * @example
+ * sortEventResults(events, "newest");
+ */
+function sortEventResults(events: Event[], sort: SearchSort): Event[] {
+  if (sort === "date") {
+    return [...events].sort(
+      (left, right) => (left.start_date ?? "").localeCompare(right.start_date ?? "") || left.id - right.id
     );
   }
-  const total = local.length;
-  const items = local.slice(from, to + 1);
-  return buildPagedResult(items, total, page, pageSize);
+  if (sort === "name") return [...events].sort((left, right) => compareNames(left.title, right.title) || left.id - right.id);
+  if (sort === "newest") return [...events].sort((left, right) => right.id - left.id);
+  return events;
+}
+
+/**
+ * 日付をローカル時刻の `YYYY-MM-DD` キーにする。
+ *
+ * @param date - 日付
+ * @returns 日付キー
+ * @example
+ * toDateKey(new Date(2026, 2, 12)); // => "2026-03-12"
+ */
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 繰り返しイベントを検索結果に出す回へ置き換える。
+ *
+ * 表示範囲があれば範囲内の各回に展開し（範囲外のイベントは除く）、なければ直近の回にする。
+ *
+ * @param events - イベント
+ * @param params - 検索条件（`from` / `to`）
+ * @param today - 基準日（`YYYY-MM-DD`）
+ * @returns 入力順を保った回の配列
+ * @example
+ * const occurrences = resolveEventOccurrences(events, { from: "2026-08-01", to: "2026-08-31" }, "2026-07-01");
+ */
+function resolveEventOccurrences(events: Event[], params: EventSearchParams, today: string): Event[] {
+  if (params.from && params.to) {
+    const range = { from: params.from, to: params.to };
+    return events.flatMap((event) => expandEventOccurrences([event], range));
+  }
+  return events.map((event) => resolveNextOccurrence(event, today));
+}
+
+/**
+ * 候補からファセット・絞り込み・並べ替え・ページングまでを行う。
+ *
+ * @param candidates - 市区町村で絞り込む前の候補（開催日順。繰り返しイベントは展開前の系列）
+ * @param params - 検索条件
+ * @param keyword - 正規化済みキーワード
+ * @param cities - 市区町村（キーワード一致用）
+ * @param window - 返す範囲
+ * @returns 検索結果
+ * @example
+ * const result = buildEventSearchResult(mockEvents, {}, "", cities, window);
+ */
+function buildEventSearchResult(
+  candidates: Event[],
+  params: EventSearchParams,
+  keyword: string,
+  cities: City[],
+  window: SearchWindow
+): SearchResult<Event> {
+  const ranked = keyword ? rankEventsBySearch(candidates, keyword, { cities }) : candidates;
+  const matched = resolveEventOccurrences(ranked, params, toDateKey(new Date()));
+  const facets: SearchFacets = { cities: countFacet(matched, (event) => event.city_id), genres: [] };
+  const filtered = params.cityId ? matched.filter((event) => event.city_id === params.cityId) : matched;
+  const sort = params.sort ?? "relevance";
+  // キーワードがなければ関連度の差はないため、展開した回を開催日順に並べる
+  const sorted = sortEventResults(filtered, !keyword && sort === "relevance" ? "date" : sort);
+  return buildSearchResult(sorted.slice(window.from, window.from + window.pageSize), sorted.length, window, sort, facets);
 }
 
 /**
  * モックデータでイベント検索結果を作る。
  *
  * @param params - 検索条件
- * @param page - ページ番号
- * @param pageSize - ページサイズ
+ * @param window - 返す範囲
  * @param keyword - 正規化済みキーワード
  * @returns ページング付きイベント配列
  * @example
- * const result = buildEventMockSearchResult({}, 1, 50, "");
+ * const result = buildEventMockSearchResult({}, window, "");
  */
-function buildEventMockSearchResult(
-  params: EventSearchParams,
-  page: number,
-  pageSize: number,
-  keyword: string
-): PagedResult<Event> {
-  const from = (page - 1) * pageSize;
-  const to = from + pageSize - 1;
-  let local = [...mockEvents];
-  if (params.cityId) local = local.filter((event) => event.city_id === params.cityId);
-  if (keyword) {
-    const lower = keyword.toLowerCase();
-    local = local.filter(
-      (event) =>
-        event.title.toLowerCase().includes(lower) ||
-        (event.location ?? "").toLowerCase().includes(lower)
-    );
-  }
-  const total = local.length;
-  const items = local.slice(from, to + 1);
-  return buildPagedResult(items, total, page, pageSize);
+function buildEventMockSearchResult(params: EventSearchParams, window: SearchWindow, keyword: string): SearchResult<Event> {
+  const ordered = sortEventResults(mockEvents, "date");
+  return buildEventSearchResult(ordered, params, keyword, mockCities, window);
 }
 
 export async function fetchCities(): Promise<City[]> {
@@ -305,18 +635,94 @@ export async function fetchGenres(): Promise<Genre[]> {
   return data as Genre[];
 }
 
+/**
+ * PostgREST の行数上限で欠けないよう、`SPOT_FETCH_CHUNK_SIZE` 件ずつ続けて読み込む。
+ *
+ * @param fetchChunk - `from`〜`to`（両端を含む）の行を返すクエリ
+ * @param maxRows - 読み込む行数の上限（超える分があれば `truncated` を立てる）
+ * @returns 読み込んだ行と、上限で打ち切ったかどうか（失敗時は `error`）
+ * @example
+ * const { rows } = await fetchRowsInChunks<Spot>((from, to) =>
+ *   db.from("spots").select("*").order("id").range(from, to)
+ * );
+ */
+async function fetchRowsInChunks<T>(
+  fetchChunk: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>,
+  maxRows: number = Number.POSITIVE_INFINITY
+): Promise<{ rows: T[]; truncated: boolean; error: unknown }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SPOT_FETCH_CHUNK_SIZE) {
+    // 上限ちょうどで終わったかを判定できるよう、上限の 1 件先まで読む
+    const size = Math.min(SPOT_FETCH_CHUNK_SIZE, maxRows + 1 - from);
+    const { data, error } = await fetchChunk(from, from + size - 1);
+    if (error) return { rows, truncated: false, error };
+    const chunk = (data ?? []) as T[];
+    rows.push(...chunk);
+    if (rows.length > maxRows) return { rows: rows.slice(0, maxRows), truncated: true, error: null };
+    if (chunk.length < size) return { rows, truncated: false, error: null };
+  }
+}
+
+/**
+ * スポットを全件取得する。
+ *
+ * PostgREST の 1 リクエストあたりの行数上限で欠けないよう、`SPOT_FETCH_CHUNK_SIZE` 件ずつ続けて取得する。
+ *
+ * @returns スポット配列（ID 昇順）
+ * @example
+ * const spots = await fetchSpots();
+ */
 export async function fetchSpots(): Promise<Spot[]> {
   if (!client) return mockSpots;
-  const { data, error } = await client
-    .from("spots")
-    .select("*")
-    .order("id")
-    .limit(500);
+  const db = client;
+  const { rows, error } = await fetchRowsInChunks<Spot>((from, to) =>
+    db.from("spots").select("*").order("id").range(from, to)
+  );
   if (error) {
     console.warn("[supabase] spots fetch error, fallback to mock", error);
     return mockSpots;
   }
-  return data as Spot[];
+  return rows;
+}
+
+/**
+ * 範囲内のスポットを取得する（地図の表示範囲に合わせた読み込み用）。
+ *
+ * @param bounds - 取得範囲
+ * @param limit - 最大件数
+ * @returns スポット（ID 昇順）と、上限で打ち切ったかどうか
+ * @example
+ * const { items, truncated } = await fetchSpotsInBounds({ south: 39.6, west: 141.0, north: 39.8, east: 141.3 });
+ */
+export async function fetchSpotsInBounds(
+  bounds: BoundingBox,
+  limit: number = SPOTS_IN_BOUNDS_LIMIT
+): Promise<{ items: Spot[]; truncated: boolean }> {
+  const fromMock = () => {
+    const inside = mockSpots.filter((spot) => isWithinBounds(spot, bounds));
+    return { items: inside.slice(0, limit), truncated: inside.length > limit };
+  };
+  if (!client) return fromMock();
+  const db = client;
+  // 1 リクエストの行数上限で欠けても打ち切りと判定できるよう、上限まで続けて読む
+  const { rows, truncated, error } = await fetchRowsInChunks<Spot>(
+    (from, to) =>
+      db
+        .from("spots")
+        .select("*")
+        .gte("lat", bounds.south)
+        .lte("lat", bounds.north)
+        .gte("lng", bounds.west)
+        .lte("lng", bounds.east)
+        .order("id")
+        .range(from, to),
+    limit
+  );
+  if (error) {
+    console.warn("[supabase] spots in bounds fetch error, fallback to mock", error);
+    return fromMock();
+  }
+  return { items: rows, truncated };
 }
 
 export async function fetchSpot(id: number): Promise<Spot | null> {
@@ -343,84 +749,270 @@ export async function fetchEvents(): Promise<Event[]> {
 }
 
 /**
- * スポットを DB で検索する（市区町村・ジャンル・キーワード + ページング）。
+ * スタンプラリー一覧を取得する。
+ *
+ * @returns ラリー配列（ID 昇順）
+ * @example
+ * const rallies = await fetchRallies();
+ */
+export async function fetchRallies(): Promise<Rally[]> {
+  if (!client) return mockRallies;
+  const { data, error } = await client.from("rallies").select("*").order("id");
+  if (error) {
+    console.warn("[supabase] rallies fetch error, fallback to mock", error);
+    return mockRallies;
+  }
+  return data as Rally[];
+}
+
+/**
+ * スポットを DB で検索する（市区町村・ジャンル・キーワード・範囲 + 並び順 + ページング）。
+ *
+ * キーワード指定時は全角/半角・かな・ローマ字の揺れを吸収し、市区町村かなやジャンル名も含めて
+ * 関連度順に並べる（`rankSpotsBySearch`）。基準点（`near`）指定時は各項目に距離を付け、
+ * `radius` 以内に絞り込む（既定の並び順は距離順）。`bbox` は表示範囲などの矩形で絞り込む。
+ * 結果には市区町村・ジャンル別の件数（`facets`）が付く。
+ * `cursor` に前回の `nextCursor` を渡すと続きを返す（無限スクロール向け）。
  *
  * @param params - 検索条件
- * @returns ページング付きスポット配列
+ * @returns 並び順・ファセット付きのスポット検索結果
+ * @throws SearchCursorError カーソルが不正、または別条件で発行された場合
  * @example
- * const result = await searchSpots({ keyword: "温泉", cityId: 1, page: 1, pageSize: 50 });
+ * const result = await searchSpots({ keyword: "温泉", near: { lat: 39.7, lng: 141.1, radius: 5000 }, sort: "name" });
  */
-export async function searchSpots(params: SpotSearchParams): Promise<PagedResult<Spot>> {
-  const page = normalizePage(params.page);
-  const pageSize = normalizePageSize(params.pageSize);
+export async function searchSpots(params: SpotSearchParams): Promise<SearchResult<SpotSearchItem>> {
   const keyword = normalizeKeyword(params.keyword);
+  const near = params.near;
+  const sort = resolveSpotSort(params.sort, Boolean(near));
+  const window = resolveSearchWindow(params, {
+    tab: "spot",
+    keyword,
+    cityId: params.cityId,
+    genreId: params.genreId,
+    near,
+    bbox: params.bbox,
+    sort,
+  });
 
   if (!client) {
-    return buildSpotMockSearchResult(params, page, pageSize, keyword);
+    return buildSpotMockSearchResult(params, window, keyword);
+  }
+  const db = client;
+  const from = window.from;
+  const to = from + window.pageSize - 1;
+  // 半径指定時は外接矩形で DB 側の候補を先に減らす
+  const bounds = params.bbox ?? (near?.radius ? boundsAroundPoint(near.lat, near.lng, near.radius) : null);
+
+  if (keyword || near) {
+    // かな・ローマ字一致や距離は SQL で表現できないため、範囲内の候補をアプリ側で絞り込み・並べ替える。
+    // ファセット件数のため、市区町村・ジャンルの絞り込みもアプリ側で行う。
+    // 候補は件数で打ち切らず、ページングして範囲内を全件読む（打ち切ると後ろの ID が見つからず件数もずれる）。
+    const [{ rows, error }, cities, genres] = await Promise.all([
+      fetchRowsInChunks<Spot>((rangeFrom, rangeTo) => {
+        let candidateQuery = db.from("spots").select("*").order("id");
+        if (bounds) {
+          candidateQuery = candidateQuery
+            .gte("lat", bounds.south)
+            .lte("lat", bounds.north)
+            .gte("lng", bounds.west)
+            .lte("lng", bounds.east);
+        }
+        return candidateQuery.range(rangeFrom, rangeTo);
+      }),
+      keyword ? fetchCities() : Promise.resolve([]),
+      keyword ? fetchGenres() : Promise.resolve([]),
+    ]);
+    if (error) {
+      console.warn("[supabase] spots search error, fallback to mock", error);
+      return buildSpotMockSearchResult(params, window, keyword);
+    }
+    return buildSpotSearchResult(rows, params, keyword, { cities, genres }, window);
   }
-  const from = (page - 1) * pageSize;
-  const to = from + pageSize - 1;
 
-  let query = client.from("spots").select("*", { count: "exact" }).order("id");
+  let query = client.from("spots").select("*", { count: "exact" });
 
+  if (sort === "name") query = query.order("name").order("id");
+  else if (sort === "newest") query = query.order("id", { ascending: false });
+  else query = query.order("id");
   if (params.cityId) query = query.eq("city_id", params.cityId);
   if (params.genreId) query = query.eq("genre_id", params.genreId);
-  if (keyword) {
-    const escaped = escapeForIlike(keyword);
-    const pattern = `%${escaped}%`;
-    query = query.or(`name.ilike.${pattern},description.ilike.${pattern}`);
+  if (bounds) {
+    query = query.gte("lat", bounds.south).lte("lat", bounds.north).gte("lng", bounds.west).lte("lng", bounds.east);
   }
 
-  const { data, error, count } = await query.range(from, to);
-  if (error) {
-    console.warn("[supabase] spots search error, fallback to mock", error);
-    return buildSpotMockSearchResult(params, page, pageSize, keyword);
+  // ファセットは 1 リクエストの行数上限で欠けないよう、範囲内の行を続けて全件読んで数える
+  const [{ data, error, count }, facetRows] = await Promise.all([
+    query.range(from, to),
+    fetchRowsInChunks<Pick<Spot, "city_id" | "genre_id">>((rangeFrom, rangeTo) => {
+      let facetQuery = db.from("spots").select("city_id, genre_id").order("id");
+      if (bounds) {
+        facetQuery = facetQuery
+          .gte("lat", bounds.south)
+          .lte("lat", bounds.north)
+          .gte("lng", bounds.west)
+          .lte("lng", bounds.east);
+      }
+      return facetQuery.range(rangeFrom, rangeTo);
+    }),
+  ]);
+  if (error || facetRows.error) {
+    console.warn("[supabase] spots search error, fallback to mock", error ?? facetRows.error);
+    return buildSpotMockSearchResult(params, window, keyword);
   }
   const safeItems = (data ?? []) as Spot[];
   const total = Number.isFinite(count) ? (count as number) : safeItems.length;
-  return buildPagedResult(safeItems, total, page, pageSize);
+  const facets = buildSpotFacets(facetRows.rows, params);
+  return buildSearchResult(safeItems, total, window, sort, facets);
+}
+
+/**
+ * 書き出し用に、検索条件に合うスポットを並び順どおりに最大 `maxRows` 件読み込む。
+ *
+ * `searchSpots` と同じ絞り込み・並び順を使うが、ファセットは数えず、ページ単位ではなく行をまとめて読む。
+ * キーワード・基準点指定時は候補を全件読んでから絞り込み・並べ替え、それ以外は SQL で絞り込んで上限まで読む。
+ *
+ * @param params - 検索条件（ページング指定は使わない）
+ * @param maxRows - 返す件数の上限
+ * @returns スポットと、上限で打ち切ったかどうか
+ * @example
+ * const { items, truncated } = await fetchSpotsForExport({ cityId: 1, sort: "name" }, 2000);
+ */
+export async function fetchSpotsForExport(
+  params: Omit<SpotSearchParams, "page" | "pageSize" | "cursor">,
+  maxRows: number
+): Promise<{ items: SpotSearchItem[]; truncated: boolean }> {
+  const keyword = normalizeKeyword(params.keyword);
+  const near = params.near;
+  const sort = resolveSpotSort(params.sort, Boolean(near));
+  const rank = (candidates: Spot[], context: { cities: City[]; genres: Genre[] }) => {
+    const refined = refineSpotCandidates(candidates, params, keyword, context);
+    const sorted = sortSpotResults(filterSpotsByCityAndGenre(refined, params), sort);
+    return { items: sorted.slice(0, maxRows), truncated: sorted.length > maxRows };
+  };
+  const fromMock = () => rank(mockSpots, { cities: mockCities, genres: mockGenres });
+
+  if (!client) return fromMock();
+  const db = client;
+  const bounds = params.bbox ?? (near?.radius ? boundsAroundPoint(near.lat, near.lng, near.radius) : null);
+  // 関連度・距離の順はアプリ側で決めるため、その場合は候補を全件読む
+  const rankInApp = Boolean(keyword || near);
+
+  const [{ rows, truncated, error }, cities, genres] = await Promise.all([
+    fetchRowsInChunks<Spot>(
+      (rangeFrom, rangeTo) => {
+        let query = db.from("spots").select("*");
+        if (!rankInApp && sort === "name") query = query.order("name").order("id");
+        else if (!rankInApp && sort === "newest") query = query.order("id", { ascending: false });
+        else query = query.order("id");
+        if (params.cityId) query = query.eq("city_id", params.cityId);
+        if (params.genreId) query = query.eq("genre_id", params.genreId);
+        if (bounds) {
+          query = query
+            .gte("lat", bounds.south)
+            .lte("lat", bounds.north)
+            .gte("lng", bounds.west)
+            .lte("lng", bounds.east);
+        }
+        return query.range(rangeFrom, rangeTo);
+      },
+      rankInApp ? undefined : maxRows
+    ),
+    keyword ? fetchCities() : Promise.resolve([]),
+    keyword ? fetchGenres() : Promise.resolve([]),
+  ]);
+  if (error) {
+    console.warn("[supabase] spots export error, fallback to mock", error);
+    return fromMock();
+  }
+  return rankInApp ? rank(rows, { cities, genres }) : { items: rows, truncated };
 }
 
 /**
- * イベントを DB で検索する（市区町村・キーワード + ページング）。
+ * イベントを DB で検索する（市区町村・キーワード + 並び順 + ページング）。
+ *
+ * キーワード指定時は市区町村かなも含めて関連度順に並べる（`rankEventsBySearch`）。
+ * `from` / `to` 指定時は繰り返しイベントを範囲内の各回に展開し、範囲と重なる回だけを返す。
+ * 範囲がなければ繰り返しイベントは直近の回として返す。
+ * 結果には市区町村別の件数（`facets.cities`）が付く。`cursor` の扱いは `searchSpots` と同じ。
  *
  * @param params - 検索条件
- * @returns ページング付きイベント配列
+ * @returns 並び順・ファセット付きのイベント検索結果
+ * @throws SearchCursorError カーソルが不正、または別条件で発行された場合
  * @example
- * const result = await searchEvents({ keyword: "祭", cityId: 1, page: 1, pageSize: 50 });
+ * const result = await searchEvents({ keyword: "祭", cityId: 1, sort: "date", page: 1, pageSize: 50 });
  */
-export async function searchEvents(params: EventSearchParams): Promise<PagedResult<Event>> {
-  const page = normalizePage(params.page);
-  const pageSize = normalizePageSize(params.pageSize);
+export async function searchEvents(params: EventSearchParams): Promise<SearchResult<Event>> {
   const keyword = normalizeKeyword(params.keyword);
+  const sort = params.sort ?? "relevance";
+  const window = resolveSearchWindow(params, {
+    tab: "event",
+    keyword,
+    cityId: params.cityId,
+    from: params.from,
+    to: params.to,
+    sort,
+  });
+  const hasRange = Boolean(params.from && params.to);
 
   if (!client) {
-    return buildEventMockSearchResult(params, page, pageSize, keyword);
+    return buildEventMockSearchResult(params, window, keyword);
+  }
+  const db = client;
+  const from = window.from;
+  const to = from + window.pageSize - 1;
+
+  if (keyword || hasRange) {
+    // 候補は件数で打ち切らず、ページングして全件読む（打ち切ると範囲内のイベントが欠ける）
+    const [{ rows, error }, cities] = await Promise.all([
+      fetchRowsInChunks<Event>((rangeFrom, rangeTo) => {
+        let candidateQuery = db
+          .from("events")
+          .select("*")
+          .order("start_date", { ascending: true })
+          .order("id", { ascending: true });
+        if (hasRange) {
+          // 繰り返しの回は初回より前に始まらないため、範囲の終了日までに始まった系列だけを候補にする。
+          // 単発のイベントは範囲の開始日以降に終わるものだけを読む
+          candidateQuery = candidateQuery
+            .lte("start_date", params.to as string)
+            .or(`end_date.gte.${params.from},start_date.gte.${params.from},recurrence_rule.not.is.null`);
+        }
+        return candidateQuery.range(rangeFrom, rangeTo);
+      }),
+      fetchCities(),
+    ]);
+    if (error) {
+      console.warn("[supabase] events search error, fallback to mock", error);
+      return buildEventMockSearchResult(params, window, keyword);
+    }
+    return buildEventSearchResult(rows, params, keyword, cities, window);
   }
-  const from = (page - 1) * pageSize;
-  const to = from + pageSize - 1;
 
-  let query = client
-    .from("events")
-    .select("*", { count: "exact" })
-    .order("start_date", { ascending: true })
-    .order("id", { ascending: true });
+  let query = client.from("events").select("*", { count: "exact" });
 
+  if (sort === "name") query = query.order("title").order("id");
+  else if (sort === "newest") query = query.order("id", { ascending: false });
+  else query = query.order("start_date", { ascending: true }).order("id", { ascending: true });
   if (params.cityId) query = query.eq("city_id", params.cityId);
-  if (keyword) {
-    const escaped = escapeForIlike(keyword);
-    const pattern = `%${escaped}%`;
-    query = query.or(`title.ilike.${pattern},location.ilike.${pattern}`);
-  }
 
-  const { data, error, count } = await query.range(from, to);
-  if (error) {
-    console.warn("[supabase] events search error, fallback to mock", error);
-    return buildEventMockSearchResult(params, page, pageSize, keyword);
+  const [{ data, error, count }, facetRows] = await Promise.all([
+    query.range(from, to),
+    fetchRowsInChunks<Pick<Event, "city_id">>((rangeFrom, rangeTo) =>
+      db.from("events").select("city_id").order("id").range(rangeFrom, rangeTo)
+    ),
+  ]);
+  if (error || facetRows.error) {
+    console.warn("[supabase] events search error, fallback to mock", error ?? facetRows.error);
+    return buildEventMockSearchResult(params, window, keyword);
   }
-  const safeItems = (data ?? []) as Event[];
+  const today = toDateKey(new Date());
+  const safeItems = ((data ?? []) as Event[]).map((event) => resolveNextOccurrence(event, today));
   const total = Number.isFinite(count) ? (count as number) : safeItems.length;
-  return buildPagedResult(safeItems, total, page, pageSize);
+  const facets: SearchFacets = {
+    cities: countFacet(facetRows.rows, (event) => event.city_id),
+    genres: [],
+  };
+  return buildSearchResult(safeItems, total, window, sort, facets);
 }
 
 /**
@@ -641,6 +1233,8 @@ export async function createAdminEvent(input: AdminEventCreateInput): Promise<Ev
     start_date: input.start_date ?? null,
     end_date: input.end_date ?? null,
     city_id: input.city_id ?? null,
+    lat: input.lat ?? null,
+    lng: input.lng ?? null,
   };
   const { data, error } = await writableClient.from("events").insert(payload).select("*").single();
   if (error || !data) {
@@ -760,11 +1354,13 @@ export async function getPublicUserId(authId: string): Promise<number | null> {
 
 /**
  * Fetch all stamps for a user
+ *
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
  */
-export async function fetchUserStamps(userId: number): Promise<Stamp[]> {
-  if (!client) return [];
+export async function fetchUserStamps(userId: number, db: SupabaseClient | null = client): Promise<Stamp[]> {
+  if (!db) return [];
 
-  const { data, error } = await client
+  const { data, error } = await db
     .from("stamps")
     .select("*")
     .eq("user_id", userId)
@@ -779,37 +1375,74 @@ export async function fetchUserStamps(userId: number): Promise<Stamp[]> {
 }
 
 /**
- * Check if user already has a stamp for a spot
+ * スポットごとのスタンプ数を集計する（地図のヒートマップ用。ユーザー情報は含めない）。
+ *
+ * @returns スポット ID ごとのスタンプ数（Supabase 未設定・取得失敗時は空）
+ * @example
+ * const counts = await fetchSpotStampCounts(); // => { 1: 12, 4: 3 }
  */
-export async function hasStamp(userId: number, spotId: number): Promise<boolean> {
-  if (!client) return false;
+export async function fetchSpotStampCounts(): Promise<Record<number, number>> {
+  if (!client) return {};
+  const db = client;
+  const { rows, error } = await fetchRowsInChunks<Pick<Stamp, "spot_id">>((from, to) =>
+    db.from("stamps").select("spot_id").order("id").range(from, to)
+  );
+  if (error) {
+    console.warn("[supabase] stamp counts fetch error:", error);
+    return {};
+  }
+  const counts: Record<number, number> = {};
+  rows.forEach((row) => {
+    counts[row.spot_id] = (counts[row.spot_id] ?? 0) + 1;
+  });
+  return counts;
+}
 
-  const { data } = await client
+/**
+ * Check if user already has a stamp for a spot
+ */
+export async function hasStamp(
+  userId: number,
+  spotId: number,
+  db: SupabaseClient | null = client
+): Promise<boolean> {
+  if (!db) return false;
+
+  const { data } = await db
     .from("stamps")
     .select("id")
     .eq("user_id", userId)
     .eq("spot_id", spotId)
-    .single();
+    .maybeSingle();
 
   return Boolean(data);
 }
 
 /**
  * Create a new stamp (if not already exists)
+ *
+ * Proximity is not checked here; public callers should go through `POST /api/stamps`.
+ * `capturedAt` is stored as `captured_at` when replaying a stamp captured offline;
+ * `created_at` always keeps the server time.
  */
-export async function createStamp(userId: number, spotId: number): Promise<Stamp | null> {
-  if (!client) return null;
+export async function createStamp(
+  userId: number,
+  spotId: number,
+  db: SupabaseClient | null = client,
+  capturedAt?: string
+): Promise<Stamp | null> {
+  if (!db) return null;
 
   // Check for duplicate
-  const exists = await hasStamp(userId, spotId);
+  const exists = await hasStamp(userId, spotId, db);
   if (exists) {
     console.warn("[createStamp] stamp already exists");
     return null;
   }
 
-  const { data, error } = await client
+  const { data, error } = await db
     .from("stamps")
-    .insert({ user_id: userId, spot_id: spotId })
+    .insert({ user_id: userId, spot_id: spotId, ...(capturedAt ? { captured_at: capturedAt } : {}) })
     .select()
     .single();
 
@@ -820,3 +1453,275 @@ export async function createStamp(userId: number, spotId: number): Promise<Stamp
 
   return data as Stamp;
 }
+
+// ─────────────────────────────────────────────────────────────
+// Favorite functions
+// ─────────────────────────────────────────────────────────────
+
+// Supabase 未設定時（モックモード）に使うプロセス内ストア。
+const mockFavoriteStore = new Map<number, Favorite[]>();
+let mockFavoriteSequence = 0;
+
+/**
+ * ユーザーのお気に入り一覧を新しい順に取得する。
+ *
+ * Supabase 未設定時はプロセス内のモックストアを参照する。
+ *
+ * @param userId - public.users.id
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
+ * @returns お気に入り配列
+ * @example
+ * const favorites = await fetchUserFavorites(42);
+ */
+export async function fetchUserFavorites(
+  userId: number,
+  db: SupabaseClient | null = client
+): Promise<Favorite[]> {
+  if (!db) return [...(mockFavoriteStore.get(userId) ?? [])];
+
+  const { data, error } = await db
+    .from("favorites")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.warn("[supabase] favorites fetch error:", error);
+    return [];
+  }
+
+  return data as Favorite[];
+}
+
+/**
+ * スポットをお気に入りへ追加する（登録済みなら既存行を返す）。
+ *
+ * @param userId - public.users.id
+ * @param spotId - スポット ID
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
+ * @returns 追加済みお気に入り
+ * @throws Error 追加失敗時
+ * @example
+ * await addFavorite(42, 1);
+ */
+export async function addFavorite(
+  userId: number,
+  spotId: number,
+  db: SupabaseClient | null = client
+): Promise<Favorite> {
+  if (!db) {
+    const current = mockFavoriteStore.get(userId) ?? [];
+    const existing = current.find((favorite) => favorite.spot_id === spotId);
+    if (existing) return existing;
+    mockFavoriteSequence += 1;
+    const favorite: Favorite = {
+      id: mockFavoriteSequence,
+      user_id: userId,
+      spot_id: spotId,
+      created_at: new Date().toISOString(),
+    };
+    mockFavoriteStore.set(userId, [favorite, ...current]);
+    return favorite;
+  }
+
+  const { data: existing } = await db
+    .from("favorites")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("spot_id", spotId)
+    .maybeSingle();
+  if (existing) return existing as Favorite;
+
+  const { data, error } = await db
+    .from("favorites")
+    .insert({ user_id: userId, spot_id: spotId })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? "お気に入りの登録に失敗しました。");
+  }
+  return data as Favorite;
+}
+
+/**
+ * スポットをお気に入りから外す。未登録でもエラーにはしない。
+ *
+ * @param userId - public.users.id
+ * @param spotId - スポット ID
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
+ * @returns void
+ * @throws Error 削除失敗時
+ * @example
+ * await removeFavorite(42, 1);
+ */
+export async function removeFavorite(
+  userId: number,
+  spotId: number,
+  db: SupabaseClient | null = client
+): Promise<void> {
+  if (!db) {
+    const current = mockFavoriteStore.get(userId) ?? [];
+    mockFavoriteStore.set(
+      userId,
+      current.filter((favorite) => favorite.spot_id !== spotId)
+    );
+    return;
+  }
+
+  const { error } = await db.from("favorites").delete().eq("user_id", userId).eq("spot_id", spotId);
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Trip plan functions
+// ─────────────────────────────────────────────────────────────
+
+// Supabase 未設定時（モックモード）に使うプロセス内ストア。
+const mockTripPlanStore = new Map<number, TripPlan[]>();
+let mockTripPlanSequence = 0;
+
+/**
+ * ユーザーの保存済み旅程を更新日の新しい順に取得する。
+ *
+ * @param userId - public.users.id
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
+ * @returns 旅程配列
+ * @example
+ * const plans = await fetchUserTripPlans(42);
+ */
+export async function fetchUserTripPlans(
+  userId: number,
+  db: SupabaseClient | null = client
+): Promise<TripPlan[]> {
+  if (!db) return [...(mockTripPlanStore.get(userId) ?? [])];
+
+  const { data, error } = await db
+    .from("trip_plans")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    console.warn("[supabase] trip plans fetch error:", error);
+    return [];
+  }
+
+  return data as TripPlan[];
+}
+
+/**
+ * 旅程を保存する。
+ *
+ * @param userId - public.users.id
+ * @param input - 旅程名と訪問順のスポット ID
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
+ * @returns 保存した旅程
+ * @throws Error 保存失敗時
+ * @example
+ * await createTripPlan(42, { name: "盛岡さんぽ", spot_ids: [1, 4] });
+ */
+export async function createTripPlan(
+  userId: number,
+  input: TripPlanInput,
+  db: SupabaseClient | null = client
+): Promise<TripPlan> {
+  if (!db) {
+    mockTripPlanSequence += 1;
+    const now = new Date().toISOString();
+    const plan: TripPlan = { id: mockTripPlanSequence, user_id: userId, ...input, created_at: now, updated_at: now };
+    mockTripPlanStore.set(userId, [plan, ...(mockTripPlanStore.get(userId) ?? [])]);
+    return plan;
+  }
+
+  const { data, error } = await db
+    .from("trip_plans")
+    .insert({ user_id: userId, ...input })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? "旅程の保存に失敗しました。");
+  }
+  return data as TripPlan;
+}
+
+/**
+ * 自分の旅程を更新する。
+ *
+ * @param userId - public.users.id
+ * @param planId - 旅程 ID
+ * @param input - 更新する項目
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
+ * @returns 更新後の旅程（存在しない・他人の旅程なら null）
+ * @throws Error 更新失敗時
+ * @example
+ * await updateTripPlan(42, 3, { name: "平泉めぐり" });
+ */
+export async function updateTripPlan(
+  userId: number,
+  planId: number,
+  input: Partial<TripPlanInput>,
+  db: SupabaseClient | null = client
+): Promise<TripPlan | null> {
+  if (!db) {
+    const current = mockTripPlanStore.get(userId) ?? [];
+    const existing = current.find((plan) => plan.id === planId);
+    if (!existing) return null;
+    const updated: TripPlan = { ...existing, ...input, updated_at: new Date().toISOString() };
+    mockTripPlanStore.set(userId, [updated, ...current.filter((plan) => plan.id !== planId)]);
+    return updated;
+  }
+
+  const { data, error } = await db
+    .from("trip_plans")
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq("id", planId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as TripPlan | null) ?? null;
+}
+
+/**
+ * 自分の旅程を削除する。
+ *
+ * @param userId - public.users.id
+ * @param planId - 旅程 ID
+ * @param db - 利用する Supabase client（既定はモジュール共有 client）
+ * @returns 削除した場合 true（存在しない・他人の旅程なら false）
+ * @throws Error 削除失敗時
+ * @example
+ * await deleteTripPlan(42, 3);
+ */
+export async function deleteTripPlan(
+  userId: number,
+  planId: number,
+  db: SupabaseClient | null = client
+): Promise<boolean> {
+  if (!db) {
+    const current = mockTripPlanStore.get(userId) ?? [];
+    mockTripPlanStore.set(
+      userId,
+      current.filter((plan) => plan.id !== planId)
+    );
+    return current.some((plan) => plan.id === planId);
+  }
+
+  const { data, error } = await db
+    .from("trip_plans")
+    .delete()
+    .eq("id", planId)
+    .eq("user_id", userId)
+    .select("id");
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,48 @@
+import { searchEvents, searchSpots } from "@/lib/supabaseClient";
+import { fuzzyStartsWith, normalizeSearchText, toSearchRomaji } from "@/lib/textSearch";
+import { describe, expect, it } from "vitest";
+
+describe("textSearch", () => {
+  it("normalizes width, case and katakana", () => {
+    expect(normalizeSearchText("ﾓﾘｵｶ 城")).toBe("もりおか城");
+    expect(normalizeSearchText("ＭＯＲＩＯＫＡ")).toBe("morioka");
+    expect(normalizeSearchText("リュウセンドウ")).toBe("りゅうせんどう");
+  });
+
+  it("romanizes kana and absorbs spelling variants", () => {
+    expect(toSearchRomaji("もりおかし")).toBe("moriokashi");
+    expect(toSearchRomaji("ちゅうそんじ")).toBe("chusonji");
+    expect(toSearchRomaji("いっぱい")).toBe("ippai");
+    expect(toSearchRomaji("hiraizumityou")).toBe(toSearchRomaji("ひらいずみちょう"));
+  });
+
+  it("matches prefixes within a small edit distance", () => {
+    expect(fuzzyStartsWith("hiraizumicho", "hiraizmi", 1)).toBe(true);
+    expect(fuzzyStartsWith("hiraizumicho", "iwaizumi", 1)).toBe(false);
+    expect(fuzzyStartsWith("iwaizumicho", "hiraizumi", 1)).toBe(false);
+  });
+
+  it("finds spots by city kana, romaji and genre name in mock mode", async () => {
+    const byKana = await searchSpots({ keyword: "もりおか" });
+    const byRomaji = await searchSpots({ keyword: "Morioka" });
+    const byHalfWidth = await searchSpots({ keyword: "ﾓﾘｵｶ" });
+    const byGenre = await searchSpots({ keyword: "グルメ" });
+
+    expect(byKana.items.map((spot) => spot.name)).toEqual(["盛岡城跡公園", "わんこそば体験"]);
+    expect(byRomaji.items.map((spot) => spot.id)).toEqual(byKana.items.map((spot) => spot.id));
+    expect(byHalfWidth.total).toBe(2);
+    expect(byGenre.items.map((spot) => spot.name)).toEqual(["わんこそば体験"]);
+  });
+
+  it("ranks name matches above description matches", async () => {
+    const result = await searchSpots({ keyword: "龍泉洞" });
+
+    expect(result.items[0]?.name).toBe("龍泉洞");
+  });
+
+  it("finds events through the city reading", async () => {
+    const result = await searchEvents({ keyword: "hiraizumi" });
+
+    expect(result.items.map((event) => event.title)).toEqual(["平泉ライトアップ散策"]);
+  });
+});
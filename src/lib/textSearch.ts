@@ -0,0 +1,354 @@
+import type { City, Event, Genre, Spot } from "@/lib/types";
+
+/** 検索対象フィールド（重み付き） */
+export type SearchField = {
+  value: string | null | undefined;
+  weight: number;
+};
+
+type NormalizedField = {
+  kana: string;
+  romaji: string;
+  weight: number;
+};
+
+type SearchContext = {
+  cities: City[];
+  genres?: Genre[];
+};
+
+const KANA_ROMAJI: Record<string, string> = {
+  あ: "a", い: "i", う: "u", え: "e", お: "o",
+  か: "ka", き: "ki", く: "ku", け: "ke", こ: "ko",
+  が: "ga", ぎ: "gi", ぐ: "gu", げ: "ge", ご: "go",
+  さ: "sa", し: "shi", す: "su", せ: "se", そ: "so",
+  ざ: "za", じ: "ji", ず: "zu", ぜ: "ze", ぞ: "zo",
+  た: "ta", ち: "chi", つ: "tsu", て: "te", と: "to",
+  だ: "da", ぢ: "ji", づ: "zu", で: "de", ど: "do",
+  な: "na", に: "ni", ぬ: "nu", ね: "ne", の: "no",
+  は: "ha", ひ: "hi", ふ: "fu", へ: "he", ほ: "ho",
+  ば: "ba", び: "bi", ぶ: "bu", べ: "be", ぼ: "bo",
+  ぱ: "pa", ぴ: "pi", ぷ: "pu", ぺ: "pe", ぽ: "po",
+  ま: "ma", み: "mi", む: "mu", め: "me", も: "mo",
+  や: "ya", ゆ: "yu", よ: "yo",
+  ら: "ra", り: "ri", る: "ru", れ: "re", ろ: "ro",
+  わ: "wa", ゐ: "i", ゑ: "e", を: "o", ん: "n", ゔ: "vu",
+  ぁ: "a", ぃ: "i", ぅ: "u", ぇ: "e", ぉ: "o",
+};
+
+const YOON_ROMAJI: Record<string, string> = {
+  ゃ: "a",
+  ゅ: "u",
+  ょ: "o",
+};
+
+/** 訓令式などの揺れをヘボン式へ寄せる置換（長いものから適用） */
+const ROMAJI_VARIANTS: Array<[RegExp, string]> = [
+  [/sy([auo])/g, "sh$1"],
+  [/ty([auo])/g, "ch$1"],
+  [/zy([auo])/g, "j$1"],
+  [/jy([auo])/g, "j$1"],
+  [/si/g, "shi"],
+  [/ti/g, "chi"],
+  [/tu/g, "tsu"],
+  [/(?<![sc])hu/g, "fu"],
+  [/zi/g, "ji"],
+  [/di/g, "ji"],
+  [/du/g, "zu"],
+  [/nn/g, "n"],
+  [/m(?=[bmp])/g, "n"],
+];
+
+/**
+ * 全角/半角・大文字/小文字・カタカナ/ひらがなの差を吸収した比較用文字列を返す。
+ *
+ * @param value - 入力文字列
+ * @returns 正規化済み文字列（空白・記号は除去）
+ * @example
+ * normalizeSearchText("ﾓﾘｵｶ 城"); // "もりおか城"
+ */
+export function normalizeSearchText(value: string | null | undefined): string {
+  if (!value) return "";
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+    .replace(/[\s・･、。,.!?！？'"`\-‐－~〜()（）「」『』【】\[\]]/g, "");
+}
+
+/**
+ * ローマ字表記の揺れ（訓令式・長音・撥音）を吸収する。
+ *
+ * @param value - 小文字ローマ字
+ * @returns 比較用ローマ字
+ * @example
+ * normalizeRomaji("ryuusendou"); // "ryusendo"
+ */
+export function normalizeRomaji(value: string): string {
+  let result = value.replace(/[^a-z]/g, "");
+  ROMAJI_VARIANTS.forEach(([pattern, replacement]) => {
+    result = result.replace(pattern, replacement);
+  });
+  return result.replace(/ou/g, "o").replace(/oo/g, "o").replace(/uu/g, "u").replace(/aa/g, "a");
+}
+
+/**
+ * 正規化済みテキストに含まれるひらがなをローマ字へ変換する（漢字は除去）。
+ *
+ * @param value - `normalizeSearchText` 済みの文字列
+ * @returns 比較用ローマ字
+ * @example
+ * toSearchRomaji("もりおかし"); // "moriokashi"
+ */
+export function toSearchRomaji(value: string): string {
+  const chars = Array.from(value);
+  let result = "";
+  let doubleNext = false;
+
+  chars.forEach((char) => {
+    if (char === "っ") {
+      doubleNext = true;
+      return;
+    }
+    if (char === "ー") {
+      return;
+    }
+    const yoon = YOON_ROMAJI[char];
+    if (yoon) {
+      // きゃ → kya / しゃ → sha / ちゃ → cha
+      if (/(shi|chi|ji)$/.test(result)) {
+        result = result.slice(0, -1) + yoon;
+      } else if (result.endsWith("i")) {
+        result = result.slice(0, -1) + "y" + yoon;
+      } else {
+        result += "y" + yoon;
+      }
+      return;
+    }
+    let romaji = KANA_ROMAJI[char] ?? (/[a-z0-9]/.test(char) ? char : "");
+    if (doubleNext && romaji) {
+      romaji = (romaji.startsWith("ch") ? "t" : romaji[0]) + romaji;
+      doubleNext = false;
+    }
+    result += romaji;
+  });
+
+  return normalizeRomaji(result);
+}
+
+/**
+ * 近似前方一致（先頭部分との編集距離が `maxDistance` 以内か）を判定する。
+ *
+ * 部分一致まで許すと「ひらいずみ」と「いわいずみ」のような別の地名が一致してしまうため、
+ * 先頭から比較する。
+ *
+ * @param text - 対象文字列
+ * @param query - 検索語
+ * @param maxDistance - 許容する編集距離
+ * @returns 近似一致すれば true
+ * @example
+ * fuzzyStartsWith("hiraizumicho", "hiraizmi", 1); // true
+ */
+export function fuzzyStartsWith(text: string, query: string, maxDistance: number): boolean {
+  if (!query) return true;
+  if (!text) return false;
+  let previous = Array.from({ length: text.length + 1 }, (_, index) => index);
+  for (let row = 1; row <= query.length; row += 1) {
+    const current = new Array<number>(text.length + 1);
+    current[0] = row;
+    for (let col = 1; col <= text.length; col += 1) {
+      const cost = query[row - 1] === text[col - 1] ? 0 : 1;
+      current[col] = Math.min(previous[col] + 1, current[col - 1] + 1, previous[col - 1] + cost);
+    }
+    previous = current;
+  }
+  return Math.min(...previous) <= maxDistance;
+}
+
+/**
+ * 検索語の長さから許容する編集距離を決める。短い語はあいまい一致させない。
+ *
+ * @param length - 検索語（ローマ字）の長さ
+ * @returns 許容編集距離
+ * @example
+ * resolveFuzzyDistance(8); // 1
+ */
+function resolveFuzzyDistance(length: number): number {
+  return length >= 5 ? 1 : 0;
+}
+
+/**
+ * 1 フィールドに対する 1 語のスコアを求める。
+ *
+ * 完全一致 > 前方一致 > 部分一致 > ローマ字での一致 > あいまい一致 の順に高い。
+ *
+ * @param field - 正規化済みフィールド
+ * @param kana - 正規化済み検索語
+ * @param romaji - 検索語のローマ字
+ * @returns スコア（一致しなければ 0）
+ * @example
+ * scoreField(field, "もりおか", "morioka");
+ */
+function scoreField(field: NormalizedField, kana: string, romaji: string): number {
+  if (field.kana) {
+    if (field.kana === kana) return field.weight * 4;
+    if (field.kana.startsWith(kana)) return field.weight * 3;
+    if (field.kana.includes(kana)) return field.weight * 2;
+  }
+  if (romaji && field.romaji) {
+    if (field.romaji.startsWith(romaji)) return field.weight * 1.5;
+    if (field.romaji.includes(romaji)) return field.weight * 1.2;
+    const distance = resolveFuzzyDistance(romaji.length);
+    if (distance > 0 && fuzzyStartsWith(field.romaji, romaji, distance)) return field.weight * 0.5;
+  }
+  return 0;
+}
+
+/**
+ * 重み付きフィールドに対する検索スコアを計算する。
+ *
+ * 空白区切りの各語がいずれかのフィールドに一致する必要があり（AND）、
+ * 1 語でも一致しなければ 0 を返す。
+ *
+ * @param fields - 検索対象フィールド
+ * @param keyword - 検索キーワード
+ * @returns 関連度スコア
+ * @example
+ * scoreSearchFields([{ value: "盛岡城跡公園", weight: 10 }], "盛岡");
+ */
+export function scoreSearchFields(fields: SearchField[], keyword: string): number {
+  const terms = keyword
+    .normalize("NFKC")
+    .split(/\s+/)
+    .map((term) => normalizeSearchText(term))
+    .filter(Boolean);
+  if (terms.length === 0) return 0;
+
+  const normalized: NormalizedField[] = fields
+    .filter((field) => field.value)
+    .map((field) => {
+      const kana = normalizeSearchText(field.value);
+      return { kana, romaji: toSearchRomaji(kana), weight: field.weight };
+    });
+
+  let total = 0;
+  for (const term of terms) {
+    const romaji = toSearchRomaji(term);
+    const best = Math.max(0, ...normalized.map((field) => scoreField(field, term, romaji)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total;
+}
+
+/** 元の文字列上の一致範囲（`end` は含まない） */
+export type MatchRange = {
+  start: number;
+  end: number;
+};
+
+/**
+ * 表示用に、元の文字列のどこが検索語に一致したかを返す。
+ *
+ * 全角/半角・カタカナ/ひらがなの差は吸収するが、ローマ字だけの一致は範囲を特定できないため null を返す。
+ *
+ * @param value - 表示する文字列
+ * @param keyword - 検索キーワード
+ * @returns 一致範囲（見つからなければ null）
+ * @example
+ * findMatchRange("盛岡城跡公園", "城跡"); // { start: 2, end: 4 }
+ */
+export function findMatchRange(value: string | null | undefined, keyword: string): MatchRange | null {
+  if (!value) return null;
+  const terms = [normalizeSearchText(keyword), ...keyword.normalize("NFKC").split(/\s+/).map(normalizeSearchText)];
+
+  // 正規化後の各文字が元の文字列のどこから来たかを記録する
+  let normalized = "";
+  const origins: Array<{ start: number; end: number }> = [];
+  let offset = 0;
+  for (const char of value) {
+    const piece = normalizeSearchText(char);
+    for (let index = 0; index < piece.length; index += 1) {
+      origins.push({ start: offset, end: offset + char.length });
+    }
+    normalized += piece;
+    offset += char.length;
+  }
+
+  for (const term of terms) {
+    if (!term) continue;
+    const found = normalized.indexOf(term);
+    if (found >= 0) {
+      return { start: origins[found].start, end: origins[found + term.length - 1].end };
+    }
+  }
+  return null;
+}
+
+/**
+ * 関連度スコアで並べ替え、一致しない項目を除外する。
+ *
+ * 同点の場合は入力順を保つ。
+ *
+ * @param items - 対象配列
+ * @param keyword - 検索キーワード
+ * @param toFields - 項目から検索フィールドを作る関数
+ * @returns 関連度順の配列
+ * @example
+ * rankBySearchRelevance(spots, "morioka", (spot) => [{ value: spot.name, weight: 10 }]);
+ */
+export function rankBySearchRelevance<T>(items: T[], keyword: string, toFields: (item: T) => SearchField[]): T[] {
+  return items
+    .map((item, index) => ({ item, index, score: scoreSearchFields(toFields(item), keyword) }))
+    .filter((entry) => entry.score > 0)
+    .sort((left, right) => right.score - left.score || left.index - right.index)
+    .map((entry) => entry.item);
+}
+
+/**
+ * スポットを関連度順に絞り込む。スポット名・市区町村名/かな・ジャンル名・説明文を対象にする。
+ *
+ * @param spots - 対象スポット
+ * @param keyword - 検索キーワード
+ * @param context - 市区町村・ジャンル
+ * @returns 関連度順のスポット
+ * @example
+ * rankSpotsBySearch(spots, "もりおか", { cities, genres });
+ */
+export function rankSpotsBySearch(spots: Spot[], keyword: string, context: SearchContext): Spot[] {
+  const cityById = new Map(context.cities.map((city) => [city.id, city]));
+  const genreById = new Map((context.genres ?? []).map((genre) => [genre.id, genre]));
+  return rankBySearchRelevance(spots, keyword, (spot) => {
+    const city = cityById.get(spot.city_id);
+    return [
+      { value: spot.name, weight: 10 },
+      { value: city?.name, weight: 6 },
+      { value: city?.name_kana, weight: 6 },
+      { value: genreById.get(spot.genre_id)?.name, weight: 4 },
+      { value: spot.description, weight: 2 },
+    ];
+  });
+}
+
+/**
+ * イベントを関連度順に絞り込む。タイトル・会場・市区町村名/かなを対象にする。
+ *
+ * @param events - 対象イベント
+ * @param keyword - 検索キーワード
+ * @param context - 市区町村
+ * @returns 関連度順のイベント
+ * @example
+ * rankEventsBySearch(events, "ひらいずみ", { cities });
+ */
+export function rankEventsBySearch(events: Event[], keyword: string, context: SearchContext): Event[] {
+  const cityById = new Map(context.cities.map((city) => [city.id, city]));
+  return rankBySearchRelevance(events, keyword, (event) => {
+    const city = typeof event.city_id === "number" ? cityById.get(event.city_id) : undefined;
+    return [
+      { value: event.title, weight: 10 },
+      { value: event.location, weight: 5 },
+      { value: city?.name, weight: 5 },
+      { value: city?.name_kana, weight: 5 },
+    ];
+  });
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { DEFAULT_TRAVEL_MODE, isTravelMode, type TravelMode } from "@/lib/routeProviders";
+
+const STORAGE_KEY = "iwate150_travel_mode_v1";
+
+const listeners = new Set<() => void>();
+
+/**
+ * 保存済みの移動手段を読み込む（未保存・不正値は既定値）。
+ *
+ * @returns 移動手段
+ * @example
+ * readTravelMode();
+ */
+function readTravelMode(): TravelMode {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isTravelMode(stored) ? stored : DEFAULT_TRAVEL_MODE;
+  } catch {
+    return DEFAULT_TRAVEL_MODE;
+  }
+}
+
+/**
+ * 移動手段の変更を購読する（別タブでの変更も反映する）。
+ *
+ * @param listener - 変更通知
+ * @returns 購読解除関数
+ * @example
+ * const unsubscribe = subscribe(() => {});
+ */
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+/**
+ * ユーザーが選んだ移動手段を localStorage に保存して共有する hook。
+ *
+ * 地図のルート検索と旅程プランナーで同じ選択を使う。
+ *
+ * @returns 現在の移動手段と変更関数
+ * @example
+ * const { travelMode, setTravelMode } = useTravelMode();
+ */
+export function useTravelMode() {
+  const travelMode = useSyncExternalStore(subscribe, readTravelMode, () => DEFAULT_TRAVEL_MODE);
+
+  const setTravelMode = useCallback((next: TravelMode) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // ignore quota / private mode errors
+    }
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return { travelMode, setTravelMode };
+}
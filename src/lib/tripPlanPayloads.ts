@@ -0,0 +1,74 @@
+import type { TripPlanInput } from "@/lib/types";
+import { ITINERARY_MAX_STOPS, ITINERARY_NAME_MAX_LENGTH } from "@/lib/itinerary";
+import { parseRequiredIdList, parseRequiredString } from "@/lib/studioApi";
+
+/**
+ * 旅程の保存入力を検証する。
+ *
+ * @param input - 生入力
+ * @returns 正規化済み入力
+ * @throws Error 不正値・件数超過
+ * @example
+ * parseTripPlanCreateInput({ name: "盛岡さんぽ", spot_ids: [1, 4] });
+ */
+export function parseTripPlanCreateInput(input: Record<string, unknown>): TripPlanInput {
+  return {
+    name: parseTripPlanName(input.name),
+    spot_ids: parseTripPlanSpotIds(input.spot_ids),
+  };
+}
+
+/**
+ * 旅程の更新入力を検証する。
+ *
+ * @param input - 生入力
+ * @returns 正規化済み入力
+ * @throws Error 更新項目なし・不正値
+ * @example
+ * parseTripPlanUpdateInput({ name: "平泉めぐり" });
+ */
+export function parseTripPlanUpdateInput(input: Record<string, unknown>): Partial<TripPlanInput> {
+  const payload: Partial<TripPlanInput> = {};
+
+  if ("name" in input) payload.name = parseTripPlanName(input.name);
+  if ("spot_ids" in input) payload.spot_ids = parseTripPlanSpotIds(input.spot_ids);
+
+  if (Object.keys(payload).length === 0) {
+    throw new Error("At least one field is required for update.");
+  }
+  return payload;
+}
+
+/**
+ * 旅程名を検証する。
+ *
+ * @param value - 入力値
+ * @returns trim 済みの旅程名
+ * @throws Error 空・長すぎる
+ * @example
+ * parseTripPlanName(" 盛岡さんぽ ");
+ */
+function parseTripPlanName(value: unknown): string {
+  const name = parseRequiredString(value, "name");
+  if (name.length > ITINERARY_NAME_MAX_LENGTH) {
+    throw new Error(`name must be at most ${ITINERARY_NAME_MAX_LENGTH} characters.`);
+  }
+  return name;
+}
+
+/**
+ * 旅程のスポット ID 配列を検証する。
+ *
+ * @param value - 入力値
+ * @returns 訪問順のスポット ID 配列
+ * @throws Error 空配列・不正値・重複・件数超過
+ * @example
+ * parseTripPlanSpotIds([1, 4]);
+ */
+function parseTripPlanSpotIds(value: unknown): number[] {
+  const spotIds = parseRequiredIdList(value, "spot_ids");
+  if (spotIds.length > ITINERARY_MAX_STOPS) {
+    throw new Error(`spot_ids must contain at most ${ITINERARY_MAX_STOPS} spots.`);
+  }
+  return spotIds;
+}
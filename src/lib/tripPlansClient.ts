@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAuthSession } from "@/components/auth/SessionProvider";
+import { isSupabaseAuthConfigured } from "@/lib/auth";
+import type { TripPlan, TripPlanInput } from "@/lib/types";
+
+type TripPlansStatus = "idle" | "loading" | "ready" | "error";
+
+const LOCAL_STORAGE_KEY_PREFIX = "iwate150_trip_plans_v1";
+
+/**
+ * localStorage 用のキーを生成する。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns localStorage key
+ * @example
+ * buildLocalStorageKey("user_1");
+ */
+function buildLocalStorageKey(ownerId: string): string {
+  return `${LOCAL_STORAGE_KEY_PREFIX}:${ownerId}`;
+}
+
+/**
+ * localStorage から保存済み旅程を読み込む（モックモード用）。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns 旅程配列
+ * @example
+ * readLocalPlans("user_1");
+ */
+function readLocalPlans(ownerId: string): TripPlan[] {
+  try {
+    const raw = window.localStorage.getItem(buildLocalStorageKey(ownerId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as TripPlan[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 保存済み旅程を localStorage へ書き込む（モックモード用）。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @param plans - 旅程配列
+ * @returns void
+ * @example
+ * writeLocalPlans("user_1", plans);
+ */
+function writeLocalPlans(ownerId: string, plans: TripPlan[]): void {
+  try {
+    window.localStorage.setItem(buildLocalStorageKey(ownerId), JSON.stringify(plans));
+  } catch {
+    // ignore quota / private mode errors
+  }
+}
+
+/**
+ * 旅程 API を呼び出し、失敗時は API のエラーメッセージで例外を投げる。
+ *
+ * @param path - API パス
+ * @param init - fetch オプション
+ * @returns レスポンス
+ * @throws Error API 失敗時
+ * @example
+ * await requestTripPlans("/api/itineraries", { method: "POST", body });
+ */
+async function requestTripPlans(path: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(path, {
+    cache: "no-store",
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error ?? `itineraries api error: ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * 保存済み旅程を読み込む（モックモードは localStorage、それ以外は API）。
+ *
+ * @param ownerId - セッションのユーザー ID
+ * @returns 旅程配列
+ * @throws Error API 失敗時
+ * @example
+ * const plans = await loadTripPlans("user_1");
+ */
+async function loadTripPlans(ownerId: string): Promise<TripPlan[]> {
+  if (!isSupabaseAuthConfigured()) return readLocalPlans(ownerId);
+  const response = await requestTripPlans("/api/itineraries");
+  const payload = (await response.json()) as { items?: TripPlan[] };
+  return payload.items ?? [];
+}
+
+/**
+ * ログインユーザーの名前付き旅程を扱う hook。
+ *
+ * Supabase 未設定時は localStorage に保存するため、デモ環境でも動作する。
+ *
+ * @returns 旅程一覧・状態・保存/更新/削除関数
+ * @example
+ * const { plans, savePlan } = useTripPlans();
+ */
+export function useTripPlans() {
+  const { user, status: authStatus } = useAuthSession();
+  const ownerId = user?.id ?? null;
+  const [state, setState] = useState<{ ownerId: string | null; status: TripPlansStatus; plans: TripPlan[] }>({
+    ownerId: null,
+    status: "idle",
+    plans: [],
+  });
+
+  useEffect(() => {
+    if (authStatus === "loading" || !ownerId) return;
+
+    let cancelled = false;
+    loadTripPlans(ownerId)
+      .then((loaded) => {
+        if (!cancelled) setState({ ownerId, status: "ready", plans: loaded });
+      })
+      .catch((error) => {
+        console.error("[trip-plans] load failed", error);
+        if (!cancelled) setState({ ownerId, status: "error", plans: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authStatus, ownerId]);
+
+  const isOwnedState = ownerId !== null && state.ownerId === ownerId;
+  const plans = isOwnedState ? state.plans : [];
+  const status: TripPlansStatus = isOwnedState ? state.status : ownerId ? "loading" : "idle";
+  const setPlans = useCallback(
+    (update: (current: TripPlan[]) => TripPlan[]) => {
+      setState((current) => ({
+        ownerId,
+        status: "ready",
+        plans: update(current.ownerId === ownerId ? current.plans : []),
+      }));
+    },
+    [ownerId]
+  );
+
+  const savePlan = useCallback(
+    async (input: TripPlanInput): Promise<TripPlan> => {
+      if (!ownerId) throw new Error("Authentication required.");
+      let plan: TripPlan;
+      if (isSupabaseAuthConfigured()) {
+        const response = await requestTripPlans("/api/itineraries", {
+          method: "POST",
+          body: JSON.stringify(input),
+        });
+        plan = (await response.json()) as TripPlan;
+      } else {
+        const now = new Date().toISOString();
+        const current = readLocalPlans(ownerId);
+        plan = {
+          id: current.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+          user_id: 0,
+          ...input,
+          created_at: now,
+          updated_at: now,
+        };
+        writeLocalPlans(ownerId, [plan, ...current]);
+      }
+      setPlans((current) => [plan, ...current]);
+      return plan;
+    },
+    [ownerId, setPlans]
+  );
+
+  const updatePlan = useCallback(
+    async (planId: number, input: Partial<TripPlanInput>): Promise<TripPlan> => {
+      if (!ownerId) throw new Error("Authentication required.");
+      let plan: TripPlan;
+      if (isSupabaseAuthConfigured()) {
+        const response = await requestTripPlans(`/api/itineraries/${planId}`, {
+          method: "PATCH",
+          body: JSON.stringify(input),
+        });
+        plan = (await response.json()) as TripPlan;
+      } else {
+        const current = readLocalPlans(ownerId);
+        const existing = current.find((item) => item.id === planId);
+        if (!existing) throw new Error("Trip plan not found.");
+        plan = { ...existing, ...input, updated_at: new Date().toISOString() };
+        writeLocalPlans(ownerId, [plan, ...current.filter((item) => item.id !== planId)]);
+      }
+      setPlans((current) => [plan, ...current.filter((item) => item.id !== planId)]);
+      return plan;
+    },
+    [ownerId, setPlans]
+  );
+
+  const deletePlan = useCallback(
+    async (planId: number): Promise<void> => {
+      if (!ownerId) throw new Error("Authentication required.");
+      if (isSupabaseAuthConfigured()) {
+        await requestTripPlans(`/api/itineraries/${planId}`, { method: "DELETE" });
+      } else {
+        writeLocalPlans(
+          ownerId,
+          readLocalPlans(ownerId).filter((item) => item.id !== planId)
+        );
+      }
+      setPlans((current) => current.filter((item) => item.id !== planId));
+    },
+    [ownerId, setPlans]
+  );
+
+  return {
+    plans,
+    status,
+    isAuthenticated: Boolean(ownerId),
+    savePlan,
+    updatePlan,
+    deletePlan,
+  };
+}
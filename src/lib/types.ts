@@ -36,7 +36,41 @@ export type Stamp = {
   id: number;
   user_id: number;
   spot_id: number;
+  /** サーバーで発行した日時 */
   created_at: string;
+  /** 端末で測位した日時（オフラインで記録して後から送った場合のみ。ラリーの順序・期間判定で優先する） */
+  captured_at?: string | null;
+};
+
+export type Favorite = {
+  id: number;
+  user_id: number;
+  spot_id: number;
+  created_at: string;
+};
+
+export type TripPlan = {
+  id: number;
+  user_id: number;
+  name: string;
+  /** 訪問順のスポット ID */
+  spot_ids: number[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type TripPlanInput = Pick<TripPlan, "name" | "spot_ids">;
+
+export type Rally = {
+  id: number;
+  title: string;
+  description?: string | null;
+  /** 対象スポット ID（`is_ordered` の場合はこの並び順で巡る） */
+  spot_ids: number[];
+  is_ordered: boolean;
+  start_date?: string | null;
+  end_date?: string | null;
+  badge_label?: string | null;
 };
 
 export type User = {
@@ -57,6 +91,16 @@ export type Event = {
   start_date?: string | null;
   end_date?: string | null;
   city_id?: number | null;
+  /** 会場の緯度（未確定なら null） */
+  lat?: number | null;
+  /** 会場の経度（未確定なら null） */
+  lng?: number | null;
+  /** 会場・関連スポット ID（先頭を主会場として扱う） */
+  spot_ids?: number[] | null;
+  /** 繰り返しルール（RRULE 形式。`start_date` / `end_date` が初回。単発なら null） */
+  recurrence_rule?: string | null;
+  /** 繰り返しから除く回の開始日（`YYYY-MM-DD`） */
+  recurrence_exdates?: string[] | null;
 };
 
 export type CharacterRenderProfile = {
@@ -116,10 +160,14 @@ export type AdminSpotCreateInput = Omit<Spot, "id">;
 
 export type AdminEventCreateInput = Omit<Event, "id">;
 
+export type AdminRallyCreateInput = Omit<Rally, "id">;
+
 export type AdminSpotUpdateInput = Partial<AdminSpotCreateInput>;
 
 export type AdminEventUpdateInput = Partial<AdminEventCreateInput>;
 
+export type AdminRallyUpdateInput = Partial<AdminRallyCreateInput>;
+
 export type AdminListPage<T> = {
   items: T[];
   total: number;
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { auth } from "@/auth";
+import { deriveDisplayName, fetchAppUserByIdentity, getServerAdminClient } from "@/lib/authServer";
+import type { User } from "@/lib/types";
+
+type UserAccessResult =
+  | {
+      currentUser: User;
+      db: SupabaseClient | null;
+      response?: never;
+    }
+  | {
+      currentUser?: never;
+      db?: never;
+      response: NextResponse<{ error: string }>;
+    };
+
+/**
+ * 一般ユーザー向け API のログイン状態を検証する。
+ *
+ * Supabase 未設定時（モックモード）は id 0 の仮ユーザーと `db: null` を返し、
+ * 呼び出し側はモックストアで処理を継続できる。
+ *
+ * @returns ログインユーザーと書き込み用 client、またはエラーレスポンス
+ * @example
+ * const access = await requireUserApiAccess();
+ */
+export async function requireUserApiAccess(): Promise<UserAccessResult> {
+  const session = await auth();
+  const identityId = session?.user?.id;
+  if (!identityId) {
+    return {
+      response: NextResponse.json({ error: "Authentication required." }, { status: 401 }),
+    };
+  }
+
+  const db = getServerAdminClient();
+  if (!db) {
+    return {
+      currentUser: {
+        id: 0,
+        auth_id: identityId,
+        email: session.user.email ?? null,
+        role: session.user.role ?? "user",
+        display_name: deriveDisplayName({ identityId, email: session.user.email, name: session.user.name }),
+        created_at: new Date().toISOString(),
+      },
+      db: null,
+    };
+  }
+
+  const currentUser = await fetchAppUserByIdentity(identityId);
+  if (!currentUser) {
+    return {
+      response: NextResponse.json({ error: "Profile not found." }, { status: 403 }),
+    };
+  }
+
+  return { currentUser, db };
+}
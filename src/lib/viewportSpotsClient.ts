@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  containsBoundingBox,
+  formatBoundingBox,
+  isWithinBounds,
+  padBoundingBox,
+  type BoundingBox,
+} from "@/lib/geo";
+import type { Spot } from "@/lib/types";
+
+/** 地図移動が落ち着いてから読み込むまでの待ち時間（ms） */
+const VIEWPORT_LOAD_DEBOUNCE_MS = 300;
+/** 先読みのため表示範囲の周囲に足す割合 */
+const VIEWPORT_LOAD_PADDING = 0.5;
+
+type SpotsInBoundsResponse = {
+  items: Spot[];
+  truncated: boolean;
+};
+
+/**
+ * 地図の表示範囲に合わせてスポットを `/api/spots` から読み込む hook。
+ *
+ * 表示範囲より一回り広く取得し、取得済み範囲の内側を動いている間は再取得しない。
+ * 読み込んだスポットは ID ごとに保持し、表示範囲内のものだけを返す。
+ * 上限で打ち切られた範囲は、ズームや移動のたびに取り直す。
+ *
+ * @param bounds - 現在の表示範囲（未確定なら null）
+ * @param enabled - 読み込みを行うか
+ * @returns 表示範囲内のスポット・打ち切り有無・読み込み状態・エラー
+ * @example
+ * const { spots, truncated } = useViewportSpots(viewportBounds, showAllSpots);
+ */
+export function useViewportSpots(bounds: BoundingBox | null, enabled: boolean) {
+  const [cache, setCache] = useState<Map<number, Spot>>(() => new Map());
+  const [truncated, setTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const loadedBoundsRef = useRef<BoundingBox | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !bounds) return;
+    if (loadedBoundsRef.current && containsBoundingBox(loadedBoundsRef.current, bounds)) return;
+
+    const controller = new AbortController();
+    const target = padBoundingBox(bounds, VIEWPORT_LOAD_PADDING);
+    const timer = window.setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const query = new URLSearchParams({ bbox: formatBoundingBox(target) });
+        const response = await fetch(`/api/spots?${query.toString()}`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`spots api error: ${response.status}`);
+        }
+        const payload = (await response.json()) as SpotsInBoundsResponse;
+        setCache((current) => {
+          const next = new Map(current);
+          payload.items.forEach((spot) => next.set(spot.id, spot));
+          return next;
+        });
+        setTruncated(payload.truncated);
+        setError(null);
+        loadedBoundsRef.current = payload.truncated ? null : target;
+      } catch (loadError) {
+        if (controller.signal.aborted) return;
+        console.error("[map] viewport spots load failed", loadError);
+        setError("表示範囲のスポットを読み込めませんでした。");
+      } finally {
+        setIsLoading(false);
+      }
+    }, VIEWPORT_LOAD_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [bounds, enabled]);
+
+  const spots = useMemo(() => {
+    if (!bounds) return [];
+    return Array.from(cache.values()).filter((spot) => isWithinBounds(spot, bounds));
+  }, [bounds, cache]);
+
+  return { spots, truncated, isLoading, error };
+}